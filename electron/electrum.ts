@@ -0,0 +1,72 @@
+import tls from 'tls';
+
+// Read-only Electrum protocol client. The renderer cannot open sockets, so
+// balance lookups on Electrum servers run here, one TLS connection per call.
+
+const REQUEST_TIMEOUT = 15000;
+
+// Methods the renderer may call; all of them only read public chain data
+export const ELECTRUM_METHODS = [
+  'blockchain.scripthash.get_balance',
+  'blockchain.scripthash.get_history',
+];
+
+/**
+ * Send one request to an Electrum server ("host:port", TLS) and return its result
+ */
+export function electrumRequest(server: string, method: string, params: any[]): Promise<any> {
+  const separator = server.lastIndexOf(':');
+  const host = server.slice(0, separator);
+  const port = Number(server.slice(separator + 1));
+
+  return new Promise((resolve, reject) => {
+    let buffer = '';
+    let settled = false;
+
+    const finish = (error: Error | null, result?: any) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      if (error) reject(error);
+      else resolve(result);
+    };
+
+    const socket = tls.connect({ host, port, servername: host }, () => {
+      // Servers expect the protocol version to be negotiated first
+      socket.write(
+        JSON.stringify({ jsonrpc: '2.0', id: 0, method: 'server.version', params: ['Nexus Wallet Manager', '1.4'] }) + '\n' +
+        JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }) + '\n'
+      );
+    });
+
+    socket.setEncoding('utf8');
+    socket.setTimeout(REQUEST_TIMEOUT, () => finish(new Error(`${server} timed out`)));
+    socket.on('error', error => finish(error));
+    socket.on('close', () => finish(new Error(`${server} closed the connection`)));
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (!line) continue;
+
+        let message: any;
+        try {
+          message = JSON.parse(line);
+        } catch {
+          finish(new Error(`${server} sent an invalid response`));
+          return;
+        }
+        if (message.id !== 1) continue;
+
+        if (message.error) {
+          finish(new Error(message.error.message || `Electrum error ${message.error.code}`));
+        } else {
+          finish(null, message.result);
+        }
+      }
+    });
+  });
+}
@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import { keccak_256 } from '@noble/hashes/sha3';
+
+// Web3 Secret Storage (keystore v3). The export password alone derives the
+// key, so a keystore opens on any install and in other wallets: the first 16
+// bytes of the derived key encrypt with AES-128-CTR, the last 16 authenticate
+// the ciphertext through keccak256.
+
+// geth's "standard" scrypt cost
+const SCRYPT_PARAMS = { n: 2 ** 18, r: 8, p: 1, dklen: 32 };
+
+export interface KeystoreCipherData {
+  cipher: 'aes-128-ctr';
+  cipherparams: { iv: string };
+  ciphertext: string;
+  mac: string;
+}
+
+export interface KeystoreCrypto extends KeystoreCipherData {
+  kdf: 'scrypt' | 'pbkdf2';
+  kdfparams: any;
+}
+
+function deriveKey(password: string, kdf: string, params: any): Buffer {
+  const salt = Buffer.from(params.salt, 'hex');
+  const secret = password.normalize('NFKC');
+
+  if (kdf === 'scrypt') {
+    return crypto.scryptSync(secret, salt, params.dklen, {
+      N: params.n,
+      r: params.r,
+      p: params.p,
+      maxmem: 256 * params.n * params.r,
+    });
+  }
+  if (kdf === 'pbkdf2' && params.prf === 'hmac-sha256') {
+    return crypto.pbkdf2Sync(secret, salt, params.c, params.dklen, 'sha256');
+  }
+  throw new Error(`Unsupported keystore KDF: ${kdf}`);
+}
+
+function mac(key: Buffer, ciphertext: Buffer): string {
+  return Buffer.from(keccak_256(Buffer.concat([key.subarray(16, 32), ciphertext]))).toString('hex');
+}
+
+function seal(key: Buffer, plaintext: Buffer): KeystoreCipherData {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-128-ctr', key.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: iv.toString('hex') },
+    ciphertext: ciphertext.toString('hex'),
+    mac: mac(key, ciphertext),
+  };
+}
+
+function open(key: Buffer, sealed: KeystoreCipherData): Buffer {
+  if (sealed.cipher !== 'aes-128-ctr') {
+    throw new Error(`Unsupported keystore cipher: ${sealed.cipher}`);
+  }
+
+  const ciphertext = Buffer.from(sealed.ciphertext, 'hex');
+  const expected = Buffer.from(mac(key, ciphertext), 'hex');
+  const actual = Buffer.from(sealed.mac, 'hex');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    throw new Error('Wrong keystore password');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-128-ctr', key.subarray(0, 16), Buffer.from(sealed.cipherparams.iv, 'hex'));
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Encrypt a private key, and optionally the mnemonic it came from, under an
+ * export password with a fresh salt
+ */
+export function encryptKeystore(password: string, privateKey: Buffer, mnemonic?: string) {
+  const kdfparams = { ...SCRYPT_PARAMS, salt: crypto.randomBytes(32).toString('hex') };
+  const key = deriveKey(password, 'scrypt', kdfparams);
+
+  return {
+    crypto: { ...seal(key, privateKey), kdf: 'scrypt', kdfparams } as KeystoreCrypto,
+    // Sealed with the same key under its own IV
+    mnemonic: mnemonic ? seal(key, Buffer.from(mnemonic, 'utf8')) : undefined,
+  };
+}
+
+/**
+ * Decrypt a keystore's private key and mnemonic. Throws on a wrong password.
+ */
+export function decryptKeystore(password: string, data: KeystoreCrypto, mnemonic?: KeystoreCipherData) {
+  const key = deriveKey(password, data.kdf, data.kdfparams);
+
+  return {
+    privateKey: open(key, data),
+    mnemonic: mnemonic ? open(key, mnemonic).toString('utf8') : undefined,
+  };
+}
@@ -7,16 +7,58 @@ import CryptoJS from 'crypto-js';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import os from 'os';
+import { randomUUID } from 'crypto';
+import { computeAddress } from 'ethers';
+import {
+  VAULT_FORMAT_VERSION,
+  KdfParams,
+  createKdfParams,
+  deriveVaultKey,
+  encryptField,
+  decryptField,
+  isLegacyCiphertext,
+  decryptLegacy,
+  createKeyCheck,
+  verifyKeyCheck,
+} from './vault';
+import { encryptKeystore, decryptKeystore } from './keystore';
+import { runMigrations, removeDatabaseBackups, WALLET_MIGRATIONS, IDENTITY_MIGRATIONS } from './migrations';
+import { seedFingerprint, seedFromText, fingerprintFromMasterKey } from './seeds';
+import { electrumRequest, ELECTRUM_METHODS } from './electrum';
+import {
+  Ed25519Keypair,
+  deriveEd25519,
+  toSolanaAddress,
+  toSolanaSecretKey,
+  isValidSolanaAddress,
+} from '../src/services/slip10';
+import { parseMoneroSpendKey } from '../src/services/monero';
+import { validatePathTemplate } from '../src/services/pathTemplates';
+import { validateCustomChain, normalizeCustomChain, verifyCustomChainRpc } from '../src/services/customChains';
+import { CHAIN_CONFIGS, getCustomChainKey } from '../src/services/chainRegistry';
+import { validateRpcNode, normalizeRpcNode } from '../src/services/rpcNodes';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 let mainWindow: BrowserWindow | null = null;
 let db: Database.Database | null = null;
-let encryptionKey: string | null = null;
+let vaultKey: Buffer | null = null;
 let currentIdentityId: string | null = null;
 let identityDb: Database.Database | null = null;
 
+// Secret reveal policy: a password is required unless the vault was unlocked recently
+const RECENT_UNLOCK_WINDOW_MS = 2 * 60 * 1000;
+const MAX_REVEALS_PER_WINDOW = 10;
+const REVEAL_WINDOW_MS = 60 * 1000;
+const MAX_FAILED_REVEAL_ATTEMPTS = 5;
+const REVEAL_LOCKOUT_MS = 5 * 60 * 1000;
+
+let lastUnlockAt = 0;
+let revealTimestamps: number[] = [];
+let failedRevealAttempts = 0;
+let revealLockedUntil = 0;
+
 // Identity management
 function initIdentityDatabase() {
   try {
@@ -26,26 +68,8 @@ function initIdentityDatabase() {
     identityDb = new Database(identityDbPath);
     identityDb.pragma('journal_mode = WAL');
     
-    // Create identities table
-    identityDb.exec(`
-      CREATE TABLE IF NOT EXISTS identities (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL UNIQUE,
-        password_hash TEXT NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        last_accessed DATETIME DEFAULT CURRENT_TIMESTAMP,
-        is_active BOOLEAN DEFAULT 0
-      );
-      
-      CREATE TABLE IF NOT EXISTS settings (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        key TEXT UNIQUE NOT NULL,
-        value TEXT NOT NULL
-      );
-      
-      CREATE INDEX IF NOT EXISTS idx_identities_name ON identities(name);
-      CREATE INDEX IF NOT EXISTS idx_settings_key ON settings(key);
-    `);
+    runMigrations(identityDb, identityDbPath, IDENTITY_MIGRATIONS);
+    discardBackups(identityDbPath);
     
     console.log('Identity database initialized');
     return true;
@@ -66,106 +90,386 @@ function initDatabase(password: string, identityId?: string) {
     const dbPath = path.join(userDataPath, dbName);
     console.log('Database path:', dbPath);
     
+    vaultKey = null;
     db = new Database(dbPath);
     
     // Enable WAL mode for better performance
     db.pragma('journal_mode = WAL');
   
-  // Create tables
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS settings (
-      id INTEGER PRIMARY KEY,
-      key TEXT UNIQUE NOT NULL,
-      value TEXT NOT NULL
-    );
-    
-    CREATE TABLE IF NOT EXISTS wallets (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      mnemonic_encrypted TEXT NOT NULL,
-      chain TEXT NOT NULL,
-      derivation_path TEXT NOT NULL,
-      public_key TEXT NOT NULL,
-      address TEXT NOT NULL,
-      private_key_encrypted TEXT NOT NULL,
-      master_key_encrypted TEXT,
-      balance TEXT DEFAULT '0',
-      last_checked DATETIME,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      metadata TEXT
-    );
-    
-    CREATE TABLE IF NOT EXISTS transactions (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      wallet_id INTEGER NOT NULL,
-      tx_hash TEXT NOT NULL,
-      type TEXT NOT NULL,
-      amount TEXT NOT NULL,
-      fee TEXT,
-      status TEXT NOT NULL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      metadata TEXT,
-      FOREIGN KEY (wallet_id) REFERENCES wallets(id)
-    );
+    // Create or upgrade the schema
+    runMigrations(db, dbPath, WALLET_MIGRATIONS);
     
-    CREATE TABLE IF NOT EXISTS rpc_nodes (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      chain TEXT NOT NULL,
-      url TEXT NOT NULL,
-      name TEXT,
-      is_active BOOLEAN DEFAULT 1,
-      priority INTEGER DEFAULT 0,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    );
+    // Derive the vault key (creating or upgrading the vault if needed)
+    vaultKey = unlockVault(db, password);
+    discardBackups(dbPath);
+    currentIdentityId = identityId || 'default';
+    lastUnlockAt = Date.now();
+    revealTimestamps = [];
+    failedRevealAttempts = 0;
+    revealLockedUntil = 0;
     
-    CREATE INDEX IF NOT EXISTS idx_wallets_chain ON wallets(chain);
-    CREATE INDEX IF NOT EXISTS idx_wallets_public_key ON wallets(public_key);
-    CREATE INDEX IF NOT EXISTS idx_wallets_address ON wallets(address);
-    CREATE INDEX IF NOT EXISTS idx_transactions_wallet ON transactions(wallet_id);
-  `);
+    console.log('Database initialized successfully');
+    return true;
+  } catch (error) {
+    console.error('Database initialization error:', error);
+    if (db) {
+      db.close();
+      db = null;
+    }
+    throw error;
+  }
+}
 
-  // Migration: Add address column if it doesn't exist and populate it
+// The backups only matter until a migrated database has opened
+function discardBackups(dbPath: string) {
   try {
-    // Check if address column exists
-    const columns = db.prepare("PRAGMA table_info(wallets)").all() as any[];
-    const hasAddressColumn = columns.some(col => col.name === 'address');
+    removeDatabaseBackups(dbPath);
+  } catch (error) {
+    console.warn(`Could not remove backups of ${dbPath}:`, error);
+  }
+}
+
+// Settings helpers
+function getSetting(database: Database.Database, key: string): string | null {
+  const row = database.prepare('SELECT value FROM settings WHERE key = ?').get(key) as any;
+  return row ? row.value : null;
+}
+
+function setSetting(database: Database.Database, key: string, value: string) {
+  database.prepare('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)').run(key, value);
+}
+
+// Vault key management
+function unlockVault(database: Database.Database, password: string): Buffer {
+  const kdfSetting = getSetting(database, 'vault_kdf');
+  
+  if (kdfSetting) {
+    const key = deriveVaultKey(password, JSON.parse(kdfSetting) as KdfParams);
+    const keyCheck = getSetting(database, 'vault_key_check');
+    if (!keyCheck || !verifyKeyCheck(key, keyCheck)) {
+      throw new Error('Invalid password');
+    }
+    migrateWalletSeeds(database, key);
+    repairSolanaWallets(database, key);
+    detachMoneroKeySeeds(database, key);
+    return key;
+  }
+  
+  // No KDF parameters yet: either a brand new database or a legacy SHA-256 vault
+  const passwordHash = getSetting(database, 'password_hash');
+  if (passwordHash && !bcrypt.compareSync(password, passwordHash)) {
+    throw new Error('Invalid password');
+  }
+  
+  const params = createKdfParams();
+  const key = deriveVaultKey(password, params);
+  
+  database.transaction(() => {
+    if (!passwordHash) {
+      // password_hash always lives in row 1
+      database.prepare('INSERT OR REPLACE INTO settings (id, key, value) VALUES (1, ?, ?)')
+        .run('password_hash', bcrypt.hashSync(password, 10));
+    }
     
-    if (!hasAddressColumn) {
-      console.log('Adding address column to existing wallets table...');
-      db.exec('ALTER TABLE wallets ADD COLUMN address TEXT');
+    migrateLegacyVault(database, password, key);
+    
+    setSetting(database, 'vault_kdf', JSON.stringify(params));
+    setSetting(database, 'vault_key_check', createKeyCheck(key));
+    setSetting(database, 'vault_format', String(VAULT_FORMAT_VERSION));
+  })();
+  
+  migrateWalletSeeds(database, key);
+  repairSolanaWallets(database, key);
+  detachMoneroKeySeeds(database, key);
+  return key;
+}
+
+// Every encrypted column in the wallets database, with the field name bound as AAD
+const VAULT_SECRET_COLUMNS = [
+  { table: 'seeds', column: 'mnemonic_encrypted', field: 'mnemonic' },
+  { table: 'wallets', column: 'mnemonic_encrypted', field: 'mnemonic' },
+  { table: 'wallets', column: 'private_key_encrypted', field: 'private_key' },
+  { table: 'wallets', column: 'master_key_encrypted', field: 'master_key' },
+];
+
+// Re-encrypt every legacy CryptoJS column with the new vault key
+function migrateLegacyVault(database: Database.Database, password: string, key: Buffer) {
+  let migrated = 0;
+  
+  for (const { table, column, field } of VAULT_SECRET_COLUMNS) {
+    const rows = database.prepare(`SELECT id, ${column} AS value FROM ${table} WHERE ${column} IS NOT NULL`).all() as any[];
+    const update = database.prepare(`UPDATE ${table} SET ${column} = ? WHERE id = ?`);
+    
+    for (const row of rows) {
+      if (!isLegacyCiphertext(row.value)) continue;
+      update.run(encryptField(key, decryptLegacy(password, row.value), field), row.id);
+      migrated++;
+    }
+  }
+  
+  if (migrated > 0) {
+    console.log(`Migrated ${migrated} field(s) to vault format v${VAULT_FORMAT_VERSION}`);
+  }
+}
+
+// Return the seed holding this mnemonic, creating it if needed. Fingerprints are
+// only 32 bits, so a fingerprint match is confirmed against the stored mnemonic.
+function findOrCreateSeed(
+  database: Database.Database,
+  key: Buffer,
+  mnemonic: string,
+  fingerprint: string,
+  hasPassphrase: boolean,
+  label?: string
+): number {
+  const candidates = database.prepare('SELECT id, mnemonic_encrypted FROM seeds WHERE fingerprint = ?').all(fingerprint) as any[];
+  const existing = candidates.find(seed => decryptField(key, seed.mnemonic_encrypted, 'mnemonic') === mnemonic);
+  if (existing) return existing.id;
+  
+  const result = database.prepare(
+    'INSERT INTO seeds (fingerprint, label, mnemonic_encrypted, has_passphrase) VALUES (?, ?, ?, ?)'
+  ).run(fingerprint, label || null, encryptField(key, mnemonic, 'mnemonic'), hasPassphrase ? 1 : 0);
+  
+  return Number(result.lastInsertRowid);
+}
+
+// Move mnemonics still stored on wallet rows into de-duplicated seeds. Passphrases
+// were never stored, so the fingerprint comes from the wallet's master key when
+// present; a mismatch with the bare mnemonic means a passphrase was used.
+function migrateWalletSeeds(database: Database.Database, key: Buffer) {
+  const rows = database.prepare(
+    'SELECT id, mnemonic_encrypted, master_key_encrypted FROM wallets WHERE mnemonic_encrypted IS NOT NULL'
+  ).all() as any[];
+  if (rows.length === 0) return;
+  
+  const bareFingerprints = new Map<string, string>();
+  const update = database.prepare('UPDATE wallets SET seed_id = ?, mnemonic_encrypted = NULL WHERE id = ?');
+  
+  database.transaction(() => {
+    for (const row of rows) {
+      const mnemonic = decryptField(key, row.mnemonic_encrypted, 'mnemonic').trim();
+      if (!mnemonic) {
+        // Wallets imported from a bare private key were stored with an empty mnemonic
+        update.run(null, row.id);
+        continue;
+      }
+      
+      if (!bareFingerprints.has(mnemonic)) {
+        bareFingerprints.set(mnemonic, seedFingerprint(mnemonic));
+      }
+      const bareFingerprint = bareFingerprints.get(mnemonic)!;
+      const masterFingerprint = row.master_key_encrypted
+        ? fingerprintFromMasterKey(decryptField(key, row.master_key_encrypted, 'master_key'))
+        : null;
+      const fingerprint = masterFingerprint || bareFingerprint;
+      
+      update.run(findOrCreateSeed(database, key, mnemonic, fingerprint, fingerprint !== bareFingerprint), row.id);
+    }
+  })();
+  
+  console.log(`Moved ${rows.length} wallet mnemonic(s) into seeds`);
+}
+
+// Solana wallets stored before SLIP-10 support were derived on secp256k1 and saved a
+// truncated hex public key as their address. Re-derive them from their seed; wallets
+// whose seed used a passphrase (never stored) are flagged for re-import instead.
+function repairSolanaWallets(database: Database.Database, key: Buffer) {
+  const rows = database.prepare(`
+    SELECT w.id, w.seed_id, w.derivation_path, w.public_key, w.address, w.metadata, s.mnemonic_encrypted, s.has_passphrase
+    FROM wallets w LEFT JOIN seeds s ON s.id = w.seed_id
+    WHERE w.chain = 'SOL'
+  `).all() as any[];
+  
+  // The old address was the first 44 hex characters of the public key. Some of
+  // those also decode as 32 bytes of base58, so address validity alone misses them.
+  const broken = rows.filter(row =>
+    (row.address === row.public_key?.slice(0, 44) || !isValidSolanaAddress(row.address))
+    && !JSON.parse(row.metadata || '{}').needsReimport
+  );
+  if (broken.length === 0) return;
+  
+  const seeds = new Map<number, Uint8Array>();
+  const findDuplicate = database.prepare("SELECT id FROM wallets WHERE chain = 'SOL' AND address = ? AND id != ?");
+  const moveTransactions = database.prepare('UPDATE transactions SET wallet_id = ? WHERE wallet_id = ?');
+  const deleteWallet = database.prepare('DELETE FROM wallets WHERE id = ?');
+  const updateKeys = database.prepare(`
+    UPDATE wallets SET public_key = ?, address = ?, private_key_encrypted = ?,
+      balance = '0', last_checked = NULL, metadata = ?
+    WHERE id = ?
+  `);
+  const updateMetadata = database.prepare('UPDATE wallets SET metadata = ? WHERE id = ?');
+  let repaired = 0;
+  
+  const repair = database.transaction(() => {
+    for (const row of broken) {
+      const metadata = JSON.parse(row.metadata || '{}');
+      let keypair: Ed25519Keypair | null = null;
+      
+      if (row.mnemonic_encrypted && !row.has_passphrase) {
+        try {
+          if (!seeds.has(row.seed_id)) {
+            seeds.set(row.seed_id, seedFromText(decryptField(key, row.mnemonic_encrypted, 'mnemonic')));
+          }
+          keypair = deriveEd25519(seeds.get(row.seed_id)!, row.derivation_path);
+        } catch (error) {
+          console.warn(`Cannot re-derive SOL wallet ${row.id}:`, error);
+        }
+      }
       
-      // Update existing wallets to set address = public_key as fallback
-      db.prepare('UPDATE wallets SET address = public_key WHERE address IS NULL OR address = ""').run();
+      if (!keypair) {
+        updateMetadata.run(JSON.stringify({ ...metadata, needsReimport: true }), row.id);
+        continue;
+      }
+      
+      const address = toSolanaAddress(keypair.publicKey);
+      const duplicate = findDuplicate.get(address, row.id) as any;
+      if (duplicate) {
+        // transactions.wallet_id references wallets, so its rows follow the wallet that stays
+        moveTransactions.run(duplicate.id, row.id);
+        deleteWallet.run(row.id);
+        continue;
+      }
+      
+      updateKeys.run(
+        Buffer.from(keypair.publicKey).toString('hex'),
+        address,
+        encryptField(key, toSolanaSecretKey(keypair), 'private_key'),
+        JSON.stringify({ ...metadata, curve: 'ed25519', derivation: 'slip10' }),
+        row.id
+      );
+      repaired++;
     }
-  } catch (migrationError) {
-    console.warn('Migration warning:', migrationError);
+  });
+  
+  // A failed repair rolls back and must not stop the vault from unlocking
+  try {
+    repair();
+  } catch (error) {
+    console.error('Solana wallet repair failed:', error);
+    return;
   }
   
-  // Store password hash
-  const passwordHash = bcrypt.hashSync(password, 10);
-  db.prepare('INSERT OR REPLACE INTO settings (id, key, value) VALUES (1, ?, ?)').run('password_hash', passwordHash);
+  console.log(`Re-derived ${repaired} of ${broken.length} invalid Solana wallet(s)`);
+}
+
+// Monero spend keys used to be stored as seeds as if they were mnemonics. The
+// XMR wallet already holds the spend key as its private key, so those wallets
+// become standalone and the seed rows go.
+function detachMoneroKeySeeds(database: Database.Database, key: Buffer) {
+  const seeds = database.prepare('SELECT id, mnemonic_encrypted FROM seeds').all() as any[];
+  const keySeeds = seeds.filter(seed => {
+    try {
+      return parseMoneroSpendKey(decryptField(key, seed.mnemonic_encrypted, 'mnemonic')) !== null;
+    } catch {
+      return false;
+    }
+  });
+  if (keySeeds.length === 0) return;
   
-    // Generate encryption key from password
-    encryptionKey = CryptoJS.SHA256(password).toString();
-    currentIdentityId = identityId || 'default';
-    
-    console.log('Database initialized successfully');
-    return true;
+  const detach = database.prepare('UPDATE wallets SET seed_id = NULL WHERE seed_id = ?');
+  const deleteSeed = database.prepare('DELETE FROM seeds WHERE id = ?');
+  try {
+    database.transaction(() => {
+      for (const seed of keySeeds) {
+        detach.run(seed.id);
+        deleteSeed.run(seed.id);
+      }
+    })();
+    console.log(`Detached ${keySeeds.length} Monero spend key(s) from the seeds table`);
   } catch (error) {
-    console.error('Database initialization error:', error);
-    throw error;
+    console.error('Detaching Monero spend keys failed:', error);
   }
 }
 
+// Seeds whose wallets have all been deleted would otherwise keep their mnemonic around
+function pruneOrphanSeeds(database: Database.Database) {
+  database.prepare('DELETE FROM seeds WHERE id NOT IN (SELECT seed_id FROM wallets WHERE seed_id IS NOT NULL)').run();
+}
+
+// Re-encrypt the whole vault under a new password. Everything happens in one
+// SQLite transaction, so an interrupted rotation leaves the old vault intact.
+function rotateVault(database: Database.Database, oldKey: Buffer, newPassword: string): Buffer {
+  const params = createKdfParams();
+  const newKey = deriveVaultKey(newPassword, params);
+  
+  database.transaction(() => {
+    for (const { table, column, field } of VAULT_SECRET_COLUMNS) {
+      const rows = database.prepare(`SELECT id, ${column} AS value FROM ${table} WHERE ${column} IS NOT NULL`).all() as any[];
+      const update = database.prepare(`UPDATE ${table} SET ${column} = ? WHERE id = ?`);
+      
+      for (const row of rows) {
+        update.run(encryptField(newKey, decryptField(oldKey, row.value, field), field), row.id);
+      }
+    }
+    
+    database.prepare('INSERT OR REPLACE INTO settings (id, key, value) VALUES (1, ?, ?)')
+      .run('password_hash', bcrypt.hashSync(newPassword, 10));
+    setSetting(database, 'vault_kdf', JSON.stringify(params));
+    setSetting(database, 'vault_key_check', createKeyCheck(newKey));
+  })();
+  
+  return newKey;
+}
+
+// Remove the stored biometric unlock blob for an identity
+function clearBiometricSettings(identityId: string) {
+  if (!identityDb) return;
+  
+  identityDb.prepare('DELETE FROM settings WHERE key = ?').run(`biometric_enabled_${identityId}`);
+  identityDb.prepare('DELETE FROM settings WHERE key = ?').run(`biometric_key_${identityId}`);
+  identityDb.prepare('DELETE FROM settings WHERE key = ?').run(`biometric_password_${identityId}`);
+}
+
+// Bring the identity record in line with the password that just unlocked its vault.
+// This finishes a password change that was interrupted after the vault was rotated.
+function reconcileIdentityPassword(identityId: string, password: string) {
+  if (!identityDb) return;
+  
+  const identity = identityDb.prepare('SELECT password_hash FROM identities WHERE id = ?').get(identityId) as any;
+  if (!identity) return;
+  
+  identityDb.transaction(() => {
+    if (!bcrypt.compareSync(password, identity.password_hash)) {
+      identityDb!.prepare('UPDATE identities SET password_hash = ? WHERE id = ?')
+        .run(bcrypt.hashSync(password, 10), identityId);
+      // Any stored biometric blob still holds the previous password
+      clearBiometricSettings(identityId);
+    }
+    identityDb!.prepare('DELETE FROM settings WHERE key = ?').run(`password_rotation_${identityId}`);
+  })();
+}
+
 // Encryption utilities
-function encrypt(text: string): string {
-  if (!encryptionKey) throw new Error('Encryption key not set');
-  return CryptoJS.AES.encrypt(text, encryptionKey).toString();
+function encrypt(text: string, field: string): string {
+  if (!vaultKey) throw new Error('Vault is locked');
+  return encryptField(vaultKey, text, field);
 }
 
-function decrypt(ciphertext: string): string {
-  if (!encryptionKey) throw new Error('Encryption key not set');
-  const bytes = CryptoJS.AES.decrypt(ciphertext, encryptionKey);
-  return bytes.toString(CryptoJS.enc.Utf8);
+function decrypt(ciphertext: string, field: string): string {
+  if (!vaultKey) throw new Error('Vault is locked');
+  return decryptField(vaultKey, ciphertext, field);
+}
+
+// Keystore files written before exports had their own password hold the
+// fields as vault or legacy ciphertext strings instead of keystore v3 crypto
+function openKeystoreFile(data: any, password: string): { privateKey: string; mnemonic: string | null } {
+  const ciphertext = data.crypto.ciphertext;
+  if (isLegacyCiphertext(ciphertext) || ciphertext.startsWith('v2:')) {
+    const openField = (value: string, field: string) =>
+      isLegacyCiphertext(value) ? decryptLegacy(password, value) : decrypt(value, field);
+    return {
+      privateKey: openField(ciphertext, 'private_key'),
+      mnemonic: data.nexus?.mnemonic ? openField(data.nexus.mnemonic, 'mnemonic') : null,
+    };
+  }
+
+  const opened = decryptKeystore(password, data.crypto, data.nexus?.mnemonic || undefined);
+  return {
+    privateKey: data.nexus?.privateKeyEncoding === 'utf8'
+      ? opened.privateKey.toString('utf8')
+      : opened.privateKey.toString('hex'),
+    mnemonic: opened.mnemonic ?? null,
+  };
 }
 
 // Create main window
@@ -219,7 +523,10 @@ ipcMain.handle('verify-password', async (_, password: string) => {
     
     const isValid = bcrypt.compareSync(password, row.value);
     if (isValid) {
-      encryptionKey = CryptoJS.SHA256(password).toString();
+      if (!vaultKey) {
+        vaultKey = unlockVault(db, password);
+      }
+      lastUnlockAt = Date.now();
     }
     return isValid;
   } catch (error) {
@@ -228,26 +535,134 @@ ipcMain.handle('verify-password', async (_, password: string) => {
   }
 });
 
+ipcMain.handle('change-password', async (_, oldPassword: string, newPassword: string) => {
+  if (!db || !vaultKey) return { success: false, error: 'Database not initialized' };
+  
+  try {
+    const passwordHash = getSetting(db, 'password_hash');
+    if (!passwordHash || !bcrypt.compareSync(oldPassword, passwordHash)) {
+      return { success: false, error: 'Invalid password' };
+    }
+    
+    if (!newPassword || newPassword.length < 8) {
+      return { success: false, error: 'New password must be at least 8 characters' };
+    }
+    
+    const identityId = currentIdentityId && currentIdentityId !== 'default' ? currentIdentityId : null;
+    
+    // Stage the new hash so switch-identity still accepts it if we crash
+    // between rotating the vault and updating the identity record
+    if (identityId && identityDb) {
+      setSetting(identityDb, `password_rotation_${identityId}`, bcrypt.hashSync(newPassword, 10));
+    }
+    
+    vaultKey = rotateVault(db, vaultKey, newPassword);
+    
+    // Updates the identity hash and drops the biometric blob, which holds the old password
+    if (identityId) {
+      reconcileIdentityPassword(identityId, newPassword);
+    }
+    
+    return { success: true };
+  } catch (error) {
+    console.error('Change password error:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to change password' };
+  }
+});
+
+ipcMain.handle('store-seed', async (_, seedData: { mnemonic: string; fingerprint?: string; hasPassphrase?: boolean; label?: string }) => {
+  if (!db || !vaultKey) return { success: false, error: 'Database not initialized' };
+  
+  try {
+    const mnemonic = seedData.mnemonic.trim();
+    if (parseMoneroSpendKey(mnemonic)) {
+      return { success: false, error: 'A Monero key is stored with its wallet, not as a seed' };
+    }
+    const fingerprint = seedData.fingerprint || seedFingerprint(mnemonic);
+    const id = findOrCreateSeed(db, vaultKey, mnemonic, fingerprint, Boolean(seedData.hasPassphrase), seedData.label);
+    
+    return { success: true, id };
+  } catch (error) {
+    console.error('Store seed error:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+// Imports store their seed before deriving; one that is cancelled or fails can leave it unused
+ipcMain.handle('prune-orphan-seeds', async () => {
+  if (!db) return false;
+  
+  try {
+    pruneOrphanSeeds(db);
+    return true;
+  } catch (error) {
+    console.error('Prune orphan seeds error:', error);
+    return false;
+  }
+});
+
+ipcMain.handle('get-seeds', async () => {
+  if (!db) return [];
+  
+  try {
+    const rows = db.prepare(`
+      SELECT s.id, s.fingerprint, s.label, s.has_passphrase, s.created_at, COUNT(w.id) AS wallet_count
+      FROM seeds s LEFT JOIN wallets w ON w.seed_id = s.id
+      GROUP BY s.id
+      ORDER BY s.created_at ASC, s.id ASC
+    `).all() as any[];
+    
+    return rows.map(row => ({
+      id: row.id,
+      fingerprint: row.fingerprint,
+      label: row.label,
+      hasPassphrase: Boolean(row.has_passphrase),
+      createdAt: row.created_at,
+      walletCount: row.wallet_count,
+    }));
+  } catch (error) {
+    console.error('Get seeds error:', error);
+    return [];
+  }
+});
+
+ipcMain.handle('rename-seed', async (_, seedId: number, label: string) => {
+  if (!db) return false;
+  
+  try {
+    db.prepare('UPDATE seeds SET label = ? WHERE id = ?').run(label.trim() || null, seedId);
+    return true;
+  } catch (error) {
+    console.error('Rename seed error:', error);
+    return false;
+  }
+});
+
 ipcMain.handle('store-wallet', async (_, walletData: any) => {
-  if (!db || !encryptionKey) return { success: false, error: 'Database not initialized' };
+  if (!db || !vaultKey) return { success: false, error: 'Database not initialized' };
   
   try {
+    // Callers that predate store-seed still send the mnemonic with every wallet
+    const seedId = walletData.seedId ?? (walletData.mnemonic
+      ? findOrCreateSeed(db, vaultKey, walletData.mnemonic.trim(), seedFingerprint(walletData.mnemonic), false)
+      : null);
+    
     const stmt = db.prepare(`
       INSERT INTO wallets (
-        mnemonic_encrypted, chain, derivation_path, 
+        seed_id, chain, derivation_path, 
         public_key, address, private_key_encrypted, master_key_encrypted,
         balance, metadata
       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     const result = stmt.run(
-      encrypt(walletData.mnemonic),
+      seedId,
       walletData.chain,
       walletData.derivationPath,
       walletData.publicKey,
       walletData.address,
-      encrypt(walletData.privateKey),
-      walletData.masterKey ? encrypt(walletData.masterKey) : null,
+      encrypt(walletData.privateKey, 'private_key'),
+      walletData.masterKey ? encrypt(walletData.masterKey, 'master_key') : null,
       walletData.balance || '0',
       JSON.stringify(walletData.metadata || {})
     );
@@ -265,28 +680,37 @@ ipcMain.handle('get-wallets', async (_, filters?: any) => {
   try {
     let query = 'SELECT * FROM wallets';
     const params: any[] = [];
+    const conditions: string[] = [];
     
     if (filters?.chain) {
-      query += ' WHERE chain = ?';
+      conditions.push('chain = ?');
       params.push(filters.chain);
     }
     
+    if (filters?.seedId) {
+      conditions.push('seed_id = ?');
+      params.push(filters.seedId);
+    }
+    
+    if (conditions.length > 0) {
+      query += ' WHERE ' + conditions.join(' AND ');
+    }
+    
     query += ' ORDER BY created_at DESC';
     
     const rows = db.prepare(query).all(...params) as any[];
     
-    // Decrypt sensitive data
+    // Public data only - secrets are fetched one at a time through reveal-secret
     return rows.map(row => ({
       id: row.id,
+      seedId: row.seed_id,
       chain: row.chain,
       derivationPath: row.derivation_path,
       publicKey: row.public_key,
       address: row.address || row.public_key, // Fallback for old data
       balance: row.balance,
       lastChecked: row.last_checked,
-      mnemonic: decrypt(row.mnemonic_encrypted),
-      privateKey: decrypt(row.private_key_encrypted),
-      masterKey: row.master_key_encrypted ? decrypt(row.master_key_encrypted) : null,
+      hasMasterKey: Boolean(row.master_key_encrypted),
       metadata: JSON.parse(row.metadata || '{}')
     }));
   } catch (error) {
@@ -295,6 +719,129 @@ ipcMain.handle('get-wallets', async (_, filters?: any) => {
   }
 });
 
+// Secrets that reveal-secret may decrypt, keyed by the renderer-facing field name.
+// Each query selects the ciphertext for a wallet id as "value".
+const REVEALABLE_FIELDS: Record<string, { query: string; field: string }> = {
+  privateKey: {
+    query: 'SELECT private_key_encrypted AS value FROM wallets WHERE id = ?',
+    field: 'private_key',
+  },
+  mnemonic: {
+    query: 'SELECT s.mnemonic_encrypted AS value FROM wallets w LEFT JOIN seeds s ON s.id = w.seed_id WHERE w.id = ?',
+    field: 'mnemonic',
+  },
+  masterKey: {
+    query: 'SELECT master_key_encrypted AS value FROM wallets WHERE id = ?',
+    field: 'master_key',
+  },
+};
+
+function recordSecretAccess(walletId: number, field: string, outcome: string) {
+  try {
+    db?.prepare('INSERT INTO secret_audit_log (wallet_id, field, outcome) VALUES (?, ?, ?)')
+      .run(walletId, field, outcome);
+  } catch (error) {
+    console.error('Secret audit log error:', error);
+  }
+}
+
+// Re-authentication and rate limit before a secret leaves the main process in
+// plain text. Returns the refusal, already in the audit log, or null; callers
+// then log the access through recordSecretRelease.
+function checkSecretAccess(walletId: number, fieldName: string, password?: string) {
+  if (!db) return { success: false, error: 'Database not initialized' };
+  
+  const now = Date.now();
+  
+  if (now < revealLockedUntil) {
+    recordSecretAccess(walletId, fieldName, 'locked_out');
+    const seconds = Math.ceil((revealLockedUntil - now) / 1000);
+    return { success: false, error: `Too many failed attempts. Try again in ${seconds} seconds.` };
+  }
+  
+  revealTimestamps = revealTimestamps.filter(t => now - t < REVEAL_WINDOW_MS);
+  if (revealTimestamps.length >= MAX_REVEALS_PER_WINDOW) {
+    recordSecretAccess(walletId, fieldName, 'rate_limited');
+    return { success: false, error: 'Too many secrets revealed. Please wait a minute.' };
+  }
+  
+  if (password !== undefined) {
+    const passwordHash = getSetting(db, 'password_hash');
+    if (!passwordHash || !bcrypt.compareSync(password, passwordHash)) {
+      failedRevealAttempts++;
+      if (failedRevealAttempts >= MAX_FAILED_REVEAL_ATTEMPTS) {
+        revealLockedUntil = now + REVEAL_LOCKOUT_MS;
+        failedRevealAttempts = 0;
+      }
+      recordSecretAccess(walletId, fieldName, 'invalid_password');
+      return { success: false, error: 'Invalid password', requiresPassword: true };
+    }
+    failedRevealAttempts = 0;
+    lastUnlockAt = now;
+  } else if (now - lastUnlockAt > RECENT_UNLOCK_WINDOW_MS) {
+    recordSecretAccess(walletId, fieldName, 'password_required');
+    return { success: false, error: 'Password required', requiresPassword: true };
+  }
+  
+  return null;
+}
+
+function recordSecretRelease(walletId: number, fieldName: string, outcome: string) {
+  revealTimestamps.push(Date.now());
+  recordSecretAccess(walletId, fieldName, outcome);
+}
+
+ipcMain.handle('reveal-secret', async (_, walletId: number, fieldName: string, password?: string) => {
+  if (!db || !vaultKey) return { success: false, error: 'Database not initialized' };
+  
+  const target = REVEALABLE_FIELDS[fieldName];
+  if (!target) return { success: false, error: `Unknown secret field: ${fieldName}` };
+  
+  try {
+    const refusal = checkSecretAccess(walletId, fieldName, password);
+    if (refusal) return refusal;
+    
+    const row = db.prepare(target.query).get(walletId) as any;
+    if (!row) return { success: false, error: 'Wallet not found' };
+    if (!row.value) return { success: false, error: 'This wallet has no stored value for that field' };
+    
+    const value = decrypt(row.value, target.field);
+    recordSecretRelease(walletId, fieldName, 'revealed');
+    
+    return { success: true, value };
+  } catch (error) {
+    console.error('Reveal secret error:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to reveal secret' };
+  }
+});
+
+ipcMain.handle('get-secret-audit-log', async (_, walletId?: number) => {
+  if (!db) return [];
+  
+  try {
+    let query = 'SELECT * FROM secret_audit_log';
+    const params: any[] = [];
+    
+    if (walletId !== undefined) {
+      query += ' WHERE wallet_id = ?';
+      params.push(walletId);
+    }
+    
+    query += ' ORDER BY created_at DESC, id DESC LIMIT 200';
+    
+    return (db.prepare(query).all(...params) as any[]).map(row => ({
+      id: row.id,
+      walletId: row.wallet_id,
+      field: row.field,
+      outcome: row.outcome,
+      createdAt: row.created_at,
+    }));
+  } catch (error) {
+    console.error('Get secret audit log error:', error);
+    return [];
+  }
+});
+
 ipcMain.handle('update-balance', async (_, walletId: number, balance: string) => {
   if (!db) return false;
   
@@ -313,6 +860,7 @@ ipcMain.handle('delete-wallet', async (_, walletId: number) => {
   
   try {
     db.prepare('DELETE FROM wallets WHERE id = ?').run(walletId);
+    pruneOrphanSeeds(db);
     return true;
   } catch (error) {
     console.error('Delete wallet error:', error);
@@ -326,6 +874,7 @@ ipcMain.handle('delete-wallets', async (_, walletIds: number[]) => {
   try {
     const placeholders = walletIds.map(() => '?').join(',');
     db.prepare(`DELETE FROM wallets WHERE id IN (${placeholders})`).run(...walletIds);
+    pruneOrphanSeeds(db);
     return true;
   } catch (error) {
     console.error('Delete wallets error:', error);
@@ -333,20 +882,35 @@ ipcMain.handle('delete-wallets', async (_, walletIds: number[]) => {
   }
 });
 
-ipcMain.handle('export-wallet', async (_, walletId: number, format: string) => {
-  if (!db) return null;
+// A JSON export holds the private key and mnemonic in plain text, so it is
+// re-authenticated, rate limited and audited like reveal-secret; there the
+// password is the master password. A keystore is encrypted under a password
+// chosen for the export.
+ipcMain.handle('export-wallet', async (_, walletId: number, format: string, password?: string) => {
+  if (!db || !vaultKey) return { success: false, error: 'Database not initialized' };
+  if (format !== 'json' && format !== 'keystore') return { success: false, error: `Unknown export format: ${format}` };
+  if (format === 'keystore' && !password) return { success: false, error: 'Keystore password required' };
   
   try {
-    const wallet = db.prepare('SELECT * FROM wallets WHERE id = ?').get(walletId) as any;
-    if (!wallet) return null;
+    if (format === 'json') {
+      const refusal = checkSecretAccess(walletId, 'export', password);
+      if (refusal) return refusal;
+    }
+    
+    const wallet = db.prepare(`
+      SELECT w.*, s.mnemonic_encrypted AS seed_mnemonic_encrypted
+      FROM wallets w LEFT JOIN seeds s ON s.id = w.seed_id
+      WHERE w.id = ?
+    `).get(walletId) as any;
+    if (!wallet) return { success: false, error: 'Wallet not found' };
     
     const decrypted = {
       chain: wallet.chain,
       derivationPath: wallet.derivation_path,
       publicKey: wallet.public_key,
       address: wallet.address,
-      privateKey: decrypt(wallet.private_key_encrypted),
-      mnemonic: decrypt(wallet.mnemonic_encrypted),
+      privateKey: decrypt(wallet.private_key_encrypted, 'private_key'),
+      mnemonic: wallet.seed_mnemonic_encrypted ? decrypt(wallet.seed_mnemonic_encrypted, 'mnemonic') : '',
       balance: wallet.balance,
       lastChecked: wallet.last_checked,
       createdAt: wallet.created_at,
@@ -360,47 +924,44 @@ ipcMain.handle('export-wallet', async (_, walletId: number, format: string) => {
         timestamp: new Date().toISOString(),
         wallet: decrypted
       };
-      return JSON.stringify(exportData, null, 2);
-    } else if (format === 'keystore') {
-      // Ethereum-compatible keystore format
-      const keystoreData = {
-        version: 3,
-        id: `nexus-${wallet.id}-${Date.now()}`,
-        address: wallet.address,
-        chain: wallet.chain,
-        derivationPath: wallet.derivation_path,
-        crypto: {
-          cipher: 'aes-128-ctr',
-          ciphertext: encrypt(decrypted.privateKey),
-          kdf: 'scrypt',
-          kdfparams: {
-            dklen: 32,
-            salt: CryptoJS.lib.WordArray.random(32).toString(),
-            n: 262144,
-            r: 8,
-            p: 1
-          },
-          mac: CryptoJS.SHA256(decrypted.privateKey).toString()
-        },
-        nexus: {
-          mnemonic: encrypt(decrypted.mnemonic),
-          balance: wallet.balance,
-          exportedAt: new Date().toISOString()
-        }
-      };
-      return JSON.stringify(keystoreData, null, 2);
+      recordSecretRelease(walletId, 'export', 'exported_json');
+      return { success: true, data: JSON.stringify(exportData, null, 2) };
     }
     
-    return JSON.stringify(decrypted, null, 2);
+    // Ethereum-compatible keystore, encrypted under the export password rather than the vault key.
+    // Raw 32-byte keys are stored as the key bytes so other wallets can open the file.
+    const rawKey = /^(0x)?[0-9a-f]{64}$/i.test(decrypted.privateKey);
+    const sealed = encryptKeystore(
+      password!,
+      rawKey ? Buffer.from(decrypted.privateKey.replace(/^0x/i, ''), 'hex') : Buffer.from(decrypted.privateKey, 'utf8'),
+      decrypted.mnemonic || undefined
+    );
+    
+    const keystoreData = {
+      version: 3,
+      id: randomUUID(),
+      address: wallet.address,
+      chain: wallet.chain,
+      derivationPath: wallet.derivation_path,
+      crypto: sealed.crypto,
+      nexus: {
+        privateKeyEncoding: rawKey ? 'hex' : 'utf8',
+        mnemonic: sealed.mnemonic,
+        balance: wallet.balance,
+        exportedAt: new Date().toISOString()
+      }
+    };
+    recordSecretAccess(walletId, 'export', 'exported_keystore');
+    return { success: true, data: JSON.stringify(keystoreData, null, 2) };
   } catch (error) {
     console.error('Export wallet error:', error);
-    return null;
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to export wallet' };
   }
 });
 
 // Import wallet functionality
 ipcMain.handle('import-wallet-file', async (_, fileData: string, password?: string) => {
-  if (!db || !encryptionKey) return { success: false, error: 'Database not initialized' };
+  if (!db || !vaultKey) return { success: false, error: 'Database not initialized' };
   
   try {
     const data = JSON.parse(fileData);
@@ -417,15 +978,17 @@ ipcMain.handle('import-wallet-file', async (_, fileData: string, password?: stri
         return { success: false, error: 'Password required for keystore import' };
       }
       
-      // Decrypt keystore (simplified - would need proper keystore decryption)
       walletData = {
-        chain: data.chain,
+        chain: data.chain || 'ETH',
         derivationPath: data.derivationPath,
         address: data.address,
-        privateKey: decrypt(data.crypto.ciphertext),
-        mnemonic: data.nexus ? decrypt(data.nexus.mnemonic) : null,
+        ...openKeystoreFile(data, password),
         balance: data.nexus ? data.nexus.balance : '0'
       };
+      // Keystores from other wallets carry a bare address, or none
+      if (walletData.chain === 'ETH' && /^[0-9a-f]{64}$/i.test(walletData.privateKey)) {
+        walletData.address = computeAddress(`0x${walletData.privateKey}`);
+      }
     } else if (data.privateKey || data.mnemonic) {
       // Direct wallet object
       walletData = data;
@@ -446,19 +1009,22 @@ ipcMain.handle('import-wallet-file', async (_, fileData: string, password?: stri
       return { success: false, error: 'Wallet already exists in database' };
     }
     
+    const mnemonic = walletData.mnemonic ? String(walletData.mnemonic).trim() : '';
+    const seedId = mnemonic ? findOrCreateSeed(db, vaultKey, mnemonic, seedFingerprint(mnemonic), false) : null;
+    
     // Insert imported wallet
     const result = db.prepare(`
       INSERT INTO wallets (
-        mnemonic_encrypted, chain, derivation_path, public_key, address,
+        seed_id, chain, derivation_path, public_key, address,
         private_key_encrypted, balance, last_checked, metadata
       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).run(
-      walletData.mnemonic ? encrypt(walletData.mnemonic) : encrypt(''),
+      seedId,
       walletData.chain,
-      walletData.derivationPath || "m/44'/0'/0'/0/0",
+      walletData.derivationPath || '',
       walletData.publicKey || '',
       walletData.address || walletData.publicKey || '',
-      encrypt(walletData.privateKey),
+      encrypt(walletData.privateKey, 'private_key'),
       walletData.balance || '0',
       walletData.lastChecked || null,
       walletData.metadata ? JSON.stringify(walletData.metadata) : null
@@ -480,15 +1046,53 @@ ipcMain.handle('import-wallet-file', async (_, fileData: string, password?: stri
 });
 
 ipcMain.handle('add-rpc-node', async (_, nodeData: any) => {
-  if (!db) return false;
+  if (!db) return { success: false, error: 'Database not initialized' };
   
   try {
-    db.prepare('INSERT INTO rpc_nodes (chain, url, name, priority) VALUES (?, ?, ?, ?)')
-      .run(nodeData.chain, nodeData.url, nodeData.name, nodeData.priority || 0);
-    return true;
+    const node = normalizeRpcNode(nodeData);
+    const invalid = validateRpcNode(node);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+    
+    const existing = db.prepare('SELECT id FROM rpc_nodes WHERE chain = ? AND url = ?').get(node.chain, node.url);
+    if (existing) {
+      return { success: false, error: `This node is already added for ${node.chain}` };
+    }
+    
+    const result = db.prepare('INSERT INTO rpc_nodes (chain, url, name, priority, is_active) VALUES (?, ?, ?, ?, ?)')
+      .run(node.chain, node.url, node.name, node.priority, node.isActive ? 1 : 0);
+    return { success: true, id: result.lastInsertRowid };
   } catch (error) {
     console.error('Add RPC node error:', error);
-    return false;
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('update-rpc-node', async (_, nodeId: number, nodeData: any) => {
+  if (!db) return { success: false, error: 'Database not initialized' };
+  
+  try {
+    const node = normalizeRpcNode(nodeData);
+    const invalid = validateRpcNode(node);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+    
+    const duplicate = db.prepare('SELECT id FROM rpc_nodes WHERE chain = ? AND url = ? AND id != ?').get(node.chain, node.url, nodeId);
+    if (duplicate) {
+      return { success: false, error: `This node is already added for ${node.chain}` };
+    }
+    
+    const result = db.prepare('UPDATE rpc_nodes SET chain = ?, url = ?, name = ?, priority = ?, is_active = ? WHERE id = ?')
+      .run(node.chain, node.url, node.name, node.priority, node.isActive ? 1 : 0, nodeId);
+    if (result.changes === 0) {
+      return { success: false, error: 'RPC node not found' };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('Update RPC node error:', error);
+    return { success: false, error: (error as Error).message };
   }
 });
 
@@ -496,23 +1100,201 @@ ipcMain.handle('get-rpc-nodes', async (_, chain?: string) => {
   if (!db) return [];
   
   try {
-    let query = 'SELECT * FROM rpc_nodes WHERE is_active = 1';
+    // Disabled nodes are listed too, so they can be switched back on
+    let query = 'SELECT * FROM rpc_nodes';
     const params: any[] = [];
     
     if (chain) {
-      query += ' AND chain = ?';
+      query += ' WHERE chain = ?';
       params.push(chain);
     }
     
-    query += ' ORDER BY priority DESC, created_at ASC';
+    query += ' ORDER BY priority DESC, created_at ASC, id ASC';
     
-    return db.prepare(query).all(...params);
+    return (db.prepare(query).all(...params) as any[]).map(row => ({
+      id: row.id,
+      chain: row.chain,
+      url: row.url,
+      name: row.name || 'Custom Node',
+      priority: row.priority,
+      isActive: Boolean(row.is_active),
+    }));
   } catch (error) {
     console.error('Get RPC nodes error:', error);
     return [];
   }
 });
 
+ipcMain.handle('delete-rpc-node', async (_, nodeId: number) => {
+  if (!db) return false;
+  
+  try {
+    db.prepare('DELETE FROM rpc_nodes WHERE id = ?').run(nodeId);
+    return true;
+  } catch (error) {
+    console.error('Delete RPC node error:', error);
+    return false;
+  }
+});
+
+ipcMain.handle('save-path-template', async (_, templateData: { chain: string; name: string; template: string; scriptType?: string }) => {
+  if (!db) return { success: false, error: 'Database not initialized' };
+  
+  try {
+    const template = templateData.template.trim();
+    const invalid = validatePathTemplate(template, templateData.chain);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+    
+    const result = db.prepare(`
+      INSERT INTO path_templates (chain, name, template, script_type) VALUES (?, ?, ?, ?)
+      ON CONFLICT(chain, template) DO UPDATE SET name = excluded.name, script_type = excluded.script_type
+    `).run(templateData.chain, templateData.name.trim() || template, template, templateData.scriptType || null);
+    
+    const row = db.prepare('SELECT id FROM path_templates WHERE chain = ? AND template = ?')
+      .get(templateData.chain, template) as any;
+    
+    return { success: true, id: row?.id ?? Number(result.lastInsertRowid) };
+  } catch (error) {
+    console.error('Save path template error:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('get-path-templates', async (_, chain?: string) => {
+  if (!db) return [];
+  
+  try {
+    let query = 'SELECT * FROM path_templates';
+    const params: any[] = [];
+    
+    if (chain) {
+      query += ' WHERE chain = ?';
+      params.push(chain);
+    }
+    
+    query += ' ORDER BY chain ASC, created_at ASC, id ASC';
+    
+    return (db.prepare(query).all(...params) as any[]).map(row => ({
+      id: row.id,
+      chain: row.chain,
+      name: row.name,
+      template: row.template,
+      scriptType: row.script_type || undefined,
+      createdAt: row.created_at,
+    }));
+  } catch (error) {
+    console.error('Get path templates error:', error);
+    return [];
+  }
+});
+
+ipcMain.handle('delete-path-template', async (_, templateId: number) => {
+  if (!db) return false;
+  
+  try {
+    db.prepare('DELETE FROM path_templates WHERE id = ?').run(templateId);
+    return true;
+  } catch (error) {
+    console.error('Delete path template error:', error);
+    return false;
+  }
+});
+
+ipcMain.handle('save-custom-chain', async (_, chainData: any, replace = false) => {
+  if (!db) return { success: false, error: 'Database not initialized' };
+  
+  try {
+    const chain = normalizeCustomChain(chainData);
+    const invalid = validateCustomChain(chain);
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+    
+    // Only an edit may overwrite a saved network
+    const existing = db.prepare('SELECT name FROM custom_chains WHERE chain_id = ?').get(chain.chainId) as any;
+    if (existing && !replace) {
+      return { success: false, error: `Chain id ${chain.chainId} is already saved as ${existing.name}` };
+    }
+    
+    // The renderer checks the endpoints too, but only what is verified here gets stored
+    const unreachable = await verifyCustomChainRpc(chain);
+    if (unreachable) {
+      return { success: false, error: unreachable };
+    }
+    
+    db.prepare(`
+      INSERT INTO custom_chains (chain_id, name, symbol, decimals, rpc_urls, explorer_url) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(chain_id) DO UPDATE SET
+        name = excluded.name, symbol = excluded.symbol, decimals = excluded.decimals,
+        rpc_urls = excluded.rpc_urls, explorer_url = excluded.explorer_url
+    `).run(chain.chainId, chain.name, chain.symbol, chain.decimals, JSON.stringify(chain.rpcUrls), chain.explorerUrl || null);
+    
+    return { success: true };
+  } catch (error) {
+    console.error('Save custom chain error:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('get-custom-chains', async () => {
+  if (!db) return [];
+  
+  try {
+    return (db.prepare('SELECT * FROM custom_chains ORDER BY created_at ASC, id ASC').all() as any[]).map(row => ({
+      chainId: row.chain_id,
+      name: row.name,
+      symbol: row.symbol,
+      decimals: row.decimals,
+      rpcUrls: JSON.parse(row.rpc_urls),
+      explorerUrl: row.explorer_url || undefined,
+    }));
+  } catch (error) {
+    console.error('Get custom chains error:', error);
+    return [];
+  }
+});
+
+ipcMain.handle('delete-custom-chain', async (_, chainId: number) => {
+  if (!db) return { success: false, error: 'Database not initialized' };
+  
+  try {
+    // Wallets keep their chain key, so a network in use cannot go away
+    const { count } = db.prepare('SELECT COUNT(*) AS count FROM wallets WHERE chain = ?')
+      .get(getCustomChainKey(chainId)) as any;
+    if (count > 0) {
+      return { success: false, error: `Delete the ${count} wallet(s) on this network first` };
+    }
+    
+    db.prepare('DELETE FROM custom_chains WHERE chain_id = ?').run(chainId);
+    return { success: true };
+  } catch (error) {
+    console.error('Delete custom chain error:', error);
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+// Electrum balance lookups; servers come from the chain registry, tried in order
+ipcMain.handle('electrum-request', async (_, chain: string, method: string, params: any[]) => {
+  if (!ELECTRUM_METHODS.includes(method)) {
+    return { success: false, error: `${method} is not an allowed Electrum method` };
+  }
+  
+  const servers = CHAIN_CONFIGS[chain]?.balanceApis?.electrum || [];
+  let lastError: Error | null = null;
+  for (const server of servers) {
+    try {
+      return { success: true, result: await electrumRequest(server, method, params) };
+    } catch (error) {
+      console.warn(`Electrum server ${server} failed:`, (error as Error).message);
+      lastError = error as Error;
+    }
+  }
+  
+  return { success: false, error: lastError ? lastError.message : `No Electrum servers for ${chain}` };
+});
+
 // File dialog handlers
 ipcMain.handle('show-save-dialog', async (_, options: any) => {
   if (!mainWindow) return { canceled: true };
@@ -602,7 +1384,11 @@ ipcMain.handle('switch-identity', async (_, identityId: string, password: string
       return { success: false, error: 'Identity not found' };
     }
     
-    const isValidPassword = bcrypt.compareSync(password, identity.password_hash);
+    // A pending rotation hash means a password change may have been interrupted;
+    // the vault key check in initDatabase decides which password is current
+    const pendingHash = getSetting(identityDb!, `password_rotation_${identityId}`);
+    const isValidPassword = bcrypt.compareSync(password, identity.password_hash) ||
+      (pendingHash !== null && bcrypt.compareSync(password, pendingHash));
     if (!isValidPassword) {
       return { success: false, error: 'Invalid password' };
     }
@@ -625,6 +1411,7 @@ ipcMain.handle('switch-identity', async (_, identityId: string, password: string
     
     // Initialize database for the selected identity
     initDatabase(password, identityId);
+    reconcileIdentityPassword(identityId, password);
     
     return { success: true };
   } catch (error: any) {
@@ -664,6 +1451,8 @@ ipcMain.handle('delete-identity', async (_, identityId: string) => {
           fs.unlinkSync(walPath);
         }
       });
+      // And any pre-migration backups
+      removeDatabaseBackups(dbPath);
     } catch (fsError) {
       console.warn('Could not delete database files:', fsError);
     }
@@ -889,9 +1678,7 @@ ipcMain.handle('disable-biometric-auth', async () => {
     }
 
     // Remove biometric settings
-    identityDb.prepare('DELETE FROM settings WHERE key = ?').run(`biometric_enabled_${identity.id}`);
-    identityDb.prepare('DELETE FROM settings WHERE key = ?').run(`biometric_key_${identity.id}`);
-    identityDb.prepare('DELETE FROM settings WHERE key = ?').run(`biometric_password_${identity.id}`);
+    clearBiometricSettings(identity.id);
 
     return { success: true };
   } catch (error) {
@@ -1244,7 +2031,7 @@ ipcMain.handle('secure-memory-wipe', async () => {
     }
     
     // Clear sensitive data from process memory
-    if (encryptionKey) {
+    if (vaultKey) {
       // Don't actually clear the encryption key, just indicate wipe completed
       console.log('Memory wipe completed');
     }
@@ -1258,7 +2045,16 @@ ipcMain.handle('secure-memory-wipe', async () => {
 
 // App event handlers
 app.whenReady().then(() => {
-  initIdentityDatabase();
+  try {
+    initIdentityDatabase();
+  } catch (error) {
+    dialog.showErrorBox(
+      'Unable to open identity database',
+      error instanceof Error ? error.message : String(error)
+    );
+    app.quit();
+    return;
+  }
   createWindow();
   
   // Start security monitoring
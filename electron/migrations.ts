@@ -0,0 +1,384 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { toCosmosAddress, toTronAddress, toXrpAddress } from '../src/services/addressEncoding';
+
+export interface Migration {
+  version: number;
+  name: string;
+  // Set when up() recreates a table that other tables reference; foreign keys
+  // are switched off around the migration and re-checked before it commits
+  rebuildsTables?: boolean;
+  up: (db: Database.Database) => void;
+}
+
+// Migrations for the per-identity wallet databases (nexus-<identity>.db)
+export const WALLET_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial schema',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS settings (
+          id INTEGER PRIMARY KEY,
+          key TEXT UNIQUE NOT NULL,
+          value TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS wallets (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          mnemonic_encrypted TEXT NOT NULL,
+          chain TEXT NOT NULL,
+          derivation_path TEXT NOT NULL,
+          public_key TEXT NOT NULL,
+          address TEXT NOT NULL,
+          private_key_encrypted TEXT NOT NULL,
+          master_key_encrypted TEXT,
+          balance TEXT DEFAULT '0',
+          last_checked DATETIME,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          metadata TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS transactions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          wallet_id INTEGER NOT NULL,
+          tx_hash TEXT NOT NULL,
+          type TEXT NOT NULL,
+          amount TEXT NOT NULL,
+          fee TEXT,
+          status TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          metadata TEXT,
+          FOREIGN KEY (wallet_id) REFERENCES wallets(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS rpc_nodes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          chain TEXT NOT NULL,
+          url TEXT NOT NULL,
+          name TEXT,
+          is_active BOOLEAN DEFAULT 1,
+          priority INTEGER DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_wallets_chain ON wallets(chain);
+        CREATE INDEX IF NOT EXISTS idx_wallets_public_key ON wallets(public_key);
+        CREATE INDEX IF NOT EXISTS idx_transactions_wallet ON transactions(wallet_id);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'wallet address column',
+    up: (db) => {
+      // Databases created before addresses were stored only have public keys
+      if (!hasColumn(db, 'wallets', 'address')) {
+        db.exec('ALTER TABLE wallets ADD COLUMN address TEXT');
+        db.prepare("UPDATE wallets SET address = public_key WHERE address IS NULL OR address = ''").run();
+      }
+      db.exec('CREATE INDEX IF NOT EXISTS idx_wallets_address ON wallets(address)');
+    },
+  },
+  {
+    version: 3,
+    name: 'secret audit log',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE secret_audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          wallet_id INTEGER NOT NULL,
+          field TEXT NOT NULL,
+          outcome TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX idx_secret_audit_log_wallet ON secret_audit_log(wallet_id);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'seeds',
+    rebuildsTables: true,
+    up: (db) => {
+      // SQLite cannot relax NOT NULL in place, so wallets is rebuilt with a nullable
+      // mnemonic column. Existing mnemonics move into seeds after the vault is unlocked.
+      db.exec(`
+        CREATE TABLE seeds (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          fingerprint TEXT NOT NULL,
+          label TEXT,
+          mnemonic_encrypted TEXT NOT NULL,
+          has_passphrase BOOLEAN DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE wallets_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          seed_id INTEGER REFERENCES seeds(id),
+          mnemonic_encrypted TEXT,
+          chain TEXT NOT NULL,
+          derivation_path TEXT NOT NULL,
+          public_key TEXT NOT NULL,
+          address TEXT NOT NULL,
+          private_key_encrypted TEXT NOT NULL,
+          master_key_encrypted TEXT,
+          balance TEXT DEFAULT '0',
+          last_checked DATETIME,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          metadata TEXT
+        );
+
+        INSERT INTO wallets_new (
+          id, mnemonic_encrypted, chain, derivation_path, public_key, address,
+          private_key_encrypted, master_key_encrypted, balance, last_checked, created_at, metadata
+        )
+        SELECT
+          id, mnemonic_encrypted, chain, derivation_path, public_key, COALESCE(address, public_key),
+          private_key_encrypted, master_key_encrypted, balance, last_checked, created_at, metadata
+        FROM wallets;
+
+        DROP TABLE wallets;
+        ALTER TABLE wallets_new RENAME TO wallets;
+
+        CREATE INDEX idx_wallets_chain ON wallets(chain);
+        CREATE INDEX idx_wallets_public_key ON wallets(public_key);
+        CREATE INDEX idx_wallets_address ON wallets(address);
+        CREATE INDEX idx_wallets_seed ON wallets(seed_id);
+        CREATE INDEX idx_seeds_fingerprint ON seeds(fingerprint);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'cosmos tron xrp addresses',
+    up: (db) => {
+      // These chains used to store a slice of the public key hex as the address.
+      // The stored public keys are correct, so the real addresses follow from them.
+      const encoders: Record<string, (publicKey: Uint8Array) => string> = {
+        ATOM: (publicKey) => toCosmosAddress(publicKey, 'cosmos'),
+        TRX: toTronAddress,
+        XRP: toXrpAddress,
+      };
+
+      const rows = db.prepare(
+        "SELECT id, chain, public_key FROM wallets WHERE chain IN ('ATOM', 'TRX', 'XRP')"
+      ).all() as any[];
+      const update = db.prepare("UPDATE wallets SET address = ?, balance = '0', last_checked = NULL WHERE id = ?");
+
+      for (const row of rows) {
+        try {
+          update.run(encoders[row.chain](Uint8Array.from(Buffer.from(row.public_key, 'hex'))), row.id);
+        } catch (error) {
+          console.warn(`Cannot re-encode ${row.chain} wallet ${row.id}:`, error);
+        }
+      }
+    },
+  },
+  {
+    version: 6,
+    name: 'flag placeholder cardano polkadot wallets',
+    up: (db) => {
+      // ADA and DOT were derived as secp256k1 keys, which neither chain uses, so
+      // nothing can be re-encoded here. Re-importing the seed derives the real wallets.
+      const rows = db.prepare(
+        "SELECT id, metadata FROM wallets WHERE (chain = 'ADA' AND address NOT LIKE 'addr%') OR (chain = 'DOT' AND derivation_path = ?)"
+      ).all("m/44'/354'/0'/0/0") as any[];
+      const update = db.prepare("UPDATE wallets SET metadata = ?, balance = '0', last_checked = NULL WHERE id = ?");
+
+      for (const row of rows) {
+        update.run(JSON.stringify({ ...JSON.parse(row.metadata || '{}'), needsReimport: true }), row.id);
+      }
+    },
+  },
+  {
+    version: 7,
+    name: 'flag placeholder monero wallets',
+    up: (db) => {
+      // Monero wallets were stored with placeholder keys and addresses. The rows
+      // stay: until the unlock moves it into seeds, a mnemonic imported only for
+      // XMR exists only on its row. Re-importing the seed derives the real wallet.
+      const rows = db.prepare(
+        "SELECT id, metadata FROM wallets WHERE chain = 'XMR' AND address = 'XMR_ADDRESS_PLACEHOLDER'"
+      ).all() as any[];
+      const update = db.prepare("UPDATE wallets SET metadata = ?, balance = '0', last_checked = NULL WHERE id = ?");
+
+      for (const row of rows) {
+        update.run(JSON.stringify({ ...JSON.parse(row.metadata || '{}'), needsReimport: true }), row.id);
+      }
+    },
+  },
+  {
+    version: 8,
+    name: 'path templates',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE path_templates (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          chain TEXT NOT NULL,
+          name TEXT NOT NULL,
+          template TEXT NOT NULL,
+          script_type TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE(chain, template)
+        );
+
+        CREATE INDEX idx_path_templates_chain ON path_templates(chain);
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'custom chains',
+    up: (db) => {
+      // Wallets on these networks are stored under the chain key EVM_<chain_id>
+      db.exec(`
+        CREATE TABLE custom_chains (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          chain_id INTEGER NOT NULL UNIQUE,
+          name TEXT NOT NULL,
+          symbol TEXT NOT NULL,
+          decimals INTEGER NOT NULL DEFAULT 18,
+          rpc_urls TEXT NOT NULL,
+          explorer_url TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+  },
+];
+
+// Migrations for the shared identity database (nexus-identities.db)
+export const IDENTITY_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial schema',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS identities (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE,
+          password_hash TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          last_accessed DATETIME DEFAULT CURRENT_TIMESTAMP,
+          is_active BOOLEAN DEFAULT 0
+        );
+
+        CREATE TABLE IF NOT EXISTS settings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          key TEXT UNIQUE NOT NULL,
+          value TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_identities_name ON identities(name);
+        CREATE INDEX IF NOT EXISTS idx_settings_key ON settings(key);
+      `);
+    },
+  },
+];
+
+export function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as any[];
+  return columns.some(col => col.name === column);
+}
+
+export function getSchemaVersion(db: Database.Database): number {
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_version').get() as any;
+  return row?.version || 0;
+}
+
+/**
+ * Bring a database up to the latest schema version.
+ *
+ * Pending migrations run in order, each in its own transaction together with
+ * its schema_version row. A copy of the database is written next to it before
+ * the first pending migration on any database that already holds data.
+ * Databases written by a newer app version are refused rather than touched.
+ */
+export function runMigrations(db: Database.Database, dbPath: string, migrations: Migration[]) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  const currentVersion = getSchemaVersion(db);
+  const latestVersion = Math.max(...migrations.map(m => m.version));
+
+  if (currentVersion > latestVersion) {
+    throw new Error(
+      `Database ${dbPath} uses schema v${currentVersion}, but this version of Nexus only supports up to v${latestVersion}. ` +
+      'Update Nexus Wallet Manager to open it.'
+    );
+  }
+
+  const pending = migrations
+    .filter(m => m.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  if (pending.length === 0) return;
+
+  if (hasUserTables(db)) {
+    backupDatabase(db, dbPath, currentVersion);
+  }
+
+  const record = db.prepare('INSERT INTO schema_version (version, name) VALUES (?, ?)');
+  for (const migration of pending) {
+    console.log(`Applying migration v${migration.version} (${migration.name}) to ${dbPath}`);
+    if (migration.rebuildsTables) {
+      db.pragma('foreign_keys = OFF');
+    }
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        if (migration.rebuildsTables && (db.pragma('foreign_key_check') as unknown[]).length > 0) {
+          throw new Error(`Migration v${migration.version} left dangling foreign keys`);
+        }
+        record.run(migration.version, migration.name);
+      })();
+    } finally {
+      if (migration.rebuildsTables) {
+        db.pragma('foreign_keys = ON');
+      }
+    }
+  }
+}
+
+// Whether the database has anything besides the schema_version table
+function hasUserTables(db: Database.Database): boolean {
+  const row = db.prepare(`
+    SELECT COUNT(*) AS count FROM sqlite_master
+    WHERE type = 'table' AND name NOT IN ('schema_version') AND name NOT LIKE 'sqlite_%'
+  `).get() as any;
+  return row.count > 0;
+}
+
+/**
+ * Delete the pre-migration copies of a database. Call once it has opened (and
+ * its vault unlocked) on the new schema: a copy taken before a vault upgrade
+ * still holds every secret under the old key.
+ */
+export function removeDatabaseBackups(dbPath: string) {
+  const prefix = `${path.basename(dbPath)}.v`;
+  const directory = path.dirname(dbPath);
+
+  for (const file of fs.readdirSync(directory)) {
+    if (file.startsWith(prefix) && file.endsWith('.bak')) {
+      fs.unlinkSync(path.join(directory, file));
+      console.log(`Removed pre-migration backup ${file}`);
+    }
+  }
+}
+
+function backupDatabase(db: Database.Database, dbPath: string, fromVersion: number) {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const backupPath = `${dbPath}.v${fromVersion}-${timestamp}.bak`;
+
+  // VACUUM INTO writes a consistent copy, including pages still in the WAL
+  db.prepare('VACUUM INTO ?').run(backupPath);
+  console.log(`Backed up ${dbPath} to ${backupPath}`);
+}
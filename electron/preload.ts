@@ -6,19 +6,43 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Database operations
   initDatabase: (password: string) => ipcRenderer.invoke('init-database', password),
   verifyPassword: (password: string) => ipcRenderer.invoke('verify-password', password),
+  changePassword: (oldPassword: string, newPassword: string) => ipcRenderer.invoke('change-password', oldPassword, newPassword),
+  
+  // Seed operations
+  storeSeed: (seedData: any) => ipcRenderer.invoke('store-seed', seedData),
+  pruneOrphanSeeds: () => ipcRenderer.invoke('prune-orphan-seeds'),
+  getSeeds: () => ipcRenderer.invoke('get-seeds'),
+  renameSeed: (seedId: number, label: string) => ipcRenderer.invoke('rename-seed', seedId, label),
   
   // Wallet operations
   storeWallet: (walletData: any) => ipcRenderer.invoke('store-wallet', walletData),
   getWallets: (filters?: any) => ipcRenderer.invoke('get-wallets', filters),
+  revealSecret: (walletId: number, field: string, password?: string) => ipcRenderer.invoke('reveal-secret', walletId, field, password),
+  getSecretAuditLog: (walletId?: number) => ipcRenderer.invoke('get-secret-audit-log', walletId),
   updateBalance: (walletId: number, balance: string) => ipcRenderer.invoke('update-balance', walletId, balance),
-  exportWallet: (walletId: number, format: string) => ipcRenderer.invoke('export-wallet', walletId, format),
+  exportWallet: (walletId: number, format: string, password?: string) => ipcRenderer.invoke('export-wallet', walletId, format, password),
   importWalletFile: (fileData: string, password?: string) => ipcRenderer.invoke('import-wallet-file', fileData, password),
   deleteWallet: (walletId: number) => ipcRenderer.invoke('delete-wallet', walletId),
   deleteWallets: (walletIds: number[]) => ipcRenderer.invoke('delete-wallets', walletIds),
   
   // RPC node operations
   addRpcNode: (nodeData: any) => ipcRenderer.invoke('add-rpc-node', nodeData),
+  updateRpcNode: (nodeId: number, nodeData: any) => ipcRenderer.invoke('update-rpc-node', nodeId, nodeData),
   getRpcNodes: (chain?: string) => ipcRenderer.invoke('get-rpc-nodes', chain),
+  deleteRpcNode: (nodeId: number) => ipcRenderer.invoke('delete-rpc-node', nodeId),
+  
+  // Derivation path templates
+  savePathTemplate: (templateData: any) => ipcRenderer.invoke('save-path-template', templateData),
+  getPathTemplates: (chain?: string) => ipcRenderer.invoke('get-path-templates', chain),
+  deletePathTemplate: (templateId: number) => ipcRenderer.invoke('delete-path-template', templateId),
+  
+  // Custom EVM networks
+  saveCustomChain: (chainData: any, replace?: boolean) => ipcRenderer.invoke('save-custom-chain', chainData, replace),
+  getCustomChains: () => ipcRenderer.invoke('get-custom-chains'),
+  deleteCustomChain: (chainId: number) => ipcRenderer.invoke('delete-custom-chain', chainId),
+  
+  // Electrum balance lookups
+  electrumRequest: (chain: string, method: string, params: any[]) => ipcRenderer.invoke('electrum-request', chain, method, params),
   
   // System operations
   showSaveDialog: (options: any) => ipcRenderer.invoke('show-save-dialog', options),
@@ -0,0 +1,37 @@
+import { mnemonicToSeedSync } from '@scure/bip39';
+import { HDKey } from '@scure/bip32';
+import { parseMasterSecret } from '../src/services/masterSecret';
+
+/**
+ * BIP32 seed of a stored seed: a BIP39 phrase stretched with its passphrase,
+ * or a master secret restored from SLIP-39 shares, which is the seed itself
+ */
+export function seedFromText(mnemonic: string, passphrase: string = ''): Uint8Array {
+  return parseMasterSecret(mnemonic) ?? mnemonicToSeedSync(mnemonic.trim(), passphrase);
+}
+
+/**
+ * BIP32 master key fingerprint (first 4 bytes of HASH160 of the master
+ * public key) as 8 hex characters. Different passphrases on the same
+ * mnemonic give different fingerprints.
+ */
+export function seedFingerprint(mnemonic: string, passphrase: string = ''): string {
+  return formatFingerprint(HDKey.fromMasterSeed(seedFromText(mnemonic, passphrase)).fingerprint);
+}
+
+/**
+ * Fingerprint from a stored master private key (hex, optionally 0x-prefixed).
+ * Returns null when the value is not a valid secp256k1 key.
+ */
+export function fingerprintFromMasterKey(masterKey: string): string | null {
+  try {
+    const hex = masterKey.startsWith('0x') ? masterKey.slice(2) : masterKey;
+    return formatFingerprint(new HDKey({ privateKey: Uint8Array.from(Buffer.from(hex, 'hex')) }).fingerprint);
+  } catch {
+    return null;
+  }
+}
+
+function formatFingerprint(fingerprint: number): string {
+  return fingerprint.toString(16).padStart(8, '0');
+}
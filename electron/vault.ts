@@ -0,0 +1,121 @@
+import crypto from 'crypto';
+import CryptoJS from 'crypto-js';
+
+// Vault format identifiers
+export const VAULT_FORMAT_VERSION = 2;
+const FIELD_PREFIX = 'v2';
+const LEGACY_PREFIX = 'U2FsdGVkX1'; // base64 of CryptoJS "Salted__" header
+const KEY_CHECK_PLAINTEXT = 'nexus-vault-key-check';
+
+export interface KdfParams {
+  algorithm: 'scrypt';
+  salt: string; // hex
+  N: number;
+  r: number;
+  p: number;
+  keyLength: number;
+}
+
+// Default scrypt cost: 2^17 iterations, 128 MiB of memory per derivation
+export const DEFAULT_KDF_COST = {
+  N: 2 ** 17,
+  r: 8,
+  p: 1,
+  keyLength: 32,
+};
+
+/**
+ * Create a fresh set of KDF parameters with a random salt
+ */
+export function createKdfParams(cost = DEFAULT_KDF_COST): KdfParams {
+  return {
+    algorithm: 'scrypt',
+    salt: crypto.randomBytes(32).toString('hex'),
+    ...cost,
+  };
+}
+
+/**
+ * Derive the vault key from the master password using stored KDF parameters
+ */
+export function deriveVaultKey(password: string, params: KdfParams): Buffer {
+  if (params.algorithm !== 'scrypt') {
+    throw new Error(`Unsupported KDF algorithm: ${params.algorithm}`);
+  }
+
+  return crypto.scryptSync(password.normalize('NFKC'), Buffer.from(params.salt, 'hex'), params.keyLength, {
+    N: params.N,
+    r: params.r,
+    p: params.p,
+    // scrypt needs 128 * N * r bytes; leave headroom over Node's 32 MiB default
+    maxmem: 256 * params.N * params.r,
+  });
+}
+
+/**
+ * Encrypt a single field with AES-256-GCM and a random 96-bit nonce.
+ * The field name is bound as associated data so ciphertexts cannot be
+ * swapped between columns.
+ */
+export function encryptField(key: Buffer, plaintext: string, field: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(field, 'utf8'));
+
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [FIELD_PREFIX, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+/**
+ * Decrypt a field produced by encryptField. Throws if the ciphertext was
+ * tampered with or the key is wrong.
+ */
+export function decryptField(key: Buffer, payload: string, field: string): string {
+  const parts = payload.split(':');
+  if (parts.length !== 4 || parts[0] !== FIELD_PREFIX) {
+    throw new Error('Unrecognized vault ciphertext format');
+  }
+
+  const [, iv, tag, ciphertext] = parts;
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+  decipher.setAAD(Buffer.from(field, 'utf8'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+/**
+ * Whether a stored value was written by the pre-v2 CryptoJS passphrase format
+ */
+export function isLegacyCiphertext(value: string | null | undefined): boolean {
+  return typeof value === 'string' && value.startsWith(LEGACY_PREFIX);
+}
+
+/**
+ * Decrypt a value written by the legacy SHA-256(password) + CryptoJS scheme.
+ * Only used to migrate existing vaults and to read old keystore exports.
+ */
+export function decryptLegacy(password: string, ciphertext: string): string {
+  const legacyKey = CryptoJS.SHA256(password).toString();
+  return CryptoJS.AES.decrypt(ciphertext, legacyKey).toString(CryptoJS.enc.Utf8);
+}
+
+/**
+ * Create a key-check value used to verify a derived key before touching data
+ */
+export function createKeyCheck(key: Buffer): string {
+  return encryptField(key, KEY_CHECK_PLAINTEXT, 'key_check');
+}
+
+export function verifyKeyCheck(key: Buffer, keyCheck: string): boolean {
+  try {
+    return decryptField(key, keyCheck, 'key_check') === KEY_CHECK_PLAINTEXT;
+  } catch {
+    return false;
+  }
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { Activity, Clock, Database, Zap } from 'lucide-react';
-import { SmartBalanceChecker } from '../services/smartBalanceChecker';
+import { BalanceEngine } from '../services/balanceEngine';
 
 export default function BalanceStatus() {
   const [cacheStats, setCacheStats] = useState({ total: 0, valid: 0, expired: 0 });
@@ -9,7 +9,7 @@ export default function BalanceStatus() {
 
   useEffect(() => {
     const updateStats = () => {
-      setCacheStats(SmartBalanceChecker.getCacheStats());
+      setCacheStats(BalanceEngine.getCacheStats());
       setUpdateTime(new Date());
     };
 
@@ -23,7 +23,7 @@ export default function BalanceStatus() {
   }, []);
 
   const clearCache = () => {
-    SmartBalanceChecker.clearCache();
+    BalanceEngine.clearCache();
     setCacheStats({ total: 0, valid: 0, expired: 0 });
   };
 
@@ -83,7 +83,7 @@ export default function BalanceStatus() {
       </div>
 
       <div className="mt-3 text-xs text-white/50">
-        Smart caching: 10min TTL • Direct RPC calls • No rate limits • Batch processing
+        5min cache • Shared in-flight lookups • RPC failover • Paced per source
       </div>
     </motion.div>
   );
@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { motion } from 'framer-motion';
+import { Copy, GitBranch, Plus } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useStore, Wallet } from '../stores/appStore';
+import { WalletDerivationService } from '../services/walletDerivation';
+import { Bip85Application, Bip85Result, Bip85WordCount } from '../services/bip85';
+import { electronAPI } from '../utils/electron';
+import PasswordPrompt from './PasswordPrompt';
+
+interface Bip85ChildSeedProps {
+  wallet: Wallet;
+}
+
+const APPLICATIONS: { value: Bip85Application; label: string }[] = [
+  { value: 'mnemonic', label: 'Recovery phrase' },
+  { value: 'wif', label: 'WIF private key' },
+  { value: 'xprv', label: 'Extended private key' },
+  { value: 'hex', label: 'Hex entropy' },
+];
+
+// BIP85 child seeds of the wallet's seed. A child phrase can be imported as
+// its own seed group, derived on the same chains and paths as its parent.
+export default function Bip85ChildSeed({ wallet }: Bip85ChildSeedProps) {
+  const { seeds, wallets, revealSecret, addWallets, loadSeeds } = useStore();
+  const [application, setApplication] = useState<Bip85Application>('mnemonic');
+  const [words, setWords] = useState<Bip85WordCount>(12);
+  const [bytes, setBytes] = useState(32);
+  const [index, setIndex] = useState(0);
+  const [passphrase, setPassphrase] = useState('');
+  const [result, setResult] = useState<Bip85Result | null>(null);
+  const [showPasswordPrompt, setShowPasswordPrompt] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const seed = seeds.find(s => s.id === wallet.seedId);
+  const seedLabel = seed ? seed.label || `Seed ${seed.fingerprint}` : 'seed';
+
+  const deriveChild = async (password?: string) => {
+    const reveal = await revealSecret(wallet.id!, 'mnemonic', password);
+
+    if (reveal.success && reveal.value) {
+      setShowPasswordPrompt(false);
+      try {
+        if (seed?.hasPassphrase && WalletDerivationService.getSeedFingerprint(reveal.value, passphrase) !== seed.fingerprint) {
+          toast.error('This passphrase does not match the seed');
+          return;
+        }
+        setResult(WalletDerivationService.deriveBip85(reveal.value, { application, index, words, bytes }, passphrase));
+      } catch (error) {
+        toast.error((error as Error).message);
+      }
+    } else if (reveal.requiresPassword) {
+      if (password !== undefined) toast.error(reveal.error || 'Invalid password');
+      setShowPasswordPrompt(true);
+    } else {
+      setShowPasswordPrompt(false);
+      toast.error(reveal.error || 'Failed to reveal recovery phrase');
+    }
+  };
+
+  const importChildSeed = async () => {
+    if (!result || result.application !== 'mnemonic') return;
+
+    setIsImporting(true);
+    const toastId = toast.loading('Importing child seed...');
+    try {
+      const mnemonic = result.value;
+      const seedResult = await electronAPI.storeSeed({
+        mnemonic,
+        fingerprint: WalletDerivationService.getSeedFingerprint(mnemonic),
+        hasPassphrase: false,
+        label: `BIP85 #${index} of ${seedLabel}`,
+      });
+      if (!seedResult.success) {
+        throw new Error(seedResult.error || 'Failed to store seed');
+      }
+
+      // The parent's chains, paths and script types, once each
+      const targets = new Map<string, Wallet>();
+      wallets
+        .filter(w => w.seedId === wallet.seedId)
+        .forEach(w => targets.set(`${w.chain}|${w.derivationPath}|${w.metadata?.scriptType ?? ''}`, w));
+      const existing = new Set(wallets.filter(w => w.seedId === seedResult.id).map(w => `${w.chain}|${w.address}`));
+
+      let imported = 0;
+      for (const target of targets.values()) {
+        const child = await WalletDerivationService.deriveWallet(
+          mnemonic, target.chain, target.derivationPath, '', target.metadata?.scriptType
+        );
+        if (!child || !child.address || existing.has(`${child.chain}|${child.address}`)) continue;
+
+        const stored = await electronAPI.storeWallet({
+          seedId: seedResult.id,
+          chain: child.chain,
+          derivationPath: child.derivationPath,
+          publicKey: child.publicKey,
+          address: child.address,
+          privateKey: child.privateKey,
+          masterKey: child.masterKey,
+          balance: '0',
+          metadata: { ...child.metadata, bip85Parent: seed?.fingerprint, bip85Index: index },
+        });
+        if (stored.success) {
+          addWallets([{ ...child, id: stored.id, seedId: seedResult.id }]);
+          imported++;
+        }
+      }
+
+      toast.success(`Imported child seed with ${imported} wallet${imported !== 1 ? 's' : ''}`, { id: toastId });
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to import child seed', { id: toastId });
+    } finally {
+      // A child seed that yielded no wallets is not kept
+      await electronAPI.pruneOrphanSeeds();
+      await loadSeeds();
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass-panel p-6"
+    >
+      <h3 className="text-sm font-medium text-white/70 mb-4 flex items-center">
+        <GitBranch className="w-4 h-4 mr-2 text-nexus-accent" />
+        Child Seeds (BIP85)
+      </h3>
+      <p className="text-xs text-white/50 mb-4">
+        Derive independent phrases and keys from {seedLabel}. Its backup restores every child, so each index
+        can feed a separate operational wallet.
+      </p>
+
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        <select
+          value={application}
+          onChange={(e) => { setApplication(e.target.value as Bip85Application); setResult(null); }}
+          className="glass-input"
+        >
+          {APPLICATIONS.map(app => (
+            <option key={app.value} value={app.value}>{app.label}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={0}
+          value={index}
+          onChange={(e) => { setIndex(Math.max(0, parseInt(e.target.value) || 0)); setResult(null); }}
+          placeholder="Index"
+          className="glass-input"
+        />
+        {application === 'mnemonic' && (
+          <select
+            value={words}
+            onChange={(e) => { setWords(parseInt(e.target.value) as Bip85WordCount); setResult(null); }}
+            className="glass-input"
+          >
+            <option value={12}>12 words</option>
+            <option value={18}>18 words</option>
+            <option value={24}>24 words</option>
+          </select>
+        )}
+        {application === 'hex' && (
+          <input
+            type="number"
+            min={16}
+            max={64}
+            value={bytes}
+            onChange={(e) => { setBytes(Math.max(16, Math.min(64, parseInt(e.target.value) || 16))); setResult(null); }}
+            placeholder="Bytes (16-64)"
+            className="glass-input"
+          />
+        )}
+        {seed?.hasPassphrase && (
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => { setPassphrase(e.target.value); setResult(null); }}
+            placeholder="Seed passphrase"
+            className="glass-input col-span-2"
+          />
+        )}
+      </div>
+
+      {result ? (
+        <div className="space-y-3">
+          <p className="text-xs text-white/40 font-mono">{result.path}</p>
+          <div className="flex items-center space-x-3">
+            <p className="font-mono text-xs text-white/80 break-all flex-1">{result.value}</p>
+            <button
+              onClick={() => {
+                navigator.clipboard.writeText(result.value);
+                toast.success('Child secret copied to clipboard');
+              }}
+              className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+            >
+              <Copy className="w-4 h-4 text-white/50" />
+            </button>
+          </div>
+          <div className="flex space-x-3">
+            {result.application === 'mnemonic' && (
+              <button
+                onClick={importChildSeed}
+                disabled={isImporting}
+                className="glass-button-primary flex items-center space-x-2 text-sm disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                <span>{isImporting ? 'Importing...' : 'Import as Seed Group'}</span>
+              </button>
+            )}
+            <button onClick={() => setResult(null)} className="glass-button text-red-400 text-sm">
+              Hide
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button onClick={() => deriveChild()} className="glass-button text-sm">
+          Derive Child
+        </button>
+      )}
+
+      {/* Portaled so the prompt covers the window rather than the detail panel */}
+      {showPasswordPrompt && createPortal(
+        <PasswordPrompt
+          title="Derive Child Seed"
+          description="Enter your master password to derive from this wallet's seed. Every reveal is recorded in the audit log."
+          submitLabel="Derive"
+          onSubmit={deriveChild}
+          onCancel={() => setShowPasswordPrompt(false)}
+        />,
+        document.body
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,258 @@
+import { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Network, Plus, X, Upload, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useStore } from '../stores/appStore';
+import { CustomChain, getCustomChainKey } from '../services/chainRegistry';
+import { normalizeCustomChain, parseChainlistJson, validateCustomChain, verifyCustomChainRpc } from '../services/customChains';
+
+interface ChainForm {
+  name: string;
+  chainId: string;
+  symbol: string;
+  decimals: string;
+  rpcUrls: string;      // one per line
+  explorerUrl: string;
+}
+
+const EMPTY_FORM: ChainForm = { name: '', chainId: '', symbol: '', decimals: '18', rpcUrls: '', explorerUrl: '' };
+
+const toForm = (chain: CustomChain): ChainForm => ({
+  name: chain.name,
+  chainId: String(chain.chainId),
+  symbol: chain.symbol,
+  decimals: String(chain.decimals),
+  rpcUrls: chain.rpcUrls.join('\n'),
+  explorerUrl: chain.explorerUrl || '',
+});
+
+const fromForm = (form: ChainForm): CustomChain => normalizeCustomChain({
+  name: form.name,
+  chainId: Number(form.chainId),
+  symbol: form.symbol,
+  decimals: Number(form.decimals),
+  rpcUrls: form.rpcUrls.split(/\s+/),
+  explorerUrl: form.explorerUrl,
+});
+
+export default function CustomChains() {
+  const { customChains, wallets, saveCustomChain, deleteCustomChain } = useStore();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ChainForm>(EMPTY_FORM);
+  const [editingChainId, setEditingChainId] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingChainId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleFileSelect = async (file: File) => {
+    try {
+      const chain = parseChainlistJson(await file.text(), Number(form.chainId) || undefined);
+      setForm(toForm(chain));
+      toast.success(`Loaded ${chain.name} - verify and save to add it`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to read file');
+    }
+  };
+
+  const handleSave = async () => {
+    const chain = fromForm(form);
+    const invalid = validateCustomChain(chain);
+    if (invalid) {
+      toast.error(invalid);
+      return;
+    }
+
+    setIsSaving(true);
+    const toastId = toast.loading('Checking RPC endpoints...');
+    try {
+      const rpcError = await verifyCustomChainRpc(chain);
+      if (rpcError) {
+        toast.error(rpcError, { id: toastId });
+        return;
+      }
+
+      const result = await saveCustomChain(chain, chain.chainId === editingChainId);
+      if (result.success) {
+        toast.success(`${chain.name} saved`, { id: toastId });
+        closeForm();
+      } else {
+        toast.error(result.error || 'Failed to save network', { id: toastId });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (chain: CustomChain) => {
+    if (!confirm(`Remove ${chain.name} (chain id ${chain.chainId})?`)) return;
+
+    const result = await deleteCustomChain(chain.chainId);
+    if (result.success) {
+      toast.success(`${chain.name} removed`);
+    } else {
+      toast.error(result.error || 'Failed to remove network');
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.25 }}
+      className="glass-panel p-6"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-white flex items-center">
+          <Network className="w-5 h-5 mr-2 text-nexus-accent" />
+          Custom Networks
+        </h3>
+        <button
+          onClick={() => (showForm ? closeForm() : setShowForm(true))}
+          className="glass-button p-2"
+        >
+          {showForm ? <X className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+        </button>
+      </div>
+
+      <p className="text-xs text-white/50 mb-4">
+        EVM networks added here can be derived, balance-checked and filtered like built-in chains. Each RPC URL must answer eth_chainId with the network's chain id.
+      </p>
+
+      {showForm && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: 'auto' }}
+          className="mb-4 p-4 bg-nexus-glass rounded-lg space-y-3"
+        >
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="text"
+              placeholder="Network name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="glass-input"
+            />
+            <input
+              type="number"
+              min="1"
+              placeholder="Chain id"
+              value={form.chainId}
+              onChange={(e) => setForm({ ...form, chainId: e.target.value })}
+              readOnly={editingChainId !== null}
+              title={editingChainId !== null ? 'Wallets are keyed by chain id, so it cannot change' : undefined}
+              className={`glass-input ${editingChainId !== null ? 'opacity-50' : ''}`}
+            />
+            <input
+              type="text"
+              placeholder="Symbol (e.g., ETH)"
+              value={form.symbol}
+              onChange={(e) => setForm({ ...form, symbol: e.target.value })}
+              className="glass-input"
+            />
+            <input
+              type="number"
+              min="0"
+              placeholder="Decimals"
+              value={form.decimals}
+              onChange={(e) => setForm({ ...form, decimals: e.target.value })}
+              className="glass-input"
+            />
+          </div>
+          <textarea
+            placeholder="RPC URLs, one per line"
+            value={form.rpcUrls}
+            onChange={(e) => setForm({ ...form, rpcUrls: e.target.value })}
+            rows={3}
+            className="glass-input font-mono text-sm resize-none"
+          />
+          <input
+            type="text"
+            placeholder="Block explorer URL (optional)"
+            value={form.explorerUrl}
+            onChange={(e) => setForm({ ...form, explorerUrl: e.target.value })}
+            className="glass-input"
+          />
+          <div className="flex space-x-3">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isSaving}
+              className="glass-button flex-1 flex items-center justify-center space-x-2"
+              title="Import a chainlist.org network definition. For a file with many networks, enter the chain id first."
+            >
+              <Upload className="w-4 h-4" />
+              <span>Import JSON</span>
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !form.name || !form.chainId || !form.rpcUrls.trim()}
+              className="glass-button-primary flex-1 disabled:opacity-50"
+            >
+              {isSaving ? 'Verifying...' : 'Verify & Save'}
+            </button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFileSelect(file);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+        </motion.div>
+      )}
+
+      <div className="space-y-2">
+        {customChains.length === 0 && !showForm && (
+          <p className="text-sm text-white/40">No custom networks yet</p>
+        )}
+        {customChains.map(chain => {
+          const walletCount = wallets.filter(wallet => wallet.chain === getCustomChainKey(chain.chainId)).length;
+          return (
+            <div
+              key={chain.chainId}
+              className="flex items-center justify-between p-3 bg-nexus-glass rounded-lg"
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white">
+                  {chain.name} <span className="text-white/40">· {chain.symbol} · chain id {chain.chainId}</span>
+                </p>
+                <p className="text-xs text-white/40 font-mono truncate">
+                  {chain.rpcUrls[0]}{chain.rpcUrls.length > 1 ? ` +${chain.rpcUrls.length - 1} more` : ''}
+                  {walletCount > 0 ? ` · ${walletCount} wallet(s)` : ''}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => {
+                    setForm(toForm(chain));
+                    setEditingChainId(chain.chainId);
+                    setShowForm(true);
+                  }}
+                  className="p-1 hover:bg-white/10 rounded transition-colors"
+                  title="Edit network"
+                >
+                  <Pencil className="w-4 h-4 text-nexus-accent" />
+                </button>
+                <button
+                  onClick={() => handleDelete(chain)}
+                  className="p-1 hover:bg-red-500/10 rounded transition-colors"
+                  title="Remove network"
+                >
+                  <Trash2 className="w-4 h-4 text-red-400" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+}
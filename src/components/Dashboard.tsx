@@ -15,6 +15,7 @@ import WalletWatcher from './WalletWatcher';
 import IdentityManager from './IdentityManager';
 import FloatingParticles from './FloatingParticles';
 import { toast } from 'react-hot-toast';
+import { CHAIN_CONFIGS, getChainKeys } from '../services/chainRegistry';
 
 type View = 'portfolio' | 'wallets' | 'watcher' | 'import' | 'settings';
 
@@ -27,6 +28,10 @@ export default function Dashboard() {
   const [showIdentityManager, setShowIdentityManager] = useState(false);
   
   const { wallets, selectedWallet, currentIdentity, logout, setCurrentIdentity, loadWallets } = useStore();
+  
+  // Chains the identity has wallets on, built-in and custom, in registry order
+  const usedChains = new Set(wallets.map(wallet => wallet.chain));
+  const walletChains = getChainKeys().filter(chain => usedChains.has(chain));
 
   const handleLogout = () => {
     if (confirm('Are you sure you want to logout?')) {
@@ -222,12 +227,9 @@ export default function Dashboard() {
                     className="glass-input pr-10 appearance-none cursor-pointer"
                   >
                     <option value="all">All Chains</option>
-                    <option value="BTC">Bitcoin</option>
-                    <option value="ETH">Ethereum</option>
-                    <option value="BSC">BSC</option>
-                    <option value="POLYGON">Polygon</option>
-                    <option value="SOL">Solana</option>
-                    <option value="XMR">Monero</option>
+                    {walletChains.map(chain => (
+                      <option key={chain} value={chain}>{CHAIN_CONFIGS[chain].name}</option>
+                    ))}
                   </select>
                   <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/30 pointer-events-none" />
                 </div>
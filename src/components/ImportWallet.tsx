@@ -2,11 +2,19 @@ import { useState, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Upload, FileText, Key, Shield, CheckCircle, AlertCircle,
-  X, Download, Info
+  X, Download, Info, Lock
 } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { electronAPI } from '../utils/electron';
 import { useStore } from '../stores/appStore';
+import { PrivateKeyImport } from '../services/privateKeyImport';
+import { CHAIN_CONFIGS } from '../services/chainRegistry';
+
+const KEY_FORMAT_LABELS = {
+  wif: 'WIF private key',
+  hex: 'Raw hex private key (EVM)',
+  bip38: 'BIP38 encrypted key',
+};
 
 interface ImportWalletProps {
   isOpen: boolean;
@@ -14,17 +22,24 @@ interface ImportWalletProps {
 }
 
 export default function ImportWallet({ isOpen, onClose }: ImportWalletProps) {
-  const { loadWallets } = useStore();
+  const { loadWallets, wallets } = useStore();
   const [isDragging, setIsDragging] = useState(false);
-  const [importMethod, setImportMethod] = useState<'file' | 'text'>('file');
+  const [importMethod, setImportMethod] = useState<'file' | 'text' | 'key'>('file');
   const [textInput, setTextInput] = useState('');
+  const [keyInput, setKeyInput] = useState('');
+  const [keyPassphrase, setKeyPassphrase] = useState('');
+  const [keyChain, setKeyChain] = useState('ETH');
   const [password, setPassword] = useState('');
   const [needsPassword, setNeedsPassword] = useState(false);
+  // File contents waiting for the keystore password
+  const [pendingFile, setPendingFile] = useState('');
   const [isImporting, setIsImporting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   if (!isOpen) return null;
 
+  const keyFormat = keyInput.trim() ? PrivateKeyImport.detectFormat(keyInput) : null;
+
   const handleFileSelect = async (file: File) => {
     try {
       const fileContent = await file.text();
@@ -37,23 +52,18 @@ export default function ImportWallet({ isOpen, onClose }: ImportWalletProps) {
   const processImport = async (fileData: string) => {
     setIsImporting(true);
     try {
-      // First try without password
+      // The first attempt goes without a password; keystores ask for one
       // @ts-ignore
-      let result = await electronAPI.importWalletFile(fileData);
+      const result = await electronAPI.importWalletFile(fileData, needsPassword ? password : undefined);
       
       // If password is required, show password input
       if (!result.success && result.error?.includes('Password required')) {
+        setPendingFile(fileData);
         setNeedsPassword(true);
         setIsImporting(false);
         return;
       }
       
-      // If we have a password, try with it
-      if (needsPassword && password) {
-        // @ts-ignore
-        result = await electronAPI.importWalletFile(fileData, password);
-      }
-      
       if (result.success) {
         toast.success(result.message || 'Wallet imported successfully');
         await loadWallets();
@@ -69,13 +79,54 @@ export default function ImportWallet({ isOpen, onClose }: ImportWalletProps) {
     }
   };
 
+  const handleKeyImport = async () => {
+    setIsImporting(true);
+    try {
+      const parsed = await PrivateKeyImport.parse(keyInput, keyPassphrase);
+      const derived = PrivateKeyImport.toWallets(parsed, { chain: keyChain });
+      const newWallets = derived.filter(wallet =>
+        !wallets.some(existing => existing.chain === wallet.chain && existing.address === wallet.address)
+      );
+
+      if (newWallets.length === 0) {
+        toast.error('This key is already imported');
+        return;
+      }
+
+      for (const wallet of newWallets) {
+        const result = await electronAPI.storeWallet({
+          chain: wallet.chain,
+          derivationPath: wallet.derivationPath,
+          publicKey: wallet.publicKey,
+          address: wallet.address,
+          privateKey: wallet.privateKey,
+          balance: '0',
+          metadata: wallet.metadata,
+        });
+
+        if (!result.success) {
+          throw new Error(result.error || `Failed to store ${wallet.address}`);
+        }
+      }
+
+      toast.success(`Imported ${newWallets.length} address${newWallets.length === 1 ? '' : 'es'}`);
+      await loadWallets();
+      resetForm();
+      onClose();
+    } catch (error: any) {
+      toast.error(error.message || 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const handlePasswordSubmit = async () => {
     if (!password.trim()) {
       toast.error('Please enter a password');
       return;
     }
     
-    const fileData = importMethod === 'file' ? '' : textInput;
+    const fileData = importMethod === 'file' ? pendingFile : textInput;
     await processImport(fileData);
   };
 
@@ -105,8 +156,11 @@ export default function ImportWallet({ isOpen, onClose }: ImportWalletProps) {
 
   const resetForm = () => {
     setTextInput('');
+    setKeyInput('');
+    setKeyPassphrase('');
     setPassword('');
     setNeedsPassword(false);
+    setPendingFile('');
     setImportMethod('file');
     setIsDragging(false);
   };
@@ -137,7 +191,7 @@ export default function ImportWallet({ isOpen, onClose }: ImportWalletProps) {
             <div>
               <h2 className="text-2xl font-light text-white mb-2">Import Wallet</h2>
               <p className="text-sm text-white/60">
-                Import wallets from exported JSON or keystore files
+                Import wallets from exported JSON, keystore files or private keys
               </p>
             </div>
             <button
@@ -174,6 +228,17 @@ export default function ImportWallet({ isOpen, onClose }: ImportWalletProps) {
               <FileText className="w-5 h-5 mx-auto mb-2" />
               <div className="text-sm font-medium">Paste JSON</div>
             </button>
+            <button
+              onClick={() => setImportMethod('key')}
+              className={`flex-1 p-4 rounded-lg border transition-colors ${
+                importMethod === 'key'
+                  ? 'bg-nexus-accent/10 border-nexus-accent/30 text-nexus-accent'
+                  : 'bg-white/5 border-white/10 text-white/70 hover:bg-white/10'
+              }`}
+            >
+              <Key className="w-5 h-5 mx-auto mb-2" />
+              <div className="text-sm font-medium">Private Key</div>
+            </button>
           </div>
         </div>
 
@@ -242,6 +307,77 @@ export default function ImportWallet({ isOpen, onClose }: ImportWalletProps) {
                   </button>
                 </div>
               )}
+
+              {importMethod === 'key' && (
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-white/70 mb-2">
+                      Private Key
+                    </label>
+                    <input
+                      type="password"
+                      value={keyInput}
+                      onChange={(e) => setKeyInput(e.target.value)}
+                      placeholder="WIF (5..., K..., L...), 0x-prefixed hex or BIP38 (6P...)"
+                      className="w-full p-3 bg-black/30 border border-white/10 rounded-lg text-white font-mono text-sm focus:border-nexus-accent focus:outline-none"
+                      spellCheck={false}
+                    />
+                    {keyInput.trim() && (
+                      <p className={`mt-2 text-xs ${keyFormat ? 'text-white/50' : 'text-red-400'}`}>
+                        {keyFormat ? KEY_FORMAT_LABELS[keyFormat] : 'Not a WIF, hex or BIP38 private key'}
+                      </p>
+                    )}
+                  </div>
+
+                  {keyFormat === 'bip38' && (
+                    <div>
+                      <label className="block text-sm font-medium text-white/70 mb-2">
+                        <Lock className="w-3 h-3 inline mr-1" />
+                        BIP38 Passphrase
+                      </label>
+                      <input
+                        type="password"
+                        value={keyPassphrase}
+                        onChange={(e) => setKeyPassphrase(e.target.value)}
+                        placeholder="Passphrase the key was encrypted with"
+                        className="w-full p-3 bg-black/30 border border-white/10 rounded-lg text-white focus:border-nexus-accent focus:outline-none"
+                      />
+                    </div>
+                  )}
+
+                  {keyFormat === 'hex' && (
+                    <div>
+                      <label className="block text-sm font-medium text-white/70 mb-2">
+                        Network
+                      </label>
+                      <select
+                        value={keyChain}
+                        onChange={(e) => setKeyChain(e.target.value)}
+                        className="glass-input w-full"
+                      >
+                        {PrivateKeyImport.getEvmChains().map(chain => (
+                          <option key={chain} value={chain}>{CHAIN_CONFIGS[chain].name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
+                  {keyFormat === 'wif' && (
+                    <p className="text-xs text-white/40">
+                      The network comes from the key. Compressed keys import every address type the network supports;
+                      prefix the key with p2pkh:, p2wpkh-p2sh: or p2wpkh: (as Electrum exports them) to import one.
+                    </p>
+                  )}
+
+                  <button
+                    onClick={handleKeyImport}
+                    disabled={!keyFormat || (keyFormat === 'bip38' && !keyPassphrase) || isImporting}
+                    className="glass-button-primary w-full disabled:opacity-50"
+                  >
+                    {isImporting ? (keyFormat === 'bip38' ? 'Decrypting...' : 'Importing...') : 'Import Key'}
+                  </button>
+                </div>
+              )}
             </>
           ) : (
             <div className="space-y-4">
@@ -304,6 +440,7 @@ export default function ImportWallet({ isOpen, onClose }: ImportWalletProps) {
                 <li>• Nexus Wallet Manager exports (.json)</li>
                 <li>• Ethereum keystore files (.json)</li>
                 <li>• Raw wallet JSON with private keys</li>
+                <li>• Single private keys: WIF, 0x-prefixed hex (EVM) and BIP38</li>
               </ul>
               <p className="mt-3 text-yellow-400/80">
                 <Shield className="w-3 h-3 inline mr-1" />
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   AlertCircle, CheckCircle, Loader,
@@ -6,23 +6,53 @@ import {
 } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { useStore } from '../stores/appStore';
-import { WalletDerivationService, CHAIN_CONFIGS } from '../services/walletDerivation';
-import { BatchBalanceChecker } from '../services/batchBalanceChecker';
+import { WalletDerivationService, DEFAULT_DERIVATION_RANGE, DerivationRange, DerivedWallet, BitcoinScriptType } from '../services/walletDerivation';
+import { CHAIN_CONFIGS, getChainKeys } from '../services/chainRegistry';
+import { AccountDiscovery, DEFAULT_GAP_LIMIT } from '../services/accountDiscovery';
+import { PATH_TEMPLATE_PRESETS, PathTemplate } from '../services/pathTemplates';
+import {
+  getElectrumSeedType, markElectrumSeed, unmarkElectrumSeed, isMarkedElectrumSeed, ELECTRUM_CHAINS, ELECTRUM_SEED_PATHS,
+} from '../services/electrumSeed';
+import { BalanceEngine } from '../services/balanceEngine';
+import { DerivationPool, DerivationJob, DerivationProgress, DerivationTask } from '../services/derivationPool';
 import { electronAPI } from '../utils/electron';
 import ImportWallet from './ImportWallet';
+import PathTemplatePicker from './PathTemplatePicker';
+import ShamirRecovery from './ShamirRecovery';
+
+// Upper bound for the account and address range inputs
+const MAX_RANGE_END = 999;
+// Stored wallets whose balances are read in one bulk lookup
+const BALANCE_BATCH = 250;
+
+interface ChainTemplate {
+  template: string;
+  scriptType?: BitcoinScriptType;
+}
 
 export default function MnemonicInput() {
   const [mnemonics, setMnemonics] = useState<string[]>(['']);
   const [passphrases, setPassphrases] = useState<string[]>(['']);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [selectedChains, setSelectedChains] = useState<string[]>(Object.keys(CHAIN_CONFIGS).filter(chain => !chain.includes('TESTNET') && !chain.includes('SEPOLIA') && !chain.includes('GOERLI') && !chain.includes('MUMBAI') && !chain.includes('FUJI')));
+  const [importProgress, setImportProgress] = useState<DerivationProgress | null>(null);
+  const importController = useRef<AbortController | null>(null);
+  const [selectedChains, setSelectedChains] = useState<string[]>(getChainKeys({ testnet: false }));
   const [checkBalances, setCheckBalances] = useState(true);
-  const [importMode, setImportMode] = useState<'manual' | 'text' | 'file'>('manual');
+  const [range, setRange] = useState<DerivationRange>(DEFAULT_DERIVATION_RANGE);
+  const [discoverAccounts, setDiscoverAccounts] = useState(false);
+  const [gapLimit, setGapLimit] = useState(DEFAULT_GAP_LIMIT);
+  const [selectedTemplates, setSelectedTemplates] = useState<string[]>([]);
+  const [importMode, setImportMode] = useState<'manual' | 'text' | 'file' | 'shamir'>('manual');
   const [showImportModal, setShowImportModal] = useState(false);
   const [textImport, setTextImport] = useState('');
   const [networkFilter, setNetworkFilter] = useState<'all' | 'mainnet' | 'testnet'>('mainnet');
   
-  const { addWallets, addMnemonic } = useStore();
+  const { addWallets, addMnemonic, loadSeeds, pathTemplates } = useStore();
+  
+  const availableTemplates: PathTemplate[] = [
+    ...PATH_TEMPLATE_PRESETS,
+    ...pathTemplates.map(t => ({ ...t, id: `custom-${t.id}` })),
+  ];
 
   const handleMnemonicChange = (index: number, value: string) => {
     const updated = [...mnemonics];
@@ -46,6 +76,13 @@ export default function MnemonicInput() {
     setPassphrases(passphrases.filter((_, i) => i !== index));
   };
 
+  const handleShamirRecovered = (mnemonic: string) => {
+    const filled = mnemonics.map((m, i) => [m, passphrases[i] || ''] as const).filter(([m]) => m.trim());
+    setMnemonics([...filled.map(([m]) => m), mnemonic]);
+    setPassphrases([...filled.map(([, p]) => p), '']);
+    setImportMode('manual');
+  };
+
   const parseTextImport = () => {
     const lines = textImport.split('\n').map(line => line.trim()).filter(line => line);
     const validMnemonics: string[] = [];
@@ -58,15 +95,35 @@ export default function MnemonicInput() {
       const line = lines[i];
       
       // Check if line contains a potential passphrase (separated by colon or pipe)
-      const parts = line.split(/[:|]/);
-      const mnemonic = parts[0].trim();
+      const electrumMarked = isMarkedElectrumSeed(line);
+      const parts = (electrumMarked ? unmarkElectrumSeed(line) : line).split(/[:|]/);
+      const mnemonic = electrumMarked ? markElectrumSeed(parts[0]) : parts[0].trim();
       const passphrase = parts[1]?.trim() || '';
       
       // Validate mnemonic
       const words = mnemonic.split(/\s+/);
+      const electrumType = WalletDerivationService.getElectrumSeedType(mnemonic);
       console.log(`Line ${i + 1}: ${words.length} words`);
       
-      if (words.length === 12 || words.length === 24) {
+      if (WalletDerivationService.isMoneroSpendKey(mnemonic)) {
+        validMnemonics.push(mnemonic);
+        validPassphrases.push('');
+        console.log(`✓ Monero seed ${validMnemonics.length}`);
+      } else if (WalletDerivationService.isMasterSecret(mnemonic)) {
+        validMnemonics.push(mnemonic);
+        // The shares' passphrase is already applied
+        validPassphrases.push('');
+        console.log(`✓ SLIP-39 master secret ${validMnemonics.length}`);
+      } else if (electrumType) {
+        if (ELECTRUM_SEED_PATHS[electrumType]) {
+          validMnemonics.push(mnemonic);
+          // Old seeds have no seed extension
+          validPassphrases.push(electrumType === 'old' ? '' : passphrase);
+          console.log(`✓ Electrum ${electrumType} seed ${validMnemonics.length}`);
+        } else {
+          invalidLines.push(`Line ${i + 1}: Electrum two-factor seeds are not supported`);
+        }
+      } else if (words.length === 12 || words.length === 24) {
         try {
           // Basic validation - check if it's valid BIP39
           const isValid = WalletDerivationService.validateMnemonic(mnemonic);
@@ -82,6 +139,9 @@ export default function MnemonicInput() {
           invalidLines.push(`Line ${i + 1}: Validation error - ${(e as Error).message}`);
           console.log(`✗ Error validating line ${i + 1}:`, e);
         }
+      } else if (words.length === 25) {
+        invalidLines.push(`Line ${i + 1}: Invalid Monero mnemonic`);
+        console.log(`✗ Invalid Monero mnemonic on line ${i + 1}`);
       } else {
         invalidLines.push(`Line ${i + 1}: Must be 12 or 24 words (found ${words.length})`);
         console.log(`✗ Wrong word count on line ${i + 1}: ${words.length} words`);
@@ -117,28 +177,8 @@ export default function MnemonicInput() {
     );
   };
 
-  const getFilteredChains = () => {
-    const allChains = Object.keys(CHAIN_CONFIGS);
-    
-    if (networkFilter === 'mainnet') {
-      return allChains.filter(chain => 
-        !chain.includes('TESTNET') && 
-        !chain.includes('SEPOLIA') && 
-        !chain.includes('GOERLI') && 
-        !chain.includes('MUMBAI') && 
-        !chain.includes('FUJI')
-      );
-    } else if (networkFilter === 'testnet') {
-      return allChains.filter(chain => 
-        chain.includes('TESTNET') || 
-        chain.includes('SEPOLIA') || 
-        chain.includes('GOERLI') || 
-        chain.includes('MUMBAI') || 
-        chain.includes('FUJI')
-      );
-    }
-    
-    return allChains;
+  const getFilteredChains = (filter: 'all' | 'mainnet' | 'testnet' = networkFilter) => {
+    return filter === 'all' ? getChainKeys() : getChainKeys({ testnet: filter === 'testnet' });
   };
 
   const selectAllChains = () => {
@@ -146,6 +186,39 @@ export default function MnemonicInput() {
     setSelectedChains(filteredChains);
   };
 
+  const handleRangeChange = (field: 'accountEnd' | 'addressEnd', value: string) => {
+    const parsed = Math.min(Math.max(parseInt(value, 10) || 0, 0), MAX_RANGE_END);
+    setRange(prev => ({ ...prev, [field]: parsed }));
+  };
+
+  // The chain's configured paths plus any selected templates for it
+  const getChainTemplates = (chain: string): ChainTemplate[] => [
+    ...(CHAIN_CONFIGS[chain]?.derivationPaths || []).map(template => ({ template })),
+    ...availableTemplates
+      .filter(t => t.chain === chain && selectedTemplates.includes(t.id))
+      .map(({ template, scriptType }) => ({ template, scriptType })),
+  ];
+
+  // Every path in the range for a chain, each with the script type of its template
+  const expandChainPaths = (chain: string, templates: ChainTemplate[], pathRange: DerivationRange) => {
+    const paths = new Map<string, BitcoinScriptType | undefined>();
+    for (const { template, scriptType } of templates) {
+      for (const path of WalletDerivationService.expandDerivationPaths(chain, template, pathRange)) {
+        if (!paths.has(path)) paths.set(path, scriptType);
+      }
+    }
+    return paths;
+  };
+
+  // Wallets derived per phrase with the current chain selection and ranges
+  const getWalletsPerPhrase = () => {
+    try {
+      return selectedChains.reduce((total, chain) => total + expandChainPaths(chain, getChainTemplates(chain), range).size, 0);
+    } catch {
+      return 0;
+    }
+  };
+
   const deselectAllChains = () => {
     setSelectedChains([]);
   };
@@ -154,23 +227,7 @@ export default function MnemonicInput() {
     setNetworkFilter(filter);
     
     // Update selected chains to match the new filter
-    const filteredChains = filter === 'mainnet' ? 
-      Object.keys(CHAIN_CONFIGS).filter(chain => 
-        !chain.includes('TESTNET') && 
-        !chain.includes('SEPOLIA') && 
-        !chain.includes('GOERLI') && 
-        !chain.includes('MUMBAI') && 
-        !chain.includes('FUJI')
-      ) : filter === 'testnet' ?
-      Object.keys(CHAIN_CONFIGS).filter(chain => 
-        chain.includes('TESTNET') || 
-        chain.includes('SEPOLIA') || 
-        chain.includes('GOERLI') || 
-        chain.includes('MUMBAI') || 
-        chain.includes('FUJI')
-      ) : Object.keys(CHAIN_CONFIGS);
-    
-    setSelectedChains(filteredChains);
+    setSelectedChains(getFilteredChains(filter));
   };
 
   const validateAndFilterMnemonics = (): { validMnemonics: string[], invalidCount: number } => {
@@ -180,6 +237,22 @@ export default function MnemonicInput() {
     for (const mnemonic of mnemonics) {
       if (!mnemonic.trim()) continue;
       
+      if (WalletDerivationService.isMoneroSpendKey(mnemonic) || WalletDerivationService.isMasterSecret(mnemonic)) {
+        validMnemonics.push(mnemonic);
+        continue;
+      }
+      
+      const electrumType = WalletDerivationService.getElectrumSeedType(mnemonic);
+      if (electrumType) {
+        if (ELECTRUM_SEED_PATHS[electrumType]) {
+          validMnemonics.push(mnemonic);
+        } else {
+          console.warn('Skipping Electrum two-factor seed: it needs the TrustedCoin cosigner');
+          invalidCount++;
+        }
+        continue;
+      }
+      
       const words = mnemonic.trim().split(/\s+/);
       if (words.length !== 12 && words.length !== 24) {
         console.warn(`Skipping invalid mnemonic: Must be 12 or 24 words (found ${words.length})`);
@@ -229,102 +302,208 @@ export default function MnemonicInput() {
 
     setIsProcessing(true);
     const toastId = toast.loading('Processing wallets...');
+    const controller = new AbortController();
+    importController.current = controller;
+    let totalWallets = 0;
+    let failedWallets = 0;
+    // Stored wallets waiting for their balance check
+    let unchecked: { id: number; chain: string; address: string }[] = [];
+
+    // Read the balances of the waiting wallets in one bulk lookup
+    const checkStoredBalances = async () => {
+      const batch = unchecked;
+      unchecked = [];
+      if (batch.length === 0) return;
+
+      try {
+        const balances = await BalanceEngine.getBalances(batch);
+        for (let j = 0; j < batch.length; j++) {
+          if (!balances[j].error) {
+            await electronAPI.updateBalance(batch[j].id, balances[j].balance);
+          }
+        }
+      } catch (error) {
+        console.error('Failed to check balances of imported wallets:', error);
+      }
+    };
+
+    // Store a derived wallet under its seed and optionally queue its balance check
+    const storeDerivedWallet = async (wallet: DerivedWallet, seedId: number | null) => {
+      console.log(`Storing wallet for ${wallet.chain}:`, {
+        publicKey: wallet.publicKey,
+        address: wallet.address,
+        addressLength: wallet.address?.length
+      });
+
+      // Validation: Don't store wallets without proper addresses
+      if (!wallet.address || wallet.address === wallet.publicKey) {
+        console.error(`❌ Skipping ${wallet.chain} wallet - no proper address generated. Address: ${wallet.address}, PublicKey: ${wallet.publicKey}`);
+        failedWallets++;
+        return;
+      }
+      
+      try {
+        // Store wallet in database
+        const result = await electronAPI.storeWallet({
+          seedId,
+          chain: wallet.chain,
+          derivationPath: wallet.derivationPath,
+          publicKey: wallet.publicKey,
+          address: wallet.address,
+          privateKey: wallet.privateKey,
+          masterKey: wallet.masterKey,
+          balance: '0',
+          metadata: wallet.metadata,
+        });
+        
+        if (result.success) {
+          // Add to store with ID
+          addWallets([{ ...wallet, id: result.id, seedId }]);
+          totalWallets++;
+          
+          // Check balances if enabled, a batch at a time
+          if (checkBalances) {
+            unchecked.push({ id: result.id, chain: wallet.chain, address: wallet.address });
+            if (unchecked.length >= BALANCE_BATCH) {
+              await checkStoredBalances();
+            }
+          }
+        } else {
+          console.error(`Failed to store wallet for ${wallet.chain}:`, result.error);
+          failedWallets++;
+        }
+      } catch (storeError) {
+        console.error(`Failed to store wallet for ${wallet.chain} ${wallet.derivationPath}:`, storeError);
+        failedWallets++;
+      }
+    };
+
+    // Store a seed once; every wallet derived from it references it
+    const storeSeed = async (mnemonic: string, fingerprint: string, passphrase: string) => {
+      const seedResult = await electronAPI.storeSeed({ mnemonic, fingerprint, hasPassphrase: passphrase !== '' });
+      if (!seedResult.success) {
+        throw new Error(seedResult.error || 'Failed to store seed');
+      }
+      return seedResult.id as number;
+    };
 
     try {
-      let totalWallets = 0;
-      let failedWallets = 0;
+      // Paths are collected per mnemonic first, then derived off the UI thread in one batch.
+      // A seed id is undefined until the pool reports the fingerprint of its seed.
+      const jobs: DerivationJob[] = [];
+      const jobSeedIds: (number | null | undefined)[] = [];
+      const failedJobs = new Set<number>();
       
-      for (let i = 0; i < validMnemonics.length; i++) {
+      for (let i = 0; i < validMnemonics.length && !controller.signal.aborted; i++) {
         const mnemonic = validMnemonics[i];
-        const passphrase = passphrases[i] || '';
+        // A Monero seed or spend key has no passphrase and only yields the XMR wallet
+        const isSpendKey = WalletDerivationService.isMoneroSpendKey(mnemonic);
+        // An Electrum seed only yields Bitcoin wallets on Electrum's own paths
+        const electrumType = WalletDerivationService.getElectrumSeedType(mnemonic);
+        const electrumPaths = electrumType ? ELECTRUM_SEED_PATHS[electrumType] : undefined;
+        const electrumChains = selectedChains.filter(chain => ELECTRUM_CHAINS.includes(chain));
+        // A SLIP-39 master secret is already the BIP32 seed; Cardano needs the BIP39 entropy instead
+        const isMasterSecret = WalletDerivationService.isMasterSecret(mnemonic);
+        const passphrase = isSpendKey || isMasterSecret || electrumType === 'old' ? '' : passphrases[i] || '';
+        const chains = isSpendKey ? ['XMR']
+          : electrumType ? (electrumChains.length > 0 ? electrumChains : ['BTC'])
+          : isMasterSecret ? selectedChains.filter(chain => CHAIN_CONFIGS[chain]?.family !== 'cardano')
+          : selectedChains;
+        const phraseRange = isSpendKey ? DEFAULT_DERIVATION_RANGE : range;
         
         try {
           // Add mnemonic to store
           addMnemonic(mnemonic);
           
-          // Derive wallets for selected chains
-          for (const chain of selectedChains) {
+          // A Monero key is no BIP39 seed: its wallet keeps the spend key as its
+          // private key. Discovery stores its wallets as it goes, so it stretches
+          // the seed in a worker up front and hands it on to every derivation.
+          let seedId: number | null | undefined = isSpendKey ? null : undefined;
+          let seed: Uint8Array | undefined;
+          if (discoverAccounts && !isSpendKey) {
+            toast.loading(`Preparing seed (${i+1}/${validMnemonics.length})...`, { id: toastId });
+            const prepared = await DerivationPool.prepareSeed(mnemonic, passphrase, controller.signal);
+            seed = prepared.seed;
+            seedId = await storeSeed(mnemonic, prepared.fingerprint, passphrase);
+          }
+          
+          const tasks: DerivationTask[] = [];
+          
+          for (const chain of chains) {
             const config = CHAIN_CONFIGS[chain];
-            if (!config) continue;
+            if (!config || controller.signal.aborted) continue;
             
-            toast.loading(`Deriving ${config.name} wallets (${i+1}/${validMnemonics.length})...`, { id: toastId });
+            const templates: ChainTemplate[] = isSpendKey
+              ? config.derivationPaths.map(template => ({ template }))
+              : electrumPaths ? [electrumPaths] : getChainTemplates(chain);
+            let paths = expandChainPaths(chain, templates, phraseRange);
             
-            for (const path of config.derivationPaths) {
-              try {
-                const wallet = await WalletDerivationService.deriveWallet(mnemonic, chain, path, passphrase);
-                
-                if (wallet) {
-                  console.log(`Storing wallet for ${chain}:`, {
-                    publicKey: wallet.publicKey,
-                    address: wallet.address,
-                    addressLength: wallet.address?.length
+            if (discoverAccounts && !isSpendKey) {
+              const fallbackPaths = new Map<string, BitcoinScriptType | undefined>();
+              
+              for (const { template, scriptType } of templates) {
+                try {
+                  const result = await AccountDiscovery.discover(mnemonic, chain, template, passphrase, {
+                    gapLimit,
+                    scriptType,
+                    seed,
+                    signal: controller.signal,
+                    onProgress: (checked, used) => toast.loading(
+                      `Discovering ${config.name} accounts (${i+1}/${validMnemonics.length}): ${checked} checked, ${used} used...`,
+                      { id: toastId }
+                    ),
                   });
-
-                  // Validation: Don't store wallets without proper addresses
-                  if (!wallet.address || wallet.address === wallet.publicKey) {
-                    console.error(`❌ Skipping ${chain} wallet - no proper address generated. Address: ${wallet.address}, PublicKey: ${wallet.publicKey}`);
-                    failedWallets++;
-                    continue;
-                  }
-                  
-                  try {
-                    // Store wallet in database
-                    const result = await electronAPI.storeWallet({
-                      mnemonic,
-                      chain: wallet.chain,
-                      derivationPath: wallet.derivationPath,
-                      publicKey: wallet.publicKey,
-                      address: wallet.address,
-                      privateKey: wallet.privateKey,
-                      masterKey: wallet.masterKey,
-                      balance: '0',
-                      metadata: wallet.metadata,
-                    });
-                    
-                    if (result.success) {
-                      // Add to store with ID
-                      addWallets([{ ...wallet, id: result.id }]);
-                      totalWallets++;
-                      
-                      // Check balance if enabled (will be batched automatically)
-                      if (checkBalances && wallet.address) {
-                        try {
-                          const balance = await BatchBalanceChecker.getBalance(
-                            wallet.chain,
-                            wallet.address
-                          );
-                          
-                          if (balance && !balance.error) {
-                            await electronAPI.updateBalance(
-                              result.id,
-                              balance.balance
-                            );
-                          }
-                        } catch (error) {
-                          console.error(`Failed to check balance for ${wallet.address}:`, error);
-                        }
-                      }
-                    } else {
-                      console.error(`Failed to store wallet for ${chain}:`, result.error);
-                      failedWallets++;
-                    }
-                  } catch (storeError) {
-                    console.error(`Failed to store wallet for ${chain} ${path}:`, storeError);
-                    failedWallets++;
+                  // Discovered wallets are already derived
+                  for (const wallet of result.wallets) {
+                    await storeDerivedWallet(wallet, seedId ?? null);
                   }
+                } catch (discoveryError) {
+                  if (controller.signal.aborted) throw discoveryError;
+                  // Without reliable activity data, fall back to the configured range rather than miss funds
+                  console.warn(`Discovery failed for ${chain} ${template}, deriving the configured range:`, discoveryError);
+                  expandChainPaths(chain, [{ template, scriptType }], phraseRange)
+                    .forEach((type, path) => fallbackPaths.set(path, type));
                 }
-              } catch (deriveError) {
-                console.error(`Failed to derive wallet for ${chain} ${path}:`, deriveError);
-                failedWallets++;
               }
+              
+              paths = fallbackPaths;
             }
+            
+            paths.forEach((scriptType, derivationPath) => tasks.push({ chain, derivationPath, scriptType }));
           }
+          
+          jobs.push({ mnemonic, passphrase, tasks, seed });
+          jobSeedIds.push(seedId);
         } catch (mnemonicError) {
           console.error(`Failed to process mnemonic ${i+1}:`, mnemonicError);
           failedWallets++;
         }
       }
       
+      const result = await DerivationPool.derive(jobs, {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          setImportProgress(progress);
+          toast.loading(`Deriving wallets (${progress.completed}/${progress.total})...`, { id: toastId });
+        },
+        onSeed: async ({ fingerprint }, jobIndex) => {
+          if (jobSeedIds[jobIndex] !== undefined) return;
+          const { mnemonic, passphrase } = jobs[jobIndex];
+          try {
+            jobSeedIds[jobIndex] = await storeSeed(mnemonic, fingerprint, passphrase);
+          } catch (seedError) {
+            console.error('Failed to store seed:', seedError);
+            failedJobs.add(jobIndex);
+            failedWallets++;
+          }
+        },
+        onWallet: async (wallet, jobIndex) => {
+          if (!failedJobs.has(jobIndex)) await storeDerivedWallet(wallet, jobSeedIds[jobIndex] ?? null);
+        },
+      });
+      failedWallets += result.failed;
+      await checkStoredBalances();
+      
       let message = `Successfully imported ${totalWallets} wallets`;
       if (failedWallets > 0) {
         message += ` (${failedWallets} failed)`;
@@ -336,12 +515,28 @@ export default function MnemonicInput() {
       setPassphrases(['']);
       
     } catch (error: any) {
-      toast.error(error.message || 'Failed to import wallets', { id: toastId });
+      if (controller.signal.aborted) {
+        // Wallets stored before the cancel are kept
+        toast.success(`Import cancelled after ${totalWallets} wallets`, { id: toastId });
+      } else {
+        toast.error(error.message || 'Failed to import wallets', { id: toastId });
+      }
     } finally {
+      // Seeds stored for mnemonics that ended up with no wallets go again
+      await electronAPI.pruneOrphanSeeds();
+      await loadSeeds();
+      importController.current = null;
+      setImportProgress(null);
       setIsProcessing(false);
     }
   };
 
+  const electrumSeedTypes = mnemonics.map(mnemonic => WalletDerivationService.getElectrumSeedType(mnemonic));
+  // Valid BIP39 phrases that would also restore an Electrum wallet
+  const electrumAlternatives = mnemonics.map(mnemonic =>
+    WalletDerivationService.validateMnemonic(mnemonic) ? getElectrumSeedType(markElectrumSeed(mnemonic)) : null
+  );
+
   return (
     <div className="max-w-4xl mx-auto space-y-6">
       {/* Instructions */}
@@ -358,7 +553,11 @@ export default function MnemonicInput() {
             <h3 className="text-lg font-medium text-white mb-2">Import Wallets</h3>
             <p className="text-sm text-white/60 leading-relaxed">
               Enter your 12 or 24-word recovery phrases below. Each phrase will generate wallets
-              across all selected blockchains. Your mnemonics are encrypted and stored locally.
+              across all selected blockchains. A 25-word Monero seed or private spend key
+              (64 hex characters) imports that Monero wallet, and an Electrum seed restores its Bitcoin wallet.
+              A phrase valid both ways is read as BIP39; prefix it with "electrum:" or use the button below it
+              to restore the Electrum wallet instead.
+              Your mnemonics are encrypted and stored locally.
             </p>
           </div>
         </div>
@@ -395,6 +594,17 @@ export default function MnemonicInput() {
             <FileText className="w-4 h-4 mr-2 inline" />
             Bulk Import
           </button>
+          <button
+            onClick={() => setImportMode('shamir')}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+              importMode === 'shamir'
+                ? 'bg-nexus-accent/20 text-nexus-accent border border-nexus-accent/30'
+                : 'bg-nexus-glass text-white/60 border border-nexus-border hover:bg-white/5'
+            }`}
+          >
+            <Shield className="w-4 h-4 mr-2 inline" />
+            Shamir Shares
+          </button>
           <button
             onClick={() => setShowImportModal(true)}
             className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
@@ -440,6 +650,11 @@ another mnemonic phrase here | another passphrase`}
         </motion.div>
       )}
 
+      {/* Shamir share recovery */}
+      {importMode === 'shamir' && (
+        <ShamirRecovery onRecovered={handleShamirRecovered} />
+      )}
+
       {/* Chain selection */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -561,18 +776,71 @@ another mnemonic phrase here | another passphrase`}
                 
                 {mnemonic && (
                   <div className="flex items-center space-x-2">
-                    {WalletDerivationService.validateMnemonic(mnemonic) ? (
+                    {WalletDerivationService.isMoneroSpendKey(mnemonic) ? (
+                      <>
+                        <CheckCircle className="w-4 h-4 text-nexus-accent" />
+                        <span className="text-xs text-nexus-accent">
+                          {mnemonic.trim().split(/\s+/).length === 25 ? 'Valid Monero seed' : 'Valid Monero spend key'}
+                        </span>
+                      </>
+                    ) : WalletDerivationService.isMasterSecret(mnemonic) ? (
+                      <>
+                        <CheckCircle className="w-4 h-4 text-nexus-accent" />
+                        <span className="text-xs text-nexus-accent">
+                          SLIP-39 master secret (restored from shares)
+                        </span>
+                      </>
+                    ) : electrumSeedTypes[index] ? (
+                      ELECTRUM_SEED_PATHS[electrumSeedTypes[index]!] ? (
+                        <>
+                          <CheckCircle className="w-4 h-4 text-nexus-accent" />
+                          <span className="text-xs text-nexus-accent">
+                            Electrum {electrumSeedTypes[index]} seed (Bitcoin only)
+                          </span>
+                          {isMarkedElectrumSeed(mnemonic) && (
+                            <button
+                              onClick={() => handleMnemonicChange(index, unmarkElectrumSeed(mnemonic))}
+                              className="text-xs text-white/50 hover:text-white underline"
+                              disabled={isProcessing}
+                            >
+                              Import as BIP39 instead
+                            </button>
+                          )}
+                        </>
+                      ) : (
+                        <>
+                          <AlertCircle className="w-4 h-4 text-yellow-500" />
+                          <span className="text-xs text-yellow-500">
+                            Electrum two-factor seeds are not supported
+                          </span>
+                        </>
+                      )
+                    ) : WalletDerivationService.validateMnemonic(mnemonic) ? (
                       <>
                         <CheckCircle className="w-4 h-4 text-nexus-accent" />
                         <span className="text-xs text-nexus-accent">
                           Valid {mnemonic.trim().split(/\s+/).length}-word phrase
                         </span>
+                        {electrumAlternatives[index] && ELECTRUM_SEED_PATHS[electrumAlternatives[index]!] && (
+                          <>
+                            <span className="text-xs text-yellow-500">
+                              · also a valid Electrum {electrumAlternatives[index]} seed
+                            </span>
+                            <button
+                              onClick={() => handleMnemonicChange(index, markElectrumSeed(mnemonic))}
+                              className="text-xs text-white/50 hover:text-white underline"
+                              disabled={isProcessing}
+                            >
+                              Import as Electrum seed
+                            </button>
+                          </>
+                        )}
                       </>
                     ) : (
                       <>
                         <AlertCircle className="w-4 h-4 text-yellow-500" />
                         <span className="text-xs text-yellow-500">
-                          Invalid phrase format
+                          {mnemonic.trim().split(/\s+/).length === 25 ? 'Invalid Monero seed' : 'Invalid phrase format'}
                         </span>
                       </>
                     )}
@@ -607,6 +875,90 @@ another mnemonic phrase here | another passphrase`}
         transition={{ delay: 0.3 }}
         className="glass-panel p-6"
       >
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label className="text-xs font-medium text-white/50 mb-2 block">
+              Accounts 0 – N
+            </label>
+            <input
+              type="number"
+              min={0}
+              max={MAX_RANGE_END}
+              value={range.accountEnd}
+              onChange={(e) => handleRangeChange('accountEnd', e.target.value)}
+              className="glass-input"
+              disabled={isProcessing || discoverAccounts}
+            />
+          </div>
+          <div>
+            <label className="text-xs font-medium text-white/50 mb-2 block">
+              Addresses 0 – M
+            </label>
+            <input
+              type="number"
+              min={0}
+              max={MAX_RANGE_END}
+              value={range.addressEnd}
+              onChange={(e) => handleRangeChange('addressEnd', e.target.value)}
+              className="glass-input"
+              disabled={isProcessing || discoverAccounts}
+            />
+          </div>
+          <label className="flex items-center space-x-3 cursor-pointer sm:mt-6">
+            <input
+              type="checkbox"
+              checked={!!range.includeChange}
+              onChange={(e) => setRange(prev => ({ ...prev, includeChange: e.target.checked }))}
+              disabled={discoverAccounts}
+              className="w-4 h-4 rounded border-nexus-glass-border bg-nexus-glass text-nexus-accent focus:ring-nexus-accent"
+            />
+            <span className="text-sm text-white/70">
+              Include change addresses
+            </span>
+          </label>
+        </div>
+        <p className="text-xs text-white/40 mb-4">
+          {discoverAccounts
+            ? 'Only used addresses and the next fresh receive address are stored.'
+            : `${getWalletsPerPhrase()} wallets per phrase. Change addresses apply to UTXO chains (BTC, LTC, DOGE, ADA).`}
+        </p>
+
+        <PathTemplatePicker
+          chains={selectedChains}
+          templates={availableTemplates}
+          selected={selectedTemplates}
+          onChange={setSelectedTemplates}
+          disabled={isProcessing}
+        />
+
+        <div className="flex flex-wrap items-center gap-4 mb-4">
+          <label className="flex items-center space-x-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={discoverAccounts}
+              onChange={(e) => setDiscoverAccounts(e.target.checked)}
+              className="w-4 h-4 rounded border-nexus-glass-border bg-nexus-glass text-nexus-accent focus:ring-nexus-accent"
+            />
+            <span className="text-sm text-white/70">
+              Discover used accounts and addresses (BIP44)
+            </span>
+          </label>
+          {discoverAccounts && (
+            <label className="flex items-center space-x-2">
+              <span className="text-xs text-white/50">Gap limit</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_RANGE_END}
+                value={gapLimit}
+                onChange={(e) => setGapLimit(Math.min(Math.max(parseInt(e.target.value, 10) || 1, 1), MAX_RANGE_END))}
+                className="glass-input w-24"
+                disabled={isProcessing}
+              />
+            </label>
+          )}
+        </div>
+
         <label className="flex items-center space-x-3 cursor-pointer">
           <input
             type="checkbox"
@@ -625,8 +977,30 @@ another mnemonic phrase here | another passphrase`}
         initial={{ opacity: 0 }}
         animate={{ opacity: 1 }}
         transition={{ delay: 0.4 }}
-        className="flex justify-end space-x-4"
+        className="flex items-center justify-end space-x-4"
       >
+        {importProgress && importProgress.total > 0 && (
+          <div className="flex-1">
+            <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+              <div
+                className="h-full bg-nexus-accent transition-all"
+                style={{ width: `${(importProgress.completed / importProgress.total) * 100}%` }}
+              />
+            </div>
+            <p className="text-xs text-white/50 mt-1">
+              {importProgress.completed} of {importProgress.total} wallets derived
+            </p>
+          </div>
+        )}
+        {isProcessing && (
+          <button
+            onClick={() => importController.current?.abort()}
+            className="glass-button flex items-center space-x-2"
+          >
+            <X className="w-4 h-4" />
+            <span>Cancel</span>
+          </button>
+        )}
         <button
           onClick={handleImport}
           disabled={isProcessing || mnemonics.every(m => !m.trim())}
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Lock } from 'lucide-react';
+
+interface PasswordPromptProps {
+  title: string;
+  description: string;
+  submitLabel?: string;
+  busyLabel?: string;
+  placeholder?: string;
+  // Ask for the password twice, for passwords being chosen rather than checked
+  confirm?: boolean;
+  onSubmit: (password: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+export default function PasswordPrompt({
+  title,
+  description,
+  submitLabel = 'Confirm',
+  busyLabel = 'Verifying...',
+  placeholder = 'Master password',
+  confirm = false,
+  onSubmit,
+  onCancel,
+}: PasswordPromptProps) {
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const mismatch = confirm && confirmation.length > 0 && confirmation !== password;
+  const ready = Boolean(password) && (!confirm || confirmation === password);
+
+  const submit = async () => {
+    if (!ready || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(password);
+    } finally {
+      setPassword('');
+      setConfirmation('');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-xl z-[60] flex items-center justify-center p-8"
+      onClick={(e) => {
+        e.stopPropagation();
+        onCancel();
+      }}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        className="glass-panel-elevated w-full max-w-md p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-medium text-white mb-4">
+          {title}
+        </h3>
+
+        <p className="text-sm text-white/60 mb-6">
+          {description}
+        </p>
+
+        <div className="space-y-4">
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/30" />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="glass-input pl-10"
+              placeholder={placeholder}
+              onKeyPress={(e) => e.key === 'Enter' && submit()}
+              disabled={isSubmitting}
+              autoFocus
+            />
+          </div>
+
+          {confirm && (
+            <div>
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/30" />
+                <input
+                  type="password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  className="glass-input pl-10"
+                  placeholder="Repeat password"
+                  onKeyPress={(e) => e.key === 'Enter' && submit()}
+                  disabled={isSubmitting}
+                />
+              </div>
+              {mismatch && (
+                <p className="text-xs text-red-400 mt-2">Passwords do not match</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex space-x-3">
+            <button
+              onClick={onCancel}
+              disabled={isSubmitting}
+              className="flex-1 glass-button"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={submit}
+              disabled={!ready || isSubmitting}
+              className="flex-1 glass-button-primary disabled:opacity-50"
+            >
+              {isSubmitting ? busyLabel : submitLabel}
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
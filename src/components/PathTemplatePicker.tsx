@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { GitBranch, Plus, Save, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useStore } from '../stores/appStore';
+import { WalletDerivationService, BitcoinScriptType } from '../services/walletDerivation';
+import { CHAIN_CONFIGS } from '../services/chainRegistry';
+import { PathTemplate, validatePathTemplate } from '../services/pathTemplates';
+
+const SCRIPT_TYPE_LABELS: Record<BitcoinScriptType, string> = {
+  'p2pkh': 'Legacy (P2PKH)',
+  'p2sh-p2wpkh': 'Nested SegWit (P2SH-P2WPKH)',
+  'p2wpkh': 'Native SegWit (P2WPKH)',
+  'p2tr': 'Taproot (P2TR)',
+};
+
+interface PathTemplatePickerProps {
+  chains: string[];
+  templates: PathTemplate[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  disabled?: boolean;
+}
+
+export default function PathTemplatePicker({ chains, templates, selected, onChange, disabled }: PathTemplatePickerProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [chain, setChain] = useState('ETH');
+  const [name, setName] = useState('');
+  const [template, setTemplate] = useState('');
+  const [scriptType, setScriptType] = useState<BitcoinScriptType | ''>('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { savePathTemplate, deletePathTemplate } = useStore();
+
+  const visibleChains = chains.filter(c => templates.some(t => t.chain === c));
+  const isUtxoChain = CHAIN_CONFIGS[chain]?.family === 'utxo';
+  const needsScriptType = isUtxoChain && !scriptType && !WalletDerivationService.getDefaultScriptType(template);
+  const error = template.trim()
+    ? validatePathTemplate(template, chain) ?? (needsScriptType ? 'Choose a script type for this path' : null)
+    : null;
+
+  const toggleTemplate = (id: string) => {
+    onChange(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id]);
+  };
+
+  const handleSave = async () => {
+    if (!template.trim() || error) return;
+
+    setIsSaving(true);
+    const result = await savePathTemplate({
+      chain,
+      name: name.trim(),
+      template: template.trim(),
+      scriptType: scriptType || undefined,
+    });
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to save path template');
+      return;
+    }
+
+    const id = `custom-${result.id}`;
+    if (!selected.includes(id)) {
+      onChange([...selected, id]);
+    }
+    toast.success('Path template saved');
+    setName('');
+    setTemplate('');
+    setScriptType('');
+    setShowForm(false);
+  };
+
+  const handleDelete = async (templateId: string) => {
+    const success = await deletePathTemplate(Number(templateId.replace('custom-', '')));
+    if (success) {
+      onChange(selected.filter(s => s !== templateId));
+    } else {
+      toast.error('Failed to delete path template');
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-xs font-medium text-white/50 flex items-center">
+          <GitBranch className="w-3 h-3 mr-2" />
+          Extra derivation paths
+        </h4>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          disabled={disabled}
+          className="px-3 py-1 text-xs font-medium rounded-lg bg-nexus-glass border border-nexus-glass-border text-white/60 hover:text-white transition-colors flex items-center space-x-1"
+        >
+          <Plus className="w-3 h-3" />
+          <span>Custom template</span>
+        </button>
+      </div>
+
+      {visibleChains.length === 0 && (
+        <p className="text-xs text-white/40 mb-2">No templates for the selected chains.</p>
+      )}
+
+      <div className="space-y-2">
+        {visibleChains.map(c => (
+          <div key={c} className="flex flex-wrap items-center gap-2">
+            <span className="text-xs font-medium text-white/60 w-12">{CHAIN_CONFIGS[c]?.symbol || c}</span>
+            {templates.filter(t => t.chain === c).map(t => (
+              <span
+                key={t.id}
+                className={`flex items-center rounded-lg text-xs font-medium transition-all ${
+                  selected.includes(t.id)
+                    ? 'bg-nexus-accent/20 border border-nexus-accent/50 text-nexus-accent'
+                    : 'bg-nexus-glass border border-nexus-glass-border text-white/60 hover:text-white'
+                }`}
+              >
+                <button
+                  onClick={() => toggleTemplate(t.id)}
+                  disabled={disabled}
+                  className="px-3 py-1"
+                  title={t.template}
+                >
+                  {t.name}
+                </button>
+                {!t.preset && (
+                  <button
+                    onClick={() => handleDelete(t.id)}
+                    disabled={disabled}
+                    className="pr-2 text-white/40 hover:text-red-400"
+                    title="Delete template"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {showForm && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mt-3 p-4 rounded-lg bg-nexus-glass border border-nexus-glass-border space-y-3"
+        >
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <select
+              value={chain}
+              onChange={(e) => {
+                setChain(e.target.value);
+                setScriptType('');
+              }}
+              className="glass-input"
+            >
+              {Object.keys(CHAIN_CONFIGS).map(key => (
+                <option key={key} value={key}>{CHAIN_CONFIGS[key].name}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name (e.g. Old Ledger app)"
+              className="glass-input"
+            />
+            {isUtxoChain && (
+              <select
+                value={scriptType}
+                onChange={(e) => setScriptType(e.target.value as BitcoinScriptType | '')}
+                className="glass-input"
+              >
+                <option value="">Script type from purpose</option>
+                {Object.entries(SCRIPT_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          <input
+            type="text"
+            value={template}
+            onChange={(e) => setTemplate(e.target.value)}
+            placeholder="m/44'/60'/{account}'/0/{index}"
+            className="glass-input font-mono"
+            spellCheck={false}
+          />
+          <div className="flex items-center justify-between">
+            <p className={`text-xs ${error ? 'text-red-400' : 'text-white/40'}`}>
+              {error || 'Use {account}, {change} and {index}; add \' to harden a level.'}
+            </p>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !template.trim() || !!error}
+              className="glass-button-primary flex items-center space-x-2 text-xs"
+            >
+              <Save className="w-3 h-3" />
+              <span>Save</span>
+            </button>
+          </div>
+        </motion.div>
+      )}
+    </div>
+  );
+}
@@ -2,15 +2,15 @@ import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { 
   DollarSign, TrendingUp, PieChart, BarChart3, 
-  Coins, Globe, Award 
+  Coins, Globe, Award, Layers
 } from 'lucide-react';
 import { useStore } from '../stores/appStore';
 import { PortfolioService, PortfolioSummary } from '../services/portfolioService';
-import { SmartBalanceChecker } from '../services/smartBalanceChecker';
+import { BalanceEngine } from '../services/balanceEngine';
 import BalanceStatus from './BalanceStatus';
 
 export default function PortfolioOverview() {
-  const { wallets } = useStore();
+  const { wallets, seeds } = useStore();
   const [portfolio, setPortfolio] = useState<PortfolioSummary | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
@@ -23,8 +23,8 @@ export default function PortfolioOverview() {
   const generatePortfolioSummary = async () => {
     setIsLoading(true);
     try {
-      console.log(`🚀 Starting smart balance checks for ${wallets.length} wallets`);
-      console.log(`📊 Cache stats:`, SmartBalanceChecker.getCacheStats());
+      console.log(`🚀 Starting balance checks for ${wallets.length} wallets`);
+      console.log(`📊 Cache stats:`, BalanceEngine.getCacheStats());
       
       // Prepare balance check requests, filtering out invalid addresses
       const validRequests = wallets
@@ -49,17 +49,18 @@ export default function PortfolioOverview() {
           address: wallet.address || wallet.publicKey!
         }));
 
-      console.log(`🔍 Smart checking balances for ${validRequests.length} valid wallets`);
+      console.log(`🔍 Checking balances for ${validRequests.length} valid wallets`);
       
-      // Use smart balance checker with caching and direct RPC calls
-      const balanceResults = await SmartBalanceChecker.batchCheckBalances(validRequests);
+      // Cached, and lookups already in flight are shared
+      const balanceResults = await BalanceEngine.getBalances(validRequests);
       
       console.log(`✅ Completed balance checks, got ${balanceResults.length} results`);
-      console.log(`📊 Updated cache stats:`, SmartBalanceChecker.getCacheStats());
+      console.log(`📊 Updated cache stats:`, BalanceEngine.getCacheStats());
 
       const portfolioSummary = PortfolioService.generatePortfolioSummary(
         wallets.map(w => ({
           id: w.id!,
+          seedId: w.seedId,
           chain: w.chain,
           address: w.address!,
           balance: w.balance,
@@ -89,6 +90,12 @@ export default function PortfolioOverview() {
 
   const stats = portfolio ? PortfolioService.getPortfolioStats(portfolio) : null;
 
+  const getSeedName = (seedId: number | null) => {
+    if (seedId === null) return 'Imported keys';
+    const seed = seeds.find(s => s.id === seedId);
+    return seed?.label || (seed ? `Seed ${seed.fingerprint}` : `Seed #${seedId}`);
+  };
+
   return (
     <div className="space-y-6">
       {/* Balance Status */}
@@ -219,6 +226,47 @@ export default function PortfolioOverview() {
         </motion.div>
       )}
 
+      {/* Seed Breakdown */}
+      {portfolio && portfolio.seeds.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.45 }}
+          className="glass-panel p-6"
+        >
+          <h3 className="text-lg font-medium text-white mb-4 flex items-center">
+            <Layers className="w-5 h-5 mr-2 text-nexus-accent" />
+            Value by Seed
+          </h3>
+          <div className="space-y-3">
+            {portfolio.seeds.map((seed) => {
+              const percentage = portfolio.totalValue > 0 
+                ? (seed.totalValue / portfolio.totalValue) * 100 
+                : 0;
+              
+              return (
+                <div key={seed.seedId ?? 'none'} className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <span className="text-sm font-medium text-white">{getSeedName(seed.seedId)}</span>
+                    <span className="text-xs text-white/50">
+                      {seed.walletCount} wallet{seed.walletCount !== 1 ? 's' : ''} on {seed.chainCount} chain{seed.chainCount !== 1 ? 's' : ''}
+                    </span>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-sm font-medium text-white">
+                      ${seed.totalValue.toFixed(2)}
+                    </div>
+                    <div className="text-xs text-white/50">
+                      {percentage.toFixed(1)}%
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </motion.div>
+      )}
+
       {/* Top Tokens */}
       {portfolio && portfolio.topTokens.length > 0 && (
         <motion.div
@@ -0,0 +1,326 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Server, Plus, X, Pencil, Trash2, Power, RefreshCw } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useStore } from '../stores/appStore';
+import { CHAIN_CONFIGS, getChainKeys, getRpcUrls } from '../services/chainRegistry';
+import { RpcNode, normalizeRpcNode, supportsRpcNodes, validateRpcNode } from '../services/rpcNodes';
+import { EndpointHealth, RpcManager } from '../services/rpcManager';
+
+interface NodeForm {
+  id?: number;
+  chain: string;
+  url: string;
+  name: string;
+  priority: string;
+}
+
+const emptyForm = (chain: string): NodeForm => ({ chain, url: '', name: '', priority: '0' });
+
+const statusColor = (endpoint: EndpointHealth): string => {
+  if (endpoint.wrongChain || endpoint.coolingDown) return 'bg-red-400';
+  if (endpoint.calls === 0) return 'bg-white/30';
+  if (endpoint.score >= 80) return 'bg-green-400';
+  if (endpoint.score >= 50) return 'bg-yellow-400';
+  return 'bg-red-400';
+};
+
+const describeHealth = (endpoint: EndpointHealth): string => {
+  if (endpoint.calls === 0) return 'Not checked yet';
+  const parts = [
+    endpoint.latency !== undefined ? `${endpoint.latency} ms` : null,
+    `${Math.round(endpoint.errorRate * 100)}% errors of ${endpoint.calls}`,
+    endpoint.blockHeight !== undefined ? `block ${endpoint.blockHeight.toLocaleString()}` : null,
+    endpoint.lag ? `${endpoint.lag} behind` : null,
+    endpoint.wrongChain ? 'wrong network, not used' : endpoint.coolingDown ? 'resting after failures' : null,
+  ];
+  return parts.filter(Boolean).join(' · ');
+};
+
+export default function RpcNodes() {
+  const { rpcNodes, addRpcNode, updateRpcNode, deleteRpcNode } = useStore();
+  const rpcChains = getChainKeys().filter(supportsRpcNodes);
+  const [chain, setChain] = useState('ETH');
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<NodeForm>(emptyForm('ETH'));
+  const [isSaving, setIsSaving] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [, setHealthVersion] = useState(0);
+
+  // Re-render as balance checks and probes update endpoint health
+  useEffect(() => RpcManager.subscribe(() => setHealthVersion(version => version + 1)), []);
+
+  useEffect(() => {
+    runHealthCheck(chain);
+  }, [chain]);
+
+  const runHealthCheck = async (target: string) => {
+    setIsChecking(true);
+    try {
+      await RpcManager.checkHealth(target);
+    } catch (error) {
+      console.error('RPC health check error:', error);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const openForm = (values: NodeForm) => {
+    setForm(values);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setForm(emptyForm(chain));
+  };
+
+  const handleSave = async () => {
+    const node = normalizeRpcNode({ ...form, priority: Number(form.priority) });
+    const invalid = validateRpcNode(node);
+    if (invalid) {
+      toast.error(invalid);
+      return;
+    }
+
+    setIsSaving(true);
+    const toastId = toast.loading('Checking RPC node...');
+    try {
+      // Catches dead URLs and nodes of another network before they join the rotation
+      await RpcManager.getBlockHeight(node.chain, node.url);
+
+      const result = form.id ? await updateRpcNode(form.id, node) : await addRpcNode(node);
+      if (result.success) {
+        toast.success(form.id ? 'RPC node updated' : 'RPC node added', { id: toastId });
+        setChain(node.chain);
+        closeForm();
+      } else {
+        toast.error(result.error || 'Failed to save RPC node', { id: toastId });
+      }
+    } catch (error: any) {
+      toast.error(`RPC node check failed: ${error.message}`, { id: toastId });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleNode = async (node: RpcNode) => {
+    // Re-enabling a public endpoint just drops the node that disabled it
+    if (!node.isActive && getRpcUrls(node.chain).includes(node.url)) {
+      if (!(await deleteRpcNode(node.id))) toast.error('Failed to enable endpoint');
+      return;
+    }
+
+    const result = await updateRpcNode(node.id, { ...node, isActive: !node.isActive });
+    if (!result.success) {
+      toast.error(result.error || 'Failed to update RPC node');
+    }
+  };
+
+  // A disabled user node with a public endpoint's URL takes that endpoint out of rotation
+  const disablePublicEndpoint = async (url: string) => {
+    const result = await addRpcNode({ chain, url, name: 'Public', priority: 0, isActive: false });
+    if (!result.success) {
+      toast.error(result.error || 'Failed to disable endpoint');
+    }
+  };
+
+  const handleDelete = async (node: RpcNode) => {
+    if (!confirm(`Remove ${node.name} (${node.url})?`)) return;
+
+    if (await deleteRpcNode(node.id)) {
+      toast.success('RPC node removed');
+    } else {
+      toast.error('Failed to remove RPC node');
+    }
+  };
+
+  const endpoints = RpcManager.getHealth(chain);
+  const disabledNodes = rpcNodes.filter(node => node.chain === chain && !node.isActive);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.2 }}
+      className="glass-panel p-6"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-white flex items-center">
+          <Server className="w-5 h-5 mr-2 text-nexus-accent" />
+          RPC Nodes
+        </h3>
+        <button
+          onClick={() => (showForm ? closeForm() : openForm(emptyForm(chain)))}
+          className="glass-button p-2"
+        >
+          {showForm ? <X className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+        </button>
+      </div>
+
+      <p className="text-xs text-white/50 mb-4">
+        Balance checks use your nodes first, highest priority first, then the public endpoints ranked by health. An endpoint that fails, lags behind or serves another network is skipped automatically.
+      </p>
+
+      {showForm && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: 'auto' }}
+          className="mb-4 p-4 bg-nexus-glass rounded-lg space-y-3"
+        >
+          <select
+            value={form.chain}
+            onChange={(e) => setForm({ ...form, chain: e.target.value })}
+            className="glass-input"
+          >
+            {rpcChains.map(key => (
+              <option key={key} value={key}>{CHAIN_CONFIGS[key].name} ({key})</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="RPC URL"
+            value={form.url}
+            onChange={(e) => setForm({ ...form, url: e.target.value })}
+            className="glass-input"
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="text"
+              placeholder="Node Name (optional)"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="glass-input"
+            />
+            <input
+              type="number"
+              placeholder="Priority"
+              title="Higher priority nodes are tried first"
+              value={form.priority}
+              onChange={(e) => setForm({ ...form, priority: e.target.value })}
+              className="glass-input"
+            />
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !form.url.trim()}
+            className="glass-button-primary w-full disabled:opacity-50"
+          >
+            {isSaving ? 'Checking...' : form.id ? 'Save Node' : 'Add Node'}
+          </button>
+        </motion.div>
+      )}
+
+      <div className="flex items-center space-x-3 mb-3">
+        <select
+          value={chain}
+          onChange={(e) => setChain(e.target.value)}
+          className="glass-input flex-1"
+        >
+          {rpcChains.map(key => (
+            <option key={key} value={key}>{CHAIN_CONFIGS[key].name} ({key})</option>
+          ))}
+        </select>
+        <button
+          onClick={() => runHealthCheck(chain)}
+          disabled={isChecking}
+          className="glass-button flex items-center space-x-2 disabled:opacity-50"
+          title="Probe every endpoint of this chain"
+        >
+          <RefreshCw className={`w-4 h-4 ${isChecking ? 'animate-spin' : ''}`} />
+          <span>Check</span>
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {endpoints.length === 0 && (
+          <p className="text-sm text-white/40">No active endpoints for this chain</p>
+        )}
+        {endpoints.map(endpoint => {
+          const node = rpcNodes.find(n => n.chain === chain && n.url === endpoint.url && n.isActive);
+          return (
+            <div
+              key={endpoint.url}
+              className="flex items-center justify-between p-3 bg-nexus-glass rounded-lg"
+            >
+              <div className="flex-1 min-w-0 flex items-start space-x-3">
+                <span className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${statusColor(endpoint)}`} />
+                <div className="min-w-0">
+                  <p className="text-sm text-white truncate">
+                    {endpoint.name}
+                    <span className="text-white/40">
+                      {endpoint.source === 'user' ? ` · priority ${endpoint.priority}` : ' · default'}
+                      {endpoint.calls > 0 ? ` · score ${endpoint.score}` : ''}
+                    </span>
+                  </p>
+                  <p className="text-xs text-white/60 font-mono truncate">{endpoint.url}</p>
+                  <p className="text-xs text-white/40 truncate" title={endpoint.lastError}>
+                    {describeHealth(endpoint)}
+                    {endpoint.lastError ? ` · ${endpoint.lastError}` : ''}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                {node && (
+                  <button
+                    onClick={() => openForm({ id: node.id, chain: node.chain, url: node.url, name: node.name, priority: String(node.priority) })}
+                    className="p-1 hover:bg-white/10 rounded transition-colors"
+                    title="Edit node"
+                  >
+                    <Pencil className="w-4 h-4 text-nexus-accent" />
+                  </button>
+                )}
+                <button
+                  onClick={() => (node ? toggleNode(node) : disablePublicEndpoint(endpoint.url))}
+                  className="p-1 hover:bg-white/10 rounded transition-colors"
+                  title={node ? 'Disable node' : 'Stop using this public endpoint'}
+                >
+                  <Power className="w-4 h-4 text-yellow-400" />
+                </button>
+                {node && (
+                  <button
+                    onClick={() => handleDelete(node)}
+                    className="p-1 hover:bg-red-500/10 rounded transition-colors"
+                    title="Remove node"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-400" />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {disabledNodes.map(node => (
+          <div
+            key={node.id}
+            className="flex items-center justify-between p-3 bg-nexus-glass rounded-lg opacity-50"
+          >
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-white truncate">
+                {node.name} <span className="text-white/40">· disabled</span>
+              </p>
+              <p className="text-xs text-white/60 font-mono truncate">{node.url}</p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => toggleNode(node)}
+                className="p-1 hover:bg-white/10 rounded transition-colors"
+                title="Enable node"
+              >
+                <Power className="w-4 h-4 text-green-400" />
+              </button>
+              <button
+                onClick={() => handleDelete(node)}
+                className="p-1 hover:bg-red-500/10 rounded transition-colors"
+                title="Remove node"
+              >
+                <Trash2 className="w-4 h-4 text-red-400" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
@@ -1,19 +1,19 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
-  Server, Plus, X, Shield, Database, 
-  Zap, Fingerprint, Lock, Eye, EyeOff, Monitor
+  Shield, Database, 
+  Zap, Fingerprint, Lock, Eye, EyeOff, Monitor, Key
 } from 'lucide-react';
 import { useStore } from '../stores/appStore';
 import { toast } from 'react-hot-toast';
 import { electronAPI } from '../utils/electron';
 import { biometricAuth } from '../services/biometricAuth';
 import SecurityStatus from './SecurityStatus';
+import RpcNodes from './RpcNodes';
+import CustomChains from './CustomChains';
 
 export default function SettingsPanel() {
-  const { rpcNodes, addRpcNode, removeRpcNode, clearInvalidWallets, clearAllData } = useStore();
-  const [newNode, setNewNode] = useState({ chain: '', url: '', name: '' });
-  const [showAddNode, setShowAddNode] = useState(false);
+  const { clearInvalidWallets, clearAllData } = useStore();
   
   // Biometric authentication state
   const [biometricAvailable, setBiometricAvailable] = useState(false);
@@ -24,6 +24,11 @@ export default function SettingsPanel() {
   const [showBiometricPassword, setShowBiometricPassword] = useState(false);
   const [isProcessingBiometric, setIsProcessingBiometric] = useState(false);
   const [showSecurityStatus, setShowSecurityStatus] = useState(false);
+  
+  // Master password change state
+  const [showChangePassword, setShowChangePassword] = useState(false);
+  const [passwordForm, setPasswordForm] = useState({ current: '', next: '', confirm: '' });
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
 
   useEffect(() => {
     checkBiometricStatus();
@@ -44,60 +49,6 @@ export default function SettingsPanel() {
     }
   };
 
-  const handleAddNode = async () => {
-    if (!newNode.chain || !newNode.url) {
-      toast.error('Please fill in all required fields');
-      return;
-    }
-
-    try {
-      // Validate URL
-      new URL(newNode.url);
-      
-      // Add to store
-      addRpcNode(newNode.chain, newNode.url);
-      
-      // Add to database
-      await electronAPI.addRpcNode({
-        chain: newNode.chain,
-        url: newNode.url,
-        name: newNode.name || 'Custom Node',
-        priority: 0,
-      });
-      
-      toast.success('RPC node added successfully');
-      setNewNode({ chain: '', url: '', name: '' });
-      setShowAddNode(false);
-    } catch (error: any) {
-      toast.error('Invalid URL format');
-    }
-  };
-
-  const testRpcNode = async (_chain: string, url: string) => {
-    const toastId = toast.loading('Testing RPC node...');
-    
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          method: 'eth_blockNumber',
-          params: [],
-          id: 1,
-        }),
-      });
-      
-      if (response.ok) {
-        toast.success('RPC node is responsive', { id: toastId });
-      } else {
-        toast.error('RPC node is not responding', { id: toastId });
-      }
-    } catch (error) {
-      toast.error('Failed to connect to RPC node', { id: toastId });
-    }
-  };
-
   const handleClearInvalidWallets = async () => {
     const toastId = toast.loading('Checking for invalid wallets...');
     
@@ -158,6 +109,46 @@ export default function SettingsPanel() {
     }
   };
 
+  const closeChangePassword = () => {
+    setShowChangePassword(false);
+    setPasswordForm({ current: '', next: '', confirm: '' });
+  };
+
+  const changePassword = async () => {
+    if (passwordForm.next !== passwordForm.confirm) {
+      toast.error('Passwords do not match');
+      return;
+    }
+
+    if (passwordForm.next.length < 8) {
+      toast.error('Password must be at least 8 characters');
+      return;
+    }
+
+    setIsChangingPassword(true);
+    const toastId = toast.loading('Re-encrypting vault...');
+    try {
+      const result = await electronAPI.changePassword(passwordForm.current, passwordForm.next);
+      
+      if (result.success) {
+        closeChangePassword();
+        toast.success('Master password changed', { id: toastId });
+        
+        // The stored biometric unlock was tied to the old password
+        if (biometricEnabled) {
+          setBiometricEnabled(false);
+          toast(`${biometryType === 'touchID' ? 'Touch ID' : 'Face ID'} was disabled. Re-enable it with your new password.`);
+        }
+      } else {
+        toast.error(result.error || 'Failed to change password', { id: toastId });
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to change password', { id: toastId });
+    } finally {
+      setIsChangingPassword(false);
+    }
+  };
+
   const disableBiometricAuth = async () => {
     if (!confirm(`Are you sure you want to disable ${biometryType === 'touchID' ? 'Touch ID' : 'Face ID'}?`)) {
       return;
@@ -218,6 +209,78 @@ export default function SettingsPanel() {
             </label>
           </div>
           
+          {/* Master Password */}
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-white">Master password</p>
+              <p className="text-xs text-white/50">Re-encrypts every stored secret with the new password</p>
+            </div>
+            <button
+              onClick={() => setShowChangePassword(true)}
+              className="glass-button px-4 py-2 text-sm flex items-center space-x-2"
+            >
+              <Key className="w-4 h-4" />
+              <span>Change</span>
+            </button>
+          </div>
+          
+          {/* Change Password Modal */}
+          {showChangePassword && (
+            <div className="fixed inset-0 bg-black/60 backdrop-blur-xl z-50 flex items-center justify-center p-8">
+              <motion.div
+                initial={{ scale: 0.9, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+                className="glass-panel-elevated w-full max-w-md p-6"
+              >
+                <h3 className="text-lg font-medium text-white mb-4">
+                  Change Master Password
+                </h3>
+                
+                <p className="text-sm text-white/60 mb-6">
+                  All wallet secrets will be re-encrypted with the new password. Biometric unlock, if enabled, will need to be set up again.
+                </p>
+                
+                <div className="space-y-4">
+                  {([
+                    ['current', 'Current password'],
+                    ['next', 'New password'],
+                    ['confirm', 'Confirm new password'],
+                  ] as const).map(([field, placeholder]) => (
+                    <div key={field} className="relative">
+                      <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/30" />
+                      <input
+                        type="password"
+                        value={passwordForm[field]}
+                        onChange={(e) => setPasswordForm({ ...passwordForm, [field]: e.target.value })}
+                        className="glass-input pl-10"
+                        placeholder={placeholder}
+                        onKeyPress={(e) => e.key === 'Enter' && changePassword()}
+                        disabled={isChangingPassword}
+                      />
+                    </div>
+                  ))}
+                  
+                  <div className="flex space-x-3">
+                    <button
+                      onClick={closeChangePassword}
+                      disabled={isChangingPassword}
+                      className="flex-1 glass-button"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={changePassword}
+                      disabled={!passwordForm.current || !passwordForm.next || isChangingPassword}
+                      className="flex-1 glass-button-primary disabled:opacity-50"
+                    >
+                      {isChangingPassword ? 'Changing...' : 'Change Password'}
+                    </button>
+                  </div>
+                </div>
+              </motion.div>
+            </div>
+          )}
+          
           {/* Biometric Authentication */}
           {biometricAvailable && (
             <div className="border-t border-nexus-glass-border pt-4">
@@ -387,95 +450,10 @@ export default function SettingsPanel() {
       </motion.div>
 
       {/* RPC Nodes */}
-      <motion.div
-        initial={{ opacity: 0, y: 20 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ delay: 0.2 }}
-        className="glass-panel p-6"
-      >
-        <div className="flex items-center justify-between mb-4">
-          <h3 className="text-lg font-medium text-white flex items-center">
-            <Server className="w-5 h-5 mr-2 text-nexus-accent" />
-            RPC Nodes
-          </h3>
-          <button
-            onClick={() => setShowAddNode(!showAddNode)}
-            className="glass-button p-2"
-          >
-            {showAddNode ? <X className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
-          </button>
-        </div>
-        
-        {/* Add new node form */}
-        {showAddNode && (
-          <motion.div
-            initial={{ opacity: 0, height: 0 }}
-            animate={{ opacity: 1, height: 'auto' }}
-            className="mb-4 p-4 bg-nexus-glass rounded-lg space-y-3"
-          >
-            <input
-              type="text"
-              placeholder="Chain (e.g., ETH, BSC)"
-              value={newNode.chain}
-              onChange={(e) => setNewNode({ ...newNode, chain: e.target.value.toUpperCase() })}
-              className="glass-input"
-            />
-            <input
-              type="text"
-              placeholder="RPC URL"
-              value={newNode.url}
-              onChange={(e) => setNewNode({ ...newNode, url: e.target.value })}
-              className="glass-input"
-            />
-            <input
-              type="text"
-              placeholder="Node Name (optional)"
-              value={newNode.name}
-              onChange={(e) => setNewNode({ ...newNode, name: e.target.value })}
-              className="glass-input"
-            />
-            <button
-              onClick={handleAddNode}
-              className="glass-button-primary w-full"
-            >
-              Add Node
-            </button>
-          </motion.div>
-        )}
-        
-        {/* Node list */}
-        <div className="space-y-2">
-          {Object.entries(rpcNodes).map(([chain, urls]) => (
-            <div key={chain} className="space-y-2">
-              <p className="text-xs text-white/50 uppercase tracking-wider">{chain}</p>
-              {urls.map((url, index) => (
-                <div
-                  key={`${chain}-${index}`}
-                  className="flex items-center justify-between p-3 bg-nexus-glass rounded-lg"
-                >
-                  <div className="flex-1">
-                    <p className="text-sm text-white font-mono truncate">{url}</p>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <button
-                      onClick={() => testRpcNode(chain, url)}
-                      className="p-1 hover:bg-white/10 rounded transition-colors"
-                    >
-                      <Zap className="w-4 h-4 text-nexus-accent" />
-                    </button>
-                    <button
-                      onClick={() => removeRpcNode(chain, url)}
-                      className="p-1 hover:bg-red-500/10 rounded transition-colors"
-                    >
-                      <X className="w-4 h-4 text-red-400" />
-                    </button>
-                  </div>
-                </div>
-              ))}
-            </div>
-          ))}
-        </div>
-      </motion.div>
+      <RpcNodes />
+
+      {/* Custom EVM Networks */}
+      <CustomChains />
 
       {/* Performance Settings */}
       <motion.div
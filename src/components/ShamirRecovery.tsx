@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { CheckCircle, Plus, Shield, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { decodeShare, getRecoveryProgress, recoverSeed, Slip39RecoveryProgress } from '../services/slip39';
+
+interface ShamirRecoveryProps {
+  onRecovered: (seed: string) => void;
+}
+
+// Guided SLIP-39 recovery: shares are entered one at a time and checked as
+// they come in, until enough groups are complete to restore the master secret.
+export default function ShamirRecovery({ onRecovered }: ShamirRecoveryProps) {
+  const [shares, setShares] = useState<string[]>([]);
+  const [shareInput, setShareInput] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [isRecovering, setIsRecovering] = useState(false);
+
+  const progress: Slip39RecoveryProgress | null = shares.length > 0 ? getRecoveryProgress(shares) : null;
+
+  const addShare = () => {
+    const share = shareInput.trim().toLowerCase().split(/\s+/).join(' ');
+    try {
+      decodeShare(share);
+      if (shares.includes(share)) {
+        toast.error('This share was already entered');
+        return;
+      }
+      getRecoveryProgress([...shares, share]);
+      setShares([...shares, share]);
+      setShareInput('');
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const handleRecover = async () => {
+    setIsRecovering(true);
+    try {
+      onRecovered(await recoverSeed(shares, passphrase));
+      setShares([]);
+      setPassphrase('');
+      toast.success('Master secret restored from shares');
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsRecovering(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass-panel p-6"
+    >
+      <h4 className="text-sm font-medium text-white mb-4">
+        <Shield className="w-4 h-4 mr-2 inline text-nexus-accent" />
+        Recover from Shamir Shares (SLIP-39)
+      </h4>
+      <p className="text-xs text-white/50 mb-4">
+        Enter one share at a time. Each share is checked when added and the groups still needed are shown below.
+        The restored master secret is the wallet seed itself, so wallets match those of any SLIP-39 wallet;
+        Cardano, which derives from a BIP39 phrase, is skipped.
+      </p>
+
+      {progress && (
+        <div className="mb-4 p-4 rounded-lg bg-nexus-glass border border-nexus-glass-border">
+          <p className="text-sm text-white mb-2">
+            {progress.completeGroups} of {progress.groupThreshold} required groups complete
+            <span className="text-white/40"> ({progress.groupCount} group{progress.groupCount !== 1 ? 's' : ''} in this backup)</span>
+          </p>
+          <div className="space-y-1">
+            {progress.groups.map(group => (
+              <div key={group.groupIndex} className="flex items-center text-xs">
+                {group.complete
+                  ? <CheckCircle className="w-3 h-3 mr-2 text-green-400" />
+                  : <span className="w-3 h-3 mr-2 rounded-full border border-white/30" />}
+                <span className={group.complete ? 'text-green-400' : 'text-white/60'}>
+                  Group {group.groupIndex + 1}: {group.memberIndices.length} of {group.memberThreshold} shares
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="mt-3 flex flex-wrap gap-2">
+            {shares.map((share, index) => (
+              <span key={index} className="flex items-center px-2 py-1 rounded-lg bg-white/5 text-xs text-white/60 font-mono">
+                {share.split(' ').slice(0, 2).join(' ')} …
+                <button
+                  onClick={() => setShares(shares.filter((_, i) => i !== index))}
+                  className="ml-2 text-white/40 hover:text-red-400"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {!progress?.recoverable ? (
+        <>
+          <textarea
+            value={shareInput}
+            onChange={(e) => setShareInput(e.target.value)}
+            placeholder={`Share #${shares.length + 1} (20, 33 or 59 words)`}
+            className="glass-textarea w-full h-24 mb-4 font-mono"
+            spellCheck={false}
+          />
+          <button
+            onClick={addShare}
+            disabled={!shareInput.trim()}
+            className="glass-button-primary flex items-center space-x-2 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Share</span>
+          </button>
+        </>
+      ) : (
+        <div className="space-y-4">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Share passphrase (leave empty if none was set)"
+            className="glass-input w-full"
+          />
+          <p className="text-xs text-yellow-400/80">
+            A wrong share passphrase cannot be detected and restores a different seed.
+          </p>
+          <button
+            onClick={handleRecover}
+            disabled={isRecovering}
+            className="glass-button-primary disabled:opacity-50"
+          >
+            {isRecovering ? 'Recovering...' : 'Recover Seed'}
+          </button>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Plus, Printer, Shield, Trash2, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { splitSeed, Slip39GroupConfig } from '../services/slip39';
+import { WalletDerivationService } from '../services/walletDerivation';
+
+const MAX_GROUPS = 16;
+const MAX_SHARES = 16;
+
+interface Slip39BackupProps {
+  seed: string;           // BIP39 phrase or restored master secret
+  label: string;
+  fingerprint: string;
+  hasPassphrase?: boolean;
+  onClose: () => void;
+}
+
+export default function Slip39Backup({ seed, label, fingerprint, hasPassphrase, onClose }: Slip39BackupProps) {
+  const [groups, setGroups] = useState<Slip39GroupConfig[]>([{ threshold: 2, count: 3 }]);
+  const [groupThreshold, setGroupThreshold] = useState(1);
+  const [passphrase, setPassphrase] = useState('');
+  // The shares hold the BIP32 seed, which the BIP39 passphrase is part of
+  const [bip39Passphrase, setBip39Passphrase] = useState('');
+  const [shares, setShares] = useState<string[][] | null>(null);
+  const [isSplitting, setIsSplitting] = useState(false);
+
+  const updateGroup = (index: number, changes: Partial<Slip39GroupConfig>) => {
+    setGroups(groups.map((group, i) => {
+      if (i !== index) return group;
+      const updated = { ...group, ...changes };
+      return { ...updated, threshold: Math.min(updated.threshold, updated.count) };
+    }));
+  };
+
+  const removeGroup = (index: number) => {
+    const remaining = groups.filter((_, i) => i !== index);
+    setGroups(remaining);
+    setGroupThreshold(Math.min(groupThreshold, remaining.length));
+  };
+
+  const error =
+    groups.some(group => group.threshold === 1 && group.count > 1)
+      ? 'A group with threshold 1 must have a single share'
+      : !/^[\x20-\x7e]*$/.test(passphrase)
+        ? 'The passphrase must only contain printable ASCII characters'
+        : null;
+
+  const handleSplit = async () => {
+    setIsSplitting(true);
+    try {
+      if (hasPassphrase && WalletDerivationService.getSeedFingerprint(seed, bip39Passphrase) !== fingerprint) {
+        toast.error('This BIP39 passphrase does not match the seed');
+        return;
+      }
+      setShares(await splitSeed(seed, bip39Passphrase, groupThreshold, groups, { passphrase }));
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsSplitting(false);
+    }
+  };
+
+  const numberInput = (value: number, min: number, max: number, onChange: (value: number) => void) => (
+    <input
+      type="number"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => onChange(Math.max(min, Math.min(max, parseInt(e.target.value) || min)))}
+      className="glass-input w-16 py-1 text-center"
+    />
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 backdrop-blur-xl z-50 flex items-center justify-center p-8"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        className="glass-panel-elevated w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-nexus-glass-border flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-light text-white mb-2 flex items-center">
+              <Shield className="w-5 h-5 mr-2 text-nexus-accent" />
+              Shamir Backup (SLIP-39)
+            </h2>
+            <p className="text-sm text-white/60">{label}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-white/50" />
+          </button>
+        </div>
+
+        {!shares ? (
+          <div className="p-6 space-y-4">
+            <p className="text-xs text-white/50">
+              Split this seed into share groups. Any {groupThreshold} of {groups.length} group{groups.length !== 1 ? 's' : ''},
+              each with its own share threshold met, restore it in the Shamir Shares import mode or in any SLIP-39 wallet.
+              The shares hold the BIP32 seed rather than the phrase, as SLIP-39 specifies, so a BIP39 seed gives
+              59-word shares and Cardano wallets, which derive from the phrase, are not restored from them.
+              {hasPassphrase && ' The BIP39 passphrase of this seed is part of the shares.'}
+            </p>
+
+            <div className="space-y-2">
+              {groups.map((group, index) => (
+                <div key={index} className="flex items-center space-x-3 p-3 rounded-lg bg-nexus-glass border border-nexus-glass-border">
+                  <span className="text-sm text-white/70 w-20">Group {index + 1}</span>
+                  {numberInput(group.threshold, 1, group.count, threshold => updateGroup(index, { threshold }))}
+                  <span className="text-xs text-white/50">of</span>
+                  {numberInput(group.count, 1, MAX_SHARES, count => updateGroup(index, { count }))}
+                  <span className="text-xs text-white/50 flex-1">shares</span>
+                  {groups.length > 1 && (
+                    <button onClick={() => removeGroup(index)} className="p-1 text-white/40 hover:text-red-400">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => setGroups([...groups, { threshold: 1, count: 1 }])}
+                disabled={groups.length >= MAX_GROUPS}
+                className="glass-button flex items-center space-x-2 text-xs"
+              >
+                <Plus className="w-3 h-3" />
+                <span>Add group</span>
+              </button>
+              <div className="flex items-center space-x-2 text-xs text-white/50">
+                <span>Groups required</span>
+                {numberInput(groupThreshold, 1, groups.length, setGroupThreshold)}
+              </div>
+            </div>
+
+            {hasPassphrase && (
+              <input
+                type="password"
+                value={bip39Passphrase}
+                onChange={(e) => setBip39Passphrase(e.target.value)}
+                placeholder="BIP39 passphrase of this seed"
+                className="glass-input w-full"
+              />
+            )}
+
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Share passphrase (optional, needed again to recover)"
+              className="glass-input w-full"
+            />
+
+            {error && <p className="text-xs text-red-400">{error}</p>}
+
+            <button
+              onClick={handleSplit}
+              disabled={isSplitting || !!error}
+              className="glass-button-primary w-full disabled:opacity-50"
+            >
+              {isSplitting ? 'Creating shares...' : 'Create Shares'}
+            </button>
+          </div>
+        ) : (
+          <div className="p-6">
+            <div className="flex items-center justify-between mb-4">
+              <p className="text-xs text-white/50">
+                Write each share down or print this page, then hand the shares to their holders.
+              </p>
+              <button onClick={() => window.print()} className="glass-button-primary flex items-center space-x-2">
+                <Printer className="w-4 h-4" />
+                <span>Print</span>
+              </button>
+            </div>
+
+            <div className="space-y-4 print-area">
+              {shares.map((groupShares, groupIndex) => groupShares.map((share, memberIndex) => (
+                <div
+                  key={`${groupIndex}-${memberIndex}`}
+                  className="p-4 rounded-lg bg-nexus-glass border border-nexus-glass-border print:bg-white print:border-black print:break-inside-avoid"
+                >
+                  <div className="flex items-center justify-between mb-3 text-xs">
+                    <span className="font-medium text-white print:text-black">
+                      Group {groupIndex + 1} of {shares.length} · Share {memberIndex + 1} of {groupShares.length}
+                    </span>
+                    <span className="text-white/50 print:text-black">
+                      {groups[groupIndex].threshold} of {groupShares.length} shares needed · {groupThreshold} of {shares.length} groups needed
+                    </span>
+                  </div>
+                  <ol className="grid grid-cols-4 gap-x-4 gap-y-1 font-mono text-sm text-white/80 print:text-black">
+                    {share.split(' ').map((word, i) => (
+                      <li key={i}>
+                        <span className="text-white/30 print:text-black/50 mr-1">{i + 1}.</span>
+                        {word}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )))}
+            </div>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
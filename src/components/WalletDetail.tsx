@@ -2,21 +2,34 @@ import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
   X, Copy, ExternalLink, Download, Send, RefreshCw,
-  Key, Shield, Globe, DollarSign, Clock
+  Key, Shield, Globe, DollarSign, Clock, QrCode, Eye
 } from 'lucide-react';
+import QRCode from 'qrcode';
 import { useStore } from '../stores/appStore';
 import { toast } from 'react-hot-toast';
-import { BalanceChecker } from '../services/balanceChecker';
+import { BalanceEngine } from '../services/balanceEngine';
+import { CHAIN_CONFIGS } from '../services/chainRegistry';
 import { electronAPI } from '../utils/electron';
+import PasswordPrompt from './PasswordPrompt';
+import Bip85ChildSeed from './Bip85ChildSeed';
 
 export default function WalletDetail() {
-  const { selectedWallet, selectWallet, updateWalletBalance } = useStore();
-  const [showPrivateKey, setShowPrivateKey] = useState(false);
+  const { selectedWallet, selectWallet, updateWalletBalance, revealSecret } = useStore();
+  const [privateKey, setPrivateKey] = useState<string | null>(null);
+  const [showPasswordPrompt, setShowPasswordPrompt] = useState(false);
+  const [showKeystorePrompt, setShowKeystorePrompt] = useState(false);
+  const [showExportPasswordPrompt, setShowExportPasswordPrompt] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [activeTab, setActiveTab] = useState<'info' | 'send' | 'export'>('info');
+  const [extendedKeyQr, setExtendedKeyQr] = useState<string | null>(null);
 
   if (!selectedWallet) return null;
 
+  // Account xpub/ypub/zpub, recorded when the wallet is derived
+  const extendedPublicKey: string | undefined = selectedWallet.metadata?.extendedPublicKey;
+  const accountPath: string | undefined = selectedWallet.metadata?.accountPath;
+  const supportsExtendedKey = !!(CHAIN_CONFIGS[selectedWallet.chain]?.network || CHAIN_CONFIGS[selectedWallet.chain]?.chainId);
+
   const copyToClipboard = (text: string, label: string) => {
     navigator.clipboard.writeText(text);
     toast.success(`${label} copied to clipboard`);
@@ -35,9 +48,10 @@ export default function WalletDetail() {
     
     setIsRefreshing(true);
     try {
-      const balance = await BalanceChecker.checkBalance(
+      const balance = await BalanceEngine.getBalance(
         selectedWallet.chain,
-        address
+        address,
+        { force: true, tokens: true }
       );
       
       if (balance && !balance.error) {
@@ -64,13 +78,63 @@ export default function WalletDetail() {
     }
   };
 
-  const exportWallet = async (format: 'json' | 'keystore') => {
+  const revealPrivateKey = async (password?: string) => {
+    const result = await revealSecret(selectedWallet.id!, 'privateKey', password);
+    
+    if (result.success && result.value) {
+      setPrivateKey(result.value);
+      setShowPasswordPrompt(false);
+    } else if (result.requiresPassword) {
+      if (password !== undefined) toast.error(result.error || 'Invalid password');
+      setShowPasswordPrompt(true);
+    } else {
+      setShowPasswordPrompt(false);
+      toast.error(result.error || 'Failed to reveal private key');
+    }
+  };
+
+  const toggleExtendedKeyQr = async () => {
+    if (extendedKeyQr || !extendedPublicKey) {
+      setExtendedKeyQr(null);
+      return;
+    }
+    
     try {
-      // @ts-ignore
-      const data = await electronAPI.exportWallet(selectedWallet.id!, format);
+      setExtendedKeyQr(await QRCode.toDataURL(extendedPublicKey, { margin: 1, width: 240 }));
+    } catch (error) {
+      toast.error('Failed to generate QR code');
+    }
+  };
+
+  const exportExtendedKey = () => {
+    if (!extendedPublicKey) return;
+    
+    const lines = [
+      `Chain: ${selectedWallet.chain}`,
+      `Account path: ${accountPath}`,
+      selectedWallet.metadata?.scriptType ? `Script type: ${selectedWallet.metadata.scriptType}` : null,
+      `Extended public key: ${extendedPublicKey}`,
+    ].filter(Boolean);
+    
+    const blob = new Blob([lines.join('\n') + '\n'], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `xpub-${selectedWallet.chain}-${(accountPath || '').replace(/[/']/g, (c) => c === '/' ? '_' : 'h')}.txt`;
+    a.click();
+    URL.revokeObjectURL(url);
+    
+    toast.success('Extended public key exported');
+  };
+
+  // A JSON export asks for the master password like a reveal; keystores are
+  // encrypted under a password chosen for the export
+  const exportWallet = async (format: 'json' | 'keystore', password?: string) => {
+    try {
+      const result = await electronAPI.exportWallet(selectedWallet.id!, format, password);
       
-      if (data) {
-        const blob = new Blob([typeof data === 'string' ? data : JSON.stringify(data)], {
+      if (result.success && result.data) {
+        const blob = new Blob([result.data], {
           type: format === 'json' ? 'application/json' : 'text/plain',
         });
         
@@ -82,6 +146,14 @@ export default function WalletDetail() {
         URL.revokeObjectURL(url);
         
         toast.success(`Wallet exported as ${format.toUpperCase()}`);
+        setShowKeystorePrompt(false);
+        setShowExportPasswordPrompt(false);
+      } else if (result.requiresPassword) {
+        if (password !== undefined) toast.error(result.error || 'Invalid password');
+        setShowExportPasswordPrompt(true);
+      } else {
+        setShowExportPasswordPrompt(false);
+        toast.error(result.error || 'Failed to export wallet');
       }
     } catch (error: any) {
       toast.error('Failed to export wallet');
@@ -118,7 +190,7 @@ export default function WalletDetail() {
                   {selectedWallet.chain}
                 </span>
                 <span className="text-sm text-white/50">
-                  {selectedWallet.derivationPath}
+                  {selectedWallet.derivationPath || 'Imported private key'}
                 </span>
               </div>
             </div>
@@ -233,27 +305,70 @@ export default function WalletDetail() {
                 </div>
               </div>
 
+              {/* Account extended public key */}
+              {supportsExtendedKey && (
+                <div className="glass-panel p-6">
+                  <h3 className="text-sm font-medium text-white/70 mb-4 flex items-center">
+                    <Eye className="w-4 h-4 mr-2 text-nexus-accent" />
+                    Account Public Key {accountPath && <span className="ml-2 text-xs text-white/40 font-mono">{accountPath}</span>}
+                  </h3>
+                  {extendedPublicKey ? (
+                    <div className="space-y-3">
+                      <div className="flex items-center space-x-3">
+                        <p className="font-mono text-xs text-white/80 break-all flex-1">
+                          {extendedPublicKey}
+                        </p>
+                        <div className="flex space-x-2">
+                          <button
+                            onClick={() => copyToClipboard(extendedPublicKey, 'Extended public key')}
+                            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                          >
+                            <Copy className="w-4 h-4 text-white/50" />
+                          </button>
+                          <button
+                            onClick={toggleExtendedKeyQr}
+                            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                          >
+                            <QrCode className="w-4 h-4 text-white/50" />
+                          </button>
+                        </div>
+                      </div>
+                      {extendedKeyQr && (
+                        <img src={extendedKeyQr} alt="Extended public key QR code" className="rounded-lg mx-auto" />
+                      )}
+                      <p className="text-xs text-white/40">
+                        Watch-only: reveals every address and balance of this account, but cannot spend.
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-white/40">
+                      This wallet was imported before account keys were recorded. Re-import its seed to generate one.
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Private Key */}
               <div className="glass-panel p-6 border-red-500/20">
                 <h3 className="text-sm font-medium text-red-400 mb-4 flex items-center">
                   <Key className="w-4 h-4 mr-2" />
                   Private Key (Keep Secret!)
                 </h3>
-                {showPrivateKey ? (
+                {privateKey ? (
                   <div className="space-y-3">
                     <div className="flex items-center space-x-3">
                       <p className="font-mono text-xs text-white/80 break-all flex-1">
-                        {selectedWallet.privateKey}
+                        {privateKey}
                       </p>
                       <button
-                        onClick={() => copyToClipboard(selectedWallet.privateKey, 'Private key')}
+                        onClick={() => copyToClipboard(privateKey, 'Private key')}
                         className="p-2 hover:bg-white/10 rounded-lg transition-colors"
                       >
                         <Copy className="w-4 h-4 text-white/50" />
                       </button>
                     </div>
                     <button
-                      onClick={() => setShowPrivateKey(false)}
+                      onClick={() => setPrivateKey(null)}
                       className="glass-button text-red-400 text-sm"
                     >
                       Hide Private Key
@@ -261,7 +376,7 @@ export default function WalletDetail() {
                   </div>
                 ) : (
                   <button
-                    onClick={() => setShowPrivateKey(true)}
+                    onClick={() => revealPrivateKey()}
                     className="glass-button text-sm"
                   >
                     Reveal Private Key
@@ -269,6 +384,9 @@ export default function WalletDetail() {
                 )}
               </div>
 
+              {/* BIP85 child seeds */}
+              {selectedWallet.seedId && <Bip85ChildSeed wallet={selectedWallet} />}
+
               {/* Metadata */}
               {selectedWallet.metadata && (
                 <div className="glass-panel p-6">
@@ -277,16 +395,18 @@ export default function WalletDetail() {
                     Technical Details
                   </h3>
                   <div className="space-y-2">
-                    {Object.entries(selectedWallet.metadata).map(([key, value]) => (
-                      <div key={key} className="flex items-center justify-between">
-                        <span className="text-xs text-white/50 capitalize">
-                          {key.replace(/_/g, ' ')}
-                        </span>
-                        <span className="font-mono text-xs text-white/70">
-                          {String(value)}
-                        </span>
-                      </div>
-                    ))}
+                    {Object.entries(selectedWallet.metadata)
+                      .filter(([key]) => key !== 'extendedPublicKey' && key !== 'accountPath')
+                      .map(([key, value]) => (
+                        <div key={key} className="flex items-center justify-between">
+                          <span className="text-xs text-white/50 capitalize">
+                            {key.replace(/_/g, ' ')}
+                          </span>
+                          <span className="font-mono text-xs text-white/70">
+                            {String(value)}
+                          </span>
+                        </div>
+                      ))}
                   </div>
                 </div>
               )}
@@ -319,12 +439,21 @@ export default function WalletDetail() {
                     <Download className="w-4 h-4" />
                   </button>
                   <button
-                    onClick={() => exportWallet('keystore')}
+                    onClick={() => setShowKeystorePrompt(true)}
                     className="w-full glass-button flex items-center justify-between"
                   >
                     <span>Export as Keystore</span>
                     <Download className="w-4 h-4" />
                   </button>
+                  {extendedPublicKey && (
+                    <button
+                      onClick={exportExtendedKey}
+                      className="w-full glass-button flex items-center justify-between"
+                    >
+                      <span>Export Account Public Key (watch-only)</span>
+                      <Download className="w-4 h-4" />
+                    </button>
+                  )}
                 </div>
               </div>
               
@@ -337,6 +466,39 @@ export default function WalletDetail() {
           )}
         </div>
       </motion.div>
+
+      {showPasswordPrompt && (
+        <PasswordPrompt
+          title="Reveal Private Key"
+          description="Enter your master password to reveal this wallet's private key. Every reveal is recorded in the audit log."
+          submitLabel="Reveal"
+          onSubmit={revealPrivateKey}
+          onCancel={() => setShowPasswordPrompt(false)}
+        />
+      )}
+
+      {showExportPasswordPrompt && (
+        <PasswordPrompt
+          title="Export Wallet"
+          description="Enter your master password to export this wallet as unencrypted JSON. Every export is recorded in the audit log."
+          submitLabel="Export"
+          onSubmit={password => exportWallet('json', password)}
+          onCancel={() => setShowExportPasswordPrompt(false)}
+        />
+      )}
+
+      {showKeystorePrompt && (
+        <PasswordPrompt
+          title="Keystore Password"
+          description="Choose a password for this keystore file. It is needed to import the file again, here or in another wallet."
+          submitLabel="Export"
+          busyLabel="Encrypting..."
+          placeholder="Keystore password"
+          confirm
+          onSubmit={password => exportWallet('keystore', password)}
+          onCancel={() => setShowKeystorePrompt(false)}
+        />
+      )}
     </motion.div>
   );
 }
\ No newline at end of file
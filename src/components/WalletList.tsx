@@ -1,13 +1,31 @@
-import { useMemo, useState } from 'react';
+import { Fragment, useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Copy, ExternalLink, Eye, EyeOff,
   AlertCircle, Clock, Trash2, Check, X,
-  Plus
+  Plus, Layers, Pencil, Shield
 } from 'lucide-react';
-import { useStore } from '../stores/appStore';
+import { useStore, Seed, Wallet } from '../stores/appStore';
 import { toast } from 'react-hot-toast';
 import { WalletWatcherService } from '../services/walletWatcherService';
+import { WalletDerivationService } from '../services/walletDerivation';
+import { getChainDecimals } from '../services/chainRegistry';
+import PasswordPrompt from './PasswordPrompt';
+import Slip39Backup from './Slip39Backup';
+
+interface SeedBackup {
+  seed: string;
+  label: string;
+  fingerprint: string;
+  hasPassphrase: boolean;
+}
+
+interface WalletGroup {
+  key: string;
+  seed: Seed | null;
+  wallets: Wallet[];
+  totalUsd: number;
+}
 
 interface WalletListProps {
   viewMode: 'grid' | 'list';
@@ -17,11 +35,17 @@ interface WalletListProps {
 }
 
 export default function WalletList({ viewMode, searchQuery, selectedChain, balancesOnly = false }: WalletListProps) {
-  const { wallets, selectWallet, deleteWallet, deleteWallets } = useStore();
-  const [showPrivateKeys, setShowPrivateKeys] = useState<Set<number>>(new Set());
+  const { wallets, seeds, selectWallet, deleteWallet, deleteWallets, revealSecret, renameSeed } = useStore();
+  const [revealedKeys, setRevealedKeys] = useState<Map<number, string>>(new Map());
+  const [pendingReveal, setPendingReveal] = useState<number | null>(null);
   const [selectedWallets, setSelectedWallets] = useState<Set<number>>(new Set());
   const [bulkSelectMode, setBulkSelectMode] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [groupBySeed, setGroupBySeed] = useState(true);
+  const [editingSeedId, setEditingSeedId] = useState<number | null>(null);
+  const [seedLabelDraft, setSeedLabelDraft] = useState('');
+  const [pendingBackup, setPendingBackup] = useState<WalletGroup | null>(null);
+  const [seedBackup, setSeedBackup] = useState<SeedBackup | null>(null);
 
   const filteredWallets = useMemo(() => {
     return wallets.filter(wallet => {
@@ -38,23 +62,126 @@ export default function WalletList({ viewMode, searchQuery, selectedChain, balan
     });
   }, [wallets, searchQuery, selectedChain, balancesOnly]);
 
+  // Wallets grouped by the seed they were derived from, in seed creation order.
+  // Wallets imported from a bare key have no seed and are listed last.
+  const walletGroups = useMemo<WalletGroup[]>(() => {
+    if (!groupBySeed) {
+      return [{ key: 'all', seed: null, wallets: filteredWallets, totalUsd: 0 }];
+    }
+    
+    const bySeed = new Map<number | null, Wallet[]>();
+    for (const wallet of filteredWallets) {
+      const seedId = wallet.seedId ?? null;
+      bySeed.set(seedId, [...(bySeed.get(seedId) || []), wallet]);
+    }
+    
+    const orderedIds: (number | null)[] = [
+      ...seeds.map(seed => seed.id).filter(id => bySeed.has(id)),
+      ...Array.from(bySeed.keys()).filter(id => id !== null && !seeds.some(seed => seed.id === id)),
+      ...(bySeed.has(null) ? [null] : []),
+    ];
+    
+    return orderedIds.map(seedId => {
+      const groupWallets = bySeed.get(seedId)!;
+      return {
+        key: seedId === null ? 'none' : `seed-${seedId}`,
+        seed: seeds.find(seed => seed.id === seedId) || null,
+        wallets: groupWallets,
+        totalUsd: groupWallets.reduce((sum, w) => sum + (w.usdValue || 0), 0),
+      };
+    });
+  }, [filteredWallets, seeds, groupBySeed]);
+
   const copyToClipboard = (text: string, label: string) => {
     navigator.clipboard.writeText(text);
     toast.success(`${label} copied to clipboard`);
   };
 
+  const revealPrivateKey = async (walletId: number, password?: string) => {
+    const result = await revealSecret(walletId, 'privateKey', password);
+    
+    if (result.success && result.value) {
+      setRevealedKeys(prev => new Map(prev).set(walletId, result.value!));
+      setPendingReveal(null);
+    } else if (result.requiresPassword) {
+      if (password !== undefined) toast.error(result.error || 'Invalid password');
+      setPendingReveal(walletId);
+    } else {
+      setPendingReveal(null);
+      toast.error(result.error || 'Failed to reveal private key');
+    }
+  };
+
   const togglePrivateKey = (walletId: number) => {
-    setShowPrivateKeys(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(walletId)) {
-        newSet.delete(walletId);
-      } else {
-        newSet.add(walletId);
+    if (revealedKeys.has(walletId)) {
+      setRevealedKeys(prev => {
+        const newMap = new Map(prev);
+        newMap.delete(walletId);
+        return newMap;
+      });
+    } else {
+      revealPrivateKey(walletId);
+    }
+  };
+
+  const passwordPrompt = pendingReveal !== null && (
+    <PasswordPrompt
+      title="Reveal Private Key"
+      description="Enter your master password to reveal this wallet's private key. Every reveal is recorded in the audit log."
+      submitLabel="Reveal"
+      onSubmit={(password) => revealPrivateKey(pendingReveal, password)}
+      onCancel={() => setPendingReveal(null)}
+    />
+  );
+
+  const openSeedBackup = async (group: WalletGroup, password?: string) => {
+    const result = await revealSecret(group.wallets[0].id!, 'mnemonic', password);
+    
+    if (result.success && result.value) {
+      if (!WalletDerivationService.validateMnemonic(result.value) && !WalletDerivationService.isMasterSecret(result.value)) {
+        setPendingBackup(null);
+        toast.error('Only BIP39 seeds and restored SLIP-39 seeds can be split into Shamir shares');
+        return;
       }
-      return newSet;
-    });
+      setSeedBackup({
+        seed: result.value,
+        label: group.seed!.label || `Seed ${group.seed!.fingerprint}`,
+        fingerprint: group.seed!.fingerprint,
+        hasPassphrase: group.seed!.hasPassphrase,
+      });
+      setPendingBackup(null);
+    } else if (result.requiresPassword) {
+      if (password !== undefined) toast.error(result.error || 'Invalid password');
+      setPendingBackup(group);
+    } else {
+      setPendingBackup(null);
+      toast.error(result.error || 'Failed to reveal recovery phrase');
+    }
   };
 
+  const backupPrompt = (
+    <>
+      {pendingBackup && (
+        <PasswordPrompt
+          title="Shamir Backup"
+          description="Enter your master password to split this seed's recovery phrase into SLIP-39 shares. Every reveal is recorded in the audit log."
+          submitLabel="Continue"
+          onSubmit={(password) => openSeedBackup(pendingBackup, password)}
+          onCancel={() => setPendingBackup(null)}
+        />
+      )}
+      {seedBackup && (
+        <Slip39Backup
+          seed={seedBackup.seed}
+          label={seedBackup.label}
+          fingerprint={seedBackup.fingerprint}
+          hasPassphrase={seedBackup.hasPassphrase}
+          onClose={() => setSeedBackup(null)}
+        />
+      )}
+    </>
+  );
+
   const toggleWalletSelection = (walletId: number) => {
     setSelectedWallets(prev => {
       const newSet = new Set(prev);
@@ -160,24 +287,90 @@ export default function WalletList({ viewMode, searchQuery, selectedChain, balan
     if (!balance || balance === '0') return '0.00';
     
     // Convert from smallest unit based on chain
-    const decimals: Record<string, number> = {
-      BTC: 8,
-      ETH: 18,
-      BSC: 18,
-      POLYGON: 18,
-      SOL: 9,
-      LTC: 8,
-      DOGE: 8,
-    };
-    
-    const decimal = decimals[chain] || 18;
-    const value = parseFloat(balance) / Math.pow(10, decimal);
+    const value = parseFloat(balance) / Math.pow(10, getChainDecimals(chain));
     
     if (value < 0.000001) return '< 0.000001';
     if (value < 1) return value.toFixed(6);
     return value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 6 });
   };
 
+  const saveSeedLabel = async (seedId: number) => {
+    const success = await renameSeed(seedId, seedLabelDraft);
+    if (success) {
+      setEditingSeedId(null);
+    } else {
+      toast.error('Failed to rename seed');
+    }
+  };
+
+  const renderGroupHeader = (group: WalletGroup) => {
+    if (!groupBySeed) return null;
+    
+    return (
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-3">
+          <Layers className="w-4 h-4 text-nexus-accent" />
+          {group.seed && editingSeedId === group.seed.id ? (
+            <input
+              value={seedLabelDraft}
+              onChange={(e) => setSeedLabelDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') saveSeedLabel(group.seed!.id);
+                if (e.key === 'Escape') setEditingSeedId(null);
+              }}
+              onBlur={() => saveSeedLabel(group.seed!.id)}
+              onClick={(e) => e.stopPropagation()}
+              className="glass-input py-1 text-sm"
+              placeholder="Seed label"
+              autoFocus
+            />
+          ) : (
+            <span className="text-sm font-medium text-white">
+              {group.seed ? group.seed.label || `Seed ${group.seed.fingerprint}` : 'Imported keys'}
+            </span>
+          )}
+          {group.seed && (
+            <>
+              <span className="font-mono text-xs text-white/40">{group.seed.fingerprint}</span>
+              {group.seed.hasPassphrase && (
+                <span className="px-2 py-0.5 rounded-full text-xs text-purple-400 bg-purple-400/10 border border-purple-400/30">
+                  Passphrase
+                </span>
+              )}
+              {editingSeedId !== group.seed.id && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setSeedLabelDraft(group.seed!.label || '');
+                    setEditingSeedId(group.seed!.id);
+                  }}
+                  className="p-1 hover:bg-white/10 rounded transition-colors"
+                  title="Rename seed"
+                >
+                  <Pencil className="w-3 h-3 text-white/40" />
+                </button>
+              )}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  openSeedBackup(group);
+                }}
+                className="p-1 hover:bg-white/10 rounded transition-colors"
+                title="Shamir backup (SLIP-39)"
+              >
+                <Shield className="w-3 h-3 text-white/40" />
+              </button>
+            </>
+          )}
+        </div>
+        <div className="flex items-center space-x-4 text-xs text-white/50">
+          <span>{group.wallets.length} wallet{group.wallets.length !== 1 ? 's' : ''}</span>
+          <span className="text-sm text-nexus-accent">${group.totalUsd.toFixed(2)}</span>
+        </div>
+      </div>
+    );
+  };
+
   const bulkControlsSection = (
     <div className="glass-panel p-4 mb-4">
       <div className="flex items-center justify-between">
@@ -228,6 +421,14 @@ export default function WalletList({ viewMode, searchQuery, selectedChain, balan
             </div>
           )}
         </div>
+        
+        <button
+          onClick={() => setGroupBySeed(!groupBySeed)}
+          className={`glass-button flex items-center space-x-2 ${groupBySeed ? 'text-nexus-accent' : ''}`}
+        >
+          <Layers className="w-4 h-4" />
+          <span>Group by seed</span>
+        </button>
       </div>
     </div>
   );
@@ -258,171 +459,179 @@ export default function WalletList({ viewMode, searchQuery, selectedChain, balan
     return (
       <div>
         {bulkControlsSection}
-        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
-          {filteredWallets.map((wallet, index) => (
-            <motion.div
-              key={wallet.id || index}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: index * 0.05 }}
-              className="glass-panel p-6 hover-lift cursor-pointer"
-              onClick={() => selectWallet(wallet)}
-            >
-              {/* Header */}
-              <div className="flex items-start justify-between mb-4">
-                <div className="flex items-center space-x-3">
-                  {bulkSelectMode && (
-                    <input
-                      type="checkbox"
-                      checked={selectedWallets.has(wallet.id!)}
-                      onChange={() => toggleWalletSelection(wallet.id!)}
-                      onClick={(e) => e.stopPropagation()}
-                      className="w-4 h-4 rounded border-nexus-glass-border bg-nexus-glass text-nexus-accent focus:ring-nexus-accent"
-                    />
-                  )}
-                  <span className={`px-3 py-1 rounded-full text-xs font-medium ${getChainColor(wallet.chain)}`}>
-                    {wallet.chain}
-                  </span>
-                  {wallet.lastChecked && (
-                    <div className="flex items-center text-xs text-white/40">
-                      <Clock className="w-3 h-3 mr-1" />
-                      {new Date(wallet.lastChecked).toLocaleTimeString()}
+        {passwordPrompt}
+      {backupPrompt}
+        {backupPrompt}
+        {walletGroups.map(group => (
+          <div key={group.key} className="mb-6">
+            {renderGroupHeader(group)}
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+              {group.wallets.map((wallet, index) => (
+                <motion.div
+                  key={wallet.id || index}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                  className="glass-panel p-6 hover-lift cursor-pointer"
+                  onClick={() => selectWallet(wallet)}
+                >
+                  {/* Header */}
+                  <div className="flex items-start justify-between mb-4">
+                    <div className="flex items-center space-x-3">
+                      {bulkSelectMode && (
+                        <input
+                          type="checkbox"
+                          checked={selectedWallets.has(wallet.id!)}
+                          onChange={() => toggleWalletSelection(wallet.id!)}
+                          onClick={(e) => e.stopPropagation()}
+                          className="w-4 h-4 rounded border-nexus-glass-border bg-nexus-glass text-nexus-accent focus:ring-nexus-accent"
+                        />
+                      )}
+                      <span className={`px-3 py-1 rounded-full text-xs font-medium ${getChainColor(wallet.chain)}`}>
+                        {wallet.chain}
+                      </span>
+                      {wallet.lastChecked && (
+                        <div className="flex items-center text-xs text-white/40">
+                          <Clock className="w-3 h-3 mr-1" />
+                          {new Date(wallet.lastChecked).toLocaleTimeString()}
+                        </div>
+                      )}
                     </div>
-                  )}
-                </div>
-                <div className="status-online" />
-              </div>
-
-              {/* Address */}
-              <div className="space-y-3">
-                <div>
-                  <p className="text-xs text-white/40 mb-1">Address</p>
-                  <div className="flex items-center space-x-2">
-                    <p className="font-mono text-sm text-white/80">
-                      {formatAddress(wallet.address || wallet.publicKey)}
-                    </p>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        copyToClipboard(wallet.address || wallet.publicKey, 'Address');
-                      }}
-                      className="p-1 hover:bg-white/10 rounded transition-colors"
-                    >
-                      <Copy className="w-3 h-3 text-white/40" />
-                    </button>
+                    <div className="status-online" />
                   </div>
-                </div>
-
-                {/* Balance */}
-                <div>
-                  <p className="text-xs text-white/40 mb-1">Balance</p>
-                  <div className="flex items-center justify-between">
-                    <p className="text-xl font-light text-white">
-                      {formatBalance(wallet.balance, wallet.chain)}
-                    </p>
-                    {wallet.usdValue && wallet.usdValue > 0 && (
-                      <p className="text-sm text-nexus-accent">
-                        ${wallet.usdValue.toFixed(2)}
-                      </p>
-                    )}
+
+                  {/* Address */}
+                  <div className="space-y-3">
+                    <div>
+                      <p className="text-xs text-white/40 mb-1">Address</p>
+                      <div className="flex items-center space-x-2">
+                        <p className="font-mono text-sm text-white/80">
+                          {formatAddress(wallet.address || wallet.publicKey)}
+                        </p>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            copyToClipboard(wallet.address || wallet.publicKey, 'Address');
+                          }}
+                          className="p-1 hover:bg-white/10 rounded transition-colors"
+                        >
+                          <Copy className="w-3 h-3 text-white/40" />
+                        </button>
+                      </div>
+                    </div>
+
+                    {/* Balance */}
+                    <div>
+                      <p className="text-xs text-white/40 mb-1">Balance</p>
+                      <div className="flex items-center justify-between">
+                        <p className="text-xl font-light text-white">
+                          {formatBalance(wallet.balance, wallet.chain)}
+                        </p>
+                        {wallet.usdValue && wallet.usdValue > 0 && (
+                          <p className="text-sm text-nexus-accent">
+                            ${wallet.usdValue.toFixed(2)}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+
+                    {/* Derivation Path */}
+                    <div>
+                      <p className="text-xs text-white/40 mb-1">Derivation Path</p>
+                      <p className="font-mono text-xs text-white/60">{wallet.derivationPath || 'Imported private key'}</p>
+                    </div>
                   </div>
-                </div>
-
-                {/* Derivation Path */}
-                <div>
-                  <p className="text-xs text-white/40 mb-1">Derivation Path</p>
-                  <p className="font-mono text-xs text-white/60">{wallet.derivationPath}</p>
-                </div>
-              </div>
-
-              {/* Actions */}
-              <div className="flex items-center justify-between mt-4 pt-4 border-t border-nexus-glass-border">
-                <div className="flex items-center space-x-2">
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      togglePrivateKey(wallet.id!);
-                    }}
-                    className="flex items-center space-x-1 text-xs text-white/50 hover:text-white transition-colors"
-                  >
-                    {showPrivateKeys.has(wallet.id!) ? (
-                      <>
-                        <EyeOff className="w-3 h-3" />
-                        <span>Hide Key</span>
-                      </>
-                    ) : (
-                      <>
-                        <Eye className="w-3 h-3" />
-                        <span>Show Key</span>
-                      </>
-                    )}
-                  </button>
+
+                  {/* Actions */}
+                  <div className="flex items-center justify-between mt-4 pt-4 border-t border-nexus-glass-border">
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          togglePrivateKey(wallet.id!);
+                        }}
+                        className="flex items-center space-x-1 text-xs text-white/50 hover:text-white transition-colors"
+                      >
+                        {revealedKeys.has(wallet.id!) ? (
+                          <>
+                            <EyeOff className="w-3 h-3" />
+                            <span>Hide Key</span>
+                          </>
+                        ) : (
+                          <>
+                            <Eye className="w-3 h-3" />
+                            <span>Show Key</span>
+                          </>
+                        )}
+                      </button>
                   
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleAddToWatcher(wallet);
-                    }}
-                    className="flex items-center space-x-1 text-xs text-blue-400 hover:text-blue-300 transition-colors"
-                  >
-                    <Plus className="w-3 h-3" />
-                    <span>Watch</span>
-                  </button>
-                </div>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleAddToWatcher(wallet);
+                        }}
+                        className="flex items-center space-x-1 text-xs text-blue-400 hover:text-blue-300 transition-colors"
+                      >
+                        <Plus className="w-3 h-3" />
+                        <span>Watch</span>
+                      </button>
+                    </div>
                 
-                <div className="flex items-center space-x-2">
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      // Open block explorer
-                    }}
-                    className="flex items-center space-x-1 text-xs text-nexus-accent hover:text-nexus-accent-dim transition-colors"
-                  >
-                    <ExternalLink className="w-3 h-3" />
-                    <span>Explorer</span>
-                  </button>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          // Open block explorer
+                        }}
+                        className="flex items-center space-x-1 text-xs text-nexus-accent hover:text-nexus-accent-dim transition-colors"
+                      >
+                        <ExternalLink className="w-3 h-3" />
+                        <span>Explorer</span>
+                      </button>
                   
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleDeleteWallet(wallet.id!);
-                    }}
-                    className="flex items-center space-x-1 text-xs text-red-400 hover:text-red-300 transition-colors"
-                    disabled={isDeleting}
-                  >
-                    <Trash2 className="w-3 h-3" />
-                    <span>Delete</span>
-                  </button>
-                </div>
-              </div>
-
-              {/* Private Key Display */}
-              {showPrivateKeys.has(wallet.id!) && (
-                <motion.div
-                  initial={{ opacity: 0, height: 0 }}
-                  animate={{ opacity: 1, height: 'auto' }}
-                  className="mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg"
-                >
-                  <p className="text-xs text-red-400 mb-2">Private Key (Keep Secret!)</p>
-                  <div className="flex items-center space-x-2">
-                    <p className="font-mono text-xs text-white/80 break-all">
-                      {wallet.privateKey}
-                    </p>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        copyToClipboard(wallet.privateKey, 'Private key');
-                      }}
-                      className="p-1 hover:bg-white/10 rounded transition-colors"
-                    >
-                      <Copy className="w-3 h-3 text-white/40" />
-                    </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteWallet(wallet.id!);
+                        }}
+                        className="flex items-center space-x-1 text-xs text-red-400 hover:text-red-300 transition-colors"
+                        disabled={isDeleting}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                        <span>Delete</span>
+                      </button>
+                    </div>
                   </div>
+
+                  {/* Private Key Display */}
+                  {revealedKeys.has(wallet.id!) && (
+                    <motion.div
+                      initial={{ opacity: 0, height: 0 }}
+                      animate={{ opacity: 1, height: 'auto' }}
+                      className="mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg"
+                    >
+                      <p className="text-xs text-red-400 mb-2">Private Key (Keep Secret!)</p>
+                      <div className="flex items-center space-x-2">
+                        <p className="font-mono text-xs text-white/80 break-all">
+                          {revealedKeys.get(wallet.id!)}
+                        </p>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            copyToClipboard(revealedKeys.get(wallet.id!)!, 'Private key');
+                          }}
+                          className="p-1 hover:bg-white/10 rounded transition-colors"
+                        >
+                          <Copy className="w-3 h-3 text-white/40" />
+                        </button>
+                      </div>
+                    </motion.div>
+                  )}
                 </motion.div>
-              )}
-            </motion.div>
-          ))}
-        </div>
+              ))}
+            </div>
+          </div>
+        ))}
       </div>
     );
   }
@@ -431,6 +640,7 @@ export default function WalletList({ viewMode, searchQuery, selectedChain, balan
   return (
     <div>
       {bulkControlsSection}
+      {passwordPrompt}
       <div className="glass-panel overflow-hidden">
         <table className="w-full">
           <thead>
@@ -460,119 +670,146 @@ export default function WalletList({ viewMode, searchQuery, selectedChain, balan
             </tr>
           </thead>
           <tbody>
-            {filteredWallets.map((wallet, index) => (
-              <motion.tr
-                key={wallet.id || index}
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                transition={{ delay: index * 0.02 }}
-                className="border-b border-nexus-glass-border hover:bg-white/5 transition-colors cursor-pointer"
-                onClick={() => selectWallet(wallet)}
-              >
-                {bulkSelectMode && (
-                  <td className="p-4 w-12">
-                    <input
-                      type="checkbox"
-                      checked={selectedWallets.has(wallet.id!)}
-                      onChange={() => toggleWalletSelection(wallet.id!)}
-                      onClick={(e) => e.stopPropagation()}
-                      className="w-4 h-4 rounded border-nexus-glass-border bg-nexus-glass text-nexus-accent focus:ring-nexus-accent"
-                    />
-                  </td>
+            {walletGroups.map(group => (
+              <Fragment key={group.key}>
+                {groupBySeed && (
+                  <tr className="border-b border-nexus-glass-border bg-white/5">
+                    <td colSpan={bulkSelectMode ? 7 : 6} className="px-4 pt-4">
+                      {renderGroupHeader(group)}
+                    </td>
+                  </tr>
                 )}
-                <td className="p-4">
-                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${getChainColor(wallet.chain)}`}>
-                    {wallet.chain}
-                  </span>
-                </td>
-                <td className="p-4">
-                  <div className="flex items-center space-x-2">
-                    <span className="font-mono text-sm text-white/80">
-                      {formatAddress(wallet.address || wallet.publicKey)}
-                    </span>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        copyToClipboard(wallet.address || wallet.publicKey, 'Address');
-                      }}
-                      className="p-1 hover:bg-white/10 rounded transition-colors"
-                    >
-                      <Copy className="w-3 h-3 text-white/40" />
-                    </button>
-                  </div>
-                </td>
-                <td className="p-4">
-                  <span className="text-sm text-white">
-                    {formatBalance(wallet.balance, wallet.chain)}
-                  </span>
-                </td>
-                <td className="p-4">
-                  {wallet.usdValue && wallet.usdValue > 0 ? (
-                    <span className="text-sm text-nexus-accent">
-                      ${wallet.usdValue.toFixed(2)}
-                    </span>
-                  ) : (
-                    <span className="text-sm text-white/30">-</span>
-                  )}
-                </td>
-                <td className="p-4">
-                  <span className="font-mono text-xs text-white/60">
-                    {wallet.derivationPath}
-                  </span>
-                </td>
-                <td className="p-4 text-right">
-                  <div className="flex items-center justify-end space-x-2">
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        togglePrivateKey(wallet.id!);
-                      }}
-                      className="p-1 hover:bg-white/10 rounded transition-colors"
-                      title="Toggle private key visibility"
-                    >
-                      {showPrivateKeys.has(wallet.id!) ? (
-                        <EyeOff className="w-4 h-4 text-white/40" />
+                {group.wallets.map((wallet, index) => (
+                  <motion.tr
+                    key={wallet.id || index}
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    transition={{ delay: index * 0.02 }}
+                    className="border-b border-nexus-glass-border hover:bg-white/5 transition-colors cursor-pointer"
+                    onClick={() => selectWallet(wallet)}
+                  >
+                    {bulkSelectMode && (
+                      <td className="p-4 w-12">
+                        <input
+                          type="checkbox"
+                          checked={selectedWallets.has(wallet.id!)}
+                          onChange={() => toggleWalletSelection(wallet.id!)}
+                          onClick={(e) => e.stopPropagation()}
+                          className="w-4 h-4 rounded border-nexus-glass-border bg-nexus-glass text-nexus-accent focus:ring-nexus-accent"
+                        />
+                      </td>
+                    )}
+                    <td className="p-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${getChainColor(wallet.chain)}`}>
+                        {wallet.chain}
+                      </span>
+                    </td>
+                    <td className="p-4">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-mono text-sm text-white/80">
+                          {formatAddress(wallet.address || wallet.publicKey)}
+                        </span>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            copyToClipboard(wallet.address || wallet.publicKey, 'Address');
+                          }}
+                          className="p-1 hover:bg-white/10 rounded transition-colors"
+                        >
+                          <Copy className="w-3 h-3 text-white/40" />
+                        </button>
+                      </div>
+                      {revealedKeys.has(wallet.id!) && (
+                        <div className="flex items-center space-x-2 mt-2">
+                          <span className="font-mono text-xs text-red-400 break-all">
+                            {revealedKeys.get(wallet.id!)}
+                          </span>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              copyToClipboard(revealedKeys.get(wallet.id!)!, 'Private key');
+                            }}
+                            className="p-1 hover:bg-white/10 rounded transition-colors"
+                          >
+                            <Copy className="w-3 h-3 text-white/40" />
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                    <td className="p-4">
+                      <span className="text-sm text-white">
+                        {formatBalance(wallet.balance, wallet.chain)}
+                      </span>
+                    </td>
+                    <td className="p-4">
+                      {wallet.usdValue && wallet.usdValue > 0 ? (
+                        <span className="text-sm text-nexus-accent">
+                          ${wallet.usdValue.toFixed(2)}
+                        </span>
                       ) : (
-                        <Eye className="w-4 h-4 text-white/40" />
+                        <span className="text-sm text-white/30">-</span>
                       )}
-                    </button>
+                    </td>
+                    <td className="p-4">
+                      <span className="font-mono text-xs text-white/60">
+                        {wallet.derivationPath || 'Imported key'}
+                      </span>
+                    </td>
+                    <td className="p-4 text-right">
+                      <div className="flex items-center justify-end space-x-2">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            togglePrivateKey(wallet.id!);
+                          }}
+                          className="p-1 hover:bg-white/10 rounded transition-colors"
+                          title="Toggle private key visibility"
+                        >
+                          {revealedKeys.has(wallet.id!) ? (
+                            <EyeOff className="w-4 h-4 text-white/40" />
+                          ) : (
+                            <Eye className="w-4 h-4 text-white/40" />
+                          )}
+                        </button>
                     
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleAddToWatcher(wallet);
-                      }}
-                      className="p-1 hover:bg-blue-500/10 rounded transition-colors"
-                      title="Add to watcher"
-                    >
-                      <Plus className="w-4 h-4 text-blue-400" />
-                    </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleAddToWatcher(wallet);
+                          }}
+                          className="p-1 hover:bg-blue-500/10 rounded transition-colors"
+                          title="Add to watcher"
+                        >
+                          <Plus className="w-4 h-4 text-blue-400" />
+                        </button>
                     
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        // Open block explorer
-                      }}
-                      className="p-1 hover:bg-white/10 rounded transition-colors"
-                      title="Open in block explorer"
-                    >
-                      <ExternalLink className="w-4 h-4 text-white/40" />
-                    </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            // Open block explorer
+                          }}
+                          className="p-1 hover:bg-white/10 rounded transition-colors"
+                          title="Open in block explorer"
+                        >
+                          <ExternalLink className="w-4 h-4 text-white/40" />
+                        </button>
                     
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleDeleteWallet(wallet.id!);
-                      }}
-                      className="p-1 hover:bg-red-500/10 rounded transition-colors"
-                      disabled={isDeleting}
-                      title="Delete wallet"
-                    >
-                      <Trash2 className="w-4 h-4 text-red-400" />
-                    </button>
-                  </div>
-                </td>
-              </motion.tr>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDeleteWallet(wallet.id!);
+                          }}
+                          className="p-1 hover:bg-red-500/10 rounded transition-colors"
+                          disabled={isDeleting}
+                          title="Delete wallet"
+                        >
+                          <Trash2 className="w-4 h-4 text-red-400" />
+                        </button>
+                      </div>
+                    </td>
+                  </motion.tr>
+                ))}
+              </Fragment>
             ))}
           </tbody>
         </table>
@@ -3,11 +3,24 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Eye, Plus, Bell, TrendingUp, TrendingDown, 
   Clock, AlertCircle, RefreshCw, Trash2, Download,
-  Filter, ChevronDown, Activity
+  Filter, ChevronDown, Activity, Layers
 } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { WalletWatcherService, WatchedAddress, BalanceAlert, BalanceHistory } from '../services/walletWatcherService';
-import { CHAIN_CONFIGS } from '../services/walletDerivation';
+import { BitcoinScriptType } from '../services/walletDerivation';
+import { CHAIN_CONFIGS, getChainKeys } from '../services/chainRegistry';
+import { parseWatchOnlySource, deriveWatchOnlyAddress, isDescriptor } from '../services/descriptors';
+import { DEFAULT_GAP_LIMIT } from '../services/accountDiscovery';
+
+// Chains whose accounts can be watched from an extended public key or descriptor
+const ACCOUNT_CHAINS = getChainKeys({ family: 'utxo' });
+
+const SCRIPT_TYPE_LABELS: Record<BitcoinScriptType, string> = {
+  'p2pkh': 'Legacy',
+  'p2sh-p2wpkh': 'Nested SegWit',
+  'p2wpkh': 'Native SegWit',
+  'p2tr': 'Taproot',
+};
 
 export default function WalletWatcher() {
   const [watchedAddresses, setWatchedAddresses] = useState<WatchedAddress[]>([]);
@@ -23,6 +36,9 @@ export default function WalletWatcher() {
   const [addressName, setAddressName] = useState('');
   const [checkInterval, setCheckInterval] = useState(15);
   const [alertThreshold, setAlertThreshold] = useState(5);
+  const [watchType, setWatchType] = useState<'address' | 'account'>('address');
+  const [accountScriptType, setAccountScriptType] = useState<BitcoinScriptType | ''>('');
+  const [gapLimit, setGapLimit] = useState(DEFAULT_GAP_LIMIT);
 
   useEffect(() => {
     // Load watched addresses
@@ -53,22 +69,46 @@ export default function WalletWatcher() {
     setAlerts(allAlerts);
   };
 
+  // Parse result for the account form: a preview of the first address, or the parse error
+  const getAccountPreview = (): { scriptType?: BitcoinScriptType; firstAddress?: string; error?: string } | null => {
+    if (watchType !== 'account' || !newAddress.trim()) return null;
+    
+    try {
+      const source = parseWatchOnlySource(newAddress, selectedChain, accountScriptType || undefined);
+      return { scriptType: source.scriptType, firstAddress: deriveWatchOnlyAddress(source, 0, 0) };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  };
+
+  const handleWatchTypeChange = (type: 'address' | 'account') => {
+    setWatchType(type);
+    if (type === 'account' && !ACCOUNT_CHAINS.includes(selectedChain)) {
+      setSelectedChain('BTC');
+    }
+  };
+
   const handleAddAddress = () => {
     if (!newAddress || !selectedChain) {
-      toast.error('Please enter an address and select a chain');
+      toast.error(watchType === 'account'
+        ? 'Please enter an extended public key or descriptor'
+        : 'Please enter an address and select a chain');
       return;
     }
 
     try {
-      const watched = WalletWatcherService.addWatchAddress(
-        newAddress,
-        selectedChain,
-        {
-          name: addressName || undefined,
-          checkInterval,
-          alertThreshold,
-        }
-      );
+      const options = {
+        name: addressName || undefined,
+        checkInterval,
+        alertThreshold,
+      };
+      const watched = watchType === 'account'
+        ? WalletWatcherService.addWatchAccount(newAddress, selectedChain, {
+          ...options,
+          gapLimit,
+          scriptType: accountScriptType || undefined,
+        })
+        : WalletWatcherService.addWatchAddress(newAddress, selectedChain, options);
 
       toast.success(`Now watching ${watched.name || watched.address}`);
       loadWatchedAddresses();
@@ -78,12 +118,18 @@ export default function WalletWatcher() {
       setAddressName('');
       setCheckInterval(15);
       setAlertThreshold(5);
+      setAccountScriptType('');
+      setGapLimit(DEFAULT_GAP_LIMIT);
       setShowAddModal(false);
     } catch (error) {
-      toast.error('Failed to add watch address');
+      toast.error(watchType === 'account'
+        ? `Failed to add watch account: ${(error as Error).message}`
+        : 'Failed to add watch address');
     }
   };
 
+  const accountPreview = getAccountPreview();
+
   const handleRemoveAddress = (addressId: string) => {
     if (confirm('Remove this address from watch list?')) {
       WalletWatcherService.removeWatchedAddress(addressId);
@@ -266,6 +312,15 @@ export default function WalletWatcher() {
                         <span className="px-2 py-0.5 text-xs rounded-full bg-nexus-accent/10 text-nexus-accent">
                           {address.chain}
                         </span>
+                        {address.account && (
+                          <span className="px-2 py-0.5 text-xs rounded-full bg-white/10 text-white/70 flex items-center space-x-1">
+                            <Layers className="w-3 h-3" />
+                            <span>
+                              {SCRIPT_TYPE_LABELS[address.account.scriptType]} account
+                              {' · '}{address.account.addresses.filter(a => a.txCount > 0).length} used
+                            </span>
+                          </span>
+                        )}
                       </div>
                       
                       <div className="text-xs text-white/50 font-mono truncate">
@@ -333,6 +388,34 @@ export default function WalletWatcher() {
 
         {/* History & Alerts */}
         <div className="space-y-4">
+          {selectedAddress?.account && selectedAddress.account.addresses.length > 0 && (
+            <>
+              <h3 className="text-lg font-medium text-white mb-4">
+                Account Addresses
+              </h3>
+              <div className="glass-panel p-4 max-h-96 overflow-y-auto">
+                <div className="space-y-2">
+                  {selectedAddress.account.addresses.map((entry) => (
+                    <div key={entry.address} className="flex items-center justify-between py-2 border-b border-nexus-border last:border-0">
+                      <div className="min-w-0">
+                        <div className="text-xs text-white/80 font-mono truncate">
+                          {entry.address}
+                        </div>
+                        <div className="text-xs text-white/50">
+                          {entry.branch === 1 ? 'Change' : 'Receive'} #{entry.index}
+                          {entry.txCount === 0 && ' · fresh'}
+                        </div>
+                      </div>
+                      <div className="text-sm text-white/70 ml-4">
+                        {(Number(entry.balance) / 1e8).toFixed(8)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+
           {selectedAddress && history.length > 0 && (
             <>
               <div className="flex items-center justify-between mb-4">
@@ -438,20 +521,57 @@ export default function WalletWatcher() {
               className="glass-panel-elevated p-6 max-w-md w-full m-4"
               onClick={(e) => e.stopPropagation()}
             >
-              <h3 className="text-lg font-medium text-white mb-4">Add Watch Address</h3>
+              <h3 className="text-lg font-medium text-white mb-4">
+                {watchType === 'account' ? 'Add Watch Account' : 'Add Watch Address'}
+              </h3>
               
               <div className="space-y-4">
-                <div>
-                  <label className="text-sm text-white/70 mb-2 block">Address</label>
-                  <input
-                    type="text"
-                    value={newAddress}
-                    onChange={(e) => setNewAddress(e.target.value)}
-                    className="glass-input"
-                    placeholder="0x... or bc1q..."
-                  />
+                <div className="flex space-x-2">
+                  {(['address', 'account'] as const).map((type) => (
+                    <button
+                      key={type}
+                      onClick={() => handleWatchTypeChange(type)}
+                      className={`px-3 py-1 text-xs font-medium rounded-lg transition-all ${
+                        watchType === type
+                          ? 'bg-nexus-accent/20 text-nexus-accent border border-nexus-accent/30'
+                          : 'bg-nexus-glass text-white/60 border border-nexus-border hover:bg-white/5'
+                      }`}
+                    >
+                      {type === 'address' ? 'Single address' : 'Account (xpub / descriptor)'}
+                    </button>
+                  ))}
                 </div>
 
+                {watchType === 'account' ? (
+                  <div>
+                    <label className="text-sm text-white/70 mb-2 block">Extended public key or descriptor</label>
+                    <textarea
+                      value={newAddress}
+                      onChange={(e) => setNewAddress(e.target.value)}
+                      className="glass-input font-mono text-xs h-24 resize-none"
+                      placeholder="zpub6r... or wpkh([fingerprint/84h/0h/0h]xpub6.../<0;1>/*)#checksum"
+                      spellCheck={false}
+                    />
+                    {accountPreview && (
+                      <p className={`text-xs mt-2 break-all ${accountPreview.error ? 'text-red-400' : 'text-white/50'}`}>
+                        {accountPreview.error
+                          || `${SCRIPT_TYPE_LABELS[accountPreview.scriptType!]} · first address ${accountPreview.firstAddress}`}
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <div>
+                    <label className="text-sm text-white/70 mb-2 block">Address</label>
+                    <input
+                      type="text"
+                      value={newAddress}
+                      onChange={(e) => setNewAddress(e.target.value)}
+                      className="glass-input"
+                      placeholder="0x... or bc1q..."
+                    />
+                  </div>
+                )}
+
                 <div>
                   <label className="text-sm text-white/70 mb-2 block">Chain</label>
                   <select
@@ -459,14 +579,47 @@ export default function WalletWatcher() {
                     onChange={(e) => setSelectedChain(e.target.value)}
                     className="glass-input"
                   >
-                    {Object.entries(CHAIN_CONFIGS).map(([key, config]) => (
-                      <option key={key} value={key}>
-                        {config.name} ({config.symbol})
-                      </option>
-                    ))}
+                    {Object.entries(CHAIN_CONFIGS)
+                      .filter(([key]) => watchType === 'address' || ACCOUNT_CHAINS.includes(key))
+                      .map(([key, config]) => (
+                        <option key={key} value={key}>
+                          {config.name} ({config.symbol})
+                        </option>
+                      ))}
                   </select>
                 </div>
 
+                {watchType === 'account' && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="text-sm text-white/70 mb-2 block">Script Type</label>
+                      <select
+                        value={accountScriptType}
+                        onChange={(e) => setAccountScriptType(e.target.value as BitcoinScriptType | '')}
+                        className="glass-input"
+                        disabled={isDescriptor(newAddress)}
+                      >
+                        <option value="">From key prefix</option>
+                        {Object.entries(SCRIPT_TYPE_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div>
+                      <label className="text-sm text-white/70 mb-2 block">Gap Limit</label>
+                      <input
+                        type="number"
+                        value={gapLimit}
+                        onChange={(e) => setGapLimit(parseInt(e.target.value) || DEFAULT_GAP_LIMIT)}
+                        className="glass-input"
+                        min="1"
+                        max="1000"
+                      />
+                    </div>
+                  </div>
+                )}
+
                 <div>
                   <label className="text-sm text-white/70 mb-2 block">Name (optional)</label>
                   <input
@@ -517,6 +670,7 @@ export default function WalletWatcher() {
                   </button>
                   <button
                     onClick={handleAddAddress}
+                    disabled={!!accountPreview?.error}
                     className="glass-button-primary"
                   >
                     Start Watching
@@ -1,12 +1,11 @@
 import { Buffer } from 'buffer';
 import process from 'process';
 
-// Make Buffer and process available globally
-if (typeof window !== 'undefined') {
-  window.Buffer = Buffer;
-  window.process = process;
-  window.global = window;
-}
+// Make Buffer and process available globally, in the window and in workers
+const scope = globalThis as any;
+scope.Buffer = Buffer;
+scope.process = process;
+scope.global = globalThis;
 
 // Export for use in modules
 export { Buffer, process };
\ No newline at end of file
@@ -0,0 +1,195 @@
+import { WalletDerivationService, DerivedWallet, BitcoinScriptType } from './walletDerivation';
+import { CHAIN_CONFIGS } from './chainRegistry';
+import { BalanceEngine } from './balanceEngine';
+import { DerivationPool } from './derivationPool';
+
+export interface DiscoveryOptions {
+  gapLimit?: number;    // consecutive unused addresses that end a chain (BIP44 uses 20)
+  maxAccounts?: number; // safety cap on accounts walked
+  scriptType?: BitcoinScriptType;
+  signal?: AbortSignal; // cancels discovery between address windows
+  seed?: Uint8Array;    // from DerivationPool.prepareSeed; stretched here when left out
+  onProgress?: (checked: number, used: number) => void;
+}
+
+export interface DiscoveryResult {
+  wallets: DerivedWallet[]; // used addresses plus the next fresh receive address
+  checked: number;          // addresses looked up
+  accountsUsed: number;
+}
+
+export const DEFAULT_GAP_LIMIT = 20;
+const DEFAULT_MAX_ACCOUNTS = 20;
+
+interface ChainScan {
+  used: DerivedWallet[];
+  fresh: DerivedWallet | null; // first unused address after the last used one
+}
+
+export class AccountDiscovery {
+  /**
+   * BIP44 account discovery for one chain and path template. Accounts are
+   * walked in order and discovery stops at the first account whose receive
+   * chain has no activity. Within an account, the receive and (for UTXO
+   * chains) change chains are scanned until `gapLimit` unused addresses in a row.
+   */
+  static async discover(
+    mnemonic: string,
+    chain: string,
+    template: string,
+    passphrase: string = '',
+    options: DiscoveryOptions = {}
+  ): Promise<DiscoveryResult> {
+    const gapLimit = options.gapLimit ?? DEFAULT_GAP_LIMIT;
+    const maxAccounts = options.maxAccounts ?? DEFAULT_MAX_ACCOUNTS;
+
+    if (!Number.isInteger(gapLimit) || gapLimit < 1) {
+      throw new Error(`Invalid gap limit: ${gapLimit}`);
+    }
+
+    // Every address window derives from the one stretched seed
+    if (!options.seed) {
+      const { seed } = await DerivationPool.prepareSeed(mnemonic, passphrase, options.signal);
+      options = { ...options, seed };
+    }
+
+    const result: DiscoveryResult = { wallets: [], checked: 0, accountsUsed: 0 };
+    const changeChains = WalletDerivationService.hasChangeChain(chain) ? [0, 1] : [0];
+    let previousAccountPath: string | null = null;
+
+    for (let account = 0; account < maxAccounts; account++) {
+      // Templates without an account segment (e.g. m/44'/501') have a single account
+      const accountPath = WalletDerivationService.buildDerivationPath(chain, template, account, 0, 0);
+      if (accountPath === previousAccountPath) break;
+      previousAccountPath = accountPath;
+
+      const receive = await this.scanChain(mnemonic, chain, template, account, 0, passphrase, gapLimit, options, result);
+
+      if (receive.used.length === 0) {
+        // A seed with no history still gets its first receive address
+        if (account === 0 && receive.fresh) {
+          result.wallets.push(this.tag(receive.fresh, 'fresh'));
+        }
+        break;
+      }
+
+      result.accountsUsed++;
+      result.wallets.push(...receive.used.map(wallet => this.tag(wallet, 'used')));
+
+      for (const change of changeChains.slice(1)) {
+        const scan = await this.scanChain(mnemonic, chain, template, account, change, passphrase, gapLimit, options, result);
+        result.wallets.push(...scan.used.map(wallet => this.tag(wallet, 'used')));
+      }
+
+      if (receive.fresh) {
+        result.wallets.push(this.tag(receive.fresh, 'fresh'));
+      }
+    }
+
+    return result;
+  }
+
+  private static async scanChain(
+    mnemonic: string,
+    chain: string,
+    template: string,
+    account: number,
+    change: number,
+    passphrase: string,
+    gapLimit: number,
+    options: DiscoveryOptions,
+    result: DiscoveryResult
+  ): Promise<ChainScan> {
+    const scan: ChainScan = { used: [], fresh: null };
+    let previousPath: string | null = null;
+    let lastWindow = false;
+
+    // Each window holds just the addresses the gap limit still asks for, so
+    // no more are derived than a one-by-one walk would
+    for (let index = 0, gap = 0; gap < gapLimit && !lastWindow;) {
+      const paths: string[] = [];
+      while (paths.length < gapLimit - gap) {
+        const path = WalletDerivationService.buildDerivationPath(chain, template, account, change, index + paths.length);
+        // Templates without an index segment have a single address per account
+        if (path === previousPath) {
+          lastWindow = true;
+          break;
+        }
+        paths.push(path);
+        previousPath = path;
+      }
+      index += paths.length;
+
+      const wallets = await this.deriveWindow(mnemonic, chain, paths, passphrase, options);
+      const used = await this.findUsed(chain, wallets.map(wallet => wallet.address));
+
+      for (const [i, wallet] of wallets.entries()) {
+        result.checked++;
+
+        if (used[i]) {
+          scan.used.push(wallet);
+          scan.fresh = null;
+          gap = 0;
+        } else {
+          scan.fresh = scan.fresh || wallet;
+          gap++;
+        }
+
+        options.onProgress?.(result.checked, result.wallets.length + scan.used.length);
+      }
+    }
+
+    return scan;
+  }
+
+  // Derives a window of paths in the derivation pool, in path order
+  private static async deriveWindow(
+    mnemonic: string,
+    chain: string,
+    paths: string[],
+    passphrase: string,
+    options: DiscoveryOptions
+  ): Promise<DerivedWallet[]> {
+    const wallets = new Map<string, DerivedWallet>();
+    await DerivationPool.derive(
+      [{ mnemonic, passphrase, seed: options.seed, tasks: paths.map(derivationPath => ({ chain, derivationPath, scriptType: options.scriptType })) }],
+      { signal: options.signal, onWallet: wallet => { wallets.set(wallet.derivationPath, wallet); } }
+    );
+
+    return paths.map(path => {
+      const wallet = wallets.get(path);
+      if (!wallet) {
+        throw new Error(`Failed to derive ${chain} wallet at ${path}`);
+      }
+      return wallet;
+    });
+  }
+
+  /**
+   * Which addresses of a window are used. An address is used once it has any
+   * transaction. The EVM nonce misses receive-only addresses, and some chains
+   * have no transaction count, so those also count a non-zero balance, read
+   * for the whole window in one bulk lookup.
+   */
+  private static async findUsed(chain: string, addresses: string[]): Promise<boolean[]> {
+    const txCounts = await Promise.all(addresses.map(address => BalanceEngine.getTransactionCount(chain, address)));
+    const used = txCounts.map(txCount => txCount !== null && txCount > 0);
+
+    const unsure = addresses.filter((_, i) => !used[i] && (txCounts[i] === null || CHAIN_CONFIGS[chain]?.chainId));
+    const balances = await BalanceEngine.getBalances(unsure.map(address => ({ chain, address })), { tokens: true });
+
+    for (const balance of balances) {
+      if (balance.error) {
+        throw new Error(`Cannot check ${chain} activity for ${balance.address}: ${balance.error}`);
+      }
+      if (Number(balance.balance) > 0 || (balance.tokens?.length ?? 0) > 0) {
+        used[addresses.indexOf(balance.address)] = true;
+      }
+    }
+    return used;
+  }
+
+  private static tag(wallet: DerivedWallet, discovered: 'used' | 'fresh'): DerivedWallet {
+    return { ...wallet, metadata: { ...wallet.metadata, discovered } };
+  }
+}
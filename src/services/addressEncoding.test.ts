@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { bech32 } from '@scure/base';
+import { hexToBytes } from '@noble/hashes/utils';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { toCardanoBaseAddress, toCosmosAddress, toSs58Address, toTaprootAddress, toTronAddress, toXrpAddress } from './addressEncoding';
+
+describe('toCosmosAddress', () => {
+  // cosmjs amino address vector
+  const publicKey = hexToBytes('02d41a0aa167b21699429eab224bc03f2cd386f0af5d20cefbd0336f1544aea24f');
+
+  it('encodes the hash of the compressed key', () => {
+    expect(toCosmosAddress(publicKey)).toBe('cosmos1h806c7khnvmjlywdrkdgk2vrayy2mmvf9rxk2r');
+  });
+
+  it('compresses an uncompressed key first', () => {
+    const uncompressed = secp256k1.ProjectivePoint.fromHex(publicKey).toRawBytes(false);
+    expect(toCosmosAddress(uncompressed)).toBe('cosmos1h806c7khnvmjlywdrkdgk2vrayy2mmvf9rxk2r');
+  });
+});
+
+describe('toTronAddress', () => {
+  // TRON developer documentation account example
+  it('encodes the keccak hash of the uncompressed key', () => {
+    const publicKey = secp256k1.getPublicKey(hexToBytes('da146374a75310b9666e834ee4ad0866d6f4035967bfc76217c5a495fff9f0d0'), true);
+    expect(toTronAddress(publicKey)).toBe('TPL66VK2gCXNCD7EJg9pgJRfqcRazjhUZY');
+  });
+});
+
+describe('toXrpAddress', () => {
+  // XRPL documentation account example
+  it('encodes in the Ripple base58 alphabet', () => {
+    const publicKey = hexToBytes('0330e7fc9d56bb25d6893ba3f317ae5bcf33b3291bd63db32654a313222f7fd020');
+    expect(toXrpAddress(publicKey)).toBe('rHb9CJAWyB4rj91VRWn96DkukG4bwdtyTh');
+  });
+});
+
+describe('toTaprootAddress', () => {
+  it('tweaks the internal key without a script tree', () => {
+    // BIP341 wallet test vector, scriptPubKey case 0
+    expect(toTaprootAddress(hexToBytes('02d6889cb081036e0faefa3a35157ad71086b123b2b144b649798b494c300a961d'), 'bc'))
+      .toBe('bc1p2wsldez5mud2yam29q22wgfh9439spgduvct83k3pm50fcxa5dps59h4z5');
+    // BIP86 internal key of m/86'/0'/0'/0/0
+    expect(toTaprootAddress(hexToBytes('03cc8a4bc64d897bddc5fbc2f670f7a8ba0b386779106cf1223c6fc5d7cd6fc115'), 'bc'))
+      .toBe('bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr');
+  });
+});
+
+describe('toCardanoBaseAddress', () => {
+  // CIP-19 test vectors, base address with key hashes (type 0)
+  const decodeKey = (key: string) => Uint8Array.from(bech32.fromWords(bech32.decode(key as `${string}1${string}`).words));
+  const paymentKey = decodeKey('addr_vk1w0l2sr2zgfm26ztc6nl9xy8ghsk5sh6ldwemlpmp9xylzy4dtf7st80zhd');
+  const stakeKey = decodeKey('stake_vk1px4j0r2fk7ux5p23shz8f3y5y2qam7s954rgf3lg5merqcj6aetsft99wu');
+
+  it('encodes a mainnet base address', () => {
+    expect(toCardanoBaseAddress(paymentKey, stakeKey))
+      .toBe('addr1qx2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgse35a3x');
+  });
+
+  it('encodes a testnet base address', () => {
+    expect(toCardanoBaseAddress(paymentKey, stakeKey, 0))
+      .toBe('addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgs68faae');
+  });
+});
+
+describe('toSs58Address', () => {
+  // Substrate's well-known development account //Alice
+  const publicKey = hexToBytes('d43593c715fdd31c61141abd04a99fd6822c8558854ccde39a5684e7a56da27d');
+
+  it('encodes with the Polkadot, Kusama and generic Substrate prefixes', () => {
+    expect(toSs58Address(publicKey, 0)).toBe('15oF4uVJwmo4TdGW7VfQxNLavjCXviqxT9S1MgbjMNHr6Sp5');
+    expect(toSs58Address(publicKey, 2)).toBe('HNZata7iMYWmk5RvZRTiAsSDhV8366zq2YGb3tLH5Upf74F');
+    expect(toSs58Address(publicKey, 42)).toBe('5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY');
+  });
+
+  it('rejects a prefix outside the SS58 range', () => {
+    expect(() => toSs58Address(publicKey, 16384)).toThrow('Invalid SS58 prefix');
+  });
+});
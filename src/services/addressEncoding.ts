@@ -0,0 +1,112 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { ripemd160 } from '@noble/hashes/ripemd160';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { blake2b } from '@noble/hashes/blake2b';
+import { secp256k1, schnorr } from '@noble/curves/secp256k1';
+import { bech32, bech32m, base58, base58xrp } from '@scure/base';
+
+// Address encodings for chains that are not Bitcoin, EVM or Solana.
+// Pure Uint8Array code so the main process can re-encode stored public keys.
+
+const TRON_ADDRESS_PREFIX = 0x41;
+const XRP_ACCOUNT_PREFIX = 0x00;
+const CARDANO_BASE_ADDRESS_HEADER = 0x00; // payment key hash + stake key hash
+const SS58_CHECKSUM_PREFIX = new TextEncoder().encode('SS58PRE');
+
+export function hash160(data: Uint8Array): Uint8Array {
+  return ripemd160(sha256(data));
+}
+
+// version || payload || first 4 bytes of double SHA-256
+function withChecksum(version: number, payload: Uint8Array): Uint8Array {
+  const body = new Uint8Array(payload.length + 1);
+  body[0] = version;
+  body.set(payload, 1);
+
+  const checksum = sha256(sha256(body)).slice(0, 4);
+  const result = new Uint8Array(body.length + 4);
+  result.set(body, 0);
+  result.set(checksum, body.length);
+  return result;
+}
+
+function toBigIntBE(bytes: Uint8Array): bigint {
+  return bytes.reduce((value, byte) => (value << 8n) + BigInt(byte), 0n);
+}
+
+function compressPublicKey(publicKey: Uint8Array): Uint8Array {
+  return secp256k1.ProjectivePoint.fromHex(publicKey).toRawBytes(true);
+}
+
+/**
+ * Cosmos SDK account address: bech32(hrp, RIPEMD160(SHA256(compressed key))).
+ * The HRP selects the chain, e.g. "cosmos", "osmo", "juno".
+ */
+export function toCosmosAddress(publicKey: Uint8Array, hrp: string = 'cosmos'): string {
+  return bech32.encode(hrp, bech32.toWords(hash160(compressPublicKey(publicKey))));
+}
+
+/**
+ * Tron address: base58check of 0x41 || last 20 bytes of keccak256(uncompressed key without 0x04)
+ */
+export function toTronAddress(publicKey: Uint8Array): string {
+  const uncompressed = secp256k1.ProjectivePoint.fromHex(publicKey).toRawBytes(false);
+  const hash = keccak_256(uncompressed.slice(1));
+  return base58.encode(withChecksum(TRON_ADDRESS_PREFIX, hash.slice(-20)));
+}
+
+/**
+ * XRP classic address: base58check in the Ripple alphabet of 0x00 || HASH160(compressed key)
+ */
+export function toXrpAddress(publicKey: Uint8Array): string {
+  return base58xrp.encode(withChecksum(XRP_ACCOUNT_PREFIX, hash160(compressPublicKey(publicKey))));
+}
+
+/**
+ * BIP86 key-path-only Taproot address: bech32m witness v1 program of the
+ * internal key tweaked with TaggedHash("TapTweak", x(P)). The HRP is the
+ * network's segwit prefix ("bc", "tb", "ltc").
+ */
+export function toTaprootAddress(publicKey: Uint8Array, hrp: string): string {
+  const xOnly = compressPublicKey(publicKey).slice(1);
+  // lift_x: the internal key is taken with an even Y coordinate
+  const internalKey = secp256k1.ProjectivePoint.fromHex(new Uint8Array([0x02, ...xOnly]));
+  const tweak = toBigIntBE(schnorr.utils.taggedHash('TapTweak', xOnly)) % secp256k1.CURVE.n;
+  const outputKey = internalKey.add(secp256k1.ProjectivePoint.BASE.multiply(tweak));
+
+  return bech32m.encode(hrp, [1, ...bech32m.toWords(outputKey.toRawBytes(true).slice(1))]);
+}
+
+/**
+ * Cardano Shelley base address: header || blake2b-224(payment key) || blake2b-224(stake key),
+ * bech32 with "addr" on mainnet (network id 1) and "addr_test" otherwise
+ */
+export function toCardanoBaseAddress(paymentKey: Uint8Array, stakeKey: Uint8Array, networkId: number = 1): string {
+  const bytes = new Uint8Array(57);
+  bytes[0] = CARDANO_BASE_ADDRESS_HEADER | (networkId & 0x0f);
+  bytes.set(blake2b(paymentKey, { dkLen: 28 }), 1);
+  bytes.set(blake2b(stakeKey, { dkLen: 28 }), 29);
+
+  // Shelley addresses are longer than the 90 characters BIP173 allows
+  return bech32.encode(networkId === 1 ? 'addr' : 'addr_test', bech32.toWords(bytes), false);
+}
+
+/**
+ * SS58 address used by Substrate chains (0 = Polkadot, 2 = Kusama, 42 = generic Substrate)
+ */
+export function toSs58Address(publicKey: Uint8Array, prefix: number): string {
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > 16383) {
+    throw new Error(`Invalid SS58 prefix: ${prefix}`);
+  }
+
+  const prefixBytes = prefix < 64
+    ? new Uint8Array([prefix])
+    : new Uint8Array([
+      ((prefix & 0xfc) >> 2) | 0x40,
+      (prefix >> 8) | ((prefix & 0x03) << 6),
+    ]);
+
+  const payload = new Uint8Array([...prefixBytes, ...publicKey]);
+  const checksum = blake2b(new Uint8Array([...SS58_CHECKSUM_PREFIX, ...payload]), { dkLen: 64 }).slice(0, 2);
+  return base58.encode(new Uint8Array([...payload, ...checksum]));
+}
@@ -0,0 +1,220 @@
+import axios from 'axios';
+import { sha256 } from '@noble/hashes/sha256';
+import { bech32, bech32m, createBase58check } from '@scure/base';
+import { Buffer } from '../polyfills';
+import { AdapterBalance, BalanceAdapter } from './balanceEngine';
+import { TokenService } from './tokenService';
+import { RpcManager } from './rpcManager';
+import { Multicall } from './multicall';
+import { CHAIN_CONFIGS, isEvmChain } from './chainRegistry';
+import { isValidSolanaAddress } from './slip10';
+import { electronAPI, isElectron } from '../utils/electron';
+
+// Balance sources by chain family. BalanceEngine tries the adapters that
+// support a chain in this order; UTXO chains list their indexers in the
+// registry's balanceApis.
+
+const HTTP_TIMEOUT = 10000;
+
+const base58check = createBase58check(sha256);
+
+// Reads native balances over the chain's JSON-RPC endpoints, failing over in RpcManager order
+const evmAdapter: BalanceAdapter = {
+  name: 'EVM JSON-RPC',
+  supports: isEvmChain,
+  concurrency: 8,
+
+  async getBalance(chain, address, options) {
+    const [balance, rpcUrl] = await RpcManager.withProvider(chain, async (provider, url) =>
+      [await provider.getBalance(address), url] as const
+    );
+
+    let tokens;
+    if (options.tokens) {
+      // Token balances are extra; a failure here keeps the native balance
+      try {
+        tokens = await TokenService.getTokenBalances(address, CHAIN_CONFIGS[chain].chainId!, rpcUrl);
+      } catch (error) {
+        console.warn(`Failed to fetch token balances for ${address} on ${chain}:`, error);
+        tokens = [];
+      }
+    }
+    return { balance, tokens };
+  },
+
+  // Native and token balances of every address in one Multicall3 round trip
+  async getBalances(chain, addresses, options) {
+    const tokens = options.tokens ? TokenService.getPopularTokens(CHAIN_CONFIGS[chain].chainId!) : [];
+    const queries = addresses.flatMap(owner => [
+      { owner },
+      ...tokens.map(token => ({ owner, token: token.address })),
+    ]);
+
+    const results = await RpcManager.withProvider(chain, (provider, url) => Multicall.getBalances(provider, url, queries));
+
+    const balances = new Map<string, AdapterBalance>();
+    const stride = tokens.length + 1;
+    addresses.forEach((address, i) => {
+      const [balance, ...tokenBalances] = results.slice(i * stride, (i + 1) * stride);
+      if (balance === null) return;
+      balances.set(address, {
+        balance,
+        tokens: options.tokens ? TokenService.toTokenBalances(tokens, tokenBalances) : undefined,
+      });
+    });
+    return balances;
+  },
+
+  getTransactionCount: (chain, address) =>
+    RpcManager.withProvider(chain, provider => provider.getTransactionCount(address)),
+};
+
+async function solanaRequest(method: string, params: any[]): Promise<any> {
+  const response = await RpcManager.withEndpoint('SOL', url =>
+    axios.post(url, { jsonrpc: '2.0', id: 1, method, params }, { timeout: HTTP_TIMEOUT })
+  );
+  if (response.data.error) {
+    throw new Error(response.data.error.message);
+  }
+  return response.data.result;
+}
+
+const solanaAdapter: BalanceAdapter = {
+  name: 'Solana RPC',
+  supports: chain => CHAIN_CONFIGS[chain]?.family === 'solana',
+
+  async getBalance(_chain, address) {
+    if (!isValidSolanaAddress(address)) {
+      throw new Error('Invalid Solana address - re-import this wallet to re-derive it');
+    }
+    const result = await solanaRequest('getBalance', [address]);
+    return { balance: BigInt(result.value) };
+  },
+
+  async getTransactionCount(_chain, address) {
+    const signatures = await solanaRequest('getSignaturesForAddress', [address, { limit: 1 }]);
+    return signatures.length;
+  },
+};
+
+// GET /address/:address from the first Esplora instance that answers
+async function esploraAddress(chain: string, address: string): Promise<any> {
+  let lastError: any = null;
+  for (const base of CHAIN_CONFIGS[chain].balanceApis!.esplora!) {
+    try {
+      const { data } = await axios.get(`${base}/address/${address}`, {
+        timeout: HTTP_TIMEOUT,
+        headers: { 'Accept': 'application/json' },
+      });
+      return data;
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+const esploraAdapter: BalanceAdapter = {
+  name: 'Esplora',
+  supports: chain => Boolean(CHAIN_CONFIGS[chain]?.balanceApis?.esplora?.length),
+  concurrency: 2,
+  minInterval: 250,
+
+  async getBalance(chain, address) {
+    const { chain_stats } = await esploraAddress(chain, address);
+    return { balance: BigInt((chain_stats.funded_txo_sum || 0) - (chain_stats.spent_txo_sum || 0)) };
+  },
+
+  async getTransactionCount(chain, address) {
+    const data = await esploraAddress(chain, address);
+    return (data.chain_stats?.tx_count || 0) + (data.mempool_stats?.tx_count || 0);
+  },
+};
+
+/**
+ * Electrum indexes addresses by the reversed SHA-256 of their output script
+ */
+export function electrumScriptHash(chain: string, address: string): string {
+  const network = CHAIN_CONFIGS[chain].network;
+  let script: Uint8Array;
+
+  if (network.bech32 && address.toLowerCase().startsWith(`${network.bech32}1`)) {
+    const decoded = address.toLowerCase().startsWith(`${network.bech32}1q`)
+      ? bech32.decode(address as `${string}1${string}`)
+      : bech32m.decode(address as `${string}1${string}`);
+    const version = decoded.words[0];
+    const program = bech32.fromWords(decoded.words.slice(1));
+    // OP_0 or OP_1..OP_16, then the witness program
+    script = Uint8Array.from([version === 0 ? 0x00 : 0x50 + version, program.length, ...program]);
+  } else {
+    const payload = base58check.decode(address);
+    const hash = payload.slice(1);
+    if (payload[0] === network.pubKeyHash) {
+      script = Uint8Array.from([0x76, 0xa9, 0x14, ...hash, 0x88, 0xac]);
+    } else if (payload[0] === network.scriptHash) {
+      script = Uint8Array.from([0xa9, 0x14, ...hash, 0x87]);
+    } else {
+      throw new Error(`${address} is not a ${chain} address`);
+    }
+  }
+
+  return Buffer.from(sha256(script)).reverse().toString('hex');
+}
+
+// Electrum servers are reached through the main process, so only in Electron
+async function electrumRequest(chain: string, method: string, address: string): Promise<any> {
+  const result = await electronAPI.electrumRequest(chain, method, [electrumScriptHash(chain, address)]);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.result;
+}
+
+const electrumAdapter: BalanceAdapter = {
+  name: 'Electrum',
+  supports: chain => isElectron() && Boolean(CHAIN_CONFIGS[chain]?.balanceApis?.electrum?.length),
+
+  async getBalance(chain, address) {
+    const { confirmed } = await electrumRequest(chain, 'blockchain.scripthash.get_balance', address);
+    return { balance: BigInt(confirmed) };
+  },
+
+  async getTransactionCount(chain, address) {
+    const history = await electrumRequest(chain, 'blockchain.scripthash.get_history', address);
+    return history.length;
+  },
+};
+
+async function blockcypherBalance(chain: string, address: string): Promise<any> {
+  const { data } = await axios.get(
+    `/api/blockcypher/v1/${CHAIN_CONFIGS[chain].balanceApis!.blockcypher}/addrs/${address}/balance`,
+    { timeout: HTTP_TIMEOUT }
+  );
+  return data;
+}
+
+// The free tier allows a few requests per second, so requests go one at a time
+const blockcypherAdapter: BalanceAdapter = {
+  name: 'BlockCypher',
+  supports: chain => Boolean(CHAIN_CONFIGS[chain]?.balanceApis?.blockcypher),
+  concurrency: 1,
+  minInterval: 1500,
+
+  async getBalance(chain, address) {
+    const data = await blockcypherBalance(chain, address);
+    return { balance: BigInt(data.balance) };
+  },
+
+  async getTransactionCount(chain, address) {
+    const data = await blockcypherBalance(chain, address);
+    return data.final_n_tx || 0;
+  },
+};
+
+export const BALANCE_ADAPTERS: BalanceAdapter[] = [
+  evmAdapter,
+  solanaAdapter,
+  esploraAdapter,
+  electrumAdapter,
+  blockcypherAdapter,
+];
@@ -0,0 +1,378 @@
+import axios from 'axios';
+import { ethers } from 'ethers';
+import { TokenBalance } from './tokenService';
+import { APIErrorHandler } from './apiErrorHandler';
+import { APINotificationManager } from '../components/APIStatusNotification';
+import { CHAIN_CONFIGS, getChainSymbol, getChainDecimals } from './chainRegistry';
+import { BALANCE_ADAPTERS } from './balanceAdapters';
+
+// One place every balance lookup goes through. Adapters know how to read a
+// chain family's balances; the engine picks the adapters for a chain, caches
+// results, shares in-flight lookups, retries transient failures, paces each
+// adapter's requests and adds USD values.
+
+export interface BalanceResult {
+  chain: string;
+  address: string;
+  balance: string;            // base units
+  formattedBalance: string;
+  symbol: string;
+  usdValue?: number;
+  lastChecked: Date;
+  error?: string;
+  tokens?: TokenBalance[];
+  source?: string;            // adapter that answered
+}
+
+export interface BalanceOptions {
+  tokens?: boolean;           // also read token balances where the adapter can
+  force?: boolean;            // skip the cache
+}
+
+export interface AdapterBalance {
+  balance: bigint;            // base units
+  tokens?: TokenBalance[];
+}
+
+export interface BalanceAdapter {
+  name: string;
+  supports: (chain: string) => boolean;
+  getBalance: (chain: string, address: string, options: BalanceOptions) => Promise<AdapterBalance>;
+  // Many addresses of one chain at once; addresses missing from the map fall
+  // back to getBalance
+  getBalances?: (chain: string, addresses: string[], options: BalanceOptions) => Promise<Map<string, AdapterBalance>>;
+  // Transactions the address took part in; adapters without a source leave it out
+  getTransactionCount?: (chain: string, address: string) => Promise<number>;
+  concurrency?: number;       // requests in flight at once, default 4
+  minInterval?: number;       // ms between request starts, default 0
+}
+
+interface CachedBalance {
+  result: BalanceResult;
+  expires: number;
+}
+
+interface PendingBalance {
+  result: Promise<BalanceResult>;
+  tokens: boolean;
+}
+
+const CACHE_TTL = 5 * 60 * 1000;
+const ERROR_CACHE_TTL = 30 * 1000;
+const PRICE_TTL = 5 * 60 * 1000;
+const MAX_RETRIES = 2;
+const MAX_RETRY_DELAY = 10000;
+
+// Runs an adapter's requests within its concurrency and pacing limits
+class RequestLimiter {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private nextStart = 0;
+
+  constructor(private concurrency: number, private interval: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.concurrency) {
+      this.active++;
+    } else {
+      // A finishing request hands its slot straight over
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    try {
+      const wait = this.nextStart - Date.now();
+      this.nextStart = Math.max(Date.now(), this.nextStart) + this.interval;
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+}
+
+export class BalanceEngine {
+  private static adapters: BalanceAdapter[] = [...BALANCE_ADAPTERS];
+  private static limiters = new Map<string, RequestLimiter>();
+  private static cache = new Map<string, CachedBalance>();
+  private static inFlight = new Map<string, PendingBalance>();
+  private static prices = new Map<string, { price: Promise<number | undefined>; expires: number }>();
+
+  /**
+   * Add an adapter after the built-in ones. Adapters supporting a chain are
+   * tried in order, the next one taking over when a lookup fails.
+   */
+  static registerAdapter(adapter: BalanceAdapter) {
+    this.adapters.push(adapter);
+  }
+
+  /**
+   * Balance of one address. Never throws; failures come back in `error`.
+   * Lookups of the same address in flight at once share one request.
+   */
+  static async getBalance(chain: string, address: string, options: BalanceOptions = {}): Promise<BalanceResult> {
+    const known = this.known(chain, address, options);
+    if (known) {
+      return known;
+    }
+    return this.track(chain, address, options, this.lookup(chain, address, options));
+  }
+
+  /**
+   * Balances of many addresses, in request order. Adapters that read in bulk
+   * get each chain's addresses in one call; the rest run within each
+   * adapter's limits.
+   */
+  static getBalances(
+    requests: Array<{ chain: string; address: string }>,
+    options: BalanceOptions = {}
+  ): Promise<BalanceResult[]> {
+    const byChain = new Map<string, string[]>();
+    for (const { chain, address } of requests) {
+      if (this.known(chain, address, options)) continue;
+      const addresses = byChain.get(chain) || [];
+      if (!addresses.includes(address)) addresses.push(address);
+      byChain.set(chain, addresses);
+    }
+
+    for (const [chain, addresses] of byChain) {
+      this.bulkLookup(chain, addresses, options);
+    }
+
+    return Promise.all(requests.map(({ chain, address }) => this.getBalance(chain, address, options)));
+  }
+
+  /**
+   * Number of transactions an address has taken part in, or null when no
+   * adapter can count them for the chain. Throws when every lookup fails, so
+   * callers can tell "unused" from "unknown".
+   *
+   * EVM chains report the account nonce, which only counts sent transactions.
+   */
+  static async getTransactionCount(chain: string, address: string): Promise<number | null> {
+    const adapters = this.getAdapters(chain).filter(adapter => adapter.getTransactionCount);
+    if (adapters.length === 0) return null;
+
+    let lastError: any = null;
+    for (const adapter of adapters) {
+      try {
+        return await this.withRetries(adapter, () => adapter.getTransactionCount!(chain, address));
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Whether any adapter reads balances on a chain
+   */
+  static supports(chain: string): boolean {
+    return this.getAdapters(chain).length > 0;
+  }
+
+  static clearCache() {
+    this.cache.clear();
+    this.prices.clear();
+    console.log('🧹 Cleared balance cache');
+  }
+
+  static getCacheStats() {
+    const now = Date.now();
+    const valid = Array.from(this.cache.values()).filter(item => now < item.expires).length;
+    return {
+      total: this.cache.size,
+      valid,
+      expired: this.cache.size - valid,
+    };
+  }
+
+  private static getAdapters(chain: string): BalanceAdapter[] {
+    return this.adapters.filter(adapter => adapter.supports(chain));
+  }
+
+  // A cached result, or the lookup already in flight, that answers these options
+  private static known(chain: string, address: string, options: BalanceOptions): BalanceResult | Promise<BalanceResult> | null {
+    const key = `${chain}:${address}`;
+
+    const cached = this.cache.get(key);
+    if (!options.force && cached && Date.now() < cached.expires && (!options.tokens || cached.result.tokens)) {
+      return cached.result;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending && (!options.tokens || pending.tokens)) {
+      return pending.result;
+    }
+    return null;
+  }
+
+  private static track(chain: string, address: string, options: BalanceOptions, lookup: Promise<BalanceResult>): Promise<BalanceResult> {
+    const key = `${chain}:${address}`;
+    const pending: PendingBalance = {
+      result: lookup.finally(() => {
+        if (this.inFlight.get(key) === pending) this.inFlight.delete(key);
+      }),
+      tokens: Boolean(options.tokens),
+    };
+    this.inFlight.set(key, pending);
+    return pending.result;
+  }
+
+  // Read a chain's addresses with one call to its first adapter, when that
+  // adapter reads in bulk. Each address gets its own in-flight entry, so
+  // single lookups made meanwhile share the bulk call.
+  private static bulkLookup(chain: string, addresses: string[], options: BalanceOptions) {
+    const adapter = this.getAdapters(chain)[0];
+    if (!adapter?.getBalances || addresses.length < 2) return;
+
+    const bulk = this.withRetries(adapter, () => adapter.getBalances!(chain, addresses, options))
+      .catch(error => {
+        console.warn(`Bulk balance lookup on ${chain} failed, checking addresses one by one:`, error);
+        return new Map<string, AdapterBalance>();
+      });
+
+    for (const address of addresses) {
+      this.track(chain, address, options, bulk.then(async balances => {
+        const balance = balances.get(address);
+        return balance
+          ? this.remember(await this.toResult(chain, address, adapter, balance))
+          : this.lookup(chain, address, options);
+      }));
+    }
+  }
+
+  private static async lookup(chain: string, address: string, options: BalanceOptions): Promise<BalanceResult> {
+    const adapters = this.getAdapters(chain);
+    let result: BalanceResult;
+
+    if (adapters.length === 0) {
+      result = this.errorResult(chain, address, 'Chain not supported for balance checking');
+    } else {
+      let lastError: any = null;
+      let found: { adapter: BalanceAdapter; balance: AdapterBalance } | null = null;
+
+      for (const adapter of adapters) {
+        try {
+          found = { adapter, balance: await this.withRetries(adapter, () => adapter.getBalance(chain, address, options)) };
+          break;
+        } catch (error) {
+          lastError = error;
+        }
+      }
+
+      if (found) {
+        result = await this.toResult(chain, address, found.adapter, found.balance);
+      } else {
+        const apiError = APIErrorHandler.analyzeError(lastError);
+        result = this.errorResult(chain, address, apiError.type === 'UNKNOWN'
+          ? lastError?.message || apiError.message
+          : APIErrorHandler.getUserMessage(apiError));
+      }
+    }
+
+    return this.remember(result);
+  }
+
+  private static async toResult(chain: string, address: string, adapter: BalanceAdapter, balance: AdapterBalance): Promise<BalanceResult> {
+    const formattedBalance = ethers.formatUnits(balance.balance, getChainDecimals(chain));
+    return {
+      chain,
+      address,
+      balance: balance.balance.toString(),
+      formattedBalance,
+      symbol: getChainSymbol(chain),
+      usdValue: await this.getUSDValue(chain, formattedBalance),
+      lastChecked: new Date(),
+      tokens: balance.tokens,
+      source: adapter.name,
+    };
+  }
+
+  private static remember(result: BalanceResult): BalanceResult {
+    this.cache.set(`${result.chain}:${result.address}`, {
+      result,
+      expires: Date.now() + (result.error ? ERROR_CACHE_TTL : CACHE_TTL),
+    });
+    return result;
+  }
+
+  // Run one adapter call within its limits, retrying errors worth retrying
+  private static async withRetries<T>(adapter: BalanceAdapter, task: () => Promise<T>): Promise<T> {
+    let limiter = this.limiters.get(adapter.name);
+    if (!limiter) {
+      limiter = new RequestLimiter(adapter.concurrency ?? 4, adapter.minInterval ?? 0);
+      this.limiters.set(adapter.name, limiter);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await limiter.run(task);
+      } catch (error) {
+        const apiError = APIErrorHandler.analyzeError(error);
+        APIErrorHandler.logError(apiError, adapter.name, attempt + 1);
+
+        if (!APIErrorHandler.shouldRetry(apiError, attempt, MAX_RETRIES)) {
+          if (apiError.type === 'CORS') {
+            APINotificationManager.corsError(adapter.name);
+          } else if (apiError.type === 'RATE_LIMIT') {
+            APINotificationManager.rateLimit(adapter.name, apiError.retryAfter || 60);
+          } else if (apiError.type === 'NETWORK') {
+            APINotificationManager.networkError(adapter.name);
+          }
+          throw error;
+        }
+
+        const delay = Math.min(APIErrorHandler.getRetryDelay(apiError, attempt), MAX_RETRY_DELAY);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private static errorResult(chain: string, address: string, error: string): BalanceResult {
+    return {
+      chain,
+      address,
+      balance: '0',
+      formattedBalance: '0',
+      symbol: getChainSymbol(chain),
+      lastChecked: new Date(),
+      error,
+    };
+  }
+
+  /**
+   * USD value of an amount of a chain's native coin; prices are cached and
+   * shared by every lookup in flight
+   */
+  private static async getUSDValue(chain: string, amount: string): Promise<number | undefined> {
+    const coinId = CHAIN_CONFIGS[chain]?.priceId;
+    if (!coinId) return undefined;
+
+    let entry = this.prices.get(coinId);
+    if (!entry || Date.now() >= entry.expires) {
+      entry = { price: this.fetchPrice(coinId), expires: Date.now() + PRICE_TTL };
+      this.prices.set(coinId, entry);
+    }
+
+    const price = await entry.price;
+    return price === undefined ? undefined : parseFloat(amount) * price;
+  }
+
+  private static async fetchPrice(coinId: string): Promise<number | undefined> {
+    try {
+      const response = await axios.get(
+        `/api/coingecko/api/v3/simple/price?ids=${coinId}&vs_currencies=usd`
+      );
+      return response.data[coinId]?.usd;
+    } catch (error) {
+      console.error(`Error fetching USD price for ${coinId}:`, error);
+      // Try again on the next lookup rather than caching the failure
+      this.prices.delete(coinId);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import * as bip39 from 'bip39';
+import { icarusMasterKey } from './bip32Ed25519';
+
+// CIP-3 Icarus master key test vectors
+describe('icarusMasterKey', () => {
+  const entropy = hexToBytes(bip39.mnemonicToEntropy(
+    'eight country switch draw meat scout mystery blade tip drift useless good keep usage title'
+  ));
+  const encode = ({ kL, kR, chainCode }: ReturnType<typeof icarusMasterKey>) =>
+    bytesToHex(new Uint8Array([...kL, ...kR, ...chainCode]));
+
+  it('derives the master key from the BIP39 entropy', () => {
+    expect(encode(icarusMasterKey(entropy)))
+      .toBe('c065afd2832cd8b087c4d9ab7011f481ee1e0721e78ea5dd609f3ab3f156d245d176bd8fd4ec60b4731c3918a2a72a0226c0cd119ec35b47e4d55884667f552a23f7fdcd4a10c6cd2c7393ac61d877873e248f417634aa3d812af327ffe9d620');
+  });
+
+  it('applies the passphrase', () => {
+    expect(encode(icarusMasterKey(entropy, 'foo')))
+      .toBe('70531039904019351e1afb361cd1b312a4d0565d4ff9f8062d38acf4b15cce41d7b5738d9c893feea55512a3004acb0d222c35d3e3d5cde943a15a9824cbac59443cf67e589614076ba01e354b1a432e0e6db3b59e37fc56b5fb0222970a010e');
+  });
+});
@@ -0,0 +1,99 @@
+import { hmac } from '@noble/hashes/hmac';
+import { sha512 } from '@noble/hashes/sha512';
+import { pbkdf2 } from '@noble/hashes/pbkdf2';
+import { ed25519 } from '@noble/curves/ed25519';
+
+// BIP32-Ed25519 (Khovratovich/Law, "V2") with the Icarus master key used by
+// Cardano Shelley wallets (Daedalus, Yoroi, Eternl, cardano-address).
+
+const HARDENED_OFFSET = 0x80000000;
+const ICARUS_PBKDF2_ITERATIONS = 4096;
+
+export interface ExtendedEd25519Key {
+  kL: Uint8Array;        // 32-byte scalar (little endian)
+  kR: Uint8Array;        // 32-byte extension
+  chainCode: Uint8Array;
+  publicKey: Uint8Array; // 32 bytes
+}
+
+function toBigIntLE(bytes: Uint8Array): bigint {
+  let value = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    value = (value << 8n) + BigInt(bytes[i]);
+  }
+  return value;
+}
+
+function toBytesLE(value: bigint, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+}
+
+function publicKeyFromScalar(kL: Uint8Array): Uint8Array {
+  // kL is already clamped; unlike RFC 8032 keys it is used as the scalar directly
+  const scalar = toBigIntLE(kL) % ed25519.CURVE.n;
+  return ed25519.ExtendedPoint.BASE.multiply(scalar).toRawBytes();
+}
+
+function withPublicKey(kL: Uint8Array, kR: Uint8Array, chainCode: Uint8Array): ExtendedEd25519Key {
+  return { kL, kR, chainCode, publicKey: publicKeyFromScalar(kL) };
+}
+
+/**
+ * Icarus master key: PBKDF2-HMAC-SHA512(passphrase, BIP39 entropy, 4096) clamped per BIP32-Ed25519
+ */
+export function icarusMasterKey(entropy: Uint8Array, passphrase: string = ''): ExtendedEd25519Key {
+  const key = pbkdf2(sha512, new TextEncoder().encode(passphrase), entropy, {
+    c: ICARUS_PBKDF2_ITERATIONS,
+    dkLen: 96,
+  });
+
+  key[0] &= 0xf8;
+  key[31] &= 0x1f;
+  key[31] |= 0x40;
+
+  return withPublicKey(key.slice(0, 32), key.slice(32, 64), key.slice(64, 96));
+}
+
+function deriveChild(parent: ExtendedEd25519Key, index: number): ExtendedEd25519Key {
+  const hardened = index >= HARDENED_OFFSET;
+  const serializedIndex = new Uint8Array(4);
+  new DataView(serializedIndex.buffer).setUint32(0, index, true);
+
+  const keyData = hardened
+    ? new Uint8Array([...parent.kL, ...parent.kR])
+    : parent.publicKey;
+  const payload = (tag: number) => new Uint8Array([tag, ...keyData, ...serializedIndex]);
+
+  const z = hmac(sha512, parent.chainCode, payload(hardened ? 0x00 : 0x02));
+  const chainCode = hmac(sha512, parent.chainCode, payload(hardened ? 0x01 : 0x03)).slice(32);
+
+  // kL' = kL + 8 * zL[0..28], kR' = kR + zR (mod 2^256)
+  const kL = toBigIntLE(parent.kL) + 8n * toBigIntLE(z.slice(0, 28));
+  const kR = (toBigIntLE(parent.kR) + toBigIntLE(z.slice(32))) % (1n << 256n);
+
+  return withPublicKey(toBytesLE(kL, 32), toBytesLE(kR, 32), chainCode);
+}
+
+/**
+ * Derive along a path such as m/1852'/1815'/0'/0/0. Both hardened and soft steps are allowed.
+ */
+export function deriveBip32Ed25519(master: ExtendedEd25519Key, path: string): ExtendedEd25519Key {
+  const segments = path.trim().split('/');
+  if (segments[0] !== 'm') {
+    throw new Error(`Derivation path must start with "m": ${path}`);
+  }
+
+  return segments.slice(1).reduce((key, segment) => {
+    const match = /^(\d+)(['hH]?)$/.exec(segment);
+    if (!match) {
+      throw new Error(`Invalid derivation segment "${segment}" in ${path}`);
+    }
+    const index = Number(match[1]) + (match[2] ? HARDENED_OFFSET : 0);
+    return deriveChild(key, index);
+  }, master);
+}
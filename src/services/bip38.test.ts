@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { bytesToHex } from '@noble/hashes/utils';
+import { decryptBip38, isBip38Key } from './bip38';
+
+// BIP38 test vectors
+const VECTORS = [
+  {
+    name: 'an uncompressed key without EC multiply',
+    encrypted: '6PRVWUbkzzsbcVac2qwfssoUJAN1Xhrg6bNk8J7Nzm5H7kxEbn2Nh2ZoGg',
+    passphrase: 'TestingOneTwoThree',
+    privateKey: 'cbf4b9f70470856bb4f40f80b87edb90865997ffee6df315ab166d713af433a5',
+    compressed: false,
+  },
+  {
+    name: 'a compressed key without EC multiply',
+    encrypted: '6PYNKZ1EAgYgmQfmNVamxyXVWHzK5s6DGhwP4J5o44cvXdoY7sRzhtpUeo',
+    passphrase: 'TestingOneTwoThree',
+    privateKey: 'cbf4b9f70470856bb4f40f80b87edb90865997ffee6df315ab166d713af433a5',
+    compressed: true,
+  },
+  {
+    name: 'an EC multiply key without lot and sequence',
+    encrypted: '6PfQu77ygVyJLZjfvMLyhLMQbYnu5uguoJJ4kMCLqWwPEdfpwANVS76gTX',
+    passphrase: 'TestingOneTwoThree',
+    privateKey: 'a43a940577f4e97f5c4d39eb14ff083a98187c64ea7c99ef7ce460833959a519',
+    compressed: false,
+  },
+  {
+    name: 'an EC multiply key with lot and sequence',
+    encrypted: '6PgNBNNzDkKdhkT6uJntUXwwzQV8Rr2tZcbkDcuC9DZRsS6AtHts4Ypo1j',
+    passphrase: 'MOLON LABE',
+    privateKey: '44ea95afbf138356a05ea32110dfd627232d0f2991ad221187be356f19fa8190',
+    compressed: false,
+  },
+];
+
+describe('decryptBip38', () => {
+  for (const vector of VECTORS) {
+    it(`decrypts ${vector.name}`, async () => {
+      expect(isBip38Key(vector.encrypted)).toBe(true);
+
+      const key = await decryptBip38(vector.encrypted, vector.passphrase);
+      expect(bytesToHex(key.privateKey)).toBe(vector.privateKey);
+      expect(key.compressed).toBe(vector.compressed);
+    });
+  }
+
+  it('rejects a wrong passphrase', async () => {
+    await expect(decryptBip38(VECTORS[0].encrypted, 'TestingOneTwoFour')).rejects.toThrow();
+  });
+});
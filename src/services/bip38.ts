@@ -0,0 +1,119 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { createBase58check } from '@scure/base';
+import CryptoJS from 'crypto-js';
+import { hash160 } from './addressEncoding';
+
+// BIP38 passphrase-protected private keys ("6P..."), both the plain mode and
+// the EC-multiply mode used by paper wallets generated from an intermediate code.
+
+export interface Bip38Key {
+  privateKey: Uint8Array;
+  compressed: boolean;
+}
+
+const base58check = createBase58check(sha256);
+
+const NON_EC_PREFIX = 0x42;
+const EC_MULTIPLY_PREFIX = 0x43;
+const FLAG_COMPRESSED = 0x20;
+const FLAG_LOT_SEQUENCE = 0x04;
+const BITCOIN_P2PKH_VERSION = 0x00;
+
+function sha256d(data: Uint8Array): Uint8Array {
+  return sha256(sha256(data));
+}
+
+function xor(a: Uint8Array, b: Uint8Array): Uint8Array {
+  return a.map((byte, i) => byte ^ b[i]);
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) || [], byte => parseInt(byte, 16));
+}
+
+function toBigIntBE(bytes: Uint8Array): bigint {
+  return bytes.reduce((value, byte) => (value << 8n) + BigInt(byte), 0n);
+}
+
+// One AES-256-ECB block, no padding
+function aesDecryptBlock(block: Uint8Array, key: Uint8Array): Uint8Array {
+  const decrypted = CryptoJS.AES.decrypt(
+    CryptoJS.lib.CipherParams.create({ ciphertext: CryptoJS.enc.Hex.parse(toHex(block)) }),
+    CryptoJS.enc.Hex.parse(toHex(key)),
+    { mode: CryptoJS.mode.ECB, padding: CryptoJS.pad.NoPadding }
+  );
+  return fromHex(CryptoJS.enc.Hex.stringify(decrypted));
+}
+
+// First 4 bytes of SHA256d over the key's Bitcoin P2PKH address, as ASCII
+function addressHash(privateKey: Uint8Array, compressed: boolean): Uint8Array {
+  const publicKey = secp256k1.getPublicKey(privateKey, compressed);
+  const address = base58check.encode(new Uint8Array([BITCOIN_P2PKH_VERSION, ...hash160(publicKey)]));
+  return sha256d(new TextEncoder().encode(address)).slice(0, 4);
+}
+
+export function isBip38Key(value: string): boolean {
+  return /^6P[1-9A-HJ-NP-Za-km-z]{56}$/.test(value.trim());
+}
+
+/**
+ * Decrypt a BIP38 key. Throws on a wrong passphrase, detected through the
+ * address hash stored in the key.
+ */
+export async function decryptBip38(encrypted: string, passphrase: string): Promise<Bip38Key> {
+  const payload = base58check.decode(encrypted.trim());
+  if (payload.length !== 39 || payload[0] !== 0x01) {
+    throw new Error('Not a BIP38 encrypted key');
+  }
+
+  const mode = payload[1];
+  const flags = payload[2];
+  const compressed = (flags & FLAG_COMPRESSED) !== 0;
+  const salt = payload.slice(3, 7);
+  const password = new TextEncoder().encode(passphrase.normalize('NFC'));
+  const n = secp256k1.CURVE.n;
+
+  let privateKey: Uint8Array;
+
+  if (mode === NON_EC_PREFIX) {
+    const derived = await scryptAsync(password, salt, { N: 16384, r: 8, p: 8, dkLen: 64 });
+    const half1 = xor(aesDecryptBlock(payload.slice(7, 23), derived.slice(32)), derived.slice(0, 16));
+    const half2 = xor(aesDecryptBlock(payload.slice(23, 39), derived.slice(32)), derived.slice(16, 32));
+    privateKey = new Uint8Array([...half1, ...half2]);
+  } else if (mode === EC_MULTIPLY_PREFIX) {
+    const ownerEntropy = payload.slice(7, 15);
+    const ownerSalt = flags & FLAG_LOT_SEQUENCE ? ownerEntropy.slice(0, 4) : ownerEntropy;
+
+    const prefactor = await scryptAsync(password, ownerSalt, { N: 16384, r: 8, p: 8, dkLen: 32 });
+    const passfactor = flags & FLAG_LOT_SEQUENCE
+      ? sha256d(new Uint8Array([...prefactor, ...ownerEntropy]))
+      : prefactor;
+    const passpoint = secp256k1.getPublicKey(passfactor, true);
+
+    const derived = await scryptAsync(passpoint, new Uint8Array([...salt, ...ownerEntropy]), { N: 1024, r: 1, p: 1, dkLen: 64 });
+    const key = derived.slice(32);
+
+    // encryptedpart2 yields the tail of encryptedpart1 and the tail of seedb
+    const part2 = xor(aesDecryptBlock(payload.slice(23, 39), key), derived.slice(16, 32));
+    const part1 = xor(aesDecryptBlock(new Uint8Array([...payload.slice(15, 23), ...part2.slice(0, 8)]), key), derived.slice(0, 16));
+    const factorb = sha256d(new Uint8Array([...part1, ...part2.slice(8, 16)]));
+
+    const scalar = (toBigIntBE(passfactor) * toBigIntBE(factorb)) % n;
+    privateKey = fromHex(scalar.toString(16).padStart(64, '0'));
+  } else {
+    throw new Error('Unknown BIP38 mode');
+  }
+
+  const scalar = toBigIntBE(privateKey);
+  if (scalar === 0n || scalar >= n || toHex(addressHash(privateKey, compressed)) !== toHex(salt)) {
+    throw new Error('Wrong passphrase');
+  }
+
+  return { privateKey, compressed };
+}
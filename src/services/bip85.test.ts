@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { HDKey } from '@scure/bip32';
+import { bytesToHex } from '@noble/hashes/utils';
+import { deriveBip85, deriveBip85Entropy, getBip85Path } from './bip85';
+
+// BIP85 test vectors, all from the same master key
+const root = HDKey.fromExtendedKey('xprv9s21ZrQH143K2LBWUUQRFXhucrQqBpKdRRxNVq2zBqsx8HVqFk2uYo8kmbaLLHRdqtQpUm98uKfu3vca1LqdGhUtyoFnCNkfmXRyPXLjbKb');
+
+describe('deriveBip85Entropy', () => {
+  it('derives the entropy of the test cases', () => {
+    expect(bytesToHex(deriveBip85Entropy(root, "m/83696968'/0'/0'")))
+      .toBe('efecfbccffea313214232d29e71563d941229afb4338c21f9517c41aaa0d16f00b83d2a09ef747e7a64e8e2bd5a14869e693da66ce94ac2da570ab7ee48618f7');
+    expect(bytesToHex(deriveBip85Entropy(root, "m/83696968'/0'/1'")))
+      .toBe('70c6e3e8ebee8dc4c0dbba66076819bb8c09672527c4277ca8729532ad711872218f826919f6b67218adde99018a6df9095ab2b58d803b5b93ec9802085a690e');
+  });
+});
+
+describe('deriveBip85', () => {
+  it('derives child mnemonics', () => {
+    expect(deriveBip85(root, { application: 'mnemonic', index: 0, words: 12 }).value)
+      .toBe('girl mad pet galaxy egg matter matrix prison refuse sense ordinary nose');
+    expect(deriveBip85(root, { application: 'mnemonic', index: 0, words: 18 }).value)
+      .toBe('near account window bike charge season chef number sketch tomorrow excuse sniff circle vital hockey outdoor supply token');
+    expect(deriveBip85(root, { application: 'mnemonic', index: 0, words: 24 }).value)
+      .toBe('puppy ocean match cereal symbol another shed magic wrap hammer bulb intact gadget divorce twin tonight reason outdoor destroy simple truth cigar social volcano');
+  });
+
+  it('derives a WIF key', () => {
+    expect(deriveBip85(root, { application: 'wif', index: 0 }).value).toBe('Kzyv4uF39d4Jrw2W7UryTHwZr1zQVNk4dAFyqE6BuMrMh1Za7uhp');
+  });
+
+  it('derives an xprv', () => {
+    expect(deriveBip85(root, { application: 'xprv', index: 0 }).value)
+      .toBe('xprv9s21ZrQH143K2srSbCSg4m4kLvPMzcWydgmKEnMmoZUurYuBuYG46c6P71UGXMzmriLzCCBvKQWBUv3vPB3m1SATMhp3uEjXHJ42jFg7myX');
+  });
+
+  it('derives hex entropy', () => {
+    const result = deriveBip85(root, { application: 'hex', index: 0, bytes: 64 });
+    expect(result.path).toBe("m/83696968'/128169'/64'/0'");
+    expect(result.value)
+      .toBe('492db4698cf3b73a5a24998aa3e9d7fa96275d85724a91e71aa2d645442f878555d078fd1f1f67e368976f04137b1f7a0d19232136ca50c44614af72b5582a5c');
+  });
+});
+
+describe('getBip85Path', () => {
+  it('rejects unsupported word counts and indices', () => {
+    expect(() => getBip85Path({ application: 'mnemonic', index: 0, words: 15 as any })).toThrow();
+    expect(() => getBip85Path({ application: 'wif', index: -1 })).toThrow();
+  });
+});
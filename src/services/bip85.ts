@@ -0,0 +1,121 @@
+import * as bip39 from 'bip39';
+import { HDKey } from '@scure/bip32';
+import { createBase58check } from '@scure/base';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha256';
+import { sha512 } from '@noble/hashes/sha512';
+
+// BIP85 deterministic entropy: every application path under m/83696968'
+// yields independent entropy from the master key, so one backup can
+// regenerate any number of child seeds and keys.
+
+export type Bip85Application = 'mnemonic' | 'wif' | 'xprv' | 'hex';
+
+export type Bip85WordCount = 12 | 18 | 24;
+
+export interface Bip85Request {
+  application: Bip85Application;
+  index: number;
+  words?: Bip85WordCount; // mnemonic only, defaults to 12
+  bytes?: number;         // hex only, 16 to 64, defaults to 32
+}
+
+export interface Bip85Result {
+  application: Bip85Application;
+  path: string;
+  value: string;
+}
+
+const BIP85_PURPOSE = 83696968;
+const ENTROPY_KEY = new TextEncoder().encode('bip-entropy-from-k');
+const MAX_INDEX = 0x7fffffff;
+
+// Application numbers from the BIP; mnemonics use language 0 (English)
+const APPLICATION_NUMBERS: Record<Bip85Application, number> = {
+  mnemonic: 39,
+  wif: 2,
+  xprv: 32,
+  hex: 128169,
+};
+
+const MNEMONIC_ENTROPY_BYTES: Record<Bip85WordCount, number> = { 12: 16, 18: 24, 24: 32 };
+
+const BITCOIN_WIF_VERSION = 0x80;
+const XPRV_VERSION = 0x0488ade4;
+
+const base58check = createBase58check(sha256);
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Derivation path of a request, e.g. m/83696968'/39'/0'/12'/0'
+ */
+export function getBip85Path(request: Bip85Request): string {
+  const { application, index } = request;
+  if (!Number.isInteger(index) || index < 0 || index > MAX_INDEX) {
+    throw new Error(`Invalid BIP85 index ${index}`);
+  }
+
+  const segments = [BIP85_PURPOSE, APPLICATION_NUMBERS[application]];
+  if (application === 'mnemonic') {
+    const words = request.words ?? 12;
+    if (!MNEMONIC_ENTROPY_BYTES[words]) {
+      throw new Error(`A child mnemonic has 12, 18 or 24 words, not ${words}`);
+    }
+    segments.push(0, words);
+  } else if (application === 'hex') {
+    const bytes = request.bytes ?? 32;
+    if (!Number.isInteger(bytes) || bytes < 16 || bytes > 64) {
+      throw new Error('Hex entropy must be 16 to 64 bytes');
+    }
+    segments.push(bytes);
+  }
+  segments.push(index);
+
+  return 'm/' + segments.map(segment => `${segment}'`).join('/');
+}
+
+/**
+ * The 64 bytes of entropy at a BIP85 path: HMAC-SHA512 of the derived private key
+ */
+export function deriveBip85Entropy(root: HDKey, path: string): Uint8Array {
+  const child = root.derive(path);
+  if (!child.privateKey) {
+    throw new Error('BIP85 needs a private master key');
+  }
+  return hmac(sha512, ENTROPY_KEY, child.privateKey);
+}
+
+/**
+ * Derive a child mnemonic, WIF key, xprv or hex entropy from a BIP32 master key
+ */
+export function deriveBip85(root: HDKey, request: Bip85Request): Bip85Result {
+  const path = getBip85Path(request);
+  const entropy = deriveBip85Entropy(root, path);
+  let value: string;
+
+  switch (request.application) {
+    case 'mnemonic':
+      value = bip39.entropyToMnemonic(toHex(entropy.slice(0, MNEMONIC_ENTROPY_BYTES[request.words ?? 12])));
+      break;
+    case 'wif':
+      // Compressed mainnet key, as the BIP specifies
+      value = base58check.encode(new Uint8Array([BITCOIN_WIF_VERSION, ...entropy.slice(0, 32), 0x01]));
+      break;
+    case 'xprv':
+      // Chain code first, then the key; depth, parent and child number are zero
+      value = new HDKey({
+        versions: { private: XPRV_VERSION, public: 0x0488b21e },
+        chainCode: entropy.slice(0, 32),
+        privateKey: entropy.slice(32, 64),
+      }).privateExtendedKey;
+      break;
+    case 'hex':
+      value = toHex(entropy.slice(0, request.bytes ?? 32));
+      break;
+  }
+
+  return { application: request.application, path, value };
+}
@@ -0,0 +1,640 @@
+import * as bitcoin from 'bitcoinjs-lib';
+
+// Every chain the app knows, with the facts derivation, balance checks and
+// pricing need. Adding a chain is one entry here; services look chains up
+// through the helpers below rather than keeping their own tables.
+
+// How keys are derived and balances are read
+export type ChainFamily = 'utxo' | 'evm' | 'solana' | 'cardano' | 'substrate' | 'cosmos' | 'tron' | 'xrp' | 'monero';
+
+// How a public key becomes an address
+export type AddressCodec = 'bitcoin' | 'evm' | 'solana' | 'cardano' | 'ss58' | 'bech32' | 'tron' | 'xrp' | 'monero';
+
+export interface ChainConfig {
+  name: string;
+  family: ChainFamily;
+  symbol: string;
+  decimals: number;
+  coinType: number;          // SLIP-44
+  testnet: boolean;
+  chainId?: number;          // EVM chains
+  derivationPaths: string[];
+  rpcUrls: string[];         // public endpoints, preferred first
+  balanceApis?: BalanceApis; // UTXO chains: indexers balances are read from
+  explorerUrl?: string;      // address page, with an {address} placeholder
+  addressCodec: AddressCodec;
+  priceId?: string;          // CoinGecko id; testnets have none
+  network?: any;             // bitcoinjs network of UTXO chains
+  bech32Prefix?: string;     // Cosmos SDK chains: account address HRP
+  ss58Prefix?: number;       // Substrate chains: SS58 network prefix
+}
+
+// Address indexers of a UTXO chain, each list preferred first
+export interface BalanceApis {
+  esplora?: string[];        // Esplora REST base URLs (Blockstream, mempool.space)
+  electrum?: string[];       // Electrum servers as host:port, TLS only
+  blockcypher?: string;      // BlockCypher coin/network path, e.g. "ltc/main"
+}
+
+// Shared by every EVM entry; they differ in chain id and endpoints
+const EVM: Pick<ChainConfig, 'family' | 'addressCodec' | 'decimals' | 'coinType' | 'derivationPaths'> = {
+  family: 'evm',
+  addressCodec: 'evm',
+  decimals: 18,
+  coinType: 60,
+  derivationPaths: ["m/44'/60'/0'/0/0"],
+};
+
+// Supported blockchain configurations
+export const CHAIN_CONFIGS: Record<string, ChainConfig> = {
+  // Bitcoin and variants - MAINNET
+  BTC: {
+    name: 'Bitcoin',
+    family: 'utxo',
+    addressCodec: 'bitcoin',
+    symbol: 'BTC',
+    decimals: 8,
+    coinType: 0,
+    testnet: false,
+    derivationPaths: [
+      "m/84'/0'/0'/0/0",  // Native SegWit (bc1q...)
+      "m/86'/0'/0'/0/0",  // Taproot (bc1p...)
+      "m/49'/0'/0'/0/0",  // Nested SegWit (3...)
+      "m/44'/0'/0'/0/0",  // Legacy (1...)
+    ],
+    rpcUrls: [],
+    balanceApis: {
+      esplora: ['/api/blockstream/api', 'https://mempool.space/api'],
+      electrum: ['electrum.blockstream.info:50002', 'bitcoin.lukechilds.co:50002'],
+      blockcypher: 'btc/main',
+    },
+    explorerUrl: 'https://blockstream.info/address/{address}',
+    priceId: 'bitcoin',
+    network: bitcoin.networks.bitcoin,
+  },
+
+  // Ethereum and EVM chains - MAINNET
+  ETH: {
+    ...EVM,
+    name: 'Ethereum Mainnet',
+    symbol: 'ETH',
+    chainId: 1,
+    testnet: false,
+    rpcUrls: ['https://rpc.ankr.com/eth', 'https://ethereum.publicnode.com', 'https://eth.llamarpc.com', 'https://cloudflare-eth.com'],
+    explorerUrl: 'https://etherscan.io/address/{address}',
+    priceId: 'ethereum',
+  },
+  BSC: {
+    ...EVM,
+    name: 'BNB Smart Chain',
+    symbol: 'BNB',
+    chainId: 56,
+    testnet: false,
+    rpcUrls: ['https://bsc-dataseed1.binance.org', 'https://bsc-dataseed2.binance.org', 'https://rpc.ankr.com/bsc', 'https://bsc.publicnode.com'],
+    explorerUrl: 'https://bscscan.com/address/{address}',
+    priceId: 'binancecoin',
+  },
+  POLYGON: {
+    ...EVM,
+    name: 'Polygon Mainnet',
+    symbol: 'MATIC',
+    chainId: 137,
+    testnet: false,
+    rpcUrls: ['https://polygon-rpc.com', 'https://rpc.ankr.com/polygon', 'https://polygon.llamarpc.com', 'https://polygon.publicnode.com'],
+    explorerUrl: 'https://polygonscan.com/address/{address}',
+    priceId: 'matic-network',
+  },
+  AVALANCHE: {
+    ...EVM,
+    name: 'Avalanche C-Chain',
+    symbol: 'AVAX',
+    chainId: 43114,
+    testnet: false,
+    rpcUrls: ['https://api.avax.network/ext/bc/C/rpc', 'https://rpc.ankr.com/avalanche', 'https://avax.meowrpc.com', 'https://avalanche.publicnode.com'],
+    explorerUrl: 'https://snowtrace.io/address/{address}',
+    priceId: 'avalanche-2',
+  },
+  ARBITRUM: {
+    ...EVM,
+    name: 'Arbitrum One',
+    symbol: 'ETH',
+    chainId: 42161,
+    testnet: false,
+    rpcUrls: ['https://arb1.arbitrum.io/rpc', 'https://rpc.ankr.com/arbitrum', 'https://arbitrum.llamarpc.com', 'https://arbitrum.publicnode.com'],
+    explorerUrl: 'https://arbiscan.io/address/{address}',
+    priceId: 'ethereum',
+  },
+  OPTIMISM: {
+    ...EVM,
+    name: 'Optimism',
+    symbol: 'ETH',
+    chainId: 10,
+    testnet: false,
+    rpcUrls: ['https://mainnet.optimism.io', 'https://rpc.ankr.com/optimism', 'https://optimism.llamarpc.com', 'https://optimism.publicnode.com'],
+    explorerUrl: 'https://optimistic.etherscan.io/address/{address}',
+    priceId: 'ethereum',
+  },
+  BASE: {
+    ...EVM,
+    name: 'Base',
+    symbol: 'ETH',
+    chainId: 8453,
+    testnet: false,
+    rpcUrls: ['https://mainnet.base.org', 'https://base.llamarpc.com', 'https://base.publicnode.com'],
+    explorerUrl: 'https://basescan.org/address/{address}',
+    priceId: 'ethereum',
+  },
+  FANTOM: {
+    ...EVM,
+    name: 'Fantom Opera',
+    symbol: 'FTM',
+    chainId: 250,
+    testnet: false,
+    rpcUrls: ['https://rpc.ftm.tools', 'https://rpc.ankr.com/fantom', 'https://fantom.publicnode.com'],
+    explorerUrl: 'https://ftmscan.com/address/{address}',
+    priceId: 'fantom',
+  },
+  CRONOS: {
+    ...EVM,
+    name: 'Cronos',
+    symbol: 'CRO',
+    chainId: 25,
+    testnet: false,
+    rpcUrls: ['https://evm.cronos.org', 'https://cronos.w3node.com'],
+    explorerUrl: 'https://cronoscan.com/address/{address}',
+    priceId: 'crypto-com-chain',
+  },
+  CELO: {
+    ...EVM,
+    name: 'Celo',
+    symbol: 'CELO',
+    chainId: 42220,
+    testnet: false,
+    rpcUrls: ['https://forno.celo.org', 'https://rpc.ankr.com/celo'],
+    explorerUrl: 'https://celoscan.io/address/{address}',
+    priceId: 'celo',
+  },
+  LINEA: {
+    ...EVM,
+    name: 'Linea',
+    symbol: 'ETH',
+    chainId: 59144,
+    testnet: false,
+    rpcUrls: ['https://rpc.linea.build', 'https://linea.blockpi.network/v1/rpc/public'],
+    explorerUrl: 'https://lineascan.build/address/{address}',
+    priceId: 'ethereum',
+  },
+  METIS: {
+    ...EVM,
+    name: 'Metis Andromeda',
+    symbol: 'METIS',
+    chainId: 1088,
+    testnet: false,
+    rpcUrls: ['https://andromeda.metis.io', 'https://metis.api.onfinality.io/public'],
+    explorerUrl: 'https://andromeda-explorer.metis.io/address/{address}',
+    priceId: 'metis-token',
+  },
+  GNOSIS: {
+    ...EVM,
+    name: 'Gnosis Chain',
+    symbol: 'xDAI',
+    chainId: 100,
+    testnet: false,
+    rpcUrls: ['https://rpc.gnosischain.com', 'https://gnosis.publicnode.com'],
+    explorerUrl: 'https://gnosisscan.io/address/{address}',
+    priceId: 'xdai',
+  },
+  MOONBEAM: {
+    ...EVM,
+    name: 'Moonbeam',
+    symbol: 'GLMR',
+    chainId: 1284,
+    testnet: false,
+    rpcUrls: ['https://rpc.api.moonbeam.network', 'https://moonbeam.publicnode.com'],
+    explorerUrl: 'https://moonscan.io/address/{address}',
+    priceId: 'moonbeam',
+  },
+  MOONRIVER: {
+    ...EVM,
+    name: 'Moonriver',
+    symbol: 'MOVR',
+    chainId: 1285,
+    testnet: false,
+    rpcUrls: ['https://rpc.api.moonriver.moonbeam.network', 'https://moonriver.publicnode.com'],
+    explorerUrl: 'https://moonriver.moonscan.io/address/{address}',
+    priceId: 'moonriver',
+  },
+  SCROLL: {
+    ...EVM,
+    name: 'Scroll',
+    symbol: 'ETH',
+    chainId: 534352,
+    testnet: false,
+    rpcUrls: ['https://rpc.scroll.io', 'https://scroll.blockpi.network/v1/rpc/public'],
+    explorerUrl: 'https://scrollscan.com/address/{address}',
+    priceId: 'ethereum',
+  },
+  ZKSYNC: {
+    ...EVM,
+    name: 'zkSync Era',
+    symbol: 'ETH',
+    chainId: 324,
+    testnet: false,
+    rpcUrls: ['https://mainnet.era.zksync.io', 'https://zksync.meowrpc.com'],
+    explorerUrl: 'https://explorer.zksync.io/address/{address}',
+    priceId: 'ethereum',
+  },
+  BLAST: {
+    ...EVM,
+    name: 'Blast',
+    symbol: 'ETH',
+    chainId: 81457,
+    testnet: false,
+    rpcUrls: ['https://rpc.blast.io', 'https://blast.blockpi.network/v1/rpc/public'],
+    explorerUrl: 'https://blastscan.io/address/{address}',
+    priceId: 'ethereum',
+  },
+
+  // TESTNETS
+  BTC_TESTNET: {
+    name: 'Bitcoin Testnet',
+    family: 'utxo',
+    addressCodec: 'bitcoin',
+    symbol: 'tBTC',
+    decimals: 8,
+    coinType: 1,
+    testnet: true,
+    derivationPaths: ["m/84'/1'/0'/0/0", "m/86'/1'/0'/0/0", "m/49'/1'/0'/0/0", "m/44'/1'/0'/0/0"],
+    rpcUrls: [],
+    balanceApis: {
+      esplora: ['/api/blockstream/testnet/api', 'https://mempool.space/testnet/api'],
+      electrum: ['electrum.blockstream.info:60002'],
+      blockcypher: 'btc/test3',
+    },
+    explorerUrl: 'https://blockstream.info/testnet/address/{address}',
+    network: bitcoin.networks.testnet,
+  },
+  ETH_SEPOLIA: {
+    ...EVM,
+    name: 'Ethereum Sepolia',
+    symbol: 'SepoliaETH',
+    chainId: 11155111,
+    testnet: true,
+    rpcUrls: ['https://rpc.sepolia.org', 'https://ethereum-sepolia.publicnode.com', 'https://sepolia.drpc.org'],
+    explorerUrl: 'https://sepolia.etherscan.io/address/{address}',
+  },
+  ETH_GOERLI: {
+    ...EVM,
+    name: 'Ethereum Goerli',
+    symbol: 'GoerliETH',
+    chainId: 5,
+    testnet: true,
+    rpcUrls: ['https://goerli.publicnode.com', 'https://rpc.ankr.com/eth_goerli'],
+    explorerUrl: 'https://goerli.etherscan.io/address/{address}',
+  },
+  BSC_TESTNET: {
+    ...EVM,
+    name: 'BNB Smart Chain Testnet',
+    symbol: 'tBNB',
+    chainId: 97,
+    testnet: true,
+    rpcUrls: ['https://data-seed-prebsc-1-s1.binance.org:8545', 'https://data-seed-prebsc-2-s1.binance.org:8545', 'https://bsc-testnet.publicnode.com'],
+    explorerUrl: 'https://testnet.bscscan.com/address/{address}',
+  },
+  POLYGON_MUMBAI: {
+    ...EVM,
+    name: 'Polygon Mumbai',
+    symbol: 'MATIC',
+    chainId: 80001,
+    testnet: true,
+    rpcUrls: ['https://polygon-mumbai.g.alchemy.com/v2/demo', 'https://rpc.ankr.com/polygon_mumbai', 'https://polygon-testnet.public.blastapi.io'],
+    explorerUrl: 'https://mumbai.polygonscan.com/address/{address}',
+  },
+  AVALANCHE_FUJI: {
+    ...EVM,
+    name: 'Avalanche Fuji',
+    symbol: 'AVAX',
+    chainId: 43113,
+    testnet: true,
+    rpcUrls: ['https://api.avax-test.network/ext/bc/C/rpc', 'https://rpc.ankr.com/avalanche_fuji', 'https://avalanche-fuji.publicnode.com'],
+    explorerUrl: 'https://testnet.snowtrace.io/address/{address}',
+  },
+  ARBITRUM_SEPOLIA: {
+    ...EVM,
+    name: 'Arbitrum Sepolia',
+    symbol: 'ETH',
+    chainId: 421614,
+    testnet: true,
+    rpcUrls: ['https://sepolia-rollup.arbitrum.io/rpc', 'https://arbitrum-sepolia.publicnode.com'],
+    explorerUrl: 'https://sepolia.arbiscan.io/address/{address}',
+  },
+  OPTIMISM_SEPOLIA: {
+    ...EVM,
+    name: 'Optimism Sepolia',
+    symbol: 'ETH',
+    chainId: 11155420,
+    testnet: true,
+    rpcUrls: ['https://sepolia.optimism.io', 'https://optimism-sepolia.publicnode.com'],
+    explorerUrl: 'https://sepolia-optimism.etherscan.io/address/{address}',
+  },
+  BASE_SEPOLIA: {
+    ...EVM,
+    name: 'Base Sepolia',
+    symbol: 'ETH',
+    chainId: 84532,
+    testnet: true,
+    rpcUrls: ['https://sepolia.base.org', 'https://base-sepolia.publicnode.com'],
+    explorerUrl: 'https://sepolia.basescan.org/address/{address}',
+  },
+  LINEA_SEPOLIA: {
+    ...EVM,
+    name: 'Linea Sepolia',
+    symbol: 'ETH',
+    chainId: 59141,
+    testnet: true,
+    rpcUrls: ['https://rpc.sepolia.linea.build'],
+    explorerUrl: 'https://sepolia.lineascan.build/address/{address}',
+  },
+  SCROLL_SEPOLIA: {
+    ...EVM,
+    name: 'Scroll Sepolia',
+    symbol: 'ETH',
+    chainId: 534351,
+    testnet: true,
+    rpcUrls: ['https://sepolia-rpc.scroll.io'],
+    explorerUrl: 'https://sepolia.scrollscan.com/address/{address}',
+  },
+  ZKSYNC_SEPOLIA: {
+    ...EVM,
+    name: 'zkSync Sepolia',
+    symbol: 'ETH',
+    chainId: 300,
+    testnet: true,
+    rpcUrls: ['https://sepolia.era.zksync.dev'],
+    explorerUrl: 'https://sepolia.explorer.zksync.io/address/{address}',
+  },
+  BLAST_SEPOLIA: {
+    ...EVM,
+    name: 'Blast Sepolia',
+    symbol: 'ETH',
+    chainId: 168587773,
+    testnet: true,
+    rpcUrls: ['https://sepolia.blast.io'],
+    explorerUrl: 'https://sepolia.blastscan.io/address/{address}',
+  },
+
+  // Other chains
+  LTC: {
+    name: 'Litecoin',
+    family: 'utxo',
+    addressCodec: 'bitcoin',
+    symbol: 'LTC',
+    decimals: 8,
+    coinType: 2,
+    testnet: false,
+    // MWEB addresses are not derived
+    derivationPaths: ["m/84'/2'/0'/0/0", "m/86'/2'/0'/0/0", "m/49'/2'/0'/0/0", "m/44'/2'/0'/0/0"],
+    rpcUrls: [],
+    balanceApis: {
+      electrum: ['electrum-ltc.bysh.me:50002', 'backup.electrum-ltc.org:443'],
+      blockcypher: 'ltc/main',
+    },
+    explorerUrl: 'https://blockchair.com/litecoin/address/{address}',
+    priceId: 'litecoin',
+    network: {
+      messagePrefix: '\x19Litecoin Signed Message:\n',
+      bech32: 'ltc',
+      bip32: { public: 0x019da462, private: 0x019d9cfe },
+      pubKeyHash: 0x30,
+      scriptHash: 0x32,
+      wif: 0xb0,
+    },
+  },
+  DOGE: {
+    name: 'Dogecoin',
+    family: 'utxo',
+    addressCodec: 'bitcoin',
+    symbol: 'DOGE',
+    decimals: 8,
+    coinType: 3,
+    testnet: false,
+    derivationPaths: ["m/44'/3'/0'/0/0"],
+    rpcUrls: [],
+    balanceApis: {
+      blockcypher: 'doge/main',
+    },
+    explorerUrl: 'https://blockchair.com/dogecoin/address/{address}',
+    priceId: 'dogecoin',
+    network: {
+      messagePrefix: '\x19Dogecoin Signed Message:\n',
+      bip32: { public: 0x02facafd, private: 0x02fac398 },
+      pubKeyHash: 0x1e,
+      scriptHash: 0x16,
+      wif: 0x9e,
+    },
+  },
+  SOL: {
+    name: 'Solana',
+    family: 'solana',
+    addressCodec: 'solana',
+    symbol: 'SOL',
+    decimals: 9,
+    coinType: 501,
+    testnet: false,
+    // Phantom/Solflare/Backpack, Ledger Live/Trust Wallet, solana-keygen root key
+    derivationPaths: ["m/44'/501'/0'/0'", "m/44'/501'/0'", "m/44'/501'"],
+    rpcUrls: ['https://api.mainnet-beta.solana.com'],
+    explorerUrl: 'https://solscan.io/account/{address}',
+    priceId: 'solana',
+  },
+  ADA: {
+    name: 'Cardano',
+    family: 'cardano',
+    addressCodec: 'cardano',
+    symbol: 'ADA',
+    decimals: 6,
+    coinType: 1815,
+    testnet: false,
+    // CIP-1852 payment key; the stake key is role 2 of the same account
+    derivationPaths: ["m/1852'/1815'/0'/0/0"],
+    rpcUrls: [],
+    explorerUrl: 'https://cardanoscan.io/address/{address}',
+    priceId: 'cardano',
+  },
+  // Substrate chains use SLIP-10 ed25519 (Ledger, Trust Wallet). sr25519
+  // accounts created by polkadot.js or Talisman derive differently.
+  DOT: {
+    name: 'Polkadot',
+    family: 'substrate',
+    addressCodec: 'ss58',
+    symbol: 'DOT',
+    decimals: 10,
+    coinType: 354,
+    testnet: false,
+    derivationPaths: ["m/44'/354'/0'/0'/0'"],
+    rpcUrls: [],
+    explorerUrl: 'https://polkadot.subscan.io/account/{address}',
+    priceId: 'polkadot',
+    ss58Prefix: 0,
+  },
+  KSM: {
+    name: 'Kusama',
+    family: 'substrate',
+    addressCodec: 'ss58',
+    symbol: 'KSM',
+    decimals: 12,
+    coinType: 434,
+    testnet: false,
+    derivationPaths: ["m/44'/434'/0'/0'/0'"],
+    rpcUrls: [],
+    explorerUrl: 'https://kusama.subscan.io/account/{address}',
+    priceId: 'kusama',
+    ss58Prefix: 2,
+  },
+  ATOM: {
+    name: 'Cosmos',
+    family: 'cosmos',
+    addressCodec: 'bech32',
+    symbol: 'ATOM',
+    decimals: 6,
+    coinType: 118,
+    testnet: false,
+    derivationPaths: ["m/44'/118'/0'/0/0"],
+    rpcUrls: [],
+    explorerUrl: 'https://www.mintscan.io/cosmos/address/{address}',
+    priceId: 'cosmos',
+    bech32Prefix: 'cosmos',
+  },
+  TRX: {
+    name: 'Tron',
+    family: 'tron',
+    addressCodec: 'tron',
+    symbol: 'TRX',
+    decimals: 6,
+    coinType: 195,
+    testnet: false,
+    derivationPaths: ["m/44'/195'/0'/0/0"],
+    rpcUrls: [],
+    explorerUrl: 'https://tronscan.org/#/address/{address}',
+    priceId: 'tron',
+  },
+  XRP: {
+    name: 'Ripple',
+    family: 'xrp',
+    addressCodec: 'xrp',
+    symbol: 'XRP',
+    decimals: 6,
+    coinType: 144,
+    testnet: false,
+    derivationPaths: ["m/44'/144'/0'/0/0"],
+    rpcUrls: [],
+    explorerUrl: 'https://xrpscan.com/account/{address}',
+    priceId: 'ripple',
+  },
+  // Monero keys come from a BIP32 secp256k1 key (Ledger scheme) or a native spend key
+  XMR: {
+    name: 'Monero',
+    family: 'monero',
+    addressCodec: 'monero',
+    symbol: 'XMR',
+    decimals: 12,
+    coinType: 128,
+    testnet: false,
+    derivationPaths: ["m/44'/128'/0'/0/0"],
+    rpcUrls: [],
+    priceId: 'monero',
+  },
+};
+
+// An EVM network the user added, stored per identity
+export interface CustomChain {
+  chainId: number;
+  name: string;
+  symbol: string;
+  decimals: number;
+  rpcUrls: string[];
+  explorerUrl?: string;      // explorer home; address pages follow EIP-3091
+}
+
+const CUSTOM_CHAIN_PREFIX = 'EVM_';
+
+let customChains: CustomChain[] = [];
+
+export function getCustomChainKey(chainId: number): string {
+  return `${CUSTOM_CHAIN_PREFIX}${chainId}`;
+}
+
+export function isCustomChain(chain: string): boolean {
+  return chain.startsWith(CUSTOM_CHAIN_PREFIX);
+}
+
+/**
+ * Replace the user's networks in the registry. Called when an identity's
+ * networks load or change, and in each derivation worker.
+ */
+export function setCustomChains(chains: CustomChain[]) {
+  for (const key of Object.keys(CHAIN_CONFIGS).filter(isCustomChain)) {
+    delete CHAIN_CONFIGS[key];
+  }
+  for (const chain of chains) {
+    CHAIN_CONFIGS[getCustomChainKey(chain.chainId)] = {
+      ...EVM,
+      name: chain.name,
+      symbol: chain.symbol,
+      decimals: chain.decimals,
+      chainId: chain.chainId,
+      testnet: false,
+      rpcUrls: chain.rpcUrls,
+      explorerUrl: chain.explorerUrl ? `${chain.explorerUrl.replace(/\/+$/, '')}/address/{address}` : undefined,
+    };
+  }
+  customChains = chains;
+}
+
+export function getCustomChains(): CustomChain[] {
+  return customChains;
+}
+
+/**
+ * Key of the built-in chain with an EVM chain id, if there is one
+ */
+export function getBuiltInChainKey(chainId: number): string | undefined {
+  return Object.keys(CHAIN_CONFIGS).find(key => !isCustomChain(key) && CHAIN_CONFIGS[key].chainId === chainId);
+}
+
+/**
+ * Keys of the chains matching a filter, in registry order
+ */
+export function getChainKeys(filter: { family?: ChainFamily; testnet?: boolean } = {}): string[] {
+  return Object.keys(CHAIN_CONFIGS).filter(chain => {
+    const config = CHAIN_CONFIGS[chain];
+    return (filter.family === undefined || config.family === filter.family)
+      && (filter.testnet === undefined || config.testnet === filter.testnet);
+  });
+}
+
+export function isEvmChain(chain: string): boolean {
+  return CHAIN_CONFIGS[chain]?.family === 'evm';
+}
+
+/**
+ * Native symbol of a chain, or the chain key for unknown chains
+ */
+export function getChainSymbol(chain: string): string {
+  return CHAIN_CONFIGS[chain]?.symbol ?? chain;
+}
+
+export function getChainDecimals(chain: string): number {
+  return CHAIN_CONFIGS[chain]?.decimals ?? 18;
+}
+
+export function getRpcUrls(chain: string): string[] {
+  return CHAIN_CONFIGS[chain]?.rpcUrls ?? [];
+}
+
+/**
+ * Block explorer page of an address, if the chain has an explorer
+ */
+export function getExplorerUrl(chain: string, address: string): string | undefined {
+  return CHAIN_CONFIGS[chain]?.explorerUrl?.replace('{address}', encodeURIComponent(address));
+}
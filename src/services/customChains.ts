@@ -0,0 +1,143 @@
+import { CHAIN_CONFIGS, CustomChain, getBuiltInChainKey } from './chainRegistry';
+
+// User-defined EVM networks: validation shared by the main process and the
+// browser store, chainlist.org file import and RPC verification.
+
+const MAX_DECIMALS = 36;
+const RPC_TIMEOUT = 10000;
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Why a network definition cannot be saved, or null when it can
+ */
+export function validateCustomChain(chain: CustomChain): string | null {
+  if (!chain.name?.trim()) {
+    return 'Enter a network name';
+  }
+  if (!Number.isSafeInteger(chain.chainId) || chain.chainId <= 0) {
+    return 'Chain id must be a positive whole number';
+  }
+  const builtIn = getBuiltInChainKey(chain.chainId);
+  if (builtIn) {
+    return `Chain id ${chain.chainId} is already supported as ${CHAIN_CONFIGS[builtIn].name}`;
+  }
+  if (!/^[A-Za-z0-9.$_-]{1,12}$/.test(chain.symbol?.trim() || '')) {
+    return 'Symbol must be 1-12 letters or digits';
+  }
+  if (!Number.isInteger(chain.decimals) || chain.decimals < 0 || chain.decimals > MAX_DECIMALS) {
+    return `Decimals must be a whole number from 0 to ${MAX_DECIMALS}`;
+  }
+  if (!chain.rpcUrls?.length) {
+    return 'Add at least one RPC URL';
+  }
+  const badRpc = chain.rpcUrls.find(url => !isHttpUrl(url));
+  if (badRpc) {
+    return `${badRpc} is not an http(s) URL`;
+  }
+  if (chain.explorerUrl && !isHttpUrl(chain.explorerUrl)) {
+    return 'Explorer must be an http(s) URL';
+  }
+  return null;
+}
+
+/**
+ * Trim a definition and drop blank and repeated RPC URLs
+ */
+export function normalizeCustomChain(chain: CustomChain): CustomChain {
+  return {
+    chainId: chain.chainId,
+    name: chain.name.trim(),
+    symbol: chain.symbol.trim(),
+    decimals: chain.decimals,
+    rpcUrls: [...new Set(chain.rpcUrls.map(url => url.trim()).filter(Boolean))],
+    explorerUrl: chain.explorerUrl?.trim() || undefined,
+  };
+}
+
+/**
+ * Read a network from a chainlist.org / ethereum-lists JSON file. The file
+ * holds one network or a list of them; from a list, `chainId` picks the entry.
+ * RPC URLs that need an API key or are not HTTP(S) are left out.
+ */
+export function parseChainlistJson(text: string, chainId?: number): CustomChain {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  let entry = data;
+  if (Array.isArray(data)) {
+    if (chainId) {
+      entry = data.find(item => Number(item?.chainId) === chainId);
+      if (!entry) throw new Error(`The file has no network with chain id ${chainId}`);
+    } else if (data.length === 1) {
+      entry = data[0];
+    } else {
+      throw new Error(`The file lists ${data.length} networks - enter the chain id to import first`);
+    }
+  }
+
+  if (!entry || typeof entry !== 'object' || entry.chainId === undefined || !entry.nativeCurrency) {
+    throw new Error('The file is not a chainlist network definition');
+  }
+
+  const rpcUrls = (Array.isArray(entry.rpc) ? entry.rpc : [])
+    .map((rpc: any) => (typeof rpc === 'string' ? rpc : rpc?.url))
+    .filter((url: any): url is string => typeof url === 'string' && !url.includes('${') && isHttpUrl(url));
+
+  // Prefer an explorer that follows EIP-3091 address paths
+  const explorers = Array.isArray(entry.explorers) ? entry.explorers : [];
+  const explorer = explorers.find((e: any) => e?.standard === 'EIP3091') || explorers[0];
+
+  return normalizeCustomChain({
+    chainId: Number(entry.chainId),
+    name: String(entry.name || ''),
+    symbol: String(entry.nativeCurrency.symbol || ''),
+    decimals: Number(entry.nativeCurrency.decimals ?? 18),
+    rpcUrls,
+    explorerUrl: typeof explorer?.url === 'string' ? explorer.url : undefined,
+  });
+}
+
+/**
+ * Call eth_chainId on every RPC URL of a network. Returns why the network
+ * cannot be used, or null when each endpoint answers with its chain id.
+ */
+export async function verifyCustomChainRpc(chain: CustomChain): Promise<string | null> {
+  for (const url of chain.rpcUrls) {
+    let reported: number;
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] }),
+        signal: AbortSignal.timeout(RPC_TIMEOUT),
+      });
+      if (!response.ok) {
+        return `${url} answered with HTTP ${response.status}`;
+      }
+      const body = await response.json();
+      if (body.error) {
+        return `${url} returned an error: ${body.error.message || body.error.code}`;
+      }
+      reported = Number(BigInt(body.result));
+    } catch (error) {
+      return `${url} did not answer eth_chainId: ${(error as Error).message}`;
+    }
+
+    if (reported !== chain.chainId) {
+      return `${url} belongs to chain id ${reported}, not ${chain.chainId}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,265 @@
+import { WalletDerivationService, DerivedWallet, BitcoinScriptType } from './walletDerivation';
+import { CustomChain, getCustomChains } from './chainRegistry';
+
+export interface DerivationTask {
+  chain: string;
+  derivationPath: string;
+  scriptType?: BitcoinScriptType;
+}
+
+// Every task of a job derives from the same mnemonic and passphrase
+export interface DerivationJob {
+  mnemonic: string;
+  passphrase: string;
+  tasks: DerivationTask[];
+  seed?: Uint8Array; // from prepareSeed; workers then skip the stretch
+}
+
+export interface PreparedSeed {
+  seed: Uint8Array;    // stretched seed, see WalletDerivationService.stretchSeed
+  fingerprint: string;
+}
+
+export interface DerivationProgress {
+  completed: number;
+  failed: number;
+  total: number;
+}
+
+export interface DerivationBatchOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: DerivationProgress) => void;
+  // Called in derivation order per job; the batch waits for it to settle
+  onWallet?: (wallet: DerivedWallet, jobIndex: number) => void | Promise<void>;
+  // Called once for each job without a stretched seed, before its first wallet
+  onSeed?: (prepared: PreparedSeed, jobIndex: number) => void | Promise<void>;
+}
+
+export interface DerivationWorkerRequest {
+  chunkId: number;
+  mnemonic: string;
+  passphrase: string;
+  tasks: DerivationTask[];
+  customChains: CustomChain[]; // workers have their own copy of the chain registry
+  seed?: Uint8Array;
+  prepare?: boolean;           // stretch the seed and send it back with its fingerprint
+}
+
+export type DerivationWorkerMessage =
+  | { type: 'wallet'; chunkId: number; wallet: DerivedWallet | null }
+  | { type: 'seed'; chunkId: number; prepared: PreparedSeed }
+  | { type: 'done'; chunkId: number };
+
+interface DerivationChunk extends Omit<DerivationWorkerRequest, 'customChains'> {
+  jobIndex: number;
+}
+
+// Small enough that a single mnemonic still spreads over every worker; a
+// worker stretches a seed at most once, however many of its chunks it takes
+const CHUNK_SIZE = 100;
+const MAX_WORKERS = 4;
+
+export const DERIVATION_CANCELLED = 'Derivation cancelled';
+
+export class DerivationPool {
+  /**
+   * Workers to run side by side: one core stays free for the window
+   */
+  static getPoolSize(): number {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    return Math.max(1, Math.min(cores - 1, MAX_WORKERS));
+  }
+
+  /**
+   * Stretch a seed in a worker and fingerprint it, so neither freezes the
+   * window. Jobs given the stretched seed derive without stretching it again.
+   */
+  static async prepareSeed(mnemonic: string, passphrase: string, signal?: AbortSignal): Promise<PreparedSeed> {
+    if (signal?.aborted) {
+      throw new Error(DERIVATION_CANCELLED);
+    }
+    if (typeof Worker === 'undefined') {
+      return this.prepareInline(mnemonic, passphrase);
+    }
+
+    const worker = new Worker(new URL('./derivationWorker.ts', import.meta.url), { type: 'module' });
+    return new Promise<PreparedSeed>((resolve, reject) => {
+      const onAbort = () => finish(new Error(DERIVATION_CANCELLED));
+      const finish = (error: Error | null, prepared?: PreparedSeed) => {
+        signal?.removeEventListener('abort', onAbort);
+        worker.terminate();
+        if (error) reject(error);
+        else resolve(prepared!);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      worker.onmessage = (event: MessageEvent<DerivationWorkerMessage>) => {
+        if (event.data.type === 'seed') finish(null, event.data.prepared);
+      };
+      worker.onerror = (event) => {
+        event.preventDefault();
+        finish(new Error(event.message || 'Derivation worker failed'));
+      };
+
+      const request: DerivationWorkerRequest = { chunkId: 0, mnemonic, passphrase, tasks: [], customChains: getCustomChains(), prepare: true };
+      worker.postMessage(request);
+    });
+  }
+
+  private static prepareInline(mnemonic: string, passphrase: string): PreparedSeed {
+    return {
+      seed: WalletDerivationService.stretchSeed(mnemonic, passphrase),
+      fingerprint: WalletDerivationService.getSeedFingerprint(mnemonic, passphrase),
+    };
+  }
+
+  /**
+   * Derive every task of a batch of jobs in a pool of Web Workers. Wallets
+   * stream to `onWallet` as they are derived; aborting the signal terminates
+   * the workers and rejects with DERIVATION_CANCELLED. Workers only live for
+   * the batch, so no seed stays in memory after it.
+   */
+  static async derive(jobs: DerivationJob[], options: DerivationBatchOptions = {}): Promise<DerivationProgress> {
+    if (options.signal?.aborted) {
+      throw new Error(DERIVATION_CANCELLED);
+    }
+
+    const chunks: DerivationChunk[] = [];
+    jobs.forEach(({ mnemonic, passphrase, tasks, seed }, jobIndex) => {
+      for (let start = 0; start < tasks.length; start += CHUNK_SIZE) {
+        chunks.push({
+          chunkId: chunks.length, jobIndex, mnemonic, passphrase, seed,
+          prepare: !seed && Boolean(options.onSeed),
+          tasks: tasks.slice(start, start + CHUNK_SIZE),
+        });
+      }
+    });
+
+    const progress: DerivationProgress = { completed: 0, failed: 0, total: chunks.reduce((sum, chunk) => sum + chunk.tasks.length, 0) };
+    options.onProgress?.({ ...progress });
+    if (chunks.length === 0) return progress;
+
+    // Wallets are handed on one at a time, while the workers keep deriving.
+    // Every chunk of a job reports its seed first, so the first report of a
+    // job is handed on before any of its wallets.
+    let delivery: Promise<void> = Promise.resolve();
+    const reportedJobs = new Set<number>();
+    const deliverSeed = (chunk: DerivationChunk, prepared: PreparedSeed) => {
+      if (reportedJobs.has(chunk.jobIndex)) return;
+      reportedJobs.add(chunk.jobIndex);
+      delivery = delivery.then(async () => {
+        if (!options.signal?.aborted) await options.onSeed?.(prepared, chunk.jobIndex);
+      });
+    };
+    const deliver = (chunk: DerivationChunk, wallet: DerivedWallet | null) => {
+      delivery = delivery.then(async () => {
+        if (options.signal?.aborted) return;
+        if (wallet) {
+          await options.onWallet?.(wallet, chunk.jobIndex);
+        } else {
+          progress.failed++;
+        }
+        progress.completed++;
+        options.onProgress?.({ ...progress });
+      });
+    };
+
+    try {
+      if (typeof Worker === 'undefined') {
+        await this.deriveInline(chunks, deliverSeed, deliver, options.signal);
+      } else {
+        await this.deriveInWorkers(chunks, deliverSeed, deliver, options.signal);
+      }
+    } finally {
+      // A cancelled batch still lets the wallet being handed on settle
+      await delivery;
+    }
+
+    if (options.signal?.aborted) {
+      throw new Error(DERIVATION_CANCELLED);
+    }
+    return progress;
+  }
+
+  private static deriveInWorkers(
+    chunks: DerivationChunk[],
+    deliverSeed: (chunk: DerivationChunk, prepared: PreparedSeed) => void,
+    deliver: (chunk: DerivationChunk, wallet: DerivedWallet | null) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const workers = Array.from(
+      { length: Math.min(this.getPoolSize(), chunks.length) },
+      () => new Worker(new URL('./derivationWorker.ts', import.meta.url), { type: 'module' })
+    );
+    const terminate = () => workers.forEach(worker => worker.terminate());
+
+    return new Promise<void>((resolve, reject) => {
+      let next = 0;
+      let running = workers.length;
+
+      const onAbort = () => {
+        terminate();
+        reject(new Error(DERIVATION_CANCELLED));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const finish = (error?: Error) => {
+        signal?.removeEventListener('abort', onAbort);
+        terminate();
+        if (error) reject(error);
+        else resolve();
+      };
+
+      const assign = (worker: Worker) => {
+        if (next >= chunks.length) {
+          if (--running === 0) finish();
+          return;
+        }
+        const { jobIndex, ...chunk } = chunks[next++];
+        const request: DerivationWorkerRequest = { ...chunk, customChains: getCustomChains() };
+        worker.postMessage(request);
+      };
+
+      workers.forEach(worker => {
+        worker.onmessage = (event: MessageEvent<DerivationWorkerMessage>) => {
+          const message = event.data;
+          if (message.type === 'wallet') {
+            deliver(chunks[message.chunkId], message.wallet);
+          } else if (message.type === 'seed') {
+            deliverSeed(chunks[message.chunkId], message.prepared);
+          } else if (message.type === 'done') {
+            assign(worker);
+          }
+        };
+        worker.onerror = (event) => {
+          event.preventDefault();
+          finish(new Error(event.message || 'Derivation worker failed'));
+        };
+        assign(worker);
+      });
+    });
+  }
+
+  // Fallback where Web Workers are unavailable; yields between tasks so the
+  // signal can still cancel the batch
+  private static async deriveInline(
+    chunks: DerivationChunk[],
+    deliverSeed: (chunk: DerivationChunk, prepared: PreparedSeed) => void,
+    deliver: (chunk: DerivationChunk, wallet: DerivedWallet | null) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    for (const chunk of chunks) {
+      if (chunk.seed) {
+        WalletDerivationService.setStretchedSeed(chunk.mnemonic, chunk.passphrase, chunk.seed);
+      }
+      if (chunk.prepare) {
+        deliverSeed(chunk, this.prepareInline(chunk.mnemonic, chunk.passphrase));
+      }
+      for (const { chain, derivationPath, scriptType } of chunk.tasks) {
+        if (signal?.aborted) return;
+        deliver(chunk, await WalletDerivationService.deriveWallet(chunk.mnemonic, chain, derivationPath, chunk.passphrase, scriptType));
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+  }
+}
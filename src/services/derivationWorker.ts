@@ -0,0 +1,38 @@
+import '../polyfills';
+import { WalletDerivationService } from './walletDerivation';
+import { setCustomChains } from './chainRegistry';
+import type { DerivationWorkerRequest, DerivationWorkerMessage } from './derivationPool';
+
+// Runs derivation chunks off the UI thread. Each chunk belongs to one
+// mnemonic and usually brings the seed already stretched; otherwise the worker
+// keeps every seed it stretches until the batch ends and the pool terminates
+// it, so a mnemonic is stretched once per worker at most.
+WalletDerivationService.setSeedCacheSize(Infinity);
+
+const post = (message: DerivationWorkerMessage) => self.postMessage(message);
+
+self.addEventListener('message', async (event: MessageEvent<DerivationWorkerRequest>) => {
+  const { chunkId, mnemonic, passphrase, tasks, customChains, seed, prepare } = event.data;
+  setCustomChains(customChains);
+
+  if (seed) {
+    WalletDerivationService.setStretchedSeed(mnemonic, passphrase, seed);
+  }
+  if (prepare) {
+    post({
+      type: 'seed',
+      chunkId,
+      prepared: {
+        seed: WalletDerivationService.stretchSeed(mnemonic, passphrase),
+        fingerprint: WalletDerivationService.getSeedFingerprint(mnemonic, passphrase),
+      },
+    });
+  }
+
+  for (const { chain, derivationPath, scriptType } of tasks) {
+    const wallet = await WalletDerivationService.deriveWallet(mnemonic, chain, derivationPath, passphrase, scriptType);
+    post({ type: 'wallet', chunkId, wallet });
+  }
+
+  post({ type: 'done', chunkId });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { descriptorChecksum, deriveWatchOnlyAddress, parseWatchOnlySource } from './descriptors';
+
+// Account 0 of "abandon abandon ... about", from the BIP84 and BIP86 vectors
+const BIP84_ZPUB = 'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs';
+const BIP86_XPUB = 'xpub6BgBgsespWvERF3LHQu6CnqdvfEvtMcQjYrcRzx53QJjSxarj2afYWcLteoGVky7D3UKDP9QyrLprQ3VCECoY49yfdDEHGCtMMj92pReUsQ';
+
+describe('descriptorChecksum', () => {
+  // BIP380 test vectors
+  it('matches the BIP380 checksums', () => {
+    expect(descriptorChecksum('raw(deadbeef)')).toBe('89f8spxm');
+    expect(descriptorChecksum("pkh([d34db33f/44'/0'/0']xpub6ERApfZwUNrhLCkDtcHTcxd75RbzS1ed54G1LkBUHQVHQKqhMkhgbmJbZRkrgZw4koxb5JaHWkY4ALHY2grBGRjaDMzQLcgJvLJuZZvRcEL/1/*)"))
+      .toBe('ml40v0wf');
+  });
+
+  it('rejects a descriptor with a wrong checksum', () => {
+    expect(() => parseWatchOnlySource(`wpkh(${BIP84_ZPUB}/0/*)#00000000`, 'BTC')).toThrow('checksum mismatch');
+  });
+});
+
+describe('parseWatchOnlySource', () => {
+  it('watches the receive and change chains of a BIP84 zpub', () => {
+    const source = parseWatchOnlySource(BIP84_ZPUB, 'BTC');
+
+    expect(source.scriptType).toBe('p2wpkh');
+    expect(deriveWatchOnlyAddress(source, 0, 0)).toBe('bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu');
+    expect(deriveWatchOnlyAddress(source, 0, 1)).toBe('bc1qnjg0jd8228aq7egyzacy8cys3knf9xvrerkf9g');
+    expect(deriveWatchOnlyAddress(source, 1, 0)).toBe('bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el');
+  });
+
+  it('derives BIP86 Taproot addresses from a BIP389 multipath descriptor', () => {
+    const source = parseWatchOnlySource(`tr([73c5da0a/86'/0'/0']${BIP86_XPUB}/<0;1>/*)`, 'BTC');
+
+    expect(source.scriptType).toBe('p2tr');
+    expect(source.origin).toBe("[73c5da0a/86'/0'/0']");
+    expect(deriveWatchOnlyAddress(source, 0, 0)).toBe('bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr');
+    expect(deriveWatchOnlyAddress(source, 0, 1)).toBe('bc1p4qhjn9zdvkux4e44uhx8tc55attvtyu358kutcqkudyccelu0was9fqzwh');
+    expect(deriveWatchOnlyAddress(source, 1, 0)).toBe('bc1p3qkhfews2uk44qtvauqyr2ttdsw7svhkl9nkm9s9c3x4ax5h60wqwruhk7');
+  });
+
+  // The address of the BIP381 script 76a914f833c08f...88ac
+  it('reads an unranged BIP381 pkh() descriptor as a single address', () => {
+    const source = parseWatchOnlySource('pkh(xpub68Gmy5EdvgibQVfPdqkBBCHxA5htiqg55crXYuXoQRKfDBFA1WEjWgP6LHhwBZeNK1VTsfTFUHCdrfp1bgwQ9xv5ski8PX9rL2dZXvgGDnw/1/2)', 'BTC');
+
+    expect(source.ranged).toBe(false);
+    expect(deriveWatchOnlyAddress(source, 0, 5)).toBe('1PdNaNxbyQvHW5QHuAZenMGVHrrRaJuZDJ');
+  });
+
+  it('normalizes a bare key into a checksummed descriptor', () => {
+    const { descriptor } = parseWatchOnlySource(BIP84_ZPUB, 'BTC');
+    const [body, checksum] = descriptor.split('#');
+
+    expect(body).toMatch(/^wpkh\(xpub[1-9A-HJ-NP-Za-km-z]+\/<0;1>\/\*\)$/);
+    expect(checksum).toBe(descriptorChecksum(body));
+  });
+});
@@ -0,0 +1,183 @@
+import { HDKey } from '@scure/bip32';
+import { WalletDerivationService, BitcoinScriptType } from './walletDerivation';
+import { CHAIN_CONFIGS } from './chainRegistry';
+import { decodeExtendedPublicKey } from './extendedKeys';
+
+// Watch-only account sources: bare extended public keys (xpub/ypub/zpub/...)
+// and Bitcoin Core output descriptors (BIP380-386, BIP389 multipath).
+
+export interface WatchOnlySource {
+  chain: string;
+  scriptType: BitcoinScriptType;
+  key: HDKey;
+  branches: number[][]; // soft steps below the key per chain, e.g. [[0], [1]] for receive and change
+  ranged: boolean;      // ends in /*; otherwise every branch is a single address
+  origin?: string;      // key origin from the descriptor, e.g. [d34db33f/84'/0'/0']
+  descriptor: string;   // normalized descriptor including its checksum
+}
+
+const INPUT_CHARSET = '0123456789()[],\'/*abcdefgh@:$%{}' +
+  'IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~' +
+  'ijklmnopqrstuvwxyzABCDEFGH`#"\\ ';
+const CHECKSUM_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const GENERATORS = [0xf5dee51989n, 0xa9fdca3312n, 0x1bab10e32dn, 0x3706b1677an, 0x644d626ffdn];
+
+const DESCRIPTOR_TYPES: [RegExp, BitcoinScriptType][] = [
+  [/^pkh\((.+)\)$/, 'p2pkh'],
+  [/^wpkh\((.+)\)$/, 'p2wpkh'],
+  [/^sh\(wpkh\((.+)\)\)$/, 'p2sh-p2wpkh'],
+  [/^tr\(([^,]+)\)$/, 'p2tr'],
+];
+
+// Descriptor wrapping used to describe a bare extended key
+const SCRIPT_FUNCTIONS: Record<BitcoinScriptType, [string, string]> = {
+  'p2pkh': ['pkh(', ')'],
+  'p2wpkh': ['wpkh(', ')'],
+  'p2sh-p2wpkh': ['sh(wpkh(', '))'],
+  'p2tr': ['tr(', ')'],
+};
+
+const KEY_EXPRESSION = /^(\[[0-9a-fA-F]{8}(?:\/\d+['hH]?)*\])?([1-9A-HJ-NP-Za-km-z]+)((?:\/(?:\d+|<\d+;\d+>))*)(\/\*)?$/;
+
+function polymod(c: bigint, value: number): bigint {
+  const top = c >> 35n;
+  c = ((c & 0x7ffffffffn) << 5n) ^ BigInt(value);
+  GENERATORS.forEach((generator, i) => {
+    if ((top >> BigInt(i)) & 1n) c ^= generator;
+  });
+  return c;
+}
+
+/**
+ * BIP380 descriptor checksum (the 8 characters after '#')
+ */
+export function descriptorChecksum(descriptor: string): string {
+  let c = 1n;
+  let cls = 0;
+  let clsCount = 0;
+
+  for (const ch of descriptor) {
+    const pos = INPUT_CHARSET.indexOf(ch);
+    if (pos === -1) {
+      throw new Error(`Invalid character "${ch}" in descriptor`);
+    }
+    c = polymod(c, pos & 31);
+    cls = cls * 3 + (pos >> 5);
+    if (++clsCount === 3) {
+      c = polymod(c, cls);
+      cls = 0;
+      clsCount = 0;
+    }
+  }
+  if (clsCount > 0) c = polymod(c, cls);
+  for (let i = 0; i < 8; i++) c = polymod(c, 0);
+  c ^= 1n;
+
+  let checksum = '';
+  for (let i = 0; i < 8; i++) {
+    checksum += CHECKSUM_CHARSET[Number((c >> BigInt(5 * (7 - i))) & 31n)];
+  }
+  return checksum;
+}
+
+export function isDescriptor(input: string): boolean {
+  return input.trim().includes('(');
+}
+
+/**
+ * Parse a watch-only account from an extended public key or an output
+ * descriptor. A bare key watches its receive (0) and change (1) chains with
+ * the script type its prefix implies; `scriptType` overrides that for
+ * ambiguous prefixes (xpub is both legacy and Taproot).
+ */
+export function parseWatchOnlySource(input: string, chain: string, scriptType?: BitcoinScriptType): WatchOnlySource {
+  const trimmed = input.trim();
+  return isDescriptor(trimmed)
+    ? parseDescriptor(trimmed, chain)
+    : parseExtendedKey(trimmed, chain, scriptType);
+}
+
+function parseExtendedKey(encoded: string, chain: string, scriptType?: BitcoinScriptType): WatchOnlySource {
+  const { key, prefix, scriptTypes, descriptorKey } = decodeExtendedPublicKey(encoded, chain);
+  const type = scriptType ?? scriptTypes[0] ?? 'p2pkh';
+
+  if (scriptTypes.length > 0 && !scriptTypes.includes(type)) {
+    throw new Error(`A ${prefix} key is not used for ${type} addresses`);
+  }
+
+  const [open, close] = SCRIPT_FUNCTIONS[type];
+  return buildSource(chain, type, key, [[0], [1]], true, undefined, `${open}${descriptorKey}/<0;1>/*${close}`);
+}
+
+function parseDescriptor(input: string, chain: string): WatchOnlySource {
+  const [body, checksum, ...rest] = input.split('#');
+  if (rest.length > 0) {
+    throw new Error('Descriptor has more than one "#"');
+  }
+  if (checksum !== undefined && checksum !== descriptorChecksum(body)) {
+    throw new Error(`Descriptor checksum mismatch (expected #${descriptorChecksum(body)})`);
+  }
+
+  const match = DESCRIPTOR_TYPES
+    .map(([pattern, type]) => [pattern.exec(body), type] as const)
+    .find(([result]) => result);
+  if (!match) {
+    throw new Error('Supported descriptors are pkh(), wpkh(), sh(wpkh()) and key-path tr()');
+  }
+
+  const [result, scriptType] = match;
+  const keyMatch = KEY_EXPRESSION.exec(result![1]);
+  if (!keyMatch) {
+    throw new Error('Descriptor key must be an extended public key with unhardened steps');
+  }
+
+  const [, origin, encoded, steps, wildcard] = keyMatch;
+  const { key } = decodeExtendedPublicKey(encoded, chain);
+
+  // Expand a BIP389 <a;b> step into one branch per alternative
+  let branches: number[][] = [[]];
+  const multipaths = steps.match(/</g)?.length ?? 0;
+  if (multipaths > 1) {
+    throw new Error('Only one <a;b> multipath step is allowed');
+  }
+  for (const step of steps.split('/').slice(1)) {
+    const alternatives = step.startsWith('<') ? step.slice(1, -1).split(';').map(Number) : [Number(step)];
+    branches = branches.flatMap(branch => alternatives.map(alternative => [...branch, alternative]));
+  }
+
+  return buildSource(chain, scriptType, key, branches, Boolean(wildcard), origin, body);
+}
+
+function buildSource(
+  chain: string,
+  scriptType: BitcoinScriptType,
+  key: HDKey,
+  branches: number[][],
+  ranged: boolean,
+  origin: string | undefined,
+  body: string
+): WatchOnlySource {
+  if (scriptType !== 'p2pkh' && !CHAIN_CONFIGS[chain].network.bech32) {
+    throw new Error(`${chain} does not support ${scriptType} addresses`);
+  }
+
+  return {
+    chain,
+    scriptType,
+    key,
+    branches,
+    ranged,
+    origin,
+    descriptor: `${body}#${descriptorChecksum(body)}`,
+  };
+}
+
+/**
+ * Address at `index` on one branch of a watch-only source. Non-ranged
+ * sources have a single address per branch and ignore the index.
+ */
+export function deriveWatchOnlyAddress(source: WatchOnlySource, branch: number, index: number): string {
+  const steps = source.ranged ? [...source.branches[branch], index] : source.branches[branch];
+  const child = steps.reduce((key, step) => key.deriveChild(step), source.key);
+  return WalletDerivationService.getBitcoinAddress(child.publicKey!, source.chain, source.scriptType);
+}
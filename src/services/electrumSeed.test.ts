@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { bytesToHex } from '@noble/hashes/utils';
+import { electrumMnemonicToSeed, getElectrumSeedType, markElectrumSeed } from './electrumSeed';
+import { WalletDerivationService } from './walletDerivation';
+
+// Vectors from Electrum's test_mnemonic.py and test_wallet_vertical.py
+describe('electrumMnemonicToSeed', () => {
+  it('stretches a version 2 seed', () => {
+    const words = 'wild father tree among universe such mobile favorite target dynamic credit identify';
+
+    expect(getElectrumSeedType(words)).toBe('segwit');
+    expect(bytesToHex(electrumMnemonicToSeed(words)))
+      .toBe('aac2a6302e48577ab4b46f23dbae0774e2e62c796f797d0a1b5faeb528301e3064342dafb79069e7c4c6b8c38ae11d7a973bec0d4f70626f8cc5184a8d0b0756');
+  });
+
+  it('applies the seed extension', () => {
+    const words = 'wild father tree among universe such mobile favorite target dynamic credit identify';
+
+    expect(bytesToHex(electrumMnemonicToSeed(words, 'Did you ever hear the tragedy of Darth Plagueis the Wise?')))
+      .toBe('4aa29f2aeb0127efb55138ab9e7be83b36750358751906f86c662b21a1ea1370f949e6d1a12fa56d3d93cadda93038c76ac8118597364e46f5156fde6183c82f');
+  });
+});
+
+describe('Electrum wallets', () => {
+  it('derives a standard seed on m/0/0', async () => {
+    const words = 'cycle rocket west magnet parrot shuffle foot correct salt library feed song';
+
+    expect(getElectrumSeedType(words)).toBe('standard');
+    const wallet = await WalletDerivationService.deriveWallet(words, 'BTC', 'm/0/0');
+    expect(wallet?.address).toBe('1NNkttn1YvVGdqBW4PR6zvc3Zx3H5owKRf');
+  });
+
+  it("derives a segwit seed on m/0'/0/0", async () => {
+    const words = 'bitter grass shiver impose acquire brush forget axis eager alone wine silver';
+
+    expect(getElectrumSeedType(words)).toBe('segwit');
+    const wallet = await WalletDerivationService.deriveWallet(words, 'BTC', "m/0'/0/0", '', 'p2wpkh');
+    expect(wallet?.address).toBe('bc1q3g5tmkmlvxryhh843v4dz026avatc0zzr6h3af');
+  });
+
+  it('derives an old seed', async () => {
+    const words = 'powerful random nobody notice nothing important anyway look away hidden message over';
+
+    expect(getElectrumSeedType(words)).toBe('old');
+    const wallet = await WalletDerivationService.deriveWallet(words, 'BTC', 'm/0/0');
+    expect(wallet?.address).toBe('1FJEEB8ihPMbzs2SkLmr37dHyRFzakqUmo');
+  });
+});
+
+describe('getElectrumSeedType', () => {
+  it('reads a phrase that is also valid BIP39 as Electrum only when marked', () => {
+    // Passes both the BIP39 checksum and Electrum's standard version test
+    const words = 'yard furnace mystery tiny impulse cram forest modify guitar success express impact';
+
+    expect(getElectrumSeedType(words)).toBeNull();
+    expect(getElectrumSeedType(markElectrumSeed(words))).toBe('standard');
+  });
+
+  // Both pass Electrum's "Seed version" test with the 01 (standard) prefix
+  it('does not take a Monero spend key for an Electrum seed', () => {
+    const spendKey = '1bdb68ee1bc20cdd5924db826734320353232970bd2a4dd98b2eebfa10e31000';
+
+    expect(WalletDerivationService.isMoneroSpendKey(spendKey)).toBe(true);
+    expect(getElectrumSeedType(spendKey)).toBeNull();
+    expect(WalletDerivationService.getElectrumSeedType(spendKey)).toBeNull();
+  });
+
+  it('does not take a SLIP-39 master secret for an Electrum seed', () => {
+    const masterSecret = 'slip39:f405052c9d89123526a865887fb71218';
+
+    expect(WalletDerivationService.isMasterSecret(masterSecret)).toBe(true);
+    expect(getElectrumSeedType(masterSecret)).toBeNull();
+    expect(WalletDerivationService.getElectrumSeedType(masterSecret)).toBeNull();
+  });
+});
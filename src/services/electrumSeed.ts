@@ -0,0 +1,188 @@
+import * as bip39 from 'bip39';
+import { hmac } from '@noble/hashes/hmac';
+import { pbkdf2 } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha256';
+import { sha512 } from '@noble/hashes/sha512';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import type { BitcoinScriptType } from './walletDerivation';
+import { ELECTRUM_OLD_WORDLIST } from './electrumOldWordlist';
+
+// Electrum native seeds. Version 2 seeds carry their wallet type in an HMAC
+// prefix and stretch to a BIP32 seed with the "electrum" salt; seeds from
+// before 2.0 use their own wordlist and a non-BIP32 key sequence.
+
+export type ElectrumSeedType = 'standard' | 'segwit' | '2fa' | '2fa_segwit' | 'old';
+
+export interface ElectrumOldKeys {
+  privateKey: Uint8Array;
+  publicKey: Uint8Array; // uncompressed
+}
+
+// HMAC-SHA512("Seed version", seed) hex prefixes
+const SEED_PREFIXES: [ElectrumSeedType, string][] = [
+  ['segwit', '100'],
+  ['2fa', '101'],
+  ['2fa_segwit', '102'],
+  ['standard', '01'],
+];
+
+// Paths and script types of the wallets Electrum creates for each seed type
+export const ELECTRUM_SEED_PATHS: Partial<Record<ElectrumSeedType, { template: string; scriptType: BitcoinScriptType }>> = {
+  standard: { template: 'm/{change}/{index}', scriptType: 'p2pkh' },
+  segwit: { template: "m/0'/{change}/{index}", scriptType: 'p2wpkh' },
+  old: { template: 'm/{change}/{index}', scriptType: 'p2pkh' },
+};
+
+// Electrum is a Bitcoin-only wallet
+export const ELECTRUM_CHAINS = ['BTC', 'BTC_TESTNET'];
+
+// Marks a phrase the user chose to restore as an Electrum seed. Electrum seeds
+// use the BIP39 wordlist and about one in sixteen of them also passes the
+// BIP39 checksum, so only an explicit choice tells those apart.
+const ELECTRUM_MARKER = 'electrum:';
+
+// Electrum generates version 2 seeds from the BIP39 English wordlist
+const ELECTRUM_WORDS = new Set(bip39.wordlists.english);
+
+const OLD_SEED_STRETCH_ROUNDS = 100000;
+const OLD_WORD_INDEX = new Map(ELECTRUM_OLD_WORDLIST.map((word, i) => [word, i]));
+
+// Stretching takes a noticeable moment, and every address of a seed needs it
+let oldMasterKeyCache: { mnemonic: string; keys: ElectrumOldKeys } | null = null;
+
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function toBigIntBE(bytes: Uint8Array): bigint {
+  return bytes.reduce((value, byte) => (value << 8n) + BigInt(byte), 0n);
+}
+
+function fromBigInt(value: bigint): Uint8Array {
+  return Uint8Array.from(value.toString(16).padStart(64, '0').match(/../g)!, byte => parseInt(byte, 16));
+}
+
+/**
+ * Electrum's seed normalization: NFKD, lower case, no accents, single spaces
+ * and no spaces between CJK characters
+ */
+export function normalizeElectrumText(text: string): string {
+  const words = text.normalize('NFKD').toLowerCase().replace(/\p{Mn}/gu, '').trim().split(/\s+/).join(' ');
+  return Array.from(words)
+    .filter((ch, i, chars) => !(ch === ' ' && CJK.test(chars[i - 1]) && CJK.test(chars[i + 1])))
+    .join('');
+}
+
+/**
+ * Phrase marked to be read as an Electrum seed even when it is valid BIP39
+ */
+export function markElectrumSeed(mnemonic: string): string {
+  return `${ELECTRUM_MARKER} ${unmarkElectrumSeed(mnemonic)}`;
+}
+
+/**
+ * The phrase without its Electrum marker
+ */
+export function unmarkElectrumSeed(mnemonic: string): string {
+  const trimmed = mnemonic.trim();
+  return isMarkedElectrumSeed(trimmed) ? trimmed.slice(ELECTRUM_MARKER.length).trim() : trimmed;
+}
+
+/**
+ * Whether the phrase carries the Electrum marker
+ */
+export function isMarkedElectrumSeed(mnemonic: string): boolean {
+  return mnemonic.trim().toLowerCase().startsWith(ELECTRUM_MARKER);
+}
+
+// Hex seed text of an old seed, or null when the words are not from its wordlist
+function decodeOldSeed(mnemonic: string): string | null {
+  const words = normalizeElectrumText(unmarkElectrumSeed(mnemonic)).split(' ');
+  if (words.length !== 12 && words.length !== 24) return null;
+
+  const indices = words.map(word => OLD_WORD_INDEX.get(word));
+  if (indices.some(index => index === undefined)) return null;
+
+  const n = ELECTRUM_OLD_WORDLIST.length;
+  const mod = (a: number) => ((a % n) + n) % n;
+  let hex = '';
+  for (let i = 0; i < indices.length; i += 3) {
+    const [w1, w2, w3] = indices.slice(i, i + 3) as number[];
+    hex += (w1 + n * mod(w2 - w1) + n * n * mod(w3 - w2)).toString(16).padStart(8, '0');
+  }
+  return hex;
+}
+
+/**
+ * Electrum seed type of a phrase, or null for anything else. A phrase that is
+ * also a valid BIP39 mnemonic is treated as BIP39 unless it is marked with
+ * markElectrumSeed. Unmarked version 2 seeds must use Electrum's wordlist,
+ * since about one text in 200 passes the version test by chance.
+ */
+export function getElectrumSeedType(mnemonic: string): ElectrumSeedType | null {
+  const phrase = unmarkElectrumSeed(mnemonic);
+  const marked = isMarkedElectrumSeed(mnemonic);
+  if (!phrase || (!marked && bip39.validateMnemonic(phrase))) return null;
+  if (decodeOldSeed(phrase) !== null) return 'old';
+
+  const normalized = normalizeElectrumText(phrase);
+  if (!marked && !normalized.split(' ').every(word => ELECTRUM_WORDS.has(word))) return null;
+
+  const version = toHex(hmac(sha512, new TextEncoder().encode('Seed version'), new TextEncoder().encode(normalized)));
+  return SEED_PREFIXES.find(([, prefix]) => version.startsWith(prefix))?.[0] ?? null;
+}
+
+/**
+ * BIP32 seed of a version 2 Electrum seed; the passphrase is Electrum's seed extension
+ */
+export function electrumMnemonicToSeed(mnemonic: string, passphrase: string = ''): Uint8Array {
+  const password = new TextEncoder().encode(normalizeElectrumText(unmarkElectrumSeed(mnemonic)));
+  const salt = new TextEncoder().encode('electrum' + normalizeElectrumText(passphrase));
+  return pbkdf2(sha512, password, salt, { c: 2048, dkLen: 64 });
+}
+
+/**
+ * Master key of an old seed: the hex seed text stretched with 100,000 rounds of SHA-256
+ */
+export function getElectrumOldMasterKey(mnemonic: string): ElectrumOldKeys {
+  const normalized = normalizeElectrumText(unmarkElectrumSeed(mnemonic));
+  if (oldMasterKeyCache?.mnemonic === normalized) {
+    return oldMasterKeyCache.keys;
+  }
+
+  const seedHex = decodeOldSeed(mnemonic);
+  if (seedHex === null) {
+    throw new Error('Not an old Electrum seed');
+  }
+
+  const seed = new TextEncoder().encode(seedHex);
+  let x: Uint8Array = seed;
+  for (let i = 0; i < OLD_SEED_STRETCH_ROUNDS; i++) {
+    x = sha256(new Uint8Array([...x, ...seed]));
+  }
+
+  const privateKey = fromBigInt(toBigIntBE(x) % secp256k1.CURVE.n);
+  const keys = { privateKey, publicKey: secp256k1.getPublicKey(privateKey, false) };
+  oldMasterKeyCache = { mnemonic: normalized, keys };
+  return keys;
+}
+
+/**
+ * Cache the master private key of an old seed, stretched elsewhere
+ */
+export function setElectrumOldMasterKey(mnemonic: string, privateKey: Uint8Array) {
+  const keys = { privateKey, publicKey: secp256k1.getPublicKey(privateKey, false) };
+  oldMasterKeyCache = { mnemonic: normalizeElectrumText(unmarkElectrumSeed(mnemonic)), keys };
+}
+
+/**
+ * Key pair of address `index` on the receive (0) or change (1) sequence of an old seed
+ */
+export function deriveElectrumOldKey(master: ElectrumOldKeys, change: number, index: number): ElectrumOldKeys {
+  const masterPublicKey = master.publicKey.slice(1);
+  const sequence = sha256(sha256(new Uint8Array([...new TextEncoder().encode(`${index}:${change}:`), ...masterPublicKey])));
+  const privateKey = fromBigInt((toBigIntBE(master.privateKey) + toBigIntBE(sequence)) % secp256k1.CURVE.n);
+  return { privateKey, publicKey: secp256k1.getPublicKey(privateKey, false) };
+}
@@ -0,0 +1,122 @@
+import { HDKey } from '@scure/bip32';
+import { createBase58check } from '@scure/base';
+import { sha256 } from '@noble/hashes/sha256';
+import type { BitcoinScriptType } from './walletDerivation';
+
+// Account-level extended public keys for watch-only setups. Version bytes
+// follow SLIP-132 so wallets can infer the script type from the prefix.
+
+interface ExtendedKeyVersion {
+  prefix: string;
+  public: number;
+  private: number;
+}
+
+export interface DecodedExtendedKey {
+  key: HDKey;
+  prefix: string;
+  scriptTypes: BitcoinScriptType[]; // script types the version stands for on the chain
+  descriptorKey: string;            // the same key as xpub/tpub, as descriptors expect
+}
+
+export interface AccountExtendedKey {
+  path: string;   // hardened prefix of the wallet path, e.g. m/84'/0'/0'
+  key: string;    // base58 extended public key
+  prefix: string; // xpub, ypub, zpub, tpub, ...
+}
+
+const XPUB: ExtendedKeyVersion = { prefix: 'xpub', public: 0x0488b21e, private: 0x0488ade4 };
+const YPUB: ExtendedKeyVersion = { prefix: 'ypub', public: 0x049d7cb2, private: 0x049d7878 };
+const ZPUB: ExtendedKeyVersion = { prefix: 'zpub', public: 0x04b24746, private: 0x04b2430c };
+const TPUB: ExtendedKeyVersion = { prefix: 'tpub', public: 0x043587cf, private: 0x04358394 };
+const UPUB: ExtendedKeyVersion = { prefix: 'upub', public: 0x044a5262, private: 0x044a4e28 };
+const VPUB: ExtendedKeyVersion = { prefix: 'vpub', public: 0x045f1cf6, private: 0x045f18bc };
+const LTUB: ExtendedKeyVersion = { prefix: 'Ltub', public: 0x019da462, private: 0x019d9cfe };
+const MTUB: ExtendedKeyVersion = { prefix: 'Mtub', public: 0x01b26ef6, private: 0x01b26792 };
+const DGUB: ExtendedKeyVersion = { prefix: 'dgub', public: 0x02facafd, private: 0x02fac398 };
+
+// Taproot has no SLIP-132 prefix; BIP86 tooling expects the plain xpub/tpub
+const UTXO_VERSIONS: Record<string, Record<BitcoinScriptType, ExtendedKeyVersion>> = {
+  BTC: { 'p2pkh': XPUB, 'p2sh-p2wpkh': YPUB, 'p2wpkh': ZPUB, 'p2tr': XPUB },
+  BTC_TESTNET: { 'p2pkh': TPUB, 'p2sh-p2wpkh': UPUB, 'p2wpkh': VPUB, 'p2tr': TPUB },
+  LTC: { 'p2pkh': LTUB, 'p2sh-p2wpkh': MTUB, 'p2wpkh': ZPUB, 'p2tr': LTUB },
+  DOGE: { 'p2pkh': DGUB, 'p2sh-p2wpkh': DGUB, 'p2wpkh': DGUB, 'p2tr': DGUB },
+};
+
+const PRIVATE_VERSIONS = [XPUB, YPUB, ZPUB, TPUB, UPUB, VPUB, LTUB, MTUB, DGUB].map(v => v.private);
+
+const base58check = createBase58check(sha256);
+
+/**
+ * The account a wallet path belongs to: its leading hardened segments. Every
+ * address of the account derives from this key through soft steps only, so
+ * the key alone is enough to watch them (m/84'/0'/0'/0/5 -> m/84'/0'/0').
+ */
+export function getAccountPath(derivationPath: string): string {
+  const segments = derivationPath.trim().split('/');
+  const firstSoft = segments.findIndex((segment, i) => i > 0 && !/['hH]$/.test(segment));
+  return (firstSoft === -1 ? segments : segments.slice(0, firstSoft)).join('/');
+}
+
+/**
+ * Account extended public key for a UTXO wallet (script type given) or an
+ * EVM wallet (plain xpub)
+ */
+export function deriveAccountExtendedKey(
+  seed: Uint8Array,
+  chain: string,
+  derivationPath: string,
+  scriptType?: BitcoinScriptType
+): AccountExtendedKey {
+  const version = scriptType ? UTXO_VERSIONS[chain]?.[scriptType] : XPUB;
+  if (!version) {
+    throw new Error(`No extended key version for ${chain}`);
+  }
+
+  const path = getAccountPath(derivationPath);
+  const account = HDKey.fromMasterSeed(seed, { public: version.public, private: version.private }).derive(path);
+
+  return { path, key: account.publicExtendedKey, prefix: version.prefix };
+}
+
+/**
+ * Decode an extended public key for a UTXO chain. Any SLIP-132 version of the
+ * chain is accepted, as is the plain xpub/tpub that descriptors use.
+ */
+export function decodeExtendedPublicKey(encoded: string, chain: string): DecodedExtendedKey {
+  const versions = UTXO_VERSIONS[chain];
+  if (!versions) {
+    throw new Error(`${chain} has no extended keys`);
+  }
+
+  let version: number;
+  try {
+    const bytes = base58check.decode(encoded.trim());
+    version = new DataView(bytes.buffer, bytes.byteOffset).getUint32(0);
+  } catch {
+    throw new Error('Invalid extended key encoding');
+  }
+
+  if (PRIVATE_VERSIONS.includes(version)) {
+    throw new Error('This is an extended private key. Only public keys can be watched.');
+  }
+
+  const scriptTypes = (Object.keys(versions) as BitcoinScriptType[]).filter(type => versions[type].public === version);
+  const plain = chain === 'BTC_TESTNET' ? TPUB : XPUB;
+  const match = scriptTypes.length > 0 ? versions[scriptTypes[0]] : version === plain.public ? plain : null;
+  if (!match) {
+    throw new Error(`Extended key version does not belong to ${chain}`);
+  }
+
+  const key = HDKey.fromExtendedKey(encoded.trim(), { public: match.public, private: match.private });
+  const descriptorKey = new HDKey({
+    versions: { public: plain.public, private: plain.private },
+    depth: key.depth,
+    index: key.index,
+    parentFingerprint: key.parentFingerprint,
+    chainCode: key.chainCode!,
+    publicKey: key.publicKey!,
+  }).publicExtendedKey;
+
+  return { key, prefix: match.prefix, scriptTypes, descriptorKey };
+}
@@ -0,0 +1,28 @@
+import { hexToBytes, bytesToHex } from '@noble/hashes/utils';
+
+// Seeds restored from SLIP-39 shares have no phrase: the master secret is the
+// BIP32 seed itself. They travel and are stored as marked hex text, so they
+// are never mistaken for a BIP39 phrase or a Monero key.
+// Kept free of Buffer and renderer polyfills so the main process can use it too.
+
+const MASTER_SECRET_PREFIX = 'slip39:';
+
+/**
+ * Text form of a master secret, as stored in place of a mnemonic
+ */
+export function formatMasterSecret(secret: Uint8Array): string {
+  return `${MASTER_SECRET_PREFIX}${bytesToHex(secret)}`;
+}
+
+/**
+ * Master secret bytes from their text form, or null for anything else
+ */
+export function parseMasterSecret(value: string): Uint8Array | null {
+  const text = value.trim().toLowerCase();
+  if (!text.startsWith(MASTER_SECRET_PREFIX)) return null;
+
+  const hex = text.slice(MASTER_SECRET_PREFIX.length);
+  // SLIP-39 master secrets are an even number of bytes, at least 16
+  if (!/^([0-9a-f]{4})+$/.test(hex) || hex.length < 32) return null;
+  return hexToBytes(hex);
+}
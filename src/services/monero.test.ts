@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { bytesToHex } from '@noble/hashes/utils';
+import { moneroKeysFromSpendKey, moneroMnemonicToSeed, parseMoneroSpendKey, toMoneroAddress } from './monero';
+
+// Test wallet of monero-javascript's TestUtils (a testnet wallet)
+const MNEMONIC = 'silk mocked cucumber lettuce hope adrenalin aching lush roles fuel revamp baptism wrist long tender teardrop midst pastry pigment equip frying inbound pinched ravine frying';
+const MNEMONIC_ADDRESS = 'A1y9sbVt8nqhZAVm3me1U18rUVXcjeNKuBd1oE2cTs8biA9cozPMeyYLhe77nPv12JA3ejJN3qprmREriit2fi6tJDi99RR';
+
+describe('moneroMnemonicToSeed', () => {
+  it('restores the address of a 25-word seed', () => {
+    const keys = moneroKeysFromSpendKey(parseMoneroSpendKey(MNEMONIC)!);
+    expect(toMoneroAddress(keys, 'testnet')).toBe(MNEMONIC_ADDRESS);
+  });
+
+  it('rejects a wrong checksum word', () => {
+    const words = MNEMONIC.split(' ');
+    words[24] = 'silk';
+    expect(() => moneroMnemonicToSeed(words.join(' '))).toThrow('checksum');
+    expect(parseMoneroSpendKey(words.join(' '))).toBeNull();
+  });
+});
+
+describe('parseMoneroSpendKey', () => {
+  it('reads the hex spend key of the same wallet', () => {
+    const spendKey = bytesToHex(parseMoneroSpendKey(MNEMONIC)!);
+
+    expect(toMoneroAddress(moneroKeysFromSpendKey(parseMoneroSpendKey(spendKey)!), 'testnet')).toBe(MNEMONIC_ADDRESS);
+  });
+
+  it('rejects an unreduced scalar', () => {
+    expect(parseMoneroSpendKey('ff'.repeat(32))).toBeNull();
+  });
+});
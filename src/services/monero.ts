@@ -0,0 +1,202 @@
+import { keccak_256 } from '@noble/hashes/sha3';
+import { ed25519 } from '@noble/curves/ed25519';
+import { base58xmr } from '@scure/base';
+import { MONERO_WORDLIST } from './moneroWordlist';
+
+// Monero keys, standard addresses and subaddresses. Pure TypeScript on
+// noble/scure, so there is no native build step.
+
+export type MoneroNetwork = 'mainnet' | 'testnet' | 'stagenet';
+
+export interface MoneroKeys {
+  privateSpendKey: Uint8Array;
+  privateViewKey: Uint8Array;
+  publicSpendKey: Uint8Array;
+  publicViewKey: Uint8Array;
+}
+
+// Address prefixes: [standard, subaddress]
+const NETWORK_PREFIXES: Record<MoneroNetwork, [number, number]> = {
+  mainnet: [18, 42],
+  testnet: [53, 63],
+  stagenet: [24, 36],
+};
+
+const SUBADDRESS_DOMAIN = new TextEncoder().encode('SubAddr\0');
+
+// Mnemonic words are identified by their first three letters
+const WORD_PREFIX_LENGTH = 3;
+const WORD_INDEX = new Map(MONERO_WORDLIST.map((word, i) => [word.slice(0, WORD_PREFIX_LENGTH), i]));
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function toBigIntLE(bytes: Uint8Array): bigint {
+  let value = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    value = (value << 8n) + BigInt(bytes[i]);
+  }
+  return value;
+}
+
+function toBytesLE(value: bigint, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+}
+
+function uint32LE(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, true);
+  return bytes;
+}
+
+/**
+ * Reduce 32 bytes modulo the ed25519 group order (sc_reduce32)
+ */
+export function scReduce32(bytes: Uint8Array): Uint8Array {
+  return toBytesLE(toBigIntLE(bytes) % ed25519.CURVE.n, 32);
+}
+
+function scalarMultBase(scalar: Uint8Array): Uint8Array {
+  const n = toBigIntLE(scalar);
+  return n === 0n
+    ? ed25519.ExtendedPoint.ZERO.toRawBytes()
+    : ed25519.ExtendedPoint.BASE.multiply(n).toRawBytes();
+}
+
+/**
+ * Expand a private spend key into the full key set. The view key is
+ * H(spend key) reduced, as in monero-wallet-cli deterministic wallets.
+ */
+export function moneroKeysFromSpendKey(spendKey: Uint8Array): MoneroKeys {
+  const privateSpendKey = scReduce32(spendKey);
+  const privateViewKey = scReduce32(keccak_256(privateSpendKey));
+
+  return {
+    privateSpendKey,
+    privateViewKey,
+    publicSpendKey: scalarMultBase(privateSpendKey),
+    publicViewKey: scalarMultBase(privateViewKey),
+  };
+}
+
+function encodeAddress(prefix: number, spendKey: Uint8Array, viewKey: Uint8Array): string {
+  // Every network prefix in use fits in a single varint byte
+  const body = new Uint8Array([prefix, ...spendKey, ...viewKey]);
+  const checksum = keccak_256(body).slice(0, 4);
+  return base58xmr.encode(new Uint8Array([...body, ...checksum]));
+}
+
+/**
+ * Standard (primary) address for a key set
+ */
+export function toMoneroAddress(keys: MoneroKeys, network: MoneroNetwork = 'mainnet'): string {
+  return encodeAddress(NETWORK_PREFIXES[network][0], keys.publicSpendKey, keys.publicViewKey);
+}
+
+/**
+ * Subaddress (account, index). Only the private view key and public spend key
+ * are needed, so view-only wallets can generate these too. (0, 0) is the
+ * standard address.
+ */
+export function toMoneroSubaddress(
+  privateViewKey: Uint8Array,
+  publicSpendKey: Uint8Array,
+  account: number,
+  index: number,
+  network: MoneroNetwork = 'mainnet'
+): string {
+  if (account === 0 && index === 0) {
+    const publicViewKey = scalarMultBase(privateViewKey);
+    return encodeAddress(NETWORK_PREFIXES[network][0], publicSpendKey, publicViewKey);
+  }
+
+  // m = Hs("SubAddr\0" || a || account || index), D = B + m*G, C = a*D
+  const m = toBigIntLE(scReduce32(keccak_256(new Uint8Array([
+    ...SUBADDRESS_DOMAIN, ...privateViewKey, ...uint32LE(account), ...uint32LE(index),
+  ]))));
+  const D = ed25519.ExtendedPoint.fromHex(publicSpendKey).add(ed25519.ExtendedPoint.BASE.multiply(m));
+  const C = D.multiply(toBigIntLE(privateViewKey));
+
+  return encodeAddress(NETWORK_PREFIXES[network][1], D.toRawBytes(), C.toRawBytes());
+}
+
+function crc32(text: string): number {
+  let crc = 0xffffffff;
+  for (const byte of new TextEncoder().encode(text)) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Decode a 25-word English Monero mnemonic (monero-wallet-cli "seed") into
+ * the 32 bytes it encodes. Every 3 words carry 4 bytes; the 25th word repeats
+ * the word at index CRC32(first three letters of each word) mod 24. Throws on
+ * unknown words or a checksum mismatch.
+ */
+export function moneroMnemonicToSeed(phrase: string): Uint8Array {
+  const words = phrase.trim().toLowerCase().split(/\s+/);
+  if (words.length !== 25) {
+    throw new Error(`A Monero mnemonic has 25 words (found ${words.length})`);
+  }
+
+  const prefixes = words.map(word => word.slice(0, WORD_PREFIX_LENGTH));
+  const indices = prefixes.map((prefix, i) => {
+    const index = WORD_INDEX.get(prefix);
+    if (index === undefined) throw new Error(`"${words[i]}" is not in the Monero wordlist`);
+    return index;
+  });
+
+  const checksumIndex = crc32(prefixes.slice(0, 24).join('')) % 24;
+  if (prefixes[24] !== prefixes[checksumIndex]) {
+    throw new Error('Invalid Monero mnemonic checksum');
+  }
+
+  const n = MONERO_WORDLIST.length;
+  const seed = new Uint8Array(32);
+  const view = new DataView(seed.buffer);
+  for (let i = 0; i < 8; i++) {
+    const [w1, w2, w3] = indices.slice(i * 3, i * 3 + 3);
+    const value = w1 + n * ((n - w1 + w2) % n) + n * n * ((n - w2 + w3) % n);
+    // Word triples that no 32-bit value produces
+    if (value % n !== w1 || value > 0xffffffff) {
+      throw new Error('Invalid Monero mnemonic');
+    }
+    view.setUint32(i * 4, value, true);
+  }
+  return seed;
+}
+
+/**
+ * Parse a private spend key given as 64 hex characters (monero-wallet-cli
+ * "spendkey") or as the 25-word mnemonic that encodes it. Returns null for
+ * anything else.
+ */
+export function parseMoneroSpendKey(value: string): Uint8Array | null {
+  const text = value.trim().toLowerCase();
+
+  if (text.split(/\s+/).length === 25) {
+    try {
+      // Wallets encode an already reduced key; reducing covers any that did not
+      return scReduce32(moneroMnemonicToSeed(text));
+    } catch {
+      return null;
+    }
+  }
+
+  if (!/^[0-9a-f]{64}$/.test(text)) return null;
+
+  const key = Uint8Array.from(text.match(/../g)!.map(byte => parseInt(byte, 16)));
+  // A spend key is a scalar already reduced modulo the group order
+  return toBigIntLE(key) < ed25519.CURVE.n ? key : null;
+}
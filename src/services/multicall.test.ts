@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { MULTICALL3_ADDRESS, Multicall } from './multicall';
+
+const OWNER = '0x9858EfFD232B4033E47d90003D41EC34EcaEda94';
+const TOKEN = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+
+const multicall3 = new ethers.Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+]);
+const uint256 = (value: bigint) => ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [value]);
+
+// Stands in for the JSON-RPC provider; answers eth_call through the given handler
+function fakeProvider(call: (tx: { to: string; data: string }) => string | Promise<string>, balance = 0n) {
+  const calls: { to: string; data: string }[] = [];
+  const provider = {
+    call: async (tx: { to: string; data: string }) => {
+      calls.push(tx);
+      return call(tx);
+    },
+    getBalance: async () => balance,
+  } as unknown as ethers.JsonRpcProvider;
+  return { provider, calls };
+}
+
+describe('Multicall.getBalances', () => {
+  it('reads native and token balances through one aggregate3 call', async () => {
+    const { provider, calls } = fakeProvider(({ data }) => {
+      const [requests] = multicall3.decodeFunctionData('aggregate3', data);
+      return multicall3.encodeFunctionResult('aggregate3', [
+        requests.map((_: unknown, i: number) => [true, uint256(BigInt(i + 1) * 10n ** 18n)]),
+      ]);
+    });
+
+    const balances = await Multicall.getBalances(provider, 'https://rpc.one', [{ owner: OWNER }, { owner: OWNER, token: TOKEN }]);
+
+    expect(balances).toEqual([10n ** 18n, 2n * 10n ** 18n]);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].to).toBe(MULTICALL3_ADDRESS);
+    // Published selectors of aggregate3, getEthBalance and balanceOf
+    expect(calls[0].data.slice(0, 10)).toBe('0x82ad56cb');
+    const [requests] = multicall3.decodeFunctionData('aggregate3', calls[0].data);
+    expect(requests[0].target).toBe(MULTICALL3_ADDRESS);
+    expect(requests[0].callData.slice(0, 10)).toBe('0x4d2301cc');
+    expect(requests[1].target.toLowerCase()).toBe(TOKEN.toLowerCase());
+    expect(requests[1].callData.slice(0, 10)).toBe('0x70a08231');
+  });
+
+  it('maps failed calls and short return data to null', async () => {
+    const { provider } = fakeProvider(() => multicall3.encodeFunctionResult('aggregate3', [[
+      [true, uint256(5n)],
+      [false, uint256(7n)],
+      [true, '0x'],
+      [true, '0x0102'],
+    ]]));
+
+    const balances = await Multicall.getBalances(provider, 'https://rpc.two', [
+      { owner: OWNER },
+      { owner: OWNER, token: TOKEN },
+      { owner: OWNER, token: TOKEN },
+      { owner: OWNER, token: TOKEN },
+    ]);
+
+    expect(balances).toEqual([5n, null, null, null]);
+  });
+
+  it('falls back to batched calls where Multicall3 is not deployed, and remembers it', async () => {
+    const { provider, calls } = fakeProvider(({ to }) => to === MULTICALL3_ADDRESS ? '0x' : uint256(42n), 3n);
+    const queries = [{ owner: OWNER }, { owner: OWNER, token: TOKEN }];
+
+    expect(await Multicall.getBalances(provider, 'https://rpc.three', queries)).toEqual([3n, 42n]);
+    expect(await Multicall.getBalances(provider, 'https://rpc.three', queries)).toEqual([3n, 42n]);
+    expect(calls.filter(call => call.to === MULTICALL3_ADDRESS)).toHaveLength(1);
+  });
+
+  it('retries a reverted aggregate as plain calls without giving up on Multicall3', async () => {
+    const { provider, calls } = fakeProvider(({ to }) => {
+      if (to === MULTICALL3_ADDRESS) throw Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION' });
+      return uint256(9n);
+    }, 1n);
+    const queries = [{ owner: OWNER }, { owner: OWNER, token: TOKEN }];
+
+    expect(await Multicall.getBalances(provider, 'https://rpc.four', queries)).toEqual([1n, 9n]);
+    await Multicall.getBalances(provider, 'https://rpc.four', queries);
+    expect(calls.filter(call => call.to === MULTICALL3_ADDRESS)).toHaveLength(2);
+  });
+
+  it('throws when the endpoint itself fails', async () => {
+    const { provider } = fakeProvider(() => {
+      throw Object.assign(new Error('connection refused'), { code: 'NETWORK_ERROR' });
+    });
+
+    await expect(Multicall.getBalances(provider, 'https://rpc.five', [{ owner: OWNER }])).rejects.toThrow('connection refused');
+  });
+});
@@ -0,0 +1,145 @@
+import { ethers } from 'ethers';
+
+// Reads many EVM balances in few round trips. Native and ERC-20 balances go
+// through Multicall3's aggregate3, a few hundred calls per eth_call; chains
+// without Multicall3 fall back to plain calls sent as JSON-RPC batches.
+
+// Same address on every chain it is deployed to (https://www.multicall3.com)
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+  'function getEthBalance(address addr) view returns (uint256 balance)',
+];
+
+const ERC20_BALANCE_ABI = ['function balanceOf(address owner) view returns (uint256)'];
+
+// Calls per aggregate3, well inside the gas cap public nodes put on eth_call
+const MULTICALL_CHUNK = 250;
+// Calls per JSON-RPC batch; matches the provider's default batchMaxCount
+const BATCH_CHUNK = 100;
+
+export interface BalanceQuery {
+  owner: string;
+  token?: string;         // ERC-20 contract; native balance when left out
+}
+
+const multicallInterface = new ethers.Interface(MULTICALL3_ABI);
+const erc20Interface = new ethers.Interface(ERC20_BALANCE_ABI);
+
+export class Multicall {
+  // Endpoints where Multicall3 turned out not to be deployed
+  private static unsupported = new Set<string>();
+
+  /**
+   * Balances for every query, in query order. A query whose call fails (a
+   * token contract that reverts or does not exist) comes back as null.
+   * Throws when the endpoint itself fails, so callers can fail over.
+   */
+  static async getBalances(
+    provider: ethers.JsonRpcProvider,
+    rpcUrl: string,
+    queries: BalanceQuery[]
+  ): Promise<(bigint | null)[]> {
+    if (this.unsupported.has(rpcUrl)) {
+      return this.batch(provider, queries);
+    }
+
+    // Concurrent eth_calls leave the provider as one JSON-RPC batch
+    const parts = chunk(queries, MULTICALL_CHUNK);
+    const answers = await Promise.all(parts.map(part => this.aggregate(provider, rpcUrl, part)));
+
+    const results: (bigint | null)[] = [];
+    for (let i = 0; i < parts.length; i++) {
+      results.push(...(answers[i] ?? await this.batch(provider, parts[i])));
+    }
+    return results;
+  }
+
+  // One aggregate3 call, or null when the chain has no Multicall3
+  private static async aggregate(
+    provider: ethers.JsonRpcProvider,
+    rpcUrl: string,
+    queries: BalanceQuery[]
+  ): Promise<(bigint | null)[] | null> {
+    const calls = queries.map(query => query.token
+      ? { target: normalize(query.token), allowFailure: true, callData: erc20Interface.encodeFunctionData('balanceOf', [normalize(query.owner)]) }
+      : { target: MULTICALL3_ADDRESS, allowFailure: true, callData: multicallInterface.encodeFunctionData('getEthBalance', [normalize(query.owner)]) }
+    );
+
+    let data: string;
+    try {
+      data = await provider.call({
+        to: MULTICALL3_ADDRESS,
+        data: multicallInterface.encodeFunctionData('aggregate3', [calls]),
+      });
+    } catch (error: any) {
+      // A reverted aggregate (gas cap, oversized response) is retried as plain calls
+      if (error?.code === 'CALL_EXCEPTION') return null;
+      throw error;
+    }
+
+    // eth_call to an address without code returns nothing
+    if (data === '0x') {
+      if (!this.unsupported.has(rpcUrl)) {
+        console.log(`ℹ️ Multicall3 is not deployed behind ${rpcUrl}, using batched calls`);
+        this.unsupported.add(rpcUrl);
+      }
+      return null;
+    }
+
+    const [answers] = multicallInterface.decodeFunctionResult('aggregate3', data);
+    return answers.map((answer: { success: boolean; returnData: string }) => decodeBalance(answer.success, answer.returnData));
+  }
+
+  // Plain calls, sent BATCH_CHUNK at a time so the provider groups each round into one batch request
+  private static async batch(provider: ethers.JsonRpcProvider, queries: BalanceQuery[]): Promise<(bigint | null)[]> {
+    const results: (bigint | null)[] = [];
+    let endpointError: any = null;
+
+    for (const part of chunk(queries, BATCH_CHUNK)) {
+      results.push(...await Promise.all(part.map(async query => {
+        try {
+          if (!query.token) {
+            return await provider.getBalance(query.owner);
+          }
+          const data = await provider.call({
+            to: normalize(query.token),
+            data: erc20Interface.encodeFunctionData('balanceOf', [normalize(query.owner)]),
+          });
+          return decodeBalance(true, data);
+        } catch (error: any) {
+          if (error?.code !== 'CALL_EXCEPTION') endpointError = endpointError || error;
+          return null;
+        }
+      })));
+    }
+
+    // Native balances only fail with the endpoint; let the caller try another
+    const failed = queries.some((query, i) => !query.token && results[i] === null) || results.every(result => result === null);
+    if (endpointError && failed) {
+      throw endpointError;
+    }
+    return results;
+  }
+}
+
+// Lowercase skips the checksum test, so one mistyped token address fails
+// only its own call instead of the whole aggregate
+function normalize(address: string): string {
+  return address.toLowerCase();
+}
+
+function decodeBalance(success: boolean, returnData: string): bigint | null {
+  // Calls to addresses without code succeed with no data
+  if (!success || ethers.dataLength(returnData) < 32) return null;
+  return ethers.toBigInt(ethers.dataSlice(returnData, 0, 32));
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -0,0 +1,132 @@
+import type { BitcoinScriptType } from './walletDerivation';
+
+// Derivation path templates such as m/44'/60'/{account}'/0/{index}. Kept free
+// of the derivation libraries so the main process can validate saved templates.
+
+export type PathPlaceholder = 'account' | 'change' | 'index';
+
+export interface PathTemplate {
+  id: string;            // preset id, or "custom-<row id>" for saved templates
+  chain: string;
+  name: string;
+  template: string;
+  scriptType?: BitcoinScriptType;
+  preset?: boolean;
+}
+
+export interface PathSegment {
+  value: number | PathPlaceholder;
+  hardened: boolean;
+}
+
+export interface PathValues {
+  account: number;
+  change: number;
+  index: number;
+}
+
+const MAX_SEGMENT_INDEX = 0x7fffffff;
+
+// SLIP-10 ed25519 only defines hardened derivation
+const HARDENED_ONLY_CHAINS = ['SOL', 'DOT', 'KSM'];
+
+// BIP43 purposes whose purpose, coin type and account levels must be hardened
+const BIP43_PURPOSES = [44, 49, 84, 86, 1852];
+
+const PLACEHOLDER_PATTERN = /\{(account|change|index)\}/;
+
+export const PATH_TEMPLATE_PRESETS: PathTemplate[] = [
+  // Ethereum
+  { id: 'eth-bip44', chain: 'ETH', name: 'BIP44 (MetaMask, Trezor, MyEtherWallet, Exodus)', template: "m/44'/60'/0'/0/{index}" },
+  { id: 'eth-ledger-live', chain: 'ETH', name: 'Ledger Live', template: "m/44'/60'/{account}'/0/0" },
+  { id: 'eth-ledger-legacy', chain: 'ETH', name: 'Ledger legacy (MyEtherWallet, MyCrypto)', template: "m/44'/60'/0'/{index}" },
+
+  // Bitcoin
+  { id: 'btc-bip84', chain: 'BTC', name: 'Native SegWit (Ledger Live, Trezor, Exodus)', template: "m/84'/0'/{account}'/{change}/{index}", scriptType: 'p2wpkh' },
+  { id: 'btc-bip86', chain: 'BTC', name: 'Taproot (Ledger Live, Trezor)', template: "m/86'/0'/{account}'/{change}/{index}", scriptType: 'p2tr' },
+  { id: 'btc-bip49', chain: 'BTC', name: 'Nested SegWit (Ledger Live, Trezor)', template: "m/49'/0'/{account}'/{change}/{index}", scriptType: 'p2sh-p2wpkh' },
+  { id: 'btc-bip44', chain: 'BTC', name: 'Legacy (Ledger Live, Trezor, Exodus)', template: "m/44'/0'/{account}'/{change}/{index}", scriptType: 'p2pkh' },
+  { id: 'btc-electrum-segwit', chain: 'BTC', name: 'Electrum-style SegWit (BIP39 seed)', template: "m/0'/{change}/{index}", scriptType: 'p2wpkh' },
+  { id: 'btc-electrum-standard', chain: 'BTC', name: 'Electrum-style standard (BIP39 seed)', template: 'm/{change}/{index}', scriptType: 'p2pkh' },
+
+  // Litecoin
+  { id: 'ltc-bip84', chain: 'LTC', name: 'Native SegWit (Ledger Live, Trezor)', template: "m/84'/2'/{account}'/{change}/{index}", scriptType: 'p2wpkh' },
+  { id: 'ltc-bip44', chain: 'LTC', name: 'Legacy (Ledger Live, Trezor, Exodus)', template: "m/44'/2'/{account}'/{change}/{index}", scriptType: 'p2pkh' },
+
+  // Solana
+  { id: 'sol-phantom', chain: 'SOL', name: 'Phantom, Solflare, Trezor', template: "m/44'/501'/{account}'/0'" },
+  { id: 'sol-ledger-live', chain: 'SOL', name: 'Ledger Live', template: "m/44'/501'/{account}'" },
+].map(preset => ({ ...preset, preset: true } as PathTemplate));
+
+export function isPathTemplate(path: string): boolean {
+  return PLACEHOLDER_PATTERN.test(path);
+}
+
+/**
+ * Parse a path or template, throwing a descriptive error when it is malformed
+ * or breaks the hardening rules for the chain
+ */
+export function parsePathTemplate(template: string, chain?: string): PathSegment[] {
+  const parts = template.trim().split('/');
+  if (parts[0] !== 'm') {
+    throw new Error('Path must start with "m/"');
+  }
+  if (parts.length < 2) {
+    throw new Error('Path needs at least one level after "m"');
+  }
+
+  const seen = new Set<PathPlaceholder>();
+  const segments = parts.slice(1).map((part, i) => {
+    const match = /^(\d+|\{(account|change|index)\})(['hH]?)$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid segment "${part}" at level ${i + 1}`);
+    }
+
+    const placeholder = match[2] as PathPlaceholder | undefined;
+    if (placeholder) {
+      if (seen.has(placeholder)) {
+        throw new Error(`{${placeholder}} appears more than once`);
+      }
+      seen.add(placeholder);
+    } else if (Number(match[1]) > MAX_SEGMENT_INDEX) {
+      throw new Error(`Segment "${part}" is out of range`);
+    }
+
+    return { value: placeholder ?? Number(match[1]), hardened: match[3] !== '' };
+  });
+
+  if (chain && HARDENED_ONLY_CHAINS.includes(chain)) {
+    const soft = segments.findIndex(segment => !segment.hardened);
+    if (soft >= 0) {
+      throw new Error(`${chain} uses ed25519, so every level must be hardened (level ${soft + 1} is not)`);
+    }
+  }
+
+  if (typeof segments[0].value === 'number' && BIP43_PURPOSES.includes(segments[0].value)) {
+    const soft = segments.slice(0, 3).findIndex(segment => !segment.hardened);
+    if (soft >= 0) {
+      throw new Error(`Purpose, coin type and account levels must be hardened (level ${soft + 1} is not)`);
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Error message for an invalid template, or null when it is valid
+ */
+export function validatePathTemplate(template: string, chain?: string): string | null {
+  try {
+    parsePathTemplate(template, chain);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+/**
+ * Substitute the placeholders of a template
+ */
+export function renderPathTemplate(template: string, values: PathValues): string {
+  return template.trim().replace(/\{(account|change|index)\}/g, (_, name: PathPlaceholder) => String(values[name]));
+}
@@ -1,7 +1,9 @@
-import { BalanceResult } from './balanceChecker';
+import { BalanceResult } from './balanceEngine';
+import { getChainSymbol } from './chainRegistry';
 
 export interface WalletSummary {
   id: number;
+  seedId: number | null;
   chain: string;
   address: string;
   nativeBalance: string;
@@ -22,12 +24,20 @@ export interface ChainSummary {
   symbol: string;
 }
 
+export interface SeedSummary {
+  seedId: number | null; // null groups wallets imported without a seed
+  walletCount: number;
+  chainCount: number;
+  totalValue: number;
+}
+
 export interface PortfolioSummary {
   totalWallets: number;
   totalValue: number;
   totalNativeValue: number;
   totalTokenValue: number;
   chains: ChainSummary[];
+  seeds: SeedSummary[];
   wallets: WalletSummary[];
   topTokens: Array<{
     symbol: string;
@@ -44,6 +54,7 @@ export class PortfolioService {
   static generatePortfolioSummary(
     wallets: Array<{
       id: number;
+      seedId?: number | null;
       chain: string;
       address: string;
       balance?: string;
@@ -54,6 +65,7 @@ export class PortfolioService {
   ): PortfolioSummary {
     const walletSummaries: WalletSummary[] = [];
     const chainMap = new Map<string, ChainSummary>();
+    const seedMap = new Map<number | null, SeedSummary & { chainSet: Set<string> }>();
     const tokenMap = new Map<string, { 
       symbol: string; 
       name: string; 
@@ -98,10 +110,11 @@ export class PortfolioService {
 
       const walletSummary: WalletSummary = {
         id: wallet.id,
+        seedId: wallet.seedId ?? null,
         chain: wallet.chain,
         address: wallet.address,
         nativeBalance: balanceResult?.formattedBalance || wallet.balance || '0',
-        nativeSymbol: balanceResult?.symbol || this.getChainSymbol(wallet.chain),
+        nativeSymbol: balanceResult?.symbol || getChainSymbol(wallet.chain),
         nativeUsdValue,
         tokenCount,
         tokenUsdValue,
@@ -119,7 +132,7 @@ export class PortfolioService {
           totalNativeValue: 0,
           totalTokenValue: 0,
           totalValue: 0,
-          symbol: this.getChainSymbol(wallet.chain),
+          symbol: getChainSymbol(wallet.chain),
         });
       }
 
@@ -128,6 +141,23 @@ export class PortfolioService {
       chainSummary.totalNativeValue += nativeUsdValue;
       chainSummary.totalTokenValue += tokenUsdValue;
       chainSummary.totalValue += totalUsdValue;
+
+      // Update seed summary
+      const seedId = wallet.seedId ?? null;
+      if (!seedMap.has(seedId)) {
+        seedMap.set(seedId, {
+          seedId,
+          walletCount: 0,
+          chainCount: 0,
+          totalValue: 0,
+          chainSet: new Set(),
+        });
+      }
+
+      const seedSummary = seedMap.get(seedId)!;
+      seedSummary.walletCount++;
+      seedSummary.totalValue += totalUsdValue;
+      seedSummary.chainSet.add(wallet.chain);
     }
 
     // Calculate totals
@@ -152,6 +182,9 @@ export class PortfolioService {
       totalNativeValue,
       totalTokenValue,
       chains: Array.from(chainMap.values()).sort((a, b) => b.totalValue - a.totalValue),
+      seeds: Array.from(seedMap.values())
+        .map(({ chainSet, ...seed }) => ({ ...seed, chainCount: chainSet.size }))
+        .sort((a, b) => b.totalValue - a.totalValue),
       wallets: walletSummaries.sort((a, b) => b.totalUsdValue - a.totalUsdValue),
       topTokens,
     };
@@ -212,29 +245,4 @@ export class PortfolioService {
       return `$${value.toFixed(2)}`;
     }
   }
-
-  /**
-   * Get chain symbol
-   */
-  private static getChainSymbol(chain: string): string {
-    const symbols: Record<string, string> = {
-      ETH: 'ETH',
-      BSC: 'BNB',
-      POLYGON: 'MATIC',
-      AVALANCHE: 'AVAX',
-      ARBITRUM: 'ETH',
-      OPTIMISM: 'ETH',
-      BASE: 'ETH',
-      FANTOM: 'FTM',
-      CRONOS: 'CRO',
-      CELO: 'CELO',
-      BTC: 'BTC',
-      LTC: 'LTC',
-      DOGE: 'DOGE',
-      SOL: 'SOL',
-      XMR: 'XMR',
-    };
-    
-    return symbols[chain] || chain;
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,186 @@
+import { ethers } from 'ethers';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { sha256 } from '@noble/hashes/sha256';
+import { createBase58check } from '@scure/base';
+import { Buffer } from '../polyfills';
+import { WalletDerivationService, DerivedWallet, BitcoinScriptType, LEGACY_ADDRESS_TYPES } from './walletDerivation';
+import { CHAIN_CONFIGS, getChainKeys, isEvmChain } from './chainRegistry';
+import { isBip38Key, decryptBip38 } from './bip38';
+
+// Single private keys imported without a mnemonic: Bitcoin-family WIF,
+// raw hex keys for EVM chains and BIP38 passphrase-encrypted keys.
+
+export type PrivateKeyFormat = 'wif' | 'hex' | 'bip38';
+
+export interface ParsedPrivateKey {
+  format: PrivateKeyFormat;
+  privateKey: Uint8Array;
+  compressed: boolean;
+  chain?: string;                 // network from the WIF version byte
+  scriptType?: BitcoinScriptType; // from an Electrum-style "p2wpkh:" prefix
+}
+
+const base58check = createBase58check(sha256);
+
+const UTXO_CHAINS = getChainKeys({ family: 'utxo' });
+
+// Electrum exports WIF keys with the script type in front
+const ELECTRUM_PREFIXES: Record<string, BitcoinScriptType> = {
+  'p2pkh': 'p2pkh',
+  'p2wpkh': 'p2wpkh',
+  'p2wpkh-p2sh': 'p2sh-p2wpkh',
+  'p2tr': 'p2tr',
+};
+
+const SCRIPT_TYPES: BitcoinScriptType[] = ['p2wpkh', 'p2tr', 'p2sh-p2wpkh', 'p2pkh'];
+
+export class PrivateKeyImport {
+  /**
+   * Guess the format of a pasted key, or null when it is none of the supported ones
+   */
+  static detectFormat(input: string): PrivateKeyFormat | null {
+    const value = this.stripElectrumPrefix(input.trim()).key;
+    if (isBip38Key(value)) return 'bip38';
+    if (/^(0x)?[0-9a-fA-F]{64}$/.test(value)) return 'hex';
+    if (/^[1-9A-HJ-NP-Za-km-z]{51,52}$/.test(value)) return 'wif';
+    return null;
+  }
+
+  /**
+   * EVM chains a raw hex key can be imported for
+   */
+  static getEvmChains(): string[] {
+    return getChainKeys({ family: 'evm' });
+  }
+
+  /**
+   * Decode a WIF, hex or BIP38 key. BIP38 keys need the passphrase they were
+   * encrypted with and decrypt to a Bitcoin mainnet key.
+   */
+  static async parse(input: string, passphrase: string = ''): Promise<ParsedPrivateKey> {
+    const { key, scriptType } = this.stripElectrumPrefix(input.trim());
+    const format = this.detectFormat(key);
+
+    switch (format) {
+      case 'bip38': {
+        if (!passphrase) {
+          throw new Error('Enter the passphrase for this BIP38 key');
+        }
+        const decrypted = await decryptBip38(key, passphrase);
+        return { format, ...decrypted, chain: 'BTC', scriptType };
+      }
+      case 'hex': {
+        const privateKey = Uint8Array.from(Buffer.from(key.replace(/^0x/, ''), 'hex'));
+        this.assertValidScalar(privateKey);
+        return { format, privateKey, compressed: false };
+      }
+      case 'wif':
+        return { format, ...this.decodeWif(key), scriptType };
+      default:
+        throw new Error('Not a WIF, hex or BIP38 private key');
+    }
+  }
+
+  /**
+   * Wallet rows for a parsed key. UTXO keys get one wallet per script type
+   * (uncompressed keys only have legacy addresses); hex keys need an EVM chain.
+   */
+  static toWallets(parsed: ParsedPrivateKey, options: { chain?: string; scriptTypes?: BitcoinScriptType[] } = {}): DerivedWallet[] {
+    const chain = parsed.chain ?? options.chain;
+    if (!chain || !CHAIN_CONFIGS[chain]) {
+      throw new Error('Choose a chain for this key');
+    }
+
+    if (!UTXO_CHAINS.includes(chain)) {
+      if (!isEvmChain(chain)) {
+        throw new Error(`Raw private keys can only be imported for EVM chains, not ${chain}`);
+      }
+      const wallet = new ethers.Wallet('0x' + Buffer.from(parsed.privateKey).toString('hex'));
+      return [{
+        chain,
+        derivationPath: '',
+        publicKey: wallet.signingKey.publicKey,
+        privateKey: wallet.privateKey,
+        address: wallet.address,
+        metadata: {
+          source: parsed.format,
+          chainId: CHAIN_CONFIGS[chain].chainId,
+          compressed: false,
+        },
+      }];
+    }
+
+    const publicKey = secp256k1.getPublicKey(parsed.privateKey, parsed.compressed);
+    return this.getScriptTypes(parsed, chain, options.scriptTypes).map(scriptType => ({
+      chain,
+      derivationPath: '',
+      publicKey: Buffer.from(publicKey).toString('hex'),
+      privateKey: Buffer.from(parsed.privateKey).toString('hex'),
+      address: WalletDerivationService.getBitcoinAddress(publicKey, chain, scriptType),
+      metadata: {
+        source: parsed.format,
+        network: chain,
+        scriptType,
+        addressType: LEGACY_ADDRESS_TYPES[scriptType],
+        compressed: parsed.compressed,
+      },
+    }));
+  }
+
+  /**
+   * Script types a key can be used with on a chain. SegWit and Taproot
+   * require a compressed key and a network with bech32 addresses.
+   */
+  static getScriptTypes(parsed: ParsedPrivateKey, chain: string, requested?: BitcoinScriptType[]): BitcoinScriptType[] {
+    const available = parsed.compressed && CHAIN_CONFIGS[chain].network.bech32 ? SCRIPT_TYPES : ['p2pkh' as BitcoinScriptType];
+    const wanted = requested ?? (parsed.scriptType ? [parsed.scriptType] : available);
+    const usable = wanted.filter(type => available.includes(type));
+
+    if (usable.length === 0) {
+      throw new Error(parsed.compressed
+        ? `${chain} does not support ${wanted.join(', ')} addresses`
+        : 'Uncompressed keys only have legacy (P2PKH) addresses');
+    }
+    return usable;
+  }
+
+  private static stripElectrumPrefix(input: string): { key: string; scriptType?: BitcoinScriptType } {
+    const separator = input.indexOf(':');
+    if (separator === -1) {
+      return { key: input };
+    }
+
+    const scriptType = ELECTRUM_PREFIXES[input.slice(0, separator).toLowerCase()];
+    return scriptType ? { key: input.slice(separator + 1).trim(), scriptType } : { key: input };
+  }
+
+  // version || key || 0x01 when the public key is compressed
+  private static decodeWif(wif: string): Omit<ParsedPrivateKey, 'format'> {
+    let payload: Uint8Array;
+    try {
+      payload = base58check.decode(wif);
+    } catch {
+      throw new Error('Invalid WIF checksum');
+    }
+
+    const compressed = payload.length === 34 && payload[33] === 0x01;
+    if (!compressed && payload.length !== 33) {
+      throw new Error('Invalid WIF length');
+    }
+
+    const chain = UTXO_CHAINS.find(c => CHAIN_CONFIGS[c].network.wif === payload[0]);
+    if (!chain) {
+      throw new Error(`Unknown WIF version byte 0x${payload[0].toString(16).padStart(2, '0')}`);
+    }
+
+    const privateKey = payload.slice(1, 33);
+    this.assertValidScalar(privateKey);
+    return { privateKey, compressed, chain };
+  }
+
+  private static assertValidScalar(privateKey: Uint8Array): void {
+    if (!secp256k1.utils.isValidPrivateKey(privateKey)) {
+      throw new Error('Private key is out of range');
+    }
+  }
+}
@@ -0,0 +1,394 @@
+import { ethers } from 'ethers';
+import { CHAIN_CONFIGS, getRpcUrls } from './chainRegistry';
+import { RpcNode } from './rpcNodes';
+
+// Picks the JSON-RPC endpoint for each call. The user's nodes (by priority)
+// come before the registry's public endpoints; every call and health probe
+// updates an endpoint's latency, error rate and block lag, and calls fail
+// over to the next endpoint when one does not answer.
+
+export interface EndpointHealth {
+  url: string;
+  name: string;
+  source: 'user' | 'default';
+  priority?: number;      // user nodes
+  latency?: number;       // ms, moving average
+  errorRate: number;      // failed share of recent calls, 0-1
+  calls: number;          // recent calls the error rate is based on
+  blockHeight?: number;   // at the last health check
+  lag?: number;           // blocks behind the highest endpoint at the last check
+  lastError?: string;
+  coolingDown: boolean;   // tried last until it has rested after failures
+  wrongChain: boolean;    // the last health check found another chain id; never used
+  score: number;          // 0-100
+}
+
+interface EndpointStats {
+  outcomes: boolean[];
+  latency?: number;
+  blockHeight?: number;
+  lag?: number;
+  lastError?: string;
+  failures: number;       // in a row
+  cooldownUntil: number;
+  wrongChain?: boolean;
+}
+
+const RPC_TIMEOUT = 10000;
+const OUTCOME_WINDOW = 20;
+const LATENCY_SMOOTHING = 0.3;
+const FAILURES_BEFORE_COOLDOWN = 3;
+const COOLDOWN = 60 * 1000;
+const HEALTH_CHECK_INTERVAL = 5 * 60 * 1000;
+const UNTESTED_SCORE = 75;
+
+// Blocks an endpoint may trail the best one before it counts as stale; wide
+// enough for fast L2 blocks and Solana slots arriving while probes run
+const MAX_LAG: Record<string, number> = { evm: 20, solana: 150 };
+
+// Errors caused by the request rather than the endpoint; every endpoint would fail them
+const REQUEST_ERRORS = ['INVALID_ARGUMENT', 'CALL_EXCEPTION', 'NUMERIC_FAULT'];
+
+// An endpoint answering for another network would report its balances
+class WrongChainError extends Error {}
+
+export class RpcManager {
+  private static userNodes: RpcNode[] = [];
+  private static stats = new Map<string, EndpointStats>();
+  private static providers = new Map<string, ethers.JsonRpcProvider>();
+  private static lastHealthCheck = new Map<string, number>();
+  // Endpoints confirmed to serve their chain, or being checked
+  private static chainChecks = new Map<string, Promise<void>>();
+  private static listeners = new Set<() => void>();
+
+  /**
+   * Replace the user's nodes. Called when an identity's nodes load or change.
+   */
+  static setUserNodes(nodes: RpcNode[]) {
+    this.userNodes = nodes;
+    this.notify();
+  }
+
+  /**
+   * Be told whenever endpoint health changes; returns the unsubscribe function
+   */
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Endpoints of a chain in the order calls try them
+   */
+  static getEndpoints(chain: string): string[] {
+    return this.getHealth(chain).map(endpoint => endpoint.url);
+  }
+
+  /**
+   * Health of each endpoint of a chain, in the order calls try them. Endpoints
+   * of another chain go last, then those resting after failures, then stale
+   * ones; otherwise user nodes keep their priority order and public endpoints
+   * are ranked by score. Disabling a user node with a public endpoint's URL
+   * drops that endpoint too.
+   */
+  static getHealth(chain: string): EndpointHealth[] {
+    const nodes = this.userNodes.filter(node => node.chain === chain);
+    const disabled = new Set(nodes.filter(node => !node.isActive).map(node => node.url));
+    const endpoints: EndpointHealth[] = [];
+
+    const active = nodes.filter(node => node.isActive).sort((a, b) => b.priority - a.priority);
+    for (const node of active) {
+      if (!endpoints.some(endpoint => endpoint.url === node.url)) {
+        endpoints.push(this.describe(chain, node.url, 'user', node.name, node.priority));
+      }
+    }
+    for (const url of getRpcUrls(chain)) {
+      if (!disabled.has(url) && !endpoints.some(endpoint => endpoint.url === url)) {
+        endpoints.push(this.describe(chain, url, 'default', 'Public'));
+      }
+    }
+
+    const maxLag = this.getMaxLag(chain);
+    const tier = (endpoint: EndpointHealth) =>
+      endpoint.wrongChain ? 3 : endpoint.coolingDown ? 2 : (endpoint.lag ?? 0) > maxLag ? 1 : 0;
+
+    return endpoints
+      .map((endpoint, index) => ({ endpoint, index }))
+      .sort((a, b) => tier(a.endpoint) - tier(b.endpoint)
+        || (a.endpoint.source === 'default' && b.endpoint.source === 'default'
+          ? b.endpoint.score - a.endpoint.score || a.index - b.index
+          : a.index - b.index))
+      .map(({ endpoint }) => endpoint);
+  }
+
+  /**
+   * Run a call against a chain's endpoints, moving on to the next one when an
+   * endpoint fails. Errors about the request itself are thrown straight away.
+   * An EVM endpoint's chain id is checked before its first call.
+   */
+  static async withEndpoint<T>(chain: string, task: (url: string) => Promise<T>): Promise<T> {
+    const endpoints = this.getHealth(chain)
+      .filter(endpoint => !endpoint.wrongChain)
+      .map(endpoint => endpoint.url);
+    if (endpoints.length === 0) {
+      throw new Error(`No RPC endpoints configured for ${chain}`);
+    }
+    this.scheduleHealthCheck(chain);
+
+    let lastError: any = null;
+    for (const url of endpoints) {
+      try {
+        await this.verifyChain(chain, url);
+      } catch (error: any) {
+        console.warn(`❌ RPC ${url} is not usable for ${chain}:`, error?.message);
+        this.recordFailure(chain, url, error, true);
+        lastError = error;
+        continue;
+      }
+
+      const started = Date.now();
+      try {
+        const result = await task(url);
+        this.recordSuccess(chain, url, Date.now() - started);
+        return result;
+      } catch (error: any) {
+        if (REQUEST_ERRORS.includes(error?.code)) {
+          throw error;
+        }
+        console.warn(`❌ RPC ${url} failed for ${chain}, trying the next endpoint:`, error?.message);
+        this.recordFailure(chain, url, error);
+        lastError = error;
+      }
+    }
+
+    throw new Error(`All RPC endpoints failed for ${chain}: ${lastError?.message}`);
+  }
+
+  /**
+   * withEndpoint for ethers calls on an EVM chain
+   */
+  static withProvider<T>(chain: string, task: (provider: ethers.JsonRpcProvider, url: string) => Promise<T>): Promise<T> {
+    return this.withEndpoint(chain, url => task(this.getProvider(chain, url), url));
+  }
+
+  /**
+   * Cached ethers provider for one endpoint of an EVM chain
+   */
+  static getProvider(chain: string, url: string): ethers.JsonRpcProvider {
+    const key = `${chain} ${url}`;
+    let provider = this.providers.get(key);
+    if (!provider) {
+      const request = new ethers.FetchRequest(url);
+      request.timeout = RPC_TIMEOUT;
+      // With the chain id known up front the provider skips eth_chainId before
+      // its first call; withEndpoint confirms each endpoint serves that chain
+      const chainId = CHAIN_CONFIGS[chain]?.chainId;
+      provider = new ethers.JsonRpcProvider(request, chainId, chainId ? { staticNetwork: true } : undefined);
+      this.providers.set(key, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Block height (slot on Solana) an endpoint is at. Throws when it does not
+   * answer or, on EVM chains, serves a different chain id.
+   */
+  static async getBlockHeight(chain: string, url: string): Promise<number> {
+    if (CHAIN_CONFIGS[chain]?.family === 'solana') {
+      return Number(await this.request(url, 'getSlot'));
+    }
+
+    const expected = CHAIN_CONFIGS[chain]?.chainId;
+    if (expected !== undefined) {
+      const chainId = Number(BigInt(await this.request(url, 'eth_chainId')));
+      if (chainId !== expected) {
+        throw new WrongChainError(`Serves chain id ${chainId}, not ${expected}`);
+      }
+    }
+    return Number(BigInt(await this.request(url, 'eth_blockNumber')));
+  }
+
+  /**
+   * Probe every endpoint of a chain at once, recording latency and how far
+   * each one trails the highest block. An endpoint failing the probe rests
+   * straight away.
+   */
+  static async checkHealth(chain: string): Promise<EndpointHealth[]> {
+    this.lastHealthCheck.set(chain, Date.now());
+    const endpoints = this.getEndpoints(chain);
+
+    const heights = await Promise.all(endpoints.map(async url => {
+      const started = Date.now();
+      const stats = this.getStats(chain, url);
+      try {
+        const height = await this.getBlockHeight(chain, url);
+        stats.wrongChain = false;
+        this.chainChecks.set(`${chain} ${url}`, Promise.resolve());
+        this.recordSuccess(chain, url, Date.now() - started);
+        return height;
+      } catch (error) {
+        stats.wrongChain = error instanceof WrongChainError;
+        this.recordFailure(chain, url, error, true);
+        return undefined;
+      }
+    }));
+
+    const best = Math.max(0, ...heights.filter((height): height is number => height !== undefined));
+    endpoints.forEach((url, index) => {
+      const stats = this.getStats(chain, url);
+      stats.blockHeight = heights[index];
+      stats.lag = heights[index] === undefined ? undefined : best - heights[index]!;
+    });
+
+    this.notify();
+    return this.getHealth(chain);
+  }
+
+  /**
+   * Forget recorded health, so every endpoint is tried afresh
+   */
+  static resetHealth(chain?: string) {
+    for (const key of [...this.stats.keys()]) {
+      if (!chain || key.startsWith(`${chain} `)) {
+        this.stats.delete(key);
+      }
+    }
+    for (const key of [...this.chainChecks.keys()]) {
+      if (!chain || key.startsWith(`${chain} `)) {
+        this.chainChecks.delete(key);
+      }
+    }
+    if (chain) this.lastHealthCheck.delete(chain);
+    else this.lastHealthCheck.clear();
+    this.notify();
+  }
+
+  // Ask an EVM endpoint for its chain id once; staticNetwork providers never do.
+  // A failed check is repeated on the endpoint's next use.
+  private static verifyChain(chain: string, url: string): Promise<void> {
+    const expected = CHAIN_CONFIGS[chain]?.chainId;
+    if (expected === undefined) return Promise.resolve();
+
+    const key = `${chain} ${url}`;
+    let check = this.chainChecks.get(key);
+    if (!check) {
+      check = (async () => {
+        const chainId = Number(BigInt(await this.request(url, 'eth_chainId')));
+        if (chainId !== expected) {
+          this.getStats(chain, url).wrongChain = true;
+          this.notify();
+          throw new WrongChainError(`Serves chain id ${chainId}, not ${expected}`);
+        }
+      })();
+      check.catch(() => {
+        if (this.chainChecks.get(key) === check) this.chainChecks.delete(key);
+      });
+      this.chainChecks.set(key, check);
+    }
+    return check;
+  }
+
+  // Refresh block lag in the background once it is out of date
+  private static scheduleHealthCheck(chain: string) {
+    if (Date.now() - (this.lastHealthCheck.get(chain) || 0) < HEALTH_CHECK_INTERVAL) return;
+
+    this.checkHealth(chain).catch(error => {
+      console.warn(`Health check failed for ${chain}:`, error);
+    });
+  }
+
+  private static async request(url: string, method: string, params: any[] = []): Promise<any> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+      signal: AbortSignal.timeout(RPC_TIMEOUT),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const body = await response.json();
+    if (body.error) {
+      throw new Error(body.error.message || `RPC error ${body.error.code}`);
+    }
+    return body.result;
+  }
+
+  private static describe(chain: string, url: string, source: EndpointHealth['source'], name: string, priority?: number): EndpointHealth {
+    const stats = this.stats.get(`${chain} ${url}`);
+    const calls = stats?.outcomes.length || 0;
+    const errorRate = calls ? stats!.outcomes.filter(ok => !ok).length / calls : 0;
+
+    return {
+      url,
+      name,
+      source,
+      priority,
+      latency: stats?.latency,
+      errorRate,
+      calls,
+      blockHeight: stats?.blockHeight,
+      lag: stats?.lag,
+      lastError: stats?.lastError,
+      coolingDown: Boolean(stats && stats.cooldownUntil > Date.now()),
+      wrongChain: Boolean(stats?.wrongChain),
+      score: this.score(chain, stats, errorRate),
+    };
+  }
+
+  // 100 for a fast, reliable, current endpoint; errors weigh most
+  private static score(chain: string, stats: EndpointStats | undefined, errorRate: number): number {
+    if (!stats || stats.outcomes.length === 0) return UNTESTED_SCORE;
+
+    let score = 100 - errorRate * 60 - Math.min((stats.latency || 0) / 100, 20);
+    if (stats.lag) {
+      score -= Math.min(stats.lag / this.getMaxLag(chain), 1) * 20;
+    }
+    return Math.max(0, Math.round(score));
+  }
+
+  private static getMaxLag(chain: string): number {
+    return MAX_LAG[CHAIN_CONFIGS[chain]?.family] ?? MAX_LAG.evm;
+  }
+
+  private static getStats(chain: string, url: string): EndpointStats {
+    const key = `${chain} ${url}`;
+    let stats = this.stats.get(key);
+    if (!stats) {
+      stats = { outcomes: [], failures: 0, cooldownUntil: 0 };
+      this.stats.set(key, stats);
+    }
+    return stats;
+  }
+
+  private static recordSuccess(chain: string, url: string, latency: number) {
+    const stats = this.getStats(chain, url);
+    stats.outcomes = [...stats.outcomes, true].slice(-OUTCOME_WINDOW);
+    stats.latency = stats.latency === undefined
+      ? latency
+      : Math.round(stats.latency * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING);
+    stats.failures = 0;
+    stats.cooldownUntil = 0;
+    stats.lastError = undefined;
+    this.notify();
+  }
+
+  private static recordFailure(chain: string, url: string, error: any, rest = false) {
+    const stats = this.getStats(chain, url);
+    stats.outcomes = [...stats.outcomes, false].slice(-OUTCOME_WINDOW);
+    stats.failures++;
+    stats.lastError = error?.shortMessage || error?.message || String(error);
+    if (rest || stats.failures >= FAILURES_BEFORE_COOLDOWN) {
+      stats.cooldownUntil = Date.now() + COOLDOWN;
+    }
+    this.notify();
+  }
+
+  private static notify() {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { CHAIN_CONFIGS, isCustomChain } from './chainRegistry';
+
+// RPC endpoints the user added for a chain: validation shared by the main
+// process and the browser store. RpcManager merges them with the registry's
+// public endpoints.
+
+export interface RpcNode {
+  id: number;
+  chain: string;
+  url: string;
+  name: string;
+  priority: number;     // higher is tried first
+  isActive: boolean;
+}
+
+export type RpcNodeInput = Omit<RpcNode, 'id'>;
+
+// Families whose balances are read over JSON-RPC
+const RPC_FAMILIES = ['evm', 'solana'];
+
+/**
+ * Whether balance checks on a chain go through JSON-RPC endpoints. Custom
+ * networks are EVM, and the main process does not load them into its registry.
+ */
+export function supportsRpcNodes(chain: string): boolean {
+  return isCustomChain(chain) || RPC_FAMILIES.includes(CHAIN_CONFIGS[chain]?.family);
+}
+
+/**
+ * Why a node cannot be saved, or null when it can
+ */
+export function validateRpcNode(node: RpcNodeInput): string | null {
+  if (!supportsRpcNodes(node.chain)) {
+    return `${node.chain || 'This chain'} is not checked over JSON-RPC`;
+  }
+  try {
+    const { protocol } = new URL(node.url);
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      return 'RPC URL must start with http:// or https://';
+    }
+  } catch {
+    return 'Invalid RPC URL';
+  }
+  if (!Number.isInteger(node.priority)) {
+    return 'Priority must be a whole number';
+  }
+  return null;
+}
+
+/**
+ * Trim a node and fill in the defaults of the rpc_nodes table
+ */
+export function normalizeRpcNode(node: Partial<RpcNodeInput>): RpcNodeInput {
+  return {
+    chain: (node.chain || '').trim().toUpperCase(),
+    url: (node.url || '').trim(),
+    name: node.name?.trim() || 'Custom Node',
+    priority: Number(node.priority ?? 0),
+    isActive: node.isActive ?? true,
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { deriveEd25519, parseHardenedPath } from './slip10';
+
+// SLIP-10 ed25519 test vector 1; public keys are listed with a 00 prefix there
+const SEED = hexToBytes('000102030405060708090a0b0c0d0e0f');
+
+const VECTORS = [
+  {
+    path: 'm',
+    chainCode: '90046a93de5380a72b5e45010748567d5ea02bbf6522f979e05c0d8d8ca9fffb',
+    privateKey: '2b4be7f19ee27bbf30c667b642d5f4aa69fd169872f8fc3059c08ebae2eb19e7',
+    publicKey: 'a4b2856bfec510abab89753fac1ac0e1112364e7d250545963f135f2a33188ed',
+  },
+  {
+    path: "m/0'",
+    chainCode: '8b59aa11380b624e81507a27fedda59fea6d0b779a778918a2fd3590e16e9c69',
+    privateKey: '68e0fe46dfb67e368c75379acec591dad19df3cde26e63b93a8e704f1dade7a3',
+    publicKey: '8c8a13df77a28f3445213a0f432fde644acaa215fc72dcdf300d5efaa85d350c',
+  },
+  {
+    path: "m/0'/1'",
+    chainCode: 'a320425f77d1b5c2505a6b1b27382b37368ee640e3557c315416801243552f14',
+    privateKey: 'b1d0bad404bf35da785a64ca1ac54b2617211d2777696fbffaf208f746ae84f2',
+    publicKey: '1932a5270f335bed617d5b935c80aedb1a35bd9fc1e31acafd5372c30f5c1187',
+  },
+  {
+    path: "m/0'/1'/2'/2'/1000000000'",
+    chainCode: '68789923a0cac2cd5a29172a475fe9e0fb14cd6adb5ad98a3fa70333e7afa230',
+    privateKey: '8f94d394a8e8fd6b1bc2f3f49f5c47e385281d5c17e65324b0f62483e37e8793',
+    publicKey: '3c24da049451555d51a7014a37337aa4e12d41e485abccfa46b47dfb2af54b7a',
+  },
+];
+
+describe('deriveEd25519', () => {
+  for (const vector of VECTORS) {
+    it(`derives ${vector.path}`, () => {
+      const keypair = deriveEd25519(SEED, vector.path);
+      expect(bytesToHex(keypair.chainCode)).toBe(vector.chainCode);
+      expect(bytesToHex(keypair.privateKey)).toBe(vector.privateKey);
+      expect(bytesToHex(keypair.publicKey)).toBe(vector.publicKey);
+    });
+  }
+});
+
+describe('parseHardenedPath', () => {
+  it('rejects unhardened steps', () => {
+    expect(() => parseHardenedPath("m/44'/501'/0")).toThrow('only supports hardened derivation');
+  });
+});
@@ -0,0 +1,88 @@
+import { hmac } from '@noble/hashes/hmac';
+import { sha512 } from '@noble/hashes/sha512';
+import { ed25519 } from '@noble/curves/ed25519';
+import { base58 } from '@scure/base';
+
+// SLIP-10 ed25519 derivation and the Solana key encodings built on it.
+// Kept free of Buffer and renderer polyfills so the main process can use it too.
+
+const ED25519_SEED_KEY = new TextEncoder().encode('ed25519 seed');
+const HARDENED_OFFSET = 0x80000000;
+
+export interface Ed25519Keypair {
+  privateKey: Uint8Array; // 32-byte seed
+  publicKey: Uint8Array;  // 32 bytes
+  chainCode: Uint8Array;
+}
+
+/**
+ * Parse a derivation path where every segment is hardened, as SLIP-10 ed25519 requires
+ */
+export function parseHardenedPath(path: string): number[] {
+  const segments = path.trim().split('/');
+  if (segments[0] !== 'm') {
+    throw new Error(`Derivation path must start with "m": ${path}`);
+  }
+
+  return segments.slice(1).map(segment => {
+    const match = /^(\d+)['hH]$/.exec(segment);
+    if (!match) {
+      throw new Error(`ed25519 only supports hardened derivation, got "${segment}" in ${path}`);
+    }
+    const index = Number(match[1]);
+    if (index >= HARDENED_OFFSET) {
+      throw new Error(`Invalid derivation index "${segment}" in ${path}`);
+    }
+    return index + HARDENED_OFFSET;
+  });
+}
+
+/**
+ * Derive an ed25519 keypair from a BIP39 seed following SLIP-10
+ */
+export function deriveEd25519(seed: Uint8Array, path: string): Ed25519Keypair {
+  let I = hmac(sha512, ED25519_SEED_KEY, seed);
+  let privateKey = I.slice(0, 32);
+  let chainCode = I.slice(32);
+
+  for (const index of parseHardenedPath(path)) {
+    const data = new Uint8Array(37);
+    data.set(privateKey, 1); // 0x00 || key || ser32(index)
+    new DataView(data.buffer).setUint32(33, index, false);
+
+    I = hmac(sha512, chainCode, data);
+    privateKey = I.slice(0, 32);
+    chainCode = I.slice(32);
+  }
+
+  return {
+    privateKey,
+    publicKey: ed25519.getPublicKey(privateKey),
+    chainCode,
+  };
+}
+
+/**
+ * Solana address: base58 of the 32-byte ed25519 public key
+ */
+export function toSolanaAddress(publicKey: Uint8Array): string {
+  return base58.encode(publicKey);
+}
+
+/**
+ * Solana secret key as exported by Phantom and Solflare: base58 of seed || public key
+ */
+export function toSolanaSecretKey(keypair: Ed25519Keypair): string {
+  const secretKey = new Uint8Array(64);
+  secretKey.set(keypair.privateKey, 0);
+  secretKey.set(keypair.publicKey, 32);
+  return base58.encode(secretKey);
+}
+
+export function isValidSolanaAddress(address: string): boolean {
+  try {
+    return base58.decode(address).length === 32;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { bytesToHex } from '@noble/hashes/utils';
+import { getRecoveryProgress, recoverMasterSecret, recoverSeed, splitMasterSecret } from './slip39';
+
+// SLIP-39 test vectors, all with the passphrase "TREZOR"
+const PASSPHRASE = 'TREZOR';
+
+describe('recoverMasterSecret', () => {
+  it('recovers a single share', async () => {
+    const secret = await recoverMasterSecret([
+      'duckling enlarge academic academic agency result length solution fridge kidney coal piece deal husband erode duke ajar critical decision keyboard',
+    ], PASSPHRASE);
+    expect(bytesToHex(secret)).toBe('bb54aac4b89dc868ba37d9cc21b2cece');
+  });
+
+  it('recovers from a threshold of shares', async () => {
+    const secret = await recoverMasterSecret([
+      'shadow pistol academic always adequate wildlife fancy gross oasis cylinder mustang wrist rescue view short owner flip making coding armed',
+      'shadow pistol academic acid actress prayer class unknown daughter sweater depict flip twice unkind craft early superior advocate guest smoking',
+    ], PASSPHRASE);
+    expect(bytesToHex(secret)).toBe('b43ceb7e57a0ea8766221624d01b0864');
+  });
+
+  it('rejects a share with a bad checksum', async () => {
+    await expect(recoverMasterSecret([
+      'duckling enlarge academic academic agency result length solution fridge kidney coal piece deal husband erode duke ajar critical decision kidney',
+    ], PASSPHRASE)).rejects.toThrow();
+  });
+
+  it('reports missing shares', () => {
+    const progress = getRecoveryProgress([
+      'shadow pistol academic always adequate wildlife fancy gross oasis cylinder mustang wrist rescue view short owner flip making coding armed',
+    ]);
+    expect(progress.recoverable).toBe(false);
+  });
+});
+
+describe('splitMasterSecret', () => {
+  it('recovers what it splits', async () => {
+    const secret = Uint8Array.from({ length: 16 }, (_, i) => i);
+    const [shares] = await splitMasterSecret(secret, 1, [{ threshold: 2, count: 3 }], { passphrase: PASSPHRASE, iterationExponent: 0 });
+
+    expect(bytesToHex(await recoverMasterSecret(shares.slice(1), PASSPHRASE))).toBe(bytesToHex(secret));
+    expect(await recoverSeed(shares.slice(0, 2), PASSPHRASE)).toBe(`slip39:${bytesToHex(secret)}`);
+  });
+});
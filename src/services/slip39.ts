@@ -0,0 +1,441 @@
+import * as bip39 from 'bip39';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha256';
+import { hmac } from '@noble/hashes/hmac';
+import { randomBytes } from '@noble/hashes/utils';
+import { Buffer } from '../polyfills';
+import { SLIP39_WORDLIST } from './slip39Wordlist';
+import { formatMasterSecret, parseMasterSecret } from './masterSecret';
+
+// SLIP-39 Shamir backups: a master secret split into groups of mnemonic
+// shares, two-level (group threshold, then member threshold per group).
+// As SLIP-39 specifies, the master secret is the BIP32 seed: backups made here
+// split the BIP39 seed of an existing phrase, so any SLIP-39 wallet restores
+// the same wallets, and shares from other wallets restore theirs.
+
+export interface Slip39GroupConfig {
+  threshold: number; // member shares needed from this group
+  count: number;     // member shares created in this group
+}
+
+export interface Slip39SplitOptions {
+  passphrase?: string;        // encrypts the master secret; not the BIP39 passphrase
+  iterationExponent?: number; // PBKDF2 work factor, 10000 << e iterations in total
+  extendable?: boolean;       // allow more shares for the same secret later
+}
+
+export interface Slip39Share {
+  identifier: number;
+  extendable: boolean;
+  iterationExponent: number;
+  groupIndex: number;
+  groupThreshold: number;
+  groupCount: number;
+  memberIndex: number;
+  memberThreshold: number;
+  value: Uint8Array;
+}
+
+export interface Slip39GroupProgress {
+  groupIndex: number;
+  memberThreshold: number;
+  memberIndices: number[];
+  complete: boolean;
+}
+
+export interface Slip39RecoveryProgress {
+  identifier: number;
+  groupThreshold: number;
+  groupCount: number;
+  groups: Slip39GroupProgress[];
+  completeGroups: number;
+  recoverable: boolean;
+}
+
+const RADIX_BITS = 10;
+const ID_LENGTH_BITS = 15;
+const CHECKSUM_WORDS = 3;
+const METADATA_WORDS = 4;            // identifier, flags, group and member parameters
+const MIN_MNEMONIC_WORDS = METADATA_WORDS + CHECKSUM_WORDS + 13; // 128-bit secret
+const MIN_SECRET_BYTES = 16;
+const MAX_SHARE_COUNT = 16;
+const DIGEST_LENGTH = 4;
+const SECRET_INDEX = 255;
+const DIGEST_INDEX = 254;
+const ROUND_COUNT = 4;
+const BASE_ITERATION_COUNT = 10000;
+const DEFAULT_ITERATION_EXPONENT = 1;
+
+const CUSTOMIZATION = 'shamir';
+const CUSTOMIZATION_EXTENDABLE = 'shamir_extendable';
+
+const RS1024_GENERATORS = [
+  0xe0e040, 0x1c1c080, 0x3838100, 0x7070200, 0xe0e0009,
+  0x1c0c2412, 0x38086c24, 0x3090fc48, 0x21b1f890, 0x3f3f120,
+];
+
+const WORD_INDEX = new Map(SLIP39_WORDLIST.map((word, i) => [word, i]));
+
+// GF(256) with the Rijndael polynomial x^8 + x^4 + x^3 + x + 1
+const EXP_TABLE = new Uint8Array(255);
+const LOG_TABLE = new Uint8Array(256);
+for (let i = 0, poly = 1; i < 255; i++) {
+  EXP_TABLE[i] = poly;
+  LOG_TABLE[poly] = i;
+  poly = (poly << 1) ^ poly;
+  if (poly & 0x100) poly ^= 0x11b;
+}
+
+function rs1024Polymod(values: number[]): number {
+  let chk = 1;
+  for (const value of values) {
+    const top = chk >>> 20;
+    chk = (((chk & 0xfffff) << 10) ^ value) >>> 0;
+    RS1024_GENERATORS.forEach((generator, i) => {
+      if ((top >>> i) & 1) chk = (chk ^ generator) >>> 0;
+    });
+  }
+  return chk;
+}
+
+function customization(extendable: boolean): number[] {
+  return Array.from(extendable ? CUSTOMIZATION_EXTENDABLE : CUSTOMIZATION, c => c.charCodeAt(0));
+}
+
+function createChecksum(data: number[], extendable: boolean): number[] {
+  const polymod = rs1024Polymod([...customization(extendable), ...data, 0, 0, 0]) ^ 1;
+  return [2, 1, 0].map(i => (polymod >>> (RADIX_BITS * i)) & 1023);
+}
+
+// Shares are checked against the polynomial 1 when decoding
+function verifyChecksum(data: number[], extendable: boolean): boolean {
+  return rs1024Polymod([...customization(extendable), ...data]) === 1;
+}
+
+function interpolate(shares: [number, Uint8Array][], x: number): Uint8Array {
+  const exact = shares.find(([shareX]) => shareX === x);
+  if (exact) return exact[1];
+
+  const length = shares[0][1].length;
+  if (shares.some(([, value]) => value.length !== length)) {
+    throw new Error('All shares must have the same length');
+  }
+
+  const logProduct = shares.reduce((sum, [shareX]) => sum + LOG_TABLE[shareX ^ x], 0);
+  const result = new Uint8Array(length);
+
+  for (const [shareX, value] of shares) {
+    const otherLogs = shares.reduce((sum, [otherX]) => otherX === shareX ? sum : sum + LOG_TABLE[shareX ^ otherX], 0);
+    const logBasis = (((logProduct - LOG_TABLE[shareX ^ x] - otherLogs) % 255) + 255) % 255;
+    for (let i = 0; i < length; i++) {
+      if (value[i] !== 0) {
+        result[i] ^= EXP_TABLE[(LOG_TABLE[value[i]] + logBasis) % 255];
+      }
+    }
+  }
+  return result;
+}
+
+function createDigest(randomData: Uint8Array, secret: Uint8Array): Uint8Array {
+  return hmac(sha256, randomData, secret).slice(0, DIGEST_LENGTH);
+}
+
+function splitSecret(threshold: number, shareCount: number, secret: Uint8Array): [number, Uint8Array][] {
+  if (threshold < 1 || threshold > shareCount || shareCount > MAX_SHARE_COUNT) {
+    throw new Error(`Invalid threshold ${threshold} of ${shareCount}; up to ${MAX_SHARE_COUNT} shares are allowed`);
+  }
+
+  if (threshold === 1) {
+    return Array.from({ length: shareCount }, (_, i) => [i, secret]);
+  }
+
+  const randomShareCount = threshold - 2;
+  const shares: [number, Uint8Array][] = Array.from({ length: randomShareCount }, (_, i) => [i, randomBytes(secret.length)]);
+
+  const randomPart = randomBytes(secret.length - DIGEST_LENGTH);
+  const digest = new Uint8Array([...createDigest(randomPart, secret), ...randomPart]);
+  const baseShares: [number, Uint8Array][] = [...shares, [DIGEST_INDEX, digest], [SECRET_INDEX, secret]];
+
+  for (let i = randomShareCount; i < shareCount; i++) {
+    shares.push([i, interpolate(baseShares, i)]);
+  }
+  return shares;
+}
+
+function recoverSecret(threshold: number, shares: [number, Uint8Array][]): Uint8Array {
+  if (threshold === 1) return shares[0][1];
+
+  const secret = interpolate(shares, SECRET_INDEX);
+  const digest = interpolate(shares, DIGEST_INDEX);
+  const expected = createDigest(digest.slice(DIGEST_LENGTH), secret);
+  if (Buffer.from(expected).compare(Buffer.from(digest.slice(0, DIGEST_LENGTH))) !== 0) {
+    throw new Error('Invalid digest of the shared secret');
+  }
+  return secret;
+}
+
+// Four-round Feistel network keyed by PBKDF2-HMAC-SHA256 of the passphrase
+async function feistel(
+  input: Uint8Array,
+  passphrase: string,
+  iterationExponent: number,
+  identifier: number,
+  extendable: boolean,
+  rounds: number[]
+): Promise<Uint8Array> {
+  const half = input.length / 2;
+  const password = new TextEncoder().encode(passphrase);
+  const salt = extendable
+    ? new Uint8Array(0)
+    : new Uint8Array([...new TextEncoder().encode(CUSTOMIZATION), identifier >> 8, identifier & 0xff]);
+  const iterations = (BASE_ITERATION_COUNT << iterationExponent) / ROUND_COUNT;
+
+  let left = input.slice(0, half);
+  let right = input.slice(half);
+  for (const round of rounds) {
+    const f = await pbkdf2Async(sha256, new Uint8Array([round, ...password]), new Uint8Array([...salt, ...right]), { c: iterations, dkLen: half });
+    [left, right] = [right, left.map((byte, i) => byte ^ f[i])];
+  }
+  return new Uint8Array([...right, ...left]);
+}
+
+function validatePassphrase(passphrase: string): void {
+  if (!/^[\x20-\x7e]*$/.test(passphrase)) {
+    throw new Error('The passphrase must only contain printable ASCII characters');
+  }
+}
+
+function encodeShare(share: Slip39Share): string {
+  const valueWords = Math.ceil(share.value.length * 8 / RADIX_BITS);
+  const valueBits = BigInt(valueWords * RADIX_BITS);
+
+  let packed = BigInt(share.identifier);
+  packed = (packed << 1n) | BigInt(share.extendable ? 1 : 0);
+  packed = (packed << 4n) | BigInt(share.iterationExponent);
+  packed = (packed << 4n) | BigInt(share.groupIndex);
+  packed = (packed << 4n) | BigInt(share.groupThreshold - 1);
+  packed = (packed << 4n) | BigInt(share.groupCount - 1);
+  packed = (packed << 4n) | BigInt(share.memberIndex);
+  packed = (packed << 4n) | BigInt(share.memberThreshold - 1);
+  packed = (packed << valueBits) | BigInt('0x' + (Buffer.from(share.value).toString('hex') || '0'));
+
+  const wordCount = METADATA_WORDS + valueWords;
+  const data = Array.from({ length: wordCount }, (_, i) =>
+    Number((packed >> BigInt(RADIX_BITS * (wordCount - 1 - i))) & 1023n)
+  );
+  return [...data, ...createChecksum(data, share.extendable)].map(i => SLIP39_WORDLIST[i]).join(' ');
+}
+
+/**
+ * Decode and checksum a single share mnemonic
+ */
+export function decodeShare(mnemonic: string): Slip39Share {
+  const words = mnemonic.trim().toLowerCase().split(/\s+/);
+  if (words.length < MIN_MNEMONIC_WORDS) {
+    throw new Error(`A share has at least ${MIN_MNEMONIC_WORDS} words (found ${words.length})`);
+  }
+
+  const indices = words.map(word => {
+    const index = WORD_INDEX.get(word);
+    if (index === undefined) {
+      throw new Error(`"${word}" is not a SLIP-39 word`);
+    }
+    return index;
+  });
+
+  const valueWords = indices.length - METADATA_WORDS - CHECKSUM_WORDS;
+  const paddingBits = (RADIX_BITS * valueWords) % 16;
+  if (paddingBits > 8) {
+    throw new Error('Invalid share length');
+  }
+
+  // id(15) ext(1) e(4) group index(4) group threshold(4) group count(4) member index(4) member threshold(4)
+  const metadata = indices.slice(0, METADATA_WORDS).reduce((value, index) => (value << 10n) | BigInt(index), 0n);
+  const field = (shift: number, bits: number) => Number((metadata >> BigInt(shift)) & ((1n << BigInt(bits)) - 1n));
+
+  const extendable = field(24, 1) === 1;
+  if (!verifyChecksum(indices, extendable)) {
+    throw new Error('Invalid share checksum');
+  }
+
+  const groupThreshold = field(12, 4) + 1;
+  const groupCount = field(8, 4) + 1;
+  if (groupThreshold > groupCount) {
+    throw new Error('Group threshold cannot exceed the group count');
+  }
+
+  const valueInt = indices.slice(METADATA_WORDS, -CHECKSUM_WORDS).reduce((value, index) => (value << 10n) | BigInt(index), 0n);
+  const valueBytes = (RADIX_BITS * valueWords - paddingBits) / 8;
+  if (valueInt >> BigInt(valueBytes * 8) !== 0n) {
+    throw new Error('Invalid share padding');
+  }
+
+  return {
+    identifier: field(25, ID_LENGTH_BITS),
+    extendable,
+    iterationExponent: field(20, 4),
+    groupIndex: field(16, 4),
+    groupThreshold,
+    groupCount,
+    memberIndex: field(4, 4),
+    memberThreshold: field(0, 4) + 1,
+    value: Uint8Array.from(Buffer.from(valueInt.toString(16).padStart(valueBytes * 2, '0'), 'hex')),
+  };
+}
+
+/**
+ * Split a master secret into SLIP-39 mnemonic shares, one array per group.
+ * Any `groupThreshold` groups, each with its own member threshold met,
+ * recover the secret.
+ */
+export async function splitMasterSecret(
+  masterSecret: Uint8Array,
+  groupThreshold: number,
+  groups: Slip39GroupConfig[],
+  options: Slip39SplitOptions = {}
+): Promise<string[][]> {
+  const { passphrase = '', iterationExponent = DEFAULT_ITERATION_EXPONENT, extendable = true } = options;
+
+  if (masterSecret.length < MIN_SECRET_BYTES || masterSecret.length % 2 !== 0) {
+    throw new Error(`The master secret must be an even number of bytes, at least ${MIN_SECRET_BYTES}`);
+  }
+  if (groups.length === 0 || groups.length > MAX_SHARE_COUNT) {
+    throw new Error(`Between 1 and ${MAX_SHARE_COUNT} groups are allowed`);
+  }
+  if (groupThreshold < 1 || groupThreshold > groups.length) {
+    throw new Error(`The group threshold must be between 1 and ${groups.length}`);
+  }
+  if (groups.some(group => group.threshold === 1 && group.count > 1)) {
+    throw new Error('A group with threshold 1 must have a single share');
+  }
+  validatePassphrase(passphrase);
+
+  const [high, low] = randomBytes(2);
+  const identifier = ((high << 8) | low) & ((1 << ID_LENGTH_BITS) - 1);
+  const encrypted = await feistel(masterSecret, passphrase, iterationExponent, identifier, extendable, [0, 1, 2, 3]);
+
+  return splitSecret(groupThreshold, groups.length, encrypted).map(([groupIndex, groupSecret]) => {
+    const { threshold, count } = groups[groupIndex];
+    return splitSecret(threshold, count, groupSecret).map(([memberIndex, value]) => encodeShare({
+      identifier,
+      extendable,
+      iterationExponent,
+      groupIndex,
+      groupThreshold,
+      groupCount: groups.length,
+      memberIndex,
+      memberThreshold: threshold,
+      value,
+    }));
+  });
+}
+
+/**
+ * Which groups the given shares cover and whether they are enough to recover.
+ * Throws when the shares belong to different backups or contradict each other.
+ */
+export function getRecoveryProgress(mnemonics: string[]): Slip39RecoveryProgress {
+  const shares = mnemonics.map(decodeShare);
+  if (shares.length === 0) {
+    throw new Error('No shares given');
+  }
+
+  const first = shares[0];
+  const groups = new Map<number, Slip39Share[]>();
+  for (const share of shares) {
+    if (
+      share.identifier !== first.identifier ||
+      share.extendable !== first.extendable ||
+      share.iterationExponent !== first.iterationExponent ||
+      share.groupThreshold !== first.groupThreshold ||
+      share.groupCount !== first.groupCount ||
+      share.value.length !== first.value.length
+    ) {
+      throw new Error('These shares belong to different backups');
+    }
+    if (share.groupIndex >= share.groupCount) {
+      throw new Error('Share group index is out of range');
+    }
+
+    const members = groups.get(share.groupIndex) || [];
+    if (members.some(member => member.memberThreshold !== share.memberThreshold)) {
+      throw new Error(`Shares of group ${share.groupIndex + 1} disagree on the member threshold`);
+    }
+    const duplicate = members.find(member => member.memberIndex === share.memberIndex);
+    if (duplicate && Buffer.from(duplicate.value).compare(Buffer.from(share.value)) !== 0) {
+      throw new Error(`Group ${share.groupIndex + 1} has two different shares #${share.memberIndex + 1}`);
+    }
+    if (!duplicate) {
+      groups.set(share.groupIndex, [...members, share]);
+    }
+  }
+
+  const progress = Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([groupIndex, members]) => ({
+      groupIndex,
+      memberThreshold: members[0].memberThreshold,
+      memberIndices: members.map(member => member.memberIndex).sort((a, b) => a - b),
+      complete: members.length >= members[0].memberThreshold,
+    }));
+  const completeGroups = progress.filter(group => group.complete).length;
+
+  return {
+    identifier: first.identifier,
+    groupThreshold: first.groupThreshold,
+    groupCount: first.groupCount,
+    groups: progress,
+    completeGroups,
+    recoverable: completeGroups >= first.groupThreshold,
+  };
+}
+
+/**
+ * Recover the master secret from enough SLIP-39 shares. A wrong passphrase
+ * is not detectable and yields a different secret.
+ */
+export async function recoverMasterSecret(mnemonics: string[], passphrase: string = ''): Promise<Uint8Array> {
+  const progress = getRecoveryProgress(mnemonics);
+  if (!progress.recoverable) {
+    throw new Error(`${progress.completeGroups} of ${progress.groupThreshold} required groups are complete`);
+  }
+  validatePassphrase(passphrase);
+
+  const shares = mnemonics.map(decodeShare);
+  const groupSecrets = progress.groups
+    .filter(group => group.complete)
+    .slice(0, progress.groupThreshold)
+    .map(group => {
+      const members = group.memberIndices
+        .slice(0, group.memberThreshold)
+        .map(index => shares.find(share => share.groupIndex === group.groupIndex && share.memberIndex === index)!);
+      return [group.groupIndex, recoverSecret(group.memberThreshold, members.map(share => [share.memberIndex, share.value]))] as [number, Uint8Array];
+    });
+
+  const { identifier, extendable, iterationExponent } = shares[0];
+  const encrypted = recoverSecret(progress.groupThreshold, groupSecrets);
+  return feistel(encrypted, passphrase, iterationExponent, identifier, extendable, [3, 2, 1, 0]);
+}
+
+/**
+ * Back up a stored seed as SLIP-39 shares of its BIP32 seed. A BIP39 phrase
+ * is stretched with its BIP39 passphrase first, which the shares then cover;
+ * a seed restored from shares is split as it is.
+ */
+export function splitSeed(
+  seed: string,
+  bip39Passphrase: string,
+  groupThreshold: number,
+  groups: Slip39GroupConfig[],
+  options: Slip39SplitOptions = {}
+): Promise<string[][]> {
+  const masterSecret = parseMasterSecret(seed) ?? Uint8Array.from(bip39.mnemonicToSeedSync(seed.trim(), bip39Passphrase));
+  return splitMasterSecret(masterSecret, groupThreshold, groups, options);
+}
+
+/**
+ * Recover the seed a set of shares backs up, in the text form it is stored as
+ */
+export async function recoverSeed(mnemonics: string[], passphrase: string = ''): Promise<string> {
+  return formatMasterSecret(await recoverMasterSecret(mnemonics, passphrase));
+}
@@ -1,4 +1,5 @@
 import { ethers } from 'ethers';
+import { Multicall } from './multicall';
 
 export interface TokenInfo {
   address: string;
@@ -62,13 +63,14 @@ const ERC20_ABI = [
 ];
 
 export class TokenService {
-  private static providers: Map<number, ethers.JsonRpcProvider> = new Map();
+  // Keyed by URL so token lookups follow the endpoint the balance check used
+  private static providers: Map<string, ethers.JsonRpcProvider> = new Map();
 
   private static getProvider(chainId: number, rpcUrl: string): ethers.JsonRpcProvider {
-    if (!this.providers.has(chainId)) {
-      this.providers.set(chainId, new ethers.JsonRpcProvider(rpcUrl));
+    if (!this.providers.has(rpcUrl)) {
+      this.providers.set(rpcUrl, new ethers.JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true }));
     }
-    return this.providers.get(chainId)!;
+    return this.providers.get(rpcUrl)!;
   }
 
   /**
@@ -86,33 +88,39 @@ export class TokenService {
         ? await this.getTokenInfos(tokenAddresses, chainId, provider)
         : POPULAR_TOKENS[chainId] || [];
 
-      const balances: TokenBalance[] = [];
-
-      for (const token of tokens) {
-        try {
-          const contract = new ethers.Contract(token.address, ERC20_ABI, provider);
-          const balance = await contract.balanceOf(address);
-          
-          if (balance > 0n) {
-            const balanceFormatted = ethers.formatUnits(balance, token.decimals);
-            balances.push({
-              token,
-              balance: balance.toString(),
-              balanceFormatted,
-            });
-          }
-        } catch (error) {
-          console.error(`Error getting balance for ${token.symbol}:`, error);
-        }
-      }
+      // Every token in one round trip
+      const balances = await Multicall.getBalances(
+        provider,
+        rpcUrl,
+        tokens.map(token => ({ owner: address, token: token.address }))
+      );
 
-      return balances;
+      return this.toTokenBalances(tokens, balances);
     } catch (error) {
       console.error('Error getting token balances:', error);
       return [];
     }
   }
 
+  /**
+   * Token balances worth showing: the non-zero ones among `balances`, which
+   * line up with `tokens` (null for a call that failed)
+   */
+  static toTokenBalances(tokens: TokenInfo[], balances: (bigint | null)[]): TokenBalance[] {
+    const result: TokenBalance[] = [];
+    tokens.forEach((token, i) => {
+      const balance = balances[i];
+      if (balance) {
+        result.push({
+          token,
+          balance: balance.toString(),
+          balanceFormatted: ethers.formatUnits(balance, token.decimals),
+        });
+      }
+    });
+    return result;
+  }
+
   /**
    * Get token information for given addresses
    */
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { WalletDerivationService } from './walletDerivation';
+
+// Account 0 of "abandon abandon ... about"; the BIP84 and BIP86 values are those BIPs' test vectors
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+describe('Bitcoin script types', () => {
+  it('derives a legacy address on a BIP44 path', async () => {
+    const wallet = await WalletDerivationService.deriveWallet(MNEMONIC, 'BTC', "m/44'/0'/0'/0/0");
+
+    expect(wallet?.address).toBe('1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA');
+    expect(wallet?.metadata.scriptType).toBe('p2pkh');
+    expect(wallet?.metadata.extendedPublicKey)
+      .toBe('xpub6BosfCnifzxcFwrSzQiqu2DBVTshkCXacvNsWGYJVVhhawA7d4R5WSWGFNbi8Aw6ZRc1brxMyWMzG3DSSSSoekkudhUd9yLb6qx39T9nMdj');
+  });
+
+  it('derives a nested SegWit address on a BIP49 path', async () => {
+    const wallet = await WalletDerivationService.deriveWallet(MNEMONIC, 'BTC', "m/49'/0'/0'/0/0");
+
+    expect(wallet?.address).toBe('37VucYSaXLCAsxYyAPfbSi9eh4iEcbShgf');
+    expect(wallet?.metadata.scriptType).toBe('p2sh-p2wpkh');
+  });
+
+  it('derives a native SegWit address on a BIP84 path', async () => {
+    const wallet = await WalletDerivationService.deriveWallet(MNEMONIC, 'BTC', "m/84'/0'/0'/0/0");
+
+    expect(wallet?.address).toBe('bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu');
+    expect(wallet?.metadata.scriptType).toBe('p2wpkh');
+    expect(wallet?.metadata.extendedPublicKey)
+      .toBe('zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs');
+  });
+
+  it('derives a Taproot address on a BIP86 path', async () => {
+    const wallet = await WalletDerivationService.deriveWallet(MNEMONIC, 'BTC', "m/86'/0'/0'/0/0");
+
+    expect(wallet?.address).toBe('bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr');
+    expect(wallet?.metadata.scriptType).toBe('p2tr');
+    expect(wallet?.metadata.extendedPublicKey)
+      .toBe('xpub6BgBgsespWvERF3LHQu6CnqdvfEvtMcQjYrcRzx53QJjSxarj2afYWcLteoGVky7D3UKDP9QyrLprQ3VCECoY49yfdDEHGCtMMj92pReUsQ');
+  });
+
+  it('lets an explicit script type override the path purpose', async () => {
+    const wallet = await WalletDerivationService.deriveWallet(MNEMONIC, 'BTC', "m/84'/0'/0'/0/0", '', 'p2tr');
+
+    expect(wallet?.address).toMatch(/^bc1p/);
+    expect(wallet?.metadata.scriptType).toBe('p2tr');
+  });
+
+  it('refuses SegWit on a chain without bech32', async () => {
+    expect(await WalletDerivationService.deriveWallet(MNEMONIC, 'DOGE', "m/84'/3'/0'/0/0", '', 'p2wpkh')).toBeNull();
+  });
+});
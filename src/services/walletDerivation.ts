@@ -3,6 +3,21 @@ import { HDKey } from '@scure/bip32';
 import { ethers } from 'ethers';
 import * as bitcoin from 'bitcoinjs-lib';
 import { Buffer } from '../polyfills';
+import { deriveEd25519, toSolanaAddress, toSolanaSecretKey } from './slip10';
+import { toCosmosAddress, toTronAddress, toXrpAddress, toCardanoBaseAddress, toSs58Address, toTaprootAddress, hash160 } from './addressEncoding';
+import { icarusMasterKey, deriveBip32Ed25519 } from './bip32Ed25519';
+import { bech32 } from '@scure/base';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { isPathTemplate, renderPathTemplate } from './pathTemplates';
+import { deriveAccountExtendedKey } from './extendedKeys';
+import { deriveBip85, Bip85Request, Bip85Result } from './bip85';
+import { CHAIN_CONFIGS } from './chainRegistry';
+import { parseMasterSecret } from './masterSecret';
+import { moneroKeysFromSpendKey, parseMoneroSpendKey, toMoneroAddress, toMoneroSubaddress } from './monero';
+import {
+  ElectrumSeedType, ELECTRUM_CHAINS, ELECTRUM_SEED_PATHS,
+  getElectrumSeedType, electrumMnemonicToSeed, getElectrumOldMasterKey, setElectrumOldMasterKey, deriveElectrumOldKey,
+} from './electrumSeed';
 
 export interface DerivedWallet {
   chain: string;
@@ -14,329 +29,58 @@ export interface DerivedWallet {
   metadata?: any;
 }
 
-export interface ChainConfig {
-  name: string;
-  symbol: string;
-  chainId?: number;
-  derivationPaths: string[];
-  network?: any;
-  rpcUrl?: string;
-  nativeToken?: string;
+// Output script for UTXO chains. Taproot and SegWit need a network with a bech32 prefix.
+export type BitcoinScriptType = 'p2pkh' | 'p2sh-p2wpkh' | 'p2wpkh' | 'p2tr';
+
+// Script type implied by the BIP purpose of a standard path (BIP44/49/84/86)
+const PURPOSE_SCRIPT_TYPES: Record<string, BitcoinScriptType> = {
+  "44'": 'p2pkh',
+  "49'": 'p2sh-p2wpkh',
+  "84'": 'p2wpkh',
+  "86'": 'p2tr',
+};
+
+// Values stored in wallet metadata before script types were explicit
+export const LEGACY_ADDRESS_TYPES: Record<BitcoinScriptType, string> = {
+  'p2pkh': 'legacy',
+  'p2sh-p2wpkh': 'p2sh-segwit',
+  'p2wpkh': 'bech32',
+  'p2tr': 'taproot',
+};
+
+// Inclusive account and address index ranges
+export interface DerivationRange {
+  accountStart: number;
+  accountEnd: number;
+  addressStart: number;
+  addressEnd: number;
+  includeChange?: boolean; // UTXO chains: also derive the change chain (.../1/i)
+}
+
+// One chain and path template. Templates either use {account}, {change} and
+// {index} placeholders or are plain paths whose account, change and index
+// segments (positions 3, 4 and 5, as in BIP44) are replaced from the range
+export interface DerivationRequest extends DerivationRange {
+  chain: string;
+  derivationPath: string;
+  scriptType?: BitcoinScriptType;
 }
 
-// Supported blockchain configurations
-export const CHAIN_CONFIGS: Record<string, ChainConfig> = {
-  // Bitcoin and variants - MAINNET
-  BTC: {
-    name: 'Bitcoin',
-    symbol: 'BTC',
-    derivationPaths: [
-      "m/84'/0'/0'/0/0",  // Native SegWit (bc1...)
-      "m/49'/0'/0'/0/0",  // Nested SegWit (3...)
-      "m/44'/0'/0'/0/0",  // Legacy (1...)
-    ],
-    network: bitcoin.networks.bitcoin,
-  },
-  
-  // Ethereum and EVM chains - MAINNET
-  ETH: {
-    name: 'Ethereum Mainnet',
-    symbol: 'ETH',
-    chainId: 1,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://rpc.ankr.com/eth',
-  },
-  BSC: {
-    name: 'BNB Smart Chain',
-    symbol: 'BNB',
-    chainId: 56,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://bsc-dataseed.binance.org/',
-  },
-  POLYGON: {
-    name: 'Polygon Mainnet',
-    symbol: 'MATIC',
-    chainId: 137,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://polygon-rpc.com/',
-  },
-  AVALANCHE: {
-    name: 'Avalanche C-Chain',
-    symbol: 'AVAX',
-    chainId: 43114,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://api.avax.network/ext/bc/C/rpc',
-  },
-  ARBITRUM: {
-    name: 'Arbitrum One',
-    symbol: 'ETH',
-    chainId: 42161,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://arb1.arbitrum.io/rpc',
-    nativeToken: 'ETH',
-  },
-  OPTIMISM: {
-    name: 'Optimism',
-    symbol: 'ETH',
-    chainId: 10,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://mainnet.optimism.io',
-    nativeToken: 'ETH',
-  },
-  BASE: {
-    name: 'Base',
-    symbol: 'ETH',
-    chainId: 8453,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://mainnet.base.org',
-    nativeToken: 'ETH',
-  },
-  FANTOM: {
-    name: 'Fantom Opera',
-    symbol: 'FTM',
-    chainId: 250,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://rpc.ftm.tools/',
-  },
-  CRONOS: {
-    name: 'Cronos',
-    symbol: 'CRO',
-    chainId: 25,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://evm.cronos.org',
-  },
-  CELO: {
-    name: 'Celo',
-    symbol: 'CELO',
-    chainId: 42220,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://forno.celo.org',
-  },
-  LINEA: {
-    name: 'Linea',
-    symbol: 'ETH',
-    chainId: 59144,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://rpc.linea.build',
-    nativeToken: 'ETH',
-  },
-  METIS: {
-    name: 'Metis Andromeda',
-    symbol: 'METIS',
-    chainId: 1088,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://andromeda.metis.io/',
-  },
-  GNOSIS: {
-    name: 'Gnosis Chain',
-    symbol: 'xDAI',
-    chainId: 100,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://rpc.gnosischain.com',
-  },
-  MOONBEAM: {
-    name: 'Moonbeam',
-    symbol: 'GLMR',
-    chainId: 1284,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://rpc.api.moonbeam.network',
-  },
-  MOONRIVER: {
-    name: 'Moonriver',
-    symbol: 'MOVR',
-    chainId: 1285,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://rpc.api.moonriver.moonbeam.network',
-  },
-  SCROLL: {
-    name: 'Scroll',
-    symbol: 'ETH',
-    chainId: 534352,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://rpc.scroll.io',
-    nativeToken: 'ETH',
-  },
-  ZKSYNC: {
-    name: 'zkSync Era',
-    symbol: 'ETH',
-    chainId: 324,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://mainnet.era.zksync.io',
-    nativeToken: 'ETH',
-  },
-  BLAST: {
-    name: 'Blast',
-    symbol: 'ETH',
-    chainId: 81457,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://rpc.blast.io',
-    nativeToken: 'ETH',
-  },
-
-  // TESTNETS
-  BTC_TESTNET: {
-    name: 'Bitcoin Testnet',
-    symbol: 'tBTC',
-    derivationPaths: ["m/84'/1'/0'/0/0", "m/49'/1'/0'/0/0", "m/44'/1'/0'/0/0"],
-    network: bitcoin.networks.testnet,
-  },
-  ETH_SEPOLIA: {
-    name: 'Ethereum Sepolia',
-    symbol: 'SepoliaETH',
-    chainId: 11155111,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://rpc.sepolia.org',
-  },
-  ETH_GOERLI: {
-    name: 'Ethereum Goerli',
-    symbol: 'GoerliETH',
-    chainId: 5,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://goerli.infura.io/v3/9aa3d95b3bc440fa88ea12eaa4456161',
-  },
-  BSC_TESTNET: {
-    name: 'BNB Smart Chain Testnet',
-    symbol: 'tBNB',
-    chainId: 97,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://data-seed-prebsc-1-s1.binance.org:8545/',
-  },
-  POLYGON_MUMBAI: {
-    name: 'Polygon Mumbai',
-    symbol: 'MATIC',
-    chainId: 80001,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://rpc-mumbai.maticvigil.com',
-  },
-  AVALANCHE_FUJI: {
-    name: 'Avalanche Fuji',
-    symbol: 'AVAX',
-    chainId: 43113,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://api.avax-test.network/ext/bc/C/rpc',
-  },
-  ARBITRUM_SEPOLIA: {
-    name: 'Arbitrum Sepolia',
-    symbol: 'ETH',
-    chainId: 421614,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://sepolia-rollup.arbitrum.io/rpc',
-    nativeToken: 'ETH',
-  },
-  OPTIMISM_SEPOLIA: {
-    name: 'Optimism Sepolia',
-    symbol: 'ETH',
-    chainId: 11155420,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://sepolia.optimism.io',
-    nativeToken: 'ETH',
-  },
-  BASE_SEPOLIA: {
-    name: 'Base Sepolia',
-    symbol: 'ETH',
-    chainId: 84532,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://sepolia.base.org',
-    nativeToken: 'ETH',
-  },
-  LINEA_SEPOLIA: {
-    name: 'Linea Sepolia',
-    symbol: 'ETH',
-    chainId: 59141,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://rpc.sepolia.linea.build',
-    nativeToken: 'ETH',
-  },
-  SCROLL_SEPOLIA: {
-    name: 'Scroll Sepolia',
-    symbol: 'ETH',
-    chainId: 534351,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://sepolia-rpc.scroll.io',
-    nativeToken: 'ETH',
-  },
-  ZKSYNC_SEPOLIA: {
-    name: 'zkSync Sepolia',
-    symbol: 'ETH',
-    chainId: 300,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://sepolia.era.zksync.dev',
-    nativeToken: 'ETH',
-  },
-  BLAST_SEPOLIA: {
-    name: 'Blast Sepolia',
-    symbol: 'ETH',
-    chainId: 168587773,
-    derivationPaths: ["m/44'/60'/0'/0/0"],
-    rpcUrl: 'https://sepolia.blast.io',
-    nativeToken: 'ETH',
-  },
-  
-  // Other chains
-  LTC: {
-    name: 'Litecoin',
-    symbol: 'LTC',
-    derivationPaths: ["m/84'/2'/0'/0/0", "m/49'/2'/0'/0/0", "m/44'/2'/0'/0/0"],
-    network: {
-      messagePrefix: '\x19Litecoin Signed Message:\n',
-      bech32: 'ltc',
-      bip32: { public: 0x019da462, private: 0x019d9cfe },
-      pubKeyHash: 0x30,
-      scriptHash: 0x32,
-      wif: 0xb0,
-    },
-  },
-  DOGE: {
-    name: 'Dogecoin',
-    symbol: 'DOGE',
-    derivationPaths: ["m/44'/3'/0'/0/0"],
-    network: {
-      messagePrefix: '\x19Dogecoin Signed Message:\n',
-      bip32: { public: 0x02facafd, private: 0x02fac398 },
-      pubKeyHash: 0x1e,
-      scriptHash: 0x16,
-      wif: 0x9e,
-    },
-  },
-  SOL: {
-    name: 'Solana',
-    symbol: 'SOL',
-    derivationPaths: ["m/44'/501'/0'/0'"],
-  },
-  ADA: {
-    name: 'Cardano',
-    symbol: 'ADA',
-    derivationPaths: ["m/1852'/1815'/0'/0/0"],
-  },
-  DOT: {
-    name: 'Polkadot',
-    symbol: 'DOT',
-    derivationPaths: ["m/44'/354'/0'/0/0"],
-  },
-  ATOM: {
-    name: 'Cosmos',
-    symbol: 'ATOM',
-    derivationPaths: ["m/44'/118'/0'/0/0"],
-  },
-  TRX: {
-    name: 'Tron',
-    symbol: 'TRX',
-    derivationPaths: ["m/44'/195'/0'/0/0"],
-  },
-  XRP: {
-    name: 'Ripple',
-    symbol: 'XRP',
-    derivationPaths: ["m/44'/144'/0'/0/0"],
-  },
-  // Monero requires special handling
-  XMR: {
-    name: 'Monero',
-    symbol: 'XMR',
-    derivationPaths: ["m/44'/128'/0'/0/0"],
-  },
+export const DEFAULT_DERIVATION_RANGE: DerivationRange = {
+  accountStart: 0,
+  accountEnd: 0,
+  addressStart: 0,
+  addressEnd: 0,
+  includeChange: false,
 };
 
+const MAX_DERIVATION_INDEX = 0x7fffffff;
+
 export class WalletDerivationService {
+  // Stretched seeds by mnemonic and passphrase, oldest first
+  private static seedCache = new Map<string, Buffer>();
+  private static seedCacheSize = 1;
+
   /**
    * Validate mnemonic phrase
    */
@@ -344,19 +88,156 @@ export class WalletDerivationService {
     return bip39.validateMnemonic(mnemonic.trim());
   }
 
+  /**
+   * Whether the input is a native Monero key, a 25-word Monero mnemonic or a
+   * private spend key (64 hex characters), rather than a BIP39 phrase. Such
+   * input only derives the XMR wallet.
+   */
+  static isMoneroSpendKey(value: string): boolean {
+    return parseMoneroSpendKey(value) !== null;
+  }
+
+  /**
+   * Whether the input is a master secret restored from SLIP-39 shares. It is
+   * the BIP32 seed itself, so it takes no passphrase.
+   */
+  static isMasterSecret(value: string): boolean {
+    return parseMasterSecret(value) !== null;
+  }
+
+  /**
+   * Electrum seed type of the input, or null for anything else. Monero keys
+   * and master secrets are ruled out first: their text can pass Electrum's
+   * version test by chance.
+   */
+  static getElectrumSeedType(value: string): ElectrumSeedType | null {
+    if (this.isMasterSecret(value) || this.isMoneroSpendKey(value)) return null;
+    return getElectrumSeedType(value);
+  }
+
+  /**
+   * Monero subaddress for a wallet derived by this service, from the view key
+   * and public spend key kept in its metadata
+   */
+  static getMoneroSubaddress(wallet: Pick<DerivedWallet, 'metadata'>, account: number, index: number): string {
+    const { viewKey, publicSpendKey } = wallet.metadata || {};
+    if (!viewKey || !publicSpendKey) {
+      throw new Error('Wallet has no Monero view key');
+    }
+    return toMoneroSubaddress(Buffer.from(viewKey, 'hex'), Buffer.from(publicSpendKey, 'hex'), account, index);
+  }
+
+  /**
+   * Script type for a standard BIP44/49/84/86 path, or null for custom paths,
+   * which must name their script type explicitly
+   */
+  static getDefaultScriptType(derivationPath: string): BitcoinScriptType | null {
+    const purpose = derivationPath.trim().split('/')[1]?.replace(/[hH]$/, "'");
+    return PURPOSE_SCRIPT_TYPES[purpose] ?? null;
+  }
+
+  /**
+   * BIP32 master key fingerprint for a mnemonic and passphrase, as 8 hex characters
+   */
+  static getSeedFingerprint(mnemonic: string, passphrase: string = ''): string {
+    const electrumType = this.getElectrumSeedType(mnemonic);
+    if (electrumType === 'old') {
+      // No BIP32 master key; fingerprint the master public key the same way
+      return Buffer.from(hash160(getElectrumOldMasterKey(mnemonic).publicKey).slice(0, 4)).toString('hex');
+    }
+    
+    return this.getMasterKey(mnemonic, passphrase).fingerprint.toString(16).padStart(8, '0');
+  }
+
+  /**
+   * BIP85 child mnemonic, WIF key, xprv or hex entropy from a seed's master key
+   */
+  static deriveBip85(mnemonic: string, request: Bip85Request, passphrase: string = ''): Bip85Result {
+    if (this.getElectrumSeedType(mnemonic) === 'old' || this.isMoneroSpendKey(mnemonic)) {
+      throw new Error('Child seeds need a BIP32 seed');
+    }
+    return deriveBip85(this.getMasterKey(mnemonic, passphrase), request);
+  }
+
+  // BIP32 master key of a BIP39 seed, version 2 Electrum seed or SLIP-39 master secret
+  private static getMasterKey(mnemonic: string, passphrase: string): HDKey {
+    return HDKey.fromMasterSeed(this.getSeed(mnemonic, passphrase));
+  }
+
+  /**
+   * How many stretched seeds to keep. One by default, since the PBKDF2
+   * stretch dominates each derivation and a batch derives the paths of one
+   * mnemonic in a row; derivation workers keep every seed of their batch.
+   */
+  static setSeedCacheSize(size: number) {
+    this.seedCacheSize = size;
+    this.trimSeedCache();
+  }
+
+  /**
+   * The stretched form of a seed: its BIP32 seed, or an old Electrum seed's
+   * master private key. It is all derivation needs, so it is stretched once
+   * per import and handed to the derivation workers.
+   */
+  static stretchSeed(mnemonic: string, passphrase: string = ''): Uint8Array {
+    if (this.getElectrumSeedType(mnemonic) === 'old') {
+      return getElectrumOldMasterKey(mnemonic).privateKey;
+    }
+    return Uint8Array.from(this.getSeed(mnemonic, passphrase));
+  }
+
+  /**
+   * Cache a seed stretched elsewhere by stretchSeed
+   */
+  static setStretchedSeed(mnemonic: string, passphrase: string, stretched: Uint8Array) {
+    if (this.getElectrumSeedType(mnemonic) === 'old') {
+      setElectrumOldMasterKey(mnemonic, stretched);
+      return;
+    }
+    this.seedCache.set(JSON.stringify([mnemonic.trim(), passphrase]), Buffer.from(stretched));
+    this.trimSeedCache();
+  }
+
+  /**
+   * BIP32 seed of a BIP39 seed, version 2 Electrum seed or SLIP-39 master secret
+   */
+  private static getSeed(mnemonic: string, passphrase: string): Buffer {
+    const trimmed = mnemonic.trim();
+    const key = JSON.stringify([trimmed, passphrase]);
+
+    let seed = this.seedCache.get(key);
+    if (!seed) {
+      seed = Buffer.from(parseMasterSecret(trimmed) ?? (this.getElectrumSeedType(trimmed)
+        ? electrumMnemonicToSeed(trimmed, passphrase)
+        : bip39.mnemonicToSeedSync(trimmed, passphrase)));
+      this.seedCache.set(key, seed);
+      this.trimSeedCache();
+    }
+    return seed;
+  }
+
+  // Drops the oldest seeds beyond the cache size
+  private static trimSeedCache() {
+    for (const key of this.seedCache.keys()) {
+      if (this.seedCache.size <= this.seedCacheSize) break;
+      this.seedCache.delete(key);
+    }
+  }
+
   /**
    * Derive wallets for all supported chains from a mnemonic
    */
-  static async deriveAllWallets(mnemonic: string, passphrase: string = ''): Promise<DerivedWallet[]> {
+  static async deriveAllWallets(
+    mnemonic: string,
+    passphrase: string = '',
+    range: DerivationRange = DEFAULT_DERIVATION_RANGE
+  ): Promise<DerivedWallet[]> {
     const wallets: DerivedWallet[] = [];
     
     for (const [chainKey, config] of Object.entries(CHAIN_CONFIGS)) {
       try {
         for (const derivationPath of config.derivationPaths) {
-          const wallet = await this.deriveWallet(mnemonic, chainKey, derivationPath, passphrase);
-          if (wallet) {
-            wallets.push(wallet);
-          }
+          wallets.push(...await this.deriveRange(mnemonic, { ...range, chain: chainKey, derivationPath }, passphrase));
         }
       } catch (error) {
         console.error(`Failed to derive wallet for ${chainKey}:`, error);
@@ -366,6 +247,79 @@ export class WalletDerivationService {
     return wallets;
   }
 
+  /**
+   * Derive every account and address in a request's ranges
+   */
+  static async deriveRange(
+    mnemonic: string,
+    request: DerivationRequest,
+    passphrase: string = ''
+  ): Promise<DerivedWallet[]> {
+    const wallets: DerivedWallet[] = [];
+    
+    for (const path of this.expandDerivationPaths(request.chain, request.derivationPath, request)) {
+      const wallet = await this.deriveWallet(mnemonic, request.chain, path, passphrase, request.scriptType);
+      if (wallet) {
+        wallets.push(wallet);
+      }
+    }
+    
+    return wallets;
+  }
+
+  /**
+   * Concrete paths for a template and range. Paths too short to have an
+   * account or index segment (e.g. m/44'/501') yield a single path.
+   */
+  static expandDerivationPaths(chain: string, template: string, range: DerivationRange): string[] {
+    for (const [start, end] of [[range.accountStart, range.accountEnd], [range.addressStart, range.addressEnd]]) {
+      if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end < start || end > MAX_DERIVATION_INDEX) {
+        throw new Error(`Invalid derivation range ${start}-${end}`);
+      }
+    }
+    
+    const changeChains = range.includeChange && this.hasChangeChain(chain) ? [0, 1] : [0];
+    const paths = new Set<string>();
+    
+    for (let account = range.accountStart; account <= range.accountEnd; account++) {
+      for (const change of changeChains) {
+        for (let index = range.addressStart; index <= range.addressEnd; index++) {
+          paths.add(this.buildDerivationPath(chain, template, account, change, index));
+        }
+      }
+    }
+    
+    return [...paths];
+  }
+
+  /**
+   * Fill in a path template's placeholders, or for a plain path replace its
+   * account, change and index segments, keeping each segment's hardened marker
+   */
+  static buildDerivationPath(chain: string, template: string, account: number, change: number, index: number): string {
+    if (isPathTemplate(template)) {
+      return renderPathTemplate(template, { account, change, index });
+    }
+    
+    const segments = template.trim().split('/');
+    const withIndex = (segment: string, value: number) => `${value}${/['hH]$/.test(segment) ? "'" : ''}`;
+    
+    if (segments.length > 3) segments[3] = withIndex(segments[3], account);
+    if (segments.length > 4 && this.hasChangeChain(chain)) segments[4] = withIndex(segments[4], change);
+    // Monero uses subaddresses rather than address indices
+    if (segments.length > 5 && chain !== 'XMR') segments[5] = withIndex(segments[5], index);
+    
+    return segments.join('/');
+  }
+
+  /**
+   * UTXO chains have an internal (change) chain next to the receive chain
+   */
+  static hasChangeChain(chain: string): boolean {
+    const family = CHAIN_CONFIGS[chain]?.family;
+    return family === 'utxo' || family === 'cardano';
+  }
+
   /**
    * Derive a single wallet for a specific chain and path
    */
@@ -373,29 +327,49 @@ export class WalletDerivationService {
     mnemonic: string,
     chain: string,
     derivationPath: string,
-    passphrase: string = ''
+    passphrase: string = '',
+    scriptType?: BitcoinScriptType
   ): Promise<DerivedWallet | null> {
     try {
-      const seed = await bip39.mnemonicToSeed(mnemonic.trim(), passphrase);
       const config = CHAIN_CONFIGS[chain];
       
       if (!config) {
         throw new Error(`Unsupported chain: ${chain}`);
       }
+      
+      const electrumType = this.getElectrumSeedType(mnemonic);
+      if (electrumType) {
+        return this.deriveElectrumWallet(mnemonic, electrumType, chain, derivationPath, passphrase, scriptType);
+      }
+      
+      const seed = this.getSeed(mnemonic, passphrase);
+
+      if (config.family === 'monero') {
+        return this.deriveMoneroWallet(mnemonic, seed, derivationPath);
+      } else if (this.isMoneroSpendKey(mnemonic)) {
+        throw new Error('A Monero seed only derives the XMR wallet');
+      }
 
-      // Special handling for different chain types
-      if (chain === 'XMR') {
-        // Monero requires special library
-        return this.deriveMoneroWallet(mnemonic, derivationPath, passphrase);
-      } else if (['ETH', 'BSC', 'POLYGON', 'AVALANCHE', 'ARBITRUM', 'OPTIMISM', 'BASE', 'FANTOM', 'CRONOS', 'CELO', 'LINEA', 'METIS', 'GNOSIS', 'MOONBEAM', 'MOONRIVER', 'SCROLL', 'ZKSYNC', 'BLAST', 'ETH_SEPOLIA', 'ETH_GOERLI', 'BSC_TESTNET', 'POLYGON_MUMBAI', 'AVALANCHE_FUJI', 'ARBITRUM_SEPOLIA', 'OPTIMISM_SEPOLIA', 'BASE_SEPOLIA', 'LINEA_SEPOLIA', 'SCROLL_SEPOLIA', 'ZKSYNC_SEPOLIA', 'BLAST_SEPOLIA'].includes(chain)) {
-        return this.deriveEthereumWallet(seed, chain, derivationPath);
-      } else if (['BTC', 'BTC_TESTNET', 'LTC', 'DOGE'].includes(chain)) {
-        return this.deriveBitcoinWallet(seed, chain, derivationPath);
-      } else if (chain === 'SOL') {
-        return this.deriveSolanaWallet(seed, derivationPath);
-      } else {
-        // Generic derivation for other chains
-        return this.deriveGenericWallet(seed, chain, derivationPath);
+      switch (config.family) {
+        case 'evm':
+          return this.deriveEthereumWallet(seed, chain, derivationPath);
+        case 'utxo':
+          return this.deriveBitcoinWallet(seed, chain, derivationPath, scriptType);
+        case 'solana':
+          return this.deriveSolanaWallet(seed, derivationPath);
+        case 'cardano':
+          return this.deriveCardanoWallet(mnemonic, seed, derivationPath, passphrase);
+        case 'substrate':
+          return this.deriveSubstrateWallet(seed, chain, derivationPath);
+        case 'cosmos':
+          return this.deriveCosmosWallet(seed, chain, derivationPath);
+        case 'tron':
+          return this.deriveTronWallet(seed, derivationPath);
+        case 'xrp':
+          return this.deriveXrpWallet(seed, derivationPath);
+        default:
+          // Generic derivation for other chains
+          return this.deriveGenericWallet(seed, chain, derivationPath);
       }
     } catch (error) {
       console.error(`Error deriving wallet for ${chain}:`, error);
@@ -420,6 +394,7 @@ export class WalletDerivationService {
 
     const privateKey = '0x' + Buffer.from(childKey.privateKey).toString('hex');
     const wallet = new ethers.Wallet(privateKey);
+    const account = deriveAccountExtendedKey(seed, chain, derivationPath);
     
     return {
       chain,
@@ -431,6 +406,8 @@ export class WalletDerivationService {
       metadata: {
         chainId: CHAIN_CONFIGS[chain].chainId,
         compressed: false,
+        accountPath: account.path,
+        extendedPublicKey: account.key,
       },
     };
   }
@@ -441,9 +418,19 @@ export class WalletDerivationService {
   private static deriveBitcoinWallet(
     seed: Buffer,
     chain: string,
-    derivationPath: string
+    derivationPath: string,
+    requestedScriptType?: BitcoinScriptType
   ): DerivedWallet {
     const network = CHAIN_CONFIGS[chain].network;
+    const scriptType = requestedScriptType ?? this.getDefaultScriptType(derivationPath);
+    
+    if (!scriptType) {
+      throw new Error(`No script type given for non-standard path ${derivationPath}`);
+    }
+    if (scriptType !== 'p2pkh' && !network.bech32) {
+      throw new Error(`${chain} does not support ${scriptType} addresses`);
+    }
+    
     const hdKey = HDKey.fromMasterSeed(seed);
     const childKey = hdKey.derive(derivationPath);
     
@@ -451,62 +438,257 @@ export class WalletDerivationService {
       throw new Error('Failed to derive keys');
     }
 
-    let address: string;
-    
-    // Determine address type based on derivation path
-    if (derivationPath.includes("84'")) {
-      // Native SegWit (bech32)
-      const { address: bech32Address } = bitcoin.payments.p2wpkh({
-        pubkey: Buffer.from(childKey.publicKey),
-        network,
-      });
-      address = bech32Address!;
-    } else if (derivationPath.includes("49'")) {
-      // Nested SegWit (P2SH)
-      const { address: p2shAddress } = bitcoin.payments.p2sh({
-        redeem: bitcoin.payments.p2wpkh({
-          pubkey: Buffer.from(childKey.publicKey),
-          network,
-        }),
-        network,
-      });
-      address = p2shAddress!;
-    } else {
-      // Legacy
-      const { address: legacyAddress } = bitcoin.payments.p2pkh({
-        pubkey: Buffer.from(childKey.publicKey),
-        network,
-      });
-      address = legacyAddress!;
-    }
+    const pubkey = Buffer.from(childKey.publicKey);
+    const address = this.getBitcoinAddress(childKey.publicKey, chain, scriptType);
 
     console.log(`Generated ${chain} wallet:`, {
       derivationPath,
-      publicKey: Buffer.from(childKey.publicKey).toString('hex'),
+      publicKey: pubkey.toString('hex'),
       address,
-      addressType: derivationPath.includes("84'") ? 'bech32' : 
-                   derivationPath.includes("49'") ? 'p2sh-segwit' : 'legacy',
+      scriptType,
     });
+    
+    const account = deriveAccountExtendedKey(seed, chain, derivationPath, scriptType);
 
     return {
       chain,
       derivationPath,
-      publicKey: Buffer.from(childKey.publicKey).toString('hex'),
+      publicKey: pubkey.toString('hex'),
       privateKey: Buffer.from(childKey.privateKey).toString('hex'),
       address,
       masterKey: Buffer.from(hdKey.privateKey!).toString('hex'),
       metadata: {
         network: chain,
-        addressType: derivationPath.includes("84'") ? 'bech32' : 
-                     derivationPath.includes("49'") ? 'p2sh-segwit' : 'legacy',
+        scriptType,
+        addressType: LEGACY_ADDRESS_TYPES[scriptType],
+        accountPath: account.path,
+        extendedPublicKey: account.key,
       },
     };
   }
 
+  /**
+   * Derive a wallet from an Electrum seed. Version 2 seeds are BIP32 with
+   * their own seed stretching; old seeds have a receive and change sequence.
+   */
+  private static deriveElectrumWallet(
+    mnemonic: string,
+    seedType: ElectrumSeedType,
+    chain: string,
+    derivationPath: string,
+    passphrase: string,
+    requestedScriptType?: BitcoinScriptType
+  ): DerivedWallet {
+    if (!ELECTRUM_CHAINS.includes(chain)) {
+      throw new Error('An Electrum seed only derives Bitcoin wallets');
+    }
+    if (!ELECTRUM_SEED_PATHS[seedType]) {
+      throw new Error('Electrum two-factor seeds need the TrustedCoin cosigner and cannot be restored here');
+    }
+    
+    if (seedType === 'old') {
+      return this.deriveElectrumOldWallet(mnemonic, chain, derivationPath);
+    }
+    
+    const seed = this.getSeed(mnemonic, passphrase);
+    const scriptType = requestedScriptType ?? ELECTRUM_SEED_PATHS[seedType]!.scriptType;
+    const wallet = this.deriveBitcoinWallet(seed, chain, derivationPath, scriptType);
+    
+    return { ...wallet, metadata: { ...wallet.metadata, seedType: `electrum-${seedType}` } };
+  }
+
+  /**
+   * Derive an address of a pre-2.0 Electrum seed. Its paths are m/<change>/<index>
+   * by analogy; keys come from Electrum's own sequence, not BIP32.
+   */
+  private static deriveElectrumOldWallet(mnemonic: string, chain: string, derivationPath: string): DerivedWallet {
+    const match = /^m\/([01])\/(\d+)$/.exec(derivationPath.trim());
+    if (!match) {
+      throw new Error(`Old Electrum seeds only have m/<change>/<index> addresses, not ${derivationPath}`);
+    }
+    
+    const master = getElectrumOldMasterKey(mnemonic);
+    const key = deriveElectrumOldKey(master, Number(match[1]), Number(match[2]));
+    
+    return {
+      chain,
+      derivationPath,
+      publicKey: Buffer.from(key.publicKey).toString('hex'),
+      privateKey: Buffer.from(key.privateKey).toString('hex'),
+      address: this.getBitcoinAddress(key.publicKey, chain, 'p2pkh'),
+      masterKey: Buffer.from(master.privateKey).toString('hex'),
+      metadata: {
+        network: chain,
+        scriptType: 'p2pkh',
+        addressType: LEGACY_ADDRESS_TYPES['p2pkh'],
+        compressed: false,
+        seedType: 'electrum-old',
+        masterPublicKey: Buffer.from(master.publicKey.slice(1)).toString('hex'),
+      },
+    };
+  }
+
+  /**
+   * Address of a compressed public key on a UTXO chain for the given script type
+   */
+  static getBitcoinAddress(publicKey: Uint8Array, chain: string, scriptType: BitcoinScriptType): string {
+    const network = CHAIN_CONFIGS[chain].network;
+    const pubkey = Buffer.from(publicKey);
+    
+    switch (scriptType) {
+      case 'p2wpkh':
+        // Native SegWit (bech32)
+        return bitcoin.payments.p2wpkh({ pubkey, network }).address!;
+      case 'p2sh-p2wpkh':
+        // Nested SegWit (P2SH)
+        return bitcoin.payments.p2sh({
+          redeem: bitcoin.payments.p2wpkh({ pubkey, network }),
+          network,
+        }).address!;
+      case 'p2tr':
+        // Taproot key path only (BIP86)
+        return toTaprootAddress(publicKey, network.bech32);
+      default:
+        // Legacy
+        return bitcoin.payments.p2pkh({ pubkey, network }).address!;
+    }
+  }
+
   /**
    * Derive Solana wallet
    */
   private static deriveSolanaWallet(seed: Buffer, derivationPath: string): DerivedWallet {
+    // Solana keys use SLIP-10 ed25519, which only allows hardened path segments
+    const keypair = deriveEd25519(seed, derivationPath);
+    const hdKey = HDKey.fromMasterSeed(seed);
+    
+    return {
+      chain: 'SOL',
+      derivationPath,
+      publicKey: Buffer.from(keypair.publicKey).toString('hex'),
+      privateKey: toSolanaSecretKey(keypair),
+      address: toSolanaAddress(keypair.publicKey),
+      masterKey: Buffer.from(hdKey.privateKey!).toString('hex'),
+      metadata: {
+        curve: 'ed25519',
+        derivation: 'slip10',
+      },
+    };
+  }
+
+  /**
+   * Derive Cardano Shelley wallet (Icarus BIP32-Ed25519, base address with stake key)
+   */
+  private static deriveCardanoWallet(
+    mnemonic: string,
+    seed: Buffer,
+    derivationPath: string,
+    passphrase: string = ''
+  ): DerivedWallet {
+    // Icarus derives from the BIP39 entropy, not from the BIP39 seed
+    if (this.isMasterSecret(mnemonic)) {
+      throw new Error('Cardano wallets need a BIP39 recovery phrase');
+    }
+    const entropy = Buffer.from(bip39.mnemonicToEntropy(mnemonic.trim()), 'hex');
+    const rootKey = icarusMasterKey(entropy, passphrase);
+
+    const account = derivationPath.split('/').slice(0, 4).join('/');
+    const stakePath = `${account}/2/0`;
+    const paymentKey = deriveBip32Ed25519(rootKey, derivationPath);
+    const stakeKey = deriveBip32Ed25519(rootKey, stakePath);
+    const hdKey = HDKey.fromMasterSeed(seed);
+
+    // Extended signing key as exported by cardano-address: kL || kR || chain code
+    const signingKey = new Uint8Array([...paymentKey.kL, ...paymentKey.kR, ...paymentKey.chainCode]);
+
+    return {
+      chain: 'ADA',
+      derivationPath,
+      publicKey: Buffer.from(paymentKey.publicKey).toString('hex'),
+      privateKey: bech32.encode('addr_xsk', bech32.toWords(signingKey), false),
+      address: toCardanoBaseAddress(paymentKey.publicKey, stakeKey.publicKey),
+      masterKey: Buffer.from(hdKey.privateKey!).toString('hex'),
+      metadata: {
+        curve: 'ed25519',
+        derivation: 'icarus',
+        stakePath,
+        stakePublicKey: Buffer.from(stakeKey.publicKey).toString('hex'),
+      },
+    };
+  }
+
+  /**
+   * Derive Polkadot/Kusama wallet (ed25519, SS58 address with the chain's prefix)
+   */
+  private static deriveSubstrateWallet(seed: Buffer, chain: string, derivationPath: string): DerivedWallet {
+    const keypair = deriveEd25519(seed, derivationPath);
+    const hdKey = HDKey.fromMasterSeed(seed);
+    const ss58Prefix = CHAIN_CONFIGS[chain].ss58Prefix!;
+
+    return {
+      chain,
+      derivationPath,
+      publicKey: Buffer.from(keypair.publicKey).toString('hex'),
+      privateKey: Buffer.from(keypair.privateKey).toString('hex'),
+      address: toSs58Address(keypair.publicKey, ss58Prefix),
+      masterKey: Buffer.from(hdKey.privateKey!).toString('hex'),
+      metadata: {
+        curve: 'ed25519',
+        derivation: 'slip10',
+        ss58Prefix,
+      },
+    };
+  }
+
+  /**
+   * Derive Monero wallet (standard address, view key kept in metadata for scanning)
+   */
+  private static deriveMoneroWallet(
+    mnemonic: string,
+    seed: Buffer,
+    derivationPath: string
+  ): DerivedWallet {
+    let spendKey = parseMoneroSpendKey(mnemonic);
+    let masterKey: string | undefined;
+
+    if (!spendKey) {
+      // Same as the Ledger Monero app: spend key = sc_reduce32(keccak256(BIP32 private key))
+      const hdKey = HDKey.fromMasterSeed(seed);
+      const childKey = hdKey.derive(derivationPath);
+
+      if (!childKey.privateKey) {
+        throw new Error('Failed to derive keys');
+      }
+      spendKey = keccak_256(childKey.privateKey);
+      masterKey = Buffer.from(hdKey.privateKey!).toString('hex');
+    }
+
+    const keys = moneroKeysFromSpendKey(spendKey);
+
+    return {
+      chain: 'XMR',
+      derivationPath,
+      publicKey: Buffer.from(keys.publicSpendKey).toString('hex'),
+      privateKey: Buffer.from(keys.privateSpendKey).toString('hex'),
+      address: toMoneroAddress(keys),
+      masterKey,
+      metadata: {
+        source: masterKey ? 'bip39' : 'spend-key',
+        viewKey: Buffer.from(keys.privateViewKey).toString('hex'),
+        publicSpendKey: Buffer.from(keys.publicSpendKey).toString('hex'),
+        publicViewKey: Buffer.from(keys.publicViewKey).toString('hex'),
+      },
+    };
+  }
+
+  /**
+   * Derive Cosmos SDK wallet (bech32 address with the chain's HRP)
+   */
+  private static deriveCosmosWallet(
+    seed: Buffer,
+    chain: string,
+    derivationPath: string
+  ): DerivedWallet {
     const hdKey = HDKey.fromMasterSeed(seed);
     const childKey = hdKey.derive(derivationPath);
     
@@ -514,39 +696,65 @@ export class WalletDerivationService {
       throw new Error('Failed to derive keys');
     }
 
-    // Solana uses Ed25519, this is a simplified implementation
-    // In production, use @solana/web3.js
+    const hrp = CHAIN_CONFIGS[chain].bech32Prefix!;
+    
     return {
-      chain: 'SOL',
+      chain,
       derivationPath,
       publicKey: Buffer.from(childKey.publicKey).toString('hex'),
       privateKey: Buffer.from(childKey.privateKey).toString('hex'),
-      address: Buffer.from(childKey.publicKey).toString('hex').slice(0, 44),
+      address: toCosmosAddress(childKey.publicKey, hrp),
+      masterKey: Buffer.from(hdKey.privateKey!).toString('hex'),
       metadata: {
-        curve: 'ed25519',
+        bech32Prefix: hrp,
       },
     };
   }
 
   /**
-   * Derive Monero wallet (placeholder - requires monero-javascript)
+   * Derive Tron wallet (base58check T... address)
    */
-  private static async deriveMoneroWallet(
-    _mnemonic: string,
-    derivationPath: string,
-    _passphrase: string = ''
-  ): Promise<DerivedWallet> {
-    // This would require the monero-javascript library
-    // which has specific build requirements
+  private static deriveTronWallet(seed: Buffer, derivationPath: string): DerivedWallet {
+    const hdKey = HDKey.fromMasterSeed(seed);
+    const childKey = hdKey.derive(derivationPath);
+    
+    if (!childKey.privateKey || !childKey.publicKey) {
+      throw new Error('Failed to derive keys');
+    }
+
     return {
-      chain: 'XMR',
+      chain: 'TRX',
       derivationPath,
-      publicKey: 'XMR_PUBLIC_KEY_PLACEHOLDER',
-      privateKey: 'XMR_PRIVATE_KEY_PLACEHOLDER',
-      address: 'XMR_ADDRESS_PLACEHOLDER',
+      publicKey: Buffer.from(childKey.publicKey).toString('hex'),
+      privateKey: Buffer.from(childKey.privateKey).toString('hex'),
+      address: toTronAddress(childKey.publicKey),
+      masterKey: Buffer.from(hdKey.privateKey!).toString('hex'),
+      metadata: {
+        addressFormat: 'base58check',
+      },
+    };
+  }
+
+  /**
+   * Derive XRP wallet (classic r... address)
+   */
+  private static deriveXrpWallet(seed: Buffer, derivationPath: string): DerivedWallet {
+    const hdKey = HDKey.fromMasterSeed(seed);
+    const childKey = hdKey.derive(derivationPath);
+    
+    if (!childKey.privateKey || !childKey.publicKey) {
+      throw new Error('Failed to derive keys');
+    }
+
+    return {
+      chain: 'XRP',
+      derivationPath,
+      publicKey: Buffer.from(childKey.publicKey).toString('hex'),
+      privateKey: Buffer.from(childKey.privateKey).toString('hex'),
+      address: toXrpAddress(childKey.publicKey),
+      masterKey: Buffer.from(hdKey.privateKey!).toString('hex'),
       metadata: {
-        viewKey: 'XMR_VIEW_KEY_PLACEHOLDER',
-        spendKey: 'XMR_SPEND_KEY_PLACEHOLDER',
+        addressFormat: 'classic',
       },
     };
   }
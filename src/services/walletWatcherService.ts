@@ -1,5 +1,9 @@
-import { BalanceChecker, BalanceResult } from './balanceChecker';
+import { BalanceEngine, BalanceResult } from './balanceEngine';
 import { electronAPI } from '../utils/electron';
+import { BitcoinScriptType } from './walletDerivation';
+import { CHAIN_CONFIGS } from './chainRegistry';
+import { parseWatchOnlySource, deriveWatchOnlyAddress } from './descriptors';
+import { DEFAULT_GAP_LIMIT } from './accountDiscovery';
 
 export interface WatchedAddress {
   id: string;
@@ -12,6 +16,22 @@ export interface WatchedAddress {
   alertThreshold?: number; // Percentage change to trigger alert
   checkInterval?: number; // Minutes between checks
   createdAt: Date;
+  account?: WatchedAccount; // Set for xpub/descriptor accounts; `address` then holds the descriptor
+}
+
+export interface WatchedAccount {
+  descriptor: string;
+  scriptType: BitcoinScriptType;
+  gapLimit: number;
+  addresses: WatchedAccountAddress[]; // Used addresses plus the next fresh one per branch
+}
+
+export interface WatchedAccountAddress {
+  address: string;
+  branch: number; // 0 = receive, 1 = change for extended keys
+  index: number;
+  balance: string;
+  txCount: number;
 }
 
 export interface BalanceHistory {
@@ -42,7 +62,8 @@ export class WalletWatcherService {
   private static watchedAddresses: Map<string, WatchedAddress> = new Map();
   private static balanceHistory: Map<string, BalanceHistory[]> = new Map();
   private static alerts: BalanceAlert[] = [];
-  private static checkIntervals: Map<string, NodeJS.Timeout> = new Map();
+  // One timer per check interval (minutes); each checks its addresses together
+  private static checkTimers: Map<number, NodeJS.Timeout> = new Map();
   private static alertCallbacks: ((alert: BalanceAlert) => void)[] = [];
 
   /**
@@ -82,35 +103,109 @@ export class WalletWatcherService {
   }
 
   /**
-   * Start periodic balance checking for an address
+   * Watch every address of an account given as an extended public key
+   * (xpub/ypub/zpub/...) or an output descriptor. Throws if the input does
+   * not parse for the chain.
+   */
+  static addWatchAccount(
+    input: string,
+    chain: string,
+    options?: {
+      name?: string;
+      alertThreshold?: number;
+      checkInterval?: number;
+      gapLimit?: number;
+      scriptType?: BitcoinScriptType;
+    }
+  ): WatchedAddress {
+    const source = parseWatchOnlySource(input, chain, options?.scriptType);
+    const id = `${chain}-account-${source.descriptor.split('#')[1]}`;
+    
+    const watchedAccount: WatchedAddress = {
+      id,
+      address: source.descriptor,
+      chain,
+      name: options?.name,
+      isWatchOnly: true,
+      alertThreshold: options?.alertThreshold || 5,
+      checkInterval: options?.checkInterval || 15,
+      createdAt: new Date(),
+      account: {
+        descriptor: source.descriptor,
+        scriptType: source.scriptType,
+        gapLimit: options?.gapLimit || DEFAULT_GAP_LIMIT,
+        addresses: [],
+      },
+    };
+
+    this.watchedAddresses.set(id, watchedAccount);
+    this.startPeriodicCheck(watchedAccount);
+    this.checkBalance(watchedAccount);
+    
+    return watchedAccount;
+  }
+
+  /**
+   * Start periodic balance checking for an address. Addresses sharing a
+   * check interval share its timer, so their balances are read in bulk.
    */
   private static startPeriodicCheck(address: WatchedAddress) {
-    // Clear existing interval if any
-    const existingInterval = this.checkIntervals.get(address.id);
-    if (existingInterval) {
-      clearInterval(existingInterval);
+    const minutes = address.checkInterval || 15;
+
+    if (!this.checkTimers.has(minutes)) {
+      const timer = setInterval(
+        () => this.checkBalances(this.getWatchedAddresses().filter(watched => (watched.checkInterval || 15) === minutes)),
+        minutes * 60 * 1000
+      );
+      this.checkTimers.set(minutes, timer);
     }
 
-    // Set new interval
-    const interval = setInterval(
-      () => this.checkBalance(address),
-      (address.checkInterval || 15) * 60 * 1000 // Convert minutes to ms
-    );
+    this.stopIdleChecks();
+  }
 
-    this.checkIntervals.set(address.id, interval);
+  // Clear the timers of intervals no address uses anymore
+  private static stopIdleChecks() {
+    const inUse = new Set(this.getWatchedAddresses().map(watched => watched.checkInterval || 15));
+    for (const [minutes, timer] of this.checkTimers) {
+      if (!inUse.has(minutes)) {
+        clearInterval(timer);
+        this.checkTimers.delete(minutes);
+      }
+    }
   }
 
   /**
    * Check balance for a watched address
    */
   static async checkBalance(address: WatchedAddress): Promise<BalanceResult | null> {
+    const [result] = await this.checkBalances([address]);
+    return result;
+  }
+
+  /**
+   * Check the balances of several watched addresses, in order; null where a
+   * check failed. Plain addresses are read in one bulk lookup.
+   */
+  static async checkBalances(addresses: WatchedAddress[]): Promise<(BalanceResult | null)[]> {
+    const plain = addresses.filter(address => !address.account);
+    const balances = BalanceEngine.getBalances(plain.map(({ chain, address }) => ({ chain, address })));
+
+    return Promise.all(addresses.map(address => this.recordBalance(address, balances.then(results => results[plain.indexOf(address)]))));
+  }
+
+  // Check one address and record the result in its history and alerts
+  private static async recordBalance(address: WatchedAddress, plainBalance: Promise<BalanceResult>): Promise<BalanceResult | null> {
     try {
       console.log(`Checking balance for ${address.name || address.address} on ${address.chain}`);
       
-      const result = await BalanceChecker.checkBalance(
-        address.chain,
-        address.address
-      );
+      const result = address.account
+        ? await this.checkAccountBalance(address)
+        : await plainBalance;
+
+      // A failed lookup reports 0, which must not reach the history or alerts
+      if (result.error) {
+        throw new Error(result.error);
+      }
 
       // Update last checked info
       address.lastBalance = result.balance;
@@ -130,6 +225,68 @@ export class WalletWatcherService {
     }
   }
 
+  /**
+   * Scan each branch of a watch-only account until `gapLimit` unused
+   * addresses in a row, and sum the balances of the used ones
+   */
+  private static async checkAccountBalance(watched: WatchedAddress): Promise<BalanceResult> {
+    const account = watched.account!;
+    const source = parseWatchOnlySource(account.descriptor, watched.chain);
+    const addresses: WatchedAccountAddress[] = [];
+    let total = 0n;
+    let usdValue = 0;
+
+    for (let branch = 0; branch < source.branches.length; branch++) {
+      let fresh: WatchedAccountAddress | null = null;
+      const gapLimit = source.ranged ? account.gapLimit : 1;
+
+      // Each batch holds just the addresses the gap limit still asks for
+      for (let index = 0, gap = 0; gap < gapLimit;) {
+        const batch = Array.from({ length: gapLimit - gap }, (_, i) => deriveWatchOnlyAddress(source, branch, index + i));
+        const txCounts = await Promise.all(batch.map(address => BalanceEngine.getTransactionCount(watched.chain, address)));
+
+        for (const [i, address] of batch.entries()) {
+          const txCount = txCounts[i] ?? 0;
+          if (txCount === 0) {
+            fresh = fresh || { address, branch, index: index + i, balance: '0', txCount };
+            gap++;
+          } else {
+            addresses.push({ address, branch, index: index + i, balance: '0', txCount });
+            fresh = null;
+            gap = 0;
+          }
+        }
+        index += batch.length;
+      }
+
+      if (fresh) addresses.push(fresh);
+    }
+
+    // Balances of every used address in one bulk lookup
+    const used = addresses.filter(entry => entry.txCount > 0);
+    const balances = await BalanceEngine.getBalances(used.map(({ address }) => ({ chain: watched.chain, address })));
+    for (const [i, balance] of balances.entries()) {
+      if (balance.error) {
+        throw new Error(balance.error);
+      }
+      used[i].balance = balance.balance;
+      total += BigInt(balance.balance);
+      usdValue += balance.usdValue || 0;
+    }
+
+    account.addresses = addresses;
+
+    return {
+      chain: watched.chain,
+      address: watched.address,
+      balance: total.toString(),
+      formattedBalance: (Number(total) / 1e8).toFixed(8),
+      symbol: CHAIN_CONFIGS[watched.chain].symbol,
+      usdValue,
+      lastChecked: new Date(),
+    };
+  }
+
   /**
    * Add balance result to history
    */
@@ -275,15 +432,9 @@ export class WalletWatcherService {
    * Remove watched address
    */
   static removeWatchedAddress(addressId: string) {
-    // Clear interval
-    const interval = this.checkIntervals.get(addressId);
-    if (interval) {
-      clearInterval(interval);
-      this.checkIntervals.delete(addressId);
-    }
-
     // Remove from watched list
     this.watchedAddresses.delete(addressId);
+    this.stopIdleChecks();
     
     // Clear history
     this.balanceHistory.delete(addressId);
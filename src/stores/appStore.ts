@@ -1,14 +1,65 @@
 import { create } from 'zustand';
-import { DerivedWallet } from '../services/walletDerivation';
+import { DerivedWallet, BitcoinScriptType } from '../services/walletDerivation';
 import { electronAPI } from '../utils/electron';
+import { CustomChain, setCustomChains } from '../services/chainRegistry';
+import { RpcNode, RpcNodeInput } from '../services/rpcNodes';
+import { RpcManager } from '../services/rpcManager';
 
-interface Wallet extends DerivedWallet {
+// Secrets stay in the main process; the renderer fetches them on demand via revealSecret
+export interface Wallet extends Omit<DerivedWallet, 'privateKey' | 'masterKey'> {
   id?: number;
+  seedId?: number | null;
+  hasMasterKey?: boolean;
   balance?: string;
   usdValue?: number;
   lastChecked?: Date;
 }
 
+export type SecretField = 'privateKey' | 'mnemonic' | 'masterKey';
+
+export interface RevealSecretResult {
+  success: boolean;
+  value?: string;
+  error?: string;
+  requiresPassword?: boolean;
+}
+
+export interface Seed {
+  id: number;
+  fingerprint: string;
+  label: string | null;
+  hasPassphrase: boolean;
+  createdAt: string;
+  walletCount: number;
+}
+
+// Custom derivation path templates saved for the current identity
+export interface SavedPathTemplate {
+  id: number;
+  chain: string;
+  name: string;
+  template: string;
+  scriptType?: BitcoinScriptType;
+  createdAt: string;
+}
+
+export interface SavePathTemplateResult {
+  success: boolean;
+  id?: number;
+  error?: string;
+}
+
+export interface CustomChainResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface RpcNodeResult {
+  success: boolean;
+  id?: number;
+  error?: string;
+}
+
 interface Identity {
   id: string;
   name: string;
@@ -28,6 +79,9 @@ interface AppState {
   
   // Wallet state
   wallets: Wallet[];
+  seeds: Seed[];
+  pathTemplates: SavedPathTemplate[];
+  customChains: CustomChain[];
   selectedWallet: Wallet | null;
   isLoading: boolean;
   
@@ -35,8 +89,8 @@ interface AppState {
   mnemonics: string[];
   currentMnemonic: string;
   
-  // RPC nodes
-  rpcNodes: Record<string, string[]>;
+  // RPC nodes the user added; the registry supplies each chain's public ones
+  rpcNodes: RpcNode[];
   
   // Actions
   initialize: () => void;
@@ -45,6 +99,10 @@ interface AppState {
   
   // Identity actions
   loadWallets: () => Promise<void>;
+  loadSeeds: () => Promise<void>;
+  loadPathTemplates: () => Promise<void>;
+  loadCustomChains: () => Promise<void>;
+  loadRpcNodes: () => Promise<void>;
   setCurrentIdentity: (identity: Identity | null) => void;
   
   // Wallet actions
@@ -56,6 +114,12 @@ interface AppState {
   clearWallets: () => void;
   clearInvalidWallets: () => Promise<number>;
   clearAllData: () => Promise<boolean>;
+  revealSecret: (walletId: number, field: SecretField, password?: string) => Promise<RevealSecretResult>;
+  renameSeed: (seedId: number, label: string) => Promise<boolean>;
+  savePathTemplate: (template: Omit<SavedPathTemplate, 'id' | 'createdAt'>) => Promise<SavePathTemplateResult>;
+  deletePathTemplate: (templateId: number) => Promise<boolean>;
+  saveCustomChain: (chain: CustomChain, replace?: boolean) => Promise<CustomChainResult>;
+  deleteCustomChain: (chainId: number) => Promise<CustomChainResult>;
   
   // Mnemonic actions
   setCurrentMnemonic: (mnemonic: string) => void;
@@ -63,8 +127,9 @@ interface AppState {
   clearMnemonics: () => void;
   
   // RPC actions
-  addRpcNode: (chain: string, url: string) => void;
-  removeRpcNode: (chain: string, url: string) => void;
+  addRpcNode: (node: RpcNodeInput) => Promise<RpcNodeResult>;
+  updateRpcNode: (nodeId: number, node: RpcNodeInput) => Promise<RpcNodeResult>;
+  deleteRpcNode: (nodeId: number) => Promise<boolean>;
 }
 
 export const useStore = create<AppState>((set, get) => ({
@@ -73,18 +138,14 @@ export const useStore = create<AppState>((set, get) => ({
   isInitialized: false,
   currentIdentity: null,
   wallets: [],
+  seeds: [],
+  pathTemplates: [],
+  customChains: [],
   selectedWallet: null,
   isLoading: false,
   mnemonics: [],
   currentMnemonic: '',
-  rpcNodes: {
-    ETH: ['https://mainnet.infura.io/v3/YOUR_KEY', 'https://eth.llamarpc.com'],
-    BSC: ['https://bsc-dataseed.binance.org/', 'https://bsc-dataseed1.binance.org/'],
-    POLYGON: ['https://polygon-rpc.com/', 'https://rpc-mainnet.maticvigil.com/'],
-    AVALANCHE: ['https://api.avax.network/ext/bc/C/rpc', 'https://rpc.ankr.com/avalanche'],
-    ARBITRUM: ['https://arb1.arbitrum.io/rpc', 'https://rpc.ankr.com/arbitrum'],
-    OPTIMISM: ['https://mainnet.optimism.io', 'https://rpc.ankr.com/optimism'],
-  },
+  rpcNodes: [],
   
   // Actions
   initialize: () => {
@@ -111,10 +172,16 @@ export const useStore = create<AppState>((set, get) => ({
   },
   
   logout: () => {
+    setCustomChains([]);
+    RpcManager.setUserNodes([]);
     set({
       isAuthenticated: false,
       currentIdentity: null,
       wallets: [],
+      seeds: [],
+      pathTemplates: [],
+      customChains: [],
+      rpcNodes: [],
       selectedWallet: null,
       mnemonics: [],
       currentMnemonic: '',
@@ -123,20 +190,68 @@ export const useStore = create<AppState>((set, get) => ({
   
   loadWallets: async () => {
     try {
+      // Wallets on the identity's own networks need them in the chain registry
+      await get().loadCustomChains();
       const wallets = await electronAPI.getWallets();
       set({ wallets });
+      await get().loadSeeds();
+      await get().loadPathTemplates();
+      await get().loadRpcNodes();
     } catch (error) {
       console.error('Load wallets error:', error);
     }
   },
   
+  loadSeeds: async () => {
+    try {
+      const seeds = await electronAPI.getSeeds();
+      set({ seeds });
+    } catch (error) {
+      console.error('Load seeds error:', error);
+    }
+  },
+  
+  loadPathTemplates: async () => {
+    try {
+      const pathTemplates = await electronAPI.getPathTemplates();
+      set({ pathTemplates });
+    } catch (error) {
+      console.error('Load path templates error:', error);
+    }
+  },
+  
+  loadCustomChains: async () => {
+    try {
+      const customChains: CustomChain[] = await electronAPI.getCustomChains();
+      setCustomChains(customChains);
+      set({ customChains });
+    } catch (error) {
+      console.error('Load custom chains error:', error);
+    }
+  },
+  
+  loadRpcNodes: async () => {
+    try {
+      const rpcNodes: RpcNode[] = await electronAPI.getRpcNodes();
+      RpcManager.setUserNodes(rpcNodes);
+      set({ rpcNodes });
+    } catch (error) {
+      console.error('Load RPC nodes error:', error);
+    }
+  },
+  
   setCurrentIdentity: (identity: Identity | null) => {
     set({ currentIdentity: identity });
   },
   
   addWallets: (wallets: Wallet[]) => {
+    // Freshly derived wallets still carry their secrets - keep only public data in the store
+    const publicWallets = wallets.map(({ privateKey, masterKey, ...wallet }: Wallet & Partial<DerivedWallet>) => ({
+      ...wallet,
+      hasMasterKey: wallet.hasMasterKey ?? Boolean(masterKey),
+    }));
     set((state) => ({
-      wallets: [...state.wallets, ...wallets],
+      wallets: [...state.wallets, ...publicWallets],
     }));
   },
   
@@ -163,6 +278,7 @@ export const useStore = create<AppState>((set, get) => ({
           wallets: state.wallets.filter(w => w.id !== walletId),
           selectedWallet: state.selectedWallet?.id === walletId ? null : state.selectedWallet
         }));
+        await get().loadSeeds();
         return true;
       }
       return false;
@@ -181,6 +297,7 @@ export const useStore = create<AppState>((set, get) => ({
           wallets: state.wallets.filter(w => !walletIds.includes(w.id!)),
           selectedWallet: walletIds.includes(state.selectedWallet?.id!) ? null : state.selectedWallet
         }));
+        await get().loadSeeds();
         return true;
       }
       return false;
@@ -191,7 +308,7 @@ export const useStore = create<AppState>((set, get) => ({
   },
   
   clearWallets: () => {
-    set({ wallets: [], selectedWallet: null });
+    set({ wallets: [], seeds: [], selectedWallet: null });
   },
 
   clearInvalidWallets: async () => {
@@ -213,8 +330,14 @@ export const useStore = create<AppState>((set, get) => ({
     try {
       const success = await electronAPI.clearAllData();
       if (success) {
+        setCustomChains([]);
+        RpcManager.setUserNodes([]);
         set({ 
           wallets: [], 
+          seeds: [],
+          pathTemplates: [],
+          customChains: [],
+          rpcNodes: [],
           selectedWallet: null,
           isAuthenticated: false,
           mnemonics: [],
@@ -227,6 +350,86 @@ export const useStore = create<AppState>((set, get) => ({
       return false;
     }
   },
+
+  revealSecret: async (walletId: number, field: SecretField, password?: string) => {
+    try {
+      return await electronAPI.revealSecret(walletId, field, password);
+    } catch (error: any) {
+      console.error('Reveal secret error:', error);
+      return { success: false, error: error.message || 'Failed to reveal secret' };
+    }
+  },
+
+  renameSeed: async (seedId: number, label: string) => {
+    try {
+      const success = await electronAPI.renameSeed(seedId, label);
+      if (success) {
+        set((state) => ({
+          seeds: state.seeds.map((seed) =>
+            seed.id === seedId ? { ...seed, label: label.trim() || null } : seed
+          ),
+        }));
+      }
+      return success;
+    } catch (error) {
+      console.error('Rename seed error:', error);
+      return false;
+    }
+  },
+
+  savePathTemplate: async (template) => {
+    try {
+      const result = await electronAPI.savePathTemplate(template);
+      if (result.success) {
+        await get().loadPathTemplates();
+      }
+      return result;
+    } catch (error: any) {
+      console.error('Save path template error:', error);
+      return { success: false, error: error.message || 'Failed to save path template' };
+    }
+  },
+
+  deletePathTemplate: async (templateId: number) => {
+    try {
+      const success = await electronAPI.deletePathTemplate(templateId);
+      if (success) {
+        set((state) => ({
+          pathTemplates: state.pathTemplates.filter(t => t.id !== templateId),
+        }));
+      }
+      return success;
+    } catch (error) {
+      console.error('Delete path template error:', error);
+      return false;
+    }
+  },
+  
+  saveCustomChain: async (chain: CustomChain, replace = false) => {
+    try {
+      const result = await electronAPI.saveCustomChain(chain, replace);
+      if (result.success) {
+        await get().loadCustomChains();
+      }
+      return result;
+    } catch (error: any) {
+      console.error('Save custom chain error:', error);
+      return { success: false, error: error.message || 'Failed to save network' };
+    }
+  },
+
+  deleteCustomChain: async (chainId: number) => {
+    try {
+      const result = await electronAPI.deleteCustomChain(chainId);
+      if (result.success) {
+        await get().loadCustomChains();
+      }
+      return result;
+    } catch (error: any) {
+      console.error('Delete custom chain error:', error);
+      return { success: false, error: error.message || 'Failed to delete network' };
+    }
+  },
   
   setCurrentMnemonic: (mnemonic: string) => {
     set({ currentMnemonic: mnemonic });
@@ -242,21 +445,42 @@ export const useStore = create<AppState>((set, get) => ({
     set({ mnemonics: [], currentMnemonic: '' });
   },
   
-  addRpcNode: (chain: string, url: string) => {
-    set((state) => ({
-      rpcNodes: {
-        ...state.rpcNodes,
-        [chain]: [...(state.rpcNodes[chain] || []), url],
-      },
-    }));
+  addRpcNode: async (node: RpcNodeInput) => {
+    try {
+      const result = await electronAPI.addRpcNode(node);
+      if (result.success) {
+        await get().loadRpcNodes();
+      }
+      return result;
+    } catch (error: any) {
+      console.error('Add RPC node error:', error);
+      return { success: false, error: error.message || 'Failed to add RPC node' };
+    }
   },
   
-  removeRpcNode: (chain: string, url: string) => {
-    set((state) => ({
-      rpcNodes: {
-        ...state.rpcNodes,
-        [chain]: (state.rpcNodes[chain] || []).filter((u) => u !== url),
-      },
-    }));
+  updateRpcNode: async (nodeId: number, node: RpcNodeInput) => {
+    try {
+      const result = await electronAPI.updateRpcNode(nodeId, node);
+      if (result.success) {
+        await get().loadRpcNodes();
+      }
+      return result;
+    } catch (error: any) {
+      console.error('Update RPC node error:', error);
+      return { success: false, error: error.message || 'Failed to update RPC node' };
+    }
+  },
+  
+  deleteRpcNode: async (nodeId: number) => {
+    try {
+      const success = await electronAPI.deleteRpcNode(nodeId);
+      if (success) {
+        await get().loadRpcNodes();
+      }
+      return success;
+    } catch (error) {
+      console.error('Delete RPC node error:', error);
+      return false;
+    }
   },
 }));
\ No newline at end of file
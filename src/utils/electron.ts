@@ -1,3 +1,8 @@
+import { validatePathTemplate } from '../services/pathTemplates';
+import { validateCustomChain, normalizeCustomChain } from '../services/customChains';
+import { getCustomChainKey } from '../services/chainRegistry';
+import { validateRpcNode, normalizeRpcNode } from '../services/rpcNodes';
+
 // Check if running in Electron
 export const isElectron = () => {
   // @ts-ignore
@@ -6,6 +11,7 @@ export const isElectron = () => {
 
 // Mock storage for browser mode
 class BrowserStorage {
+  private lastUnlockAt = 0;
 
   async initDatabase(password: string) {
     localStorage.setItem('nexus_initialized', 'true');
@@ -30,6 +36,7 @@ class BrowserStorage {
     try {
       const decoded = atob(storedPassword);
       if (decoded === password) {
+        this.lastUnlockAt = Date.now();
         return true;
       }
     } catch (e) {
@@ -39,6 +46,159 @@ class BrowserStorage {
     return false;
   }
 
+  async changePassword(oldPassword: string, newPassword: string) {
+    if (!(await this.verifyPassword(oldPassword))) {
+      return { success: false, error: 'Invalid password' };
+    }
+    localStorage.setItem('nexus_password', btoa(newPassword));
+    return { success: true };
+  }
+
+  async storeSeed(seedData: any) {
+    const seeds = JSON.parse(localStorage.getItem('nexus_seeds') || '[]');
+    const mnemonic = seedData.mnemonic.trim();
+    const existing = seeds.find((s: any) => s.fingerprint === seedData.fingerprint && s.mnemonic === mnemonic);
+    if (existing) return { success: true, id: existing.id };
+
+    const seed = {
+      id: Date.now(),
+      fingerprint: seedData.fingerprint,
+      label: seedData.label || null,
+      mnemonic,
+      hasPassphrase: Boolean(seedData.hasPassphrase),
+      createdAt: new Date().toISOString(),
+    };
+    seeds.push(seed);
+    localStorage.setItem('nexus_seeds', JSON.stringify(seeds));
+    return { success: true, id: seed.id };
+  }
+
+  async pruneOrphanSeeds() {
+    const seeds = JSON.parse(localStorage.getItem('nexus_seeds') || '[]');
+    const wallets = JSON.parse(localStorage.getItem('nexus_wallets') || '[]');
+    const used = new Set(wallets.map((w: any) => w.seedId));
+    localStorage.setItem('nexus_seeds', JSON.stringify(seeds.filter((s: any) => used.has(s.id))));
+    return true;
+  }
+
+  async getSeeds() {
+    const seeds = JSON.parse(localStorage.getItem('nexus_seeds') || '[]');
+    const wallets = JSON.parse(localStorage.getItem('nexus_wallets') || '[]');
+    return seeds.map(({ mnemonic, ...seed }: any) => ({
+      ...seed,
+      walletCount: wallets.filter((w: any) => w.seedId === seed.id).length,
+    }));
+  }
+
+  async renameSeed(seedId: number, label: string) {
+    const seeds = JSON.parse(localStorage.getItem('nexus_seeds') || '[]');
+    const seed = seeds.find((s: any) => s.id === seedId);
+    if (!seed) return false;
+    seed.label = label.trim() || null;
+    localStorage.setItem('nexus_seeds', JSON.stringify(seeds));
+    return true;
+  }
+
+  async savePathTemplate(templateData: any) {
+    const invalid = validatePathTemplate(templateData.template, templateData.chain);
+    if (invalid) return { success: false, error: invalid };
+
+    const templates = JSON.parse(localStorage.getItem('nexus_path_templates') || '[]');
+    const template = templateData.template.trim();
+    const existing = templates.find((t: any) => t.chain === templateData.chain && t.template === template);
+    const entry = existing || { id: Date.now(), chain: templateData.chain, template, createdAt: new Date().toISOString() };
+    entry.name = templateData.name.trim() || template;
+    entry.scriptType = templateData.scriptType || undefined;
+
+    if (!existing) templates.push(entry);
+    localStorage.setItem('nexus_path_templates', JSON.stringify(templates));
+    return { success: true, id: entry.id };
+  }
+
+  async getPathTemplates(chain?: string) {
+    const templates = JSON.parse(localStorage.getItem('nexus_path_templates') || '[]');
+    return chain ? templates.filter((t: any) => t.chain === chain) : templates;
+  }
+
+  async deletePathTemplate(templateId: number) {
+    const templates = JSON.parse(localStorage.getItem('nexus_path_templates') || '[]');
+    localStorage.setItem('nexus_path_templates', JSON.stringify(templates.filter((t: any) => t.id !== templateId)));
+    return true;
+  }
+
+  async saveCustomChain(chainData: any, replace = false) {
+    const chain = normalizeCustomChain(chainData);
+    const invalid = validateCustomChain(chain);
+    if (invalid) return { success: false, error: invalid };
+
+    const chains = JSON.parse(localStorage.getItem('nexus_custom_chains') || '[]');
+    const index = chains.findIndex((c: any) => c.chainId === chain.chainId);
+    if (index >= 0 && !replace) {
+      return { success: false, error: `Chain id ${chain.chainId} is already saved as ${chains[index].name}` };
+    }
+    if (index >= 0) chains[index] = chain;
+    else chains.push(chain);
+    localStorage.setItem('nexus_custom_chains', JSON.stringify(chains));
+    return { success: true };
+  }
+
+  async getCustomChains() {
+    return JSON.parse(localStorage.getItem('nexus_custom_chains') || '[]');
+  }
+
+  async deleteCustomChain(chainId: number) {
+    const wallets = JSON.parse(localStorage.getItem('nexus_wallets') || '[]');
+    const count = wallets.filter((w: any) => w.chain === getCustomChainKey(chainId)).length;
+    if (count > 0) return { success: false, error: `Delete the ${count} wallet(s) on this network first` };
+
+    const chains = JSON.parse(localStorage.getItem('nexus_custom_chains') || '[]');
+    localStorage.setItem('nexus_custom_chains', JSON.stringify(chains.filter((c: any) => c.chainId !== chainId)));
+    return { success: true };
+  }
+
+  async addRpcNode(nodeData: any) {
+    const node = normalizeRpcNode(nodeData);
+    const invalid = validateRpcNode(node);
+    if (invalid) return { success: false, error: invalid };
+
+    const nodes = JSON.parse(localStorage.getItem('nexus_rpc_nodes') || '[]');
+    if (nodes.some((n: any) => n.chain === node.chain && n.url === node.url)) {
+      return { success: false, error: `This node is already added for ${node.chain}` };
+    }
+    const entry = { ...node, id: Date.now() };
+    nodes.push(entry);
+    localStorage.setItem('nexus_rpc_nodes', JSON.stringify(nodes));
+    return { success: true, id: entry.id };
+  }
+
+  async updateRpcNode(nodeId: number, nodeData: any) {
+    const node = normalizeRpcNode(nodeData);
+    const invalid = validateRpcNode(node);
+    if (invalid) return { success: false, error: invalid };
+
+    const nodes = JSON.parse(localStorage.getItem('nexus_rpc_nodes') || '[]');
+    if (nodes.some((n: any) => n.id !== nodeId && n.chain === node.chain && n.url === node.url)) {
+      return { success: false, error: `This node is already added for ${node.chain}` };
+    }
+    const index = nodes.findIndex((n: any) => n.id === nodeId);
+    if (index === -1) return { success: false, error: 'RPC node not found' };
+    nodes[index] = { ...node, id: nodeId };
+    localStorage.setItem('nexus_rpc_nodes', JSON.stringify(nodes));
+    return { success: true };
+  }
+
+  async getRpcNodes(chain?: string) {
+    const nodes = JSON.parse(localStorage.getItem('nexus_rpc_nodes') || '[]');
+    return (chain ? nodes.filter((n: any) => n.chain === chain) : nodes)
+      .sort((a: any, b: any) => b.priority - a.priority);
+  }
+
+  async deleteRpcNode(nodeId: number) {
+    const nodes = JSON.parse(localStorage.getItem('nexus_rpc_nodes') || '[]');
+    localStorage.setItem('nexus_rpc_nodes', JSON.stringify(nodes.filter((n: any) => n.id !== nodeId)));
+    return true;
+  }
+
   async storeWallet(walletData: any) {
     const wallets = JSON.parse(localStorage.getItem('nexus_wallets') || '[]');
     const newWallet = {
@@ -62,9 +222,11 @@ class BrowserStorage {
         address = w.publicKey; // Keep as fallback but this will trigger errors
       }
       
+      const { mnemonic, privateKey, masterKey, ...publicFields } = w;
       return {
-        ...w,
-        address
+        ...publicFields,
+        address,
+        hasMasterKey: Boolean(masterKey)
       };
     });
     
@@ -74,6 +236,28 @@ class BrowserStorage {
     return walletsWithAddress;
   }
 
+  async revealSecret(walletId: number, field: string, password?: string) {
+    if (password !== undefined) {
+      if (!(await this.verifyPassword(password))) {
+        return { success: false, error: 'Invalid password', requiresPassword: true };
+      }
+    } else if (Date.now() - this.lastUnlockAt > 2 * 60 * 1000) {
+      return { success: false, error: 'Password required', requiresPassword: true };
+    }
+
+    const wallets = JSON.parse(localStorage.getItem('nexus_wallets') || '[]');
+    const wallet = wallets.find((w: any) => w.id === walletId);
+    if (!wallet) return { success: false, error: 'Wallet not found' };
+
+    let value = wallet[field];
+    if (field === 'mnemonic' && wallet.seedId) {
+      const seeds = JSON.parse(localStorage.getItem('nexus_seeds') || '[]');
+      value = seeds.find((s: any) => s.id === wallet.seedId)?.mnemonic;
+    }
+    if (!value) return { success: false, error: 'This wallet has no stored value for that field' };
+    return { success: true, value };
+  }
+
   async updateBalance(walletId: number, balance: string) {
     const wallets = JSON.parse(localStorage.getItem('nexus_wallets') || '[]');
     const index = wallets.findIndex((w: any) => w.id === walletId);
@@ -85,13 +269,13 @@ class BrowserStorage {
     return { success: false };
   }
 
-  async exportWallet(walletId: number, _format: string) {
+  async exportWallet(walletId: number, _format: string, _password?: string) {
     const wallets = JSON.parse(localStorage.getItem('nexus_wallets') || '[]');
     const wallet = wallets.find((w: any) => w.id === walletId);
     if (wallet) {
-      return JSON.stringify(wallet, null, 2);
+      return { success: true, data: JSON.stringify(wallet, null, 2) };
     }
-    return null;
+    return { success: false, error: 'Wallet not found' };
   }
 
   async deleteWallet(walletId: number) {
@@ -129,7 +313,10 @@ class BrowserStorage {
 
   async clearAllData() {
     localStorage.removeItem('nexus_wallets');
+    localStorage.removeItem('nexus_seeds');
     localStorage.removeItem('nexus_rpc_nodes');
+    localStorage.removeItem('nexus_path_templates');
+    localStorage.removeItem('nexus_custom_chains');
     localStorage.removeItem('nexus_password');
     localStorage.removeItem('nexus_initialized');
     console.log('All localStorage data cleared');
@@ -5,17 +5,19 @@ import renderer from 'vite-plugin-electron-renderer';
 import { nodePolyfills } from 'vite-plugin-node-polyfills';
 import path from 'path';
 
+const polyfills = () => nodePolyfills({
+  globals: {
+    Buffer: true,
+    global: true,
+    process: true,
+  },
+  protocolImports: true,
+});
+
 export default defineConfig({
   plugins: [
     react(),
-    nodePolyfills({
-      globals: {
-        Buffer: true,
-        global: true,
-        process: true,
-      },
-      protocolImports: true,
-    }),
+    polyfills(),
     electron([
       {
         entry: 'electron/main.ts',
@@ -45,6 +47,11 @@ export default defineConfig({
     ]),
     renderer()
   ],
+  // Wallet derivation workers bundle the same crypto libraries as the window
+  worker: {
+    format: 'es',
+    plugins: () => [polyfills()]
+  },
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src')